@@ -0,0 +1,276 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側) と Webview の両方
+ * 何を: 列ごとの入力規則（数値の範囲・日付の書式・正規表現・選択肢・必須・重複不可）でセルの値を検査する
+ * なぜ: データファイルとして使うテーブルで、数値・日付・選択肢の列の入力ミスを早い段階で見つけるため
+ *
+ * 規則はテーブル直前の HTML コメントに、列見出しをキーとした JSON で記述する:
+ * `<!-- table-validation {"Age": {"type": "number", "min": 0}, "Status": {"type": "enum", "values": ["todo", "done"]}} -->`
+ * 拡張は編集要求の検査（不正な値は適用しない）、Webview はファイル上の不正な値の表示に利用する。
+ */
+
+import { ColumnValidationRule, TableValidationRules } from './communication/protocol';
+import { isFormulaCell } from './formulaEngine';
+
+export type { ColumnValidationRule, TableValidationRules };
+
+export const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+export type CellValidationIssueCode = 'required' | 'number' | 'min' | 'max' | 'date' | 'enum' | 'pattern' | 'unique';
+
+export interface CellValidationIssue {
+    code: CellValidationIssueCode;
+    expected?: string; // 範囲の境界・日付の書式・選択肢・正規表現など、メッセージに表示する期待値
+}
+
+export interface CellValidationFailure extends CellValidationIssue {
+    row: number;
+    col: number;
+    value: string;
+}
+
+/**
+ * Thrown when an edit would store values that break the column rules (nothing is applied)
+ */
+export class CellValidationError extends Error {
+    constructor(public readonly failures: CellValidationFailure[]) {
+        super(failures.map(failure => `Invalid value at row ${failure.row}, col ${failure.col}: ${describeValidationIssue(failure)}`).join('; '));
+        this.name = 'CellValidationError';
+    }
+}
+
+const COMMENT_PATTERN = /^\s*<!--\s*table-validation\b([\s\S]*?)-->\s*$/;
+
+/**
+ * Parse the rules of a `<!-- table-validation {...} -->` comment. Returns undefined for other HTML or invalid JSON.
+ */
+export function parseValidationComment(html: string): TableValidationRules | undefined {
+    const match = COMMENT_PATTERN.exec(html);
+    if (!match) {
+        return undefined;
+    }
+    try {
+        const parsed = JSON.parse(match[1].trim());
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            return undefined;
+        }
+        const rules: TableValidationRules = {};
+        Object.entries(parsed).forEach(([header, rule]) => {
+            const sanitized = sanitizeRule(rule);
+            if (sanitized) {
+                rules[header.trim()] = sanitized;
+            }
+        });
+        return Object.keys(rules).length > 0 ? rules : undefined;
+    } catch (error) {
+        console.warn('Invalid table-validation comment:', error);
+        return undefined;
+    }
+}
+
+// 型の合わない項目は無視する（手書きの JSON の誤りで他の規則まで無効にしない）
+function sanitizeRule(value: unknown): ColumnValidationRule | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+    }
+    const source = value as Record<string, unknown>;
+    const rule: ColumnValidationRule = {};
+    if (source.type === 'number' || source.type === 'date' || source.type === 'enum') {
+        rule.type = source.type;
+    }
+    if (typeof source.min === 'number') {
+        rule.min = source.min;
+    }
+    if (typeof source.max === 'number') {
+        rule.max = source.max;
+    }
+    if (typeof source.format === 'string' && source.format.trim()) {
+        rule.format = source.format.trim();
+    }
+    if (Array.isArray(source.values)) {
+        rule.values = source.values.filter((item): item is string => typeof item === 'string');
+    }
+    if (typeof source.pattern === 'string' && source.pattern) {
+        rule.pattern = source.pattern;
+    }
+    if (source.required === true) {
+        rule.required = true;
+    }
+    if (source.unique === true) {
+        rule.unique = true;
+    }
+    return Object.keys(rule).length > 0 ? rule : undefined;
+}
+
+/**
+ * Rules of each column, matched by the trimmed header text
+ */
+export function getColumnRules(headers: string[], rules?: TableValidationRules): Array<ColumnValidationRule | undefined> {
+    return headers.map(header => rules?.[header.trim()]);
+}
+
+/**
+ * Check a single value. `duplicate` tells whether another row of the column has the same value (unique rule).
+ * Formula cells are not checked because their values are calculated.
+ */
+export function validateCellValue(value: string, rule: ColumnValidationRule, duplicate: boolean = false): CellValidationIssue | null {
+    if (isFormulaCell(value)) {
+        return null;
+    }
+    const text = value.trim();
+    if (!text) {
+        return rule.required ? { code: 'required' } : null;
+    }
+
+    if (rule.type === 'number') {
+        const number = Number(text.replace(/,/g, ''));
+        if (!Number.isFinite(number)) {
+            return { code: 'number' };
+        }
+        if (rule.min !== undefined && number < rule.min) {
+            return { code: 'min', expected: String(rule.min) };
+        }
+        if (rule.max !== undefined && number > rule.max) {
+            return { code: 'max', expected: String(rule.max) };
+        }
+    } else if (rule.type === 'date') {
+        const format = rule.format ?? DEFAULT_DATE_FORMAT;
+        if (!matchesDateFormat(text, format)) {
+            return { code: 'date', expected: format };
+        }
+    } else if (rule.type === 'enum' && rule.values && !rule.values.includes(text)) {
+        return { code: 'enum', expected: rule.values.join(', ') };
+    }
+
+    if (rule.pattern) {
+        const pattern = compilePattern(rule.pattern);
+        if (pattern && !pattern.test(text)) {
+            return { code: 'pattern', expected: rule.pattern };
+        }
+    }
+    if (rule.unique && duplicate) {
+        return { code: 'unique' };
+    }
+    return null;
+}
+
+/**
+ * Check the cells of a table (all cells with a rule, or only the given cells)
+ */
+export function validateTable(
+    table: { headers: string[]; rows: string[][] },
+    rules: TableValidationRules | undefined,
+    cells?: Array<{ row: number; col: number }>
+): CellValidationFailure[] {
+    const columnRules = getColumnRules(table.headers, rules);
+    if (!columnRules.some(rule => rule)) {
+        return [];
+    }
+    const targets = cells ?? columnRules.flatMap((rule, col) => (rule ? table.rows.map((_, row) => ({ row, col })) : []));
+
+    // 重複の判定に使う列ごとの値の出現数（必要な列だけ数える）
+    const counts = new Map<number, Map<string, number>>();
+    const countValues = (col: number) => {
+        let columnCounts = counts.get(col);
+        if (!columnCounts) {
+            columnCounts = new Map();
+            for (const row of table.rows) {
+                const text = (row[col] ?? '').trim();
+                if (text) {
+                    columnCounts.set(text, (columnCounts.get(text) ?? 0) + 1);
+                }
+            }
+            counts.set(col, columnCounts);
+        }
+        return columnCounts;
+    };
+
+    const failures: CellValidationFailure[] = [];
+    for (const { row, col } of targets) {
+        const rule = columnRules[col];
+        if (!rule || row < 0 || row >= table.rows.length) {
+            continue;
+        }
+        const value = table.rows[row][col] ?? '';
+        const duplicate = rule.unique === true && (countValues(col).get(value.trim()) ?? 0) > 1;
+        const issue = validateCellValue(value, rule, duplicate);
+        if (issue) {
+            failures.push({ row, col, value, ...issue });
+        }
+    }
+    return failures;
+}
+
+/**
+ * English description of an issue (used in error messages of the extension)
+ */
+export function describeValidationIssue(issue: CellValidationIssue): string {
+    switch (issue.code) {
+        case 'required':
+            return 'a value is required';
+        case 'number':
+            return 'expected a number';
+        case 'min':
+            return `expected a number of at least ${issue.expected}`;
+        case 'max':
+            return `expected a number of at most ${issue.expected}`;
+        case 'date':
+            return `expected a date in the format ${issue.expected}`;
+        case 'enum':
+            return `expected one of: ${issue.expected}`;
+        case 'pattern':
+            return `expected a value matching ${issue.expected}`;
+        case 'unique':
+            return 'the value must be unique in the column';
+    }
+}
+
+const DATE_TOKENS: Record<string, string> = {
+    YYYY: '(\\d{4})',
+    MM: '(\\d{2})',
+    DD: '(\\d{2})',
+    HH: '(\\d{2})',
+    mm: '(\\d{2})',
+    ss: '(\\d{2})'
+};
+
+/**
+ * Whether the text is a real date in the given format (e.g. 2024-02-30 does not match YYYY-MM-DD)
+ */
+export function matchesDateFormat(text: string, format: string): boolean {
+    const order: string[] = [];
+    const source = format.replace(/YYYY|MM|DD|HH|mm|ss|[.*+?^${}()|[\]\\]/g, token => {
+        if (DATE_TOKENS[token]) {
+            order.push(token);
+            return DATE_TOKENS[token];
+        }
+        return `\\${token}`;
+    });
+    const match = new RegExp(`^${source}$`).exec(text);
+    if (!match) {
+        return false;
+    }
+    const parts: Record<string, number> = {};
+    order.forEach((token, index) => {
+        parts[token] = Number(match[index + 1]);
+    });
+    const year = parts.YYYY ?? 2000;
+    const month = parts.MM ?? 1;
+    const day = parts.DD ?? 1;
+    const daysInMonth = new Date(year, month, 0).getDate();
+    return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth &&
+        (parts.HH ?? 0) < 24 && (parts.mm ?? 0) < 60 && (parts.ss ?? 0) < 60;
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+// 正規表現はセル全体に一致させる（不正な正規表現は検査しない）
+function compilePattern(pattern: string): RegExp | null {
+    if (!patternCache.has(pattern)) {
+        try {
+            patternCache.set(pattern, new RegExp(`^(?:${pattern})$`));
+        } catch {
+            patternCache.set(pattern, null);
+        }
+    }
+    return patternCache.get(pattern) ?? null;
+}
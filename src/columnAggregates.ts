@@ -0,0 +1,96 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側) と Webview の両方
+ * 何を: 列の値の集計（合計・平均・件数・最小・最大）と選択範囲の集計
+ * なぜ: Webview の集計フッター・ステータスバーと、拡張側の列の統計で数値の解釈を揃えるため
+ *
+ * 値は表示値（数式セルは計算結果）を受け取る。
+ */
+
+import { AggregateFunction } from './communication/protocol';
+import { formatFormulaNumber } from './formulaEngine';
+
+export type { AggregateFunction };
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'count', 'min', 'max', 'none'];
+
+export interface SelectionStats {
+    sum: number;
+    average: number | null;
+    count: number;
+    numericCount: number;
+}
+
+/**
+ * Parse a cell value as a number (thousands separators allowed), or null when it is not numeric
+ */
+export function parseNumericValue(value: string): number | null {
+    const text = (value ?? '').replace(/<br\s*\/?>/gi, ' ').trim();
+    if (text === '') {
+        return null;
+    }
+    const numeric = Number(text.replace(/,/g, ''));
+    return isNaN(numeric) ? null : numeric;
+}
+
+/**
+ * A column is numeric when all of its non-empty values are numbers
+ */
+export function isNumericColumn(values: string[]): boolean {
+    let numericCount = 0;
+    for (const value of values) {
+        if ((value ?? '').trim() === '') {
+            continue;
+        }
+        if (parseNumericValue(value) === null) {
+            return false;
+        }
+        numericCount++;
+    }
+    return numericCount > 0;
+}
+
+export function getDefaultAggregate(values: string[]): AggregateFunction {
+    return isNumericColumn(values) ? 'sum' : 'none';
+}
+
+/**
+ * Aggregate the numeric values of a column (non-numeric values are ignored)
+ */
+export function computeAggregate(values: string[], fn: AggregateFunction): number | null {
+    if (fn === 'none') {
+        return null;
+    }
+    const numbers = values.map(parseNumericValue).filter((n): n is number => n !== null);
+
+    switch (fn) {
+        case 'sum':
+            return numbers.reduce((sum, n) => sum + n, 0);
+        case 'avg':
+            return numbers.length > 0 ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : null;
+        case 'count':
+            return numbers.length;
+        case 'min':
+            return numbers.length > 0 ? Math.min(...numbers) : null;
+        case 'max':
+            return numbers.length > 0 ? Math.max(...numbers) : null;
+    }
+}
+
+export function formatAggregateValue(value: number | null): string {
+    return value === null ? '' : formatFormulaNumber(value);
+}
+
+/**
+ * Selection statistics (Excel と同様: 件数は空でないセル数、合計・平均は数値セルのみ)
+ */
+export function computeSelectionStats(values: string[]): SelectionStats {
+    const nonEmpty = values.filter(value => (value ?? '').trim() !== '');
+    const numbers = nonEmpty.map(parseNumericValue).filter((n): n is number => n !== null);
+    const sum = numbers.reduce((acc, n) => acc + n, 0);
+    return {
+        sum,
+        average: numbers.length > 0 ? sum / numbers.length : null,
+        count: nonEmpty.length,
+        numericCount: numbers.length
+    };
+}
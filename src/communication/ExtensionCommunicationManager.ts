@@ -17,7 +17,12 @@ import {
   CommunicationConfig,
   DEFAULT_CONFIG,
   ErrorCode,
-  SyncStateData
+  SyncStateData,
+  RevealCellData,
+  TableConflictData,
+  TableDiffData,
+  TableHistoryData,
+  PatchTableData
 } from './protocol';
 
 interface PendingRequest {
@@ -28,11 +33,14 @@ interface PendingRequest {
   message: RequestMessage;
 }
 
+// 受信したメッセージ全体（documentVersion などのエンベロープ情報）も渡す
+type MessageHandler = (data: any, message: RequestMessage | NotificationMessage) => Promise<any>;
+
 export class ExtensionCommunicationManager {
   private panel: vscode.WebviewPanel;
   private pendingRequests: Map<string, PendingRequest> = new Map();
   private config: CommunicationConfig;
-  private messageHandlers: Map<string, (data: any) => Promise<any>> = new Map();
+  private messageHandlers: Map<string, MessageHandler> = new Map();
   private isConnected: boolean = false;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private syncInterval: NodeJS.Timeout | null = null;
@@ -123,7 +131,7 @@ export class ExtensionCommunicationManager {
     }
 
     try {
-      const result = await handler(message.data);
+      const result = await handler(message.data, message);
       this.sendResponse(message.id, true, result);
     } catch (error) {
       console.error('[ExtComm] Handler error:', error);
@@ -166,7 +174,7 @@ export class ExtensionCommunicationManager {
     const handler = this.messageHandlers.get(message.command);
     if (handler) {
       try {
-        await handler(message.data);
+        await handler(message.data, message);
       } catch (error) {
         console.error('[ExtComm] Notification handler error:', error);
       }
@@ -290,7 +298,7 @@ export class ExtensionCommunicationManager {
   /**
    * メッセージハンドラーの登録
    */
-  public registerHandler(command: string, handler: (data: any) => Promise<any>): void {
+  public registerHandler(command: string, handler: MessageHandler): void {
     this.messageHandlers.set(command, handler);
     console.log('[ExtComm] Registered handler for command:', command);
   }
@@ -379,6 +387,13 @@ export class ExtensionCommunicationManager {
     this.sendNotification(ExtensionCommand.UPDATE_TABLE_DATA, data);
   }
 
+  /**
+   * テーブルデータの差分更新の送信
+   */
+  public patchTableData(data: PatchTableData): void {
+    this.sendNotification(ExtensionCommand.PATCH_TABLE_DATA, data);
+  }
+
   /**
    * アクティブテーブル設定の送信
    */
@@ -386,6 +401,34 @@ export class ExtensionCommunicationManager {
     this.sendNotification(ExtensionCommand.SET_ACTIVE_TABLE, { index });
   }
 
+  /**
+   * セル選択（検索結果へのジャンプ）の送信
+   */
+  public revealCell(data: RevealCellData): void {
+    this.sendNotification(ExtensionCommand.REVEAL_CELL, data);
+  }
+
+  /**
+   * 編集の衝突（外部で変更されたテーブルへの編集）の送信
+   */
+  public sendTableConflict(data: TableConflictData): void {
+    this.sendNotification(ExtensionCommand.TABLE_CONFLICT, data);
+  }
+
+  /**
+   * 別バージョンとのテーブル差分の送信
+   */
+  public showTableDiff(data: TableDiffData): void {
+    this.sendNotification(ExtensionCommand.SHOW_TABLE_DIFF, data);
+  }
+
+  /**
+   * 元に戻す / やり直しの履歴の送信
+   */
+  public updateHistory(data: TableHistoryData): void {
+    this.sendNotification(ExtensionCommand.UPDATE_HISTORY, data);
+  }
+
   /**
    * テーマ変数適用の送信
    */
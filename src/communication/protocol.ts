@@ -23,6 +23,8 @@ export interface BaseProtocolMessage {
   type: MessageType;
   command: string;
   timestamp: number;
+  /** Webview -> Extension: version of the document the webview's table data came from */
+  documentVersion?: number;
 }
 
 // リクエストメッセージ
@@ -80,7 +82,12 @@ export enum ExtensionCommand {
   OPERATION_SUCCESS = 'operationSuccess',
   OPERATION_ERROR = 'operationError',
   PING = 'ping',
-  SYNC_STATE = 'syncState'
+  SYNC_STATE = 'syncState',
+  REVEAL_CELL = 'revealCell',
+  TABLE_CONFLICT = 'tableConflict',
+  SHOW_TABLE_DIFF = 'showTableDiff',
+  UPDATE_HISTORY = 'updateHistory',
+  PATCH_TABLE_DATA = 'patchTableData'
 }
 
 // コマンド定義（Webview -> Extension）
@@ -98,7 +105,19 @@ export enum WebviewCommand {
   MOVE_COLUMN = 'moveColumn',
   EXPORT_CSV = 'exportCSV',
   IMPORT_CSV = 'importCSV',
+  ADD_AGGREGATE_ROW = 'addAggregateRow',
+  SET_ALIGNMENT = 'setAlignment',
+  MERGE_CELLS = 'mergeCells',
+  UNMERGE_CELLS = 'unmergeCells',
+  SAVE_VIEW_STATE = 'saveViewState',
   SWITCH_TABLE = 'switchTable',
+  SEARCH_WORKSPACE = 'searchWorkspace',
+  OPEN_SEARCH_MATCH = 'openSearchMatch',
+  OPEN_LINK = 'openLink',
+  LIST_LINK_TARGETS = 'listLinkTargets',
+  REPLACE_IN_WORKSPACE = 'replaceInWorkspace',
+  RESOLVE_MERGE_CONFLICT = 'resolveMergeConflict',
+  JUMP_TO_HISTORY = 'jumpToHistory',
   REQUEST_THEME_VARIABLES = 'requestThemeVariables',
   UNDO = 'undo',
   REDO = 'redo',
@@ -118,6 +137,8 @@ export interface UpdateCellData {
 export interface BulkUpdateCellsData {
   updates: Array<{ row: number; col: number; value: string }>;
   tableIndex?: number;
+  /** Updates for other tables applied in the same undo step (e.g. replace all across sheets) */
+  additionalTables?: Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string }> }>;
 }
 
 export interface UpdateHeaderData {
@@ -149,9 +170,20 @@ export interface DeleteColumnsData {
   tableIndex?: number;
 }
 
+// ソートキーの比較方法（auto は列の内容から number / date / string を判定）
+export type SortValueType = 'auto' | 'string' | 'number' | 'date' | 'natural';
+
+export interface SortKeyData {
+  column: number;
+  direction: 'asc' | 'desc';
+  type?: SortValueType;
+}
+
 export interface SortData {
   column: number;
   direction: 'asc' | 'desc' | 'none';
+  // 複数キーでのソート（先頭が主キー）。指定時は column / direction より優先
+  keys?: SortKeyData[];
   tableIndex?: number;
 }
 
@@ -172,14 +204,271 @@ export interface ImportCSVData {
   tableIndex?: number;
 }
 
+export type ColumnAlignment = 'left' | 'center' | 'right' | 'default';
+
+export interface SetAlignmentData {
+  columns: number[];
+  alignment: ColumnAlignment; // 'default' は区切り線にコロンを付けない
+  tableIndex?: number;
+}
+
+// セルの結合（HTML テーブルの rowspan / colspan）。row は -1 が見出し行
+export interface CellSpan {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface MergeCellsData {
+  row: number; // 結合する範囲の左上のセル
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  tableIndex?: number;
+}
+
+export interface UnmergeCellsData {
+  row: number; // 結合したセルに含まれる任意のセル
+  col: number;
+  tableIndex?: number;
+}
+
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max' | 'none';
+
+export interface AddAggregateRowData {
+  functions: AggregateFunction[]; // 列ごとの集計方法（'none' の列は空セル）
+  tableIndex?: number;
+}
+
 export interface SwitchTableData {
   index: number;
 }
 
+// ワークスペース内の全 Markdown ファイルを対象とした検索・置換
+export interface WorkspaceSearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface SearchWorkspaceData {
+  searchText: string;
+  options: WorkspaceSearchOptions;
+}
+
+export interface WorkspaceSearchMatch {
+  uri: string;
+  fileName: string; // ワークスペースからの相対パス
+  tableIndex: number;
+  row: number;
+  col: number;
+  value: string; // 置換プレビュー用のセル値
+}
+
+export interface SearchWorkspaceResult {
+  matches: WorkspaceSearchMatch[];
+  truncated: boolean; // 上限件数で打ち切った場合 true
+}
+
+export interface OpenSearchMatchData {
+  uri: string;
+  tableIndex: number;
+  row: number;
+  col: number;
+}
+
+// セル内のリンク（http(s) / mailto は外部で、相対パスはドキュメントを基準に VS Code で開く）
+export interface OpenLinkData {
+  href: string;
+}
+
+// Markdown の見出し（slug はリンクのフラグメントに使う GitHub 形式の ID）
+export interface LinkTargetHeading {
+  text: string;
+  level: number;
+  slug: string;
+}
+
+export interface LinkTargetDocument {
+  path: string;
+  headings: LinkTargetHeading[];
+}
+
+// セル内のリンクの補完・リンク切れの確認に使う候補（パスはドキュメントのフォルダーからの相対パス）
+export interface LinkTargetsResult {
+  files: string[];
+  documents: LinkTargetDocument[]; // Markdown ファイルとその見出し（編集中のドキュメントを含む）
+  images: string[];
+  currentDocument: string; // 編集中のドキュメント（# だけのリンクの対象）
+  truncated: boolean; // 上限件数で打ち切った場合 true
+}
+
+// original は検索時のセル値。検索後にファイルが変更されたセルは置換しない
+export interface WorkspaceReplaceUpdate {
+  row: number;
+  col: number;
+  value: string;
+  original: string;
+}
+
+export interface ReplaceInWorkspaceData {
+  files: Array<{
+    uri: string;
+    tables: Array<{ tableIndex: number; updates: WorkspaceReplaceUpdate[] }>;
+  }>;
+}
+
+// 検索結果へのジャンプ時に、開いたパネルでセルを選択する
+export interface RevealCellData {
+  tableIndex: number;
+  row: number;
+  col: number;
+}
+
+// webview の編集が外部で変更されたテーブルに対するものだった場合に通知する
+export interface TableConflictData {
+  command: WebviewCommand;
+  tableIndex: number;
+  data: any; // 適用しなかった編集要求のデータ（そのまま再送できる）
+  currentValue?: string; // UPDATE_CELL / UPDATE_HEADER の場合、ドキュメント上の現在の値
+}
+
+// テーブルごとの表示状態（列幅・ビューソート・選択セル・ウィンドウ枠の固定）
+export interface TableViewState {
+  columnWidths: Record<number, number>;
+  sortState: { column: number; direction: 'asc' | 'desc' | 'none'; keys?: SortKeyData[] };
+  selectedCell: { row: number; col: number } | null;
+  frozen?: { rows: number; columns: number }; // 先頭から固定表示する行数・列数
+  showMarkdownSource?: boolean; // セルのインライン Markdown を描画せず記法のまま表示する
+}
+
+// ドキュメントごとの表示状態（キーはヘッダーのシグネチャ。テーブル位置の変化に強い）
+export interface PersistedViewState {
+  activeTableKey?: string;
+  tables: Record<string, TableViewState>;
+}
+
+export interface SaveViewStateData {
+  viewState: PersistedViewState;
+}
+
+// 列ごとの入力規則（テーブル直前の <!-- table-validation {...} --> コメントに列見出しをキーとして記述）
+export interface ColumnValidationRule {
+  type?: 'number' | 'date' | 'enum';
+  min?: number; // number
+  max?: number; // number
+  format?: string; // date（YYYY / MM / DD / HH / mm / ss、既定は YYYY-MM-DD）
+  values?: string[]; // enum の選択肢
+  pattern?: string; // セル全体が一致する正規表現
+  required?: boolean;
+  unique?: boolean;
+}
+
+export type TableValidationRules = Record<string, ColumnValidationRule>;
+
 export interface TableData {
   headers: string[];
   rows: string[][];
   alignment?: string[];
+  separatorLine?: string; // 元の区切り線（'default' 配置の判定に使用）
+  validationRules?: TableValidationRules;
+  spans?: CellSpan[]; // 結合したセル（あれば HTML の <table> として保存する）
+}
+
+// Git のコンフリクトマーカーを含むテーブル（ours / theirs と、diff3 形式なら base のバージョン）
+export interface TableMergeConflict {
+  startLine: number; // マーカーを含むテーブル全体の範囲（0 始まり、endLine を含む）
+  endLine: number;
+  oursLabel: string;
+  theirsLabel: string;
+  ours: TableData;
+  theirs: TableData;
+  base?: TableData;
+}
+
+export interface ResolveMergeConflictData {
+  startLine: number;
+  endLine: number;
+  table: TableData; // 解決後のテーブル
+}
+
+// テーブルの差分（比較元 = base、比較先 = current。changed は見出し・セルの変更）
+export type TableDiffStatus = 'unchanged' | 'added' | 'removed' | 'changed';
+
+export interface TableDiffColumn {
+  status: TableDiffStatus;
+  baseIndex: number | null;
+  currentIndex: number | null;
+  previousHeader?: string; // 見出しが変更された列の比較元の見出し
+}
+
+export interface TableDiffRow {
+  status: TableDiffStatus;
+  baseRow: number | null;
+  currentRow: number | null;
+  cells: string[]; // 表示する値（削除された行・列は比較元の値）
+  previous: Array<string | null>; // 変更されたセルの比較元の値（変更なしは null）
+}
+
+export interface TableDiffResult {
+  headers: string[];
+  columns: TableDiffColumn[];
+  rows: TableDiffRow[];
+  keyColumn?: string; // 行の対応付けに使ったキー列（未指定なら内容の類似度）
+}
+
+// カーソル位置のテーブルと、別のバージョン（Git のリビジョンや別ファイル）との差分を表示する
+export interface TableDiffData {
+  tableIndex: number;
+  baseLabel: string;
+  diff: TableDiffResult;
+}
+
+// 元に戻す / やり直しの履歴（古い順。position 件目までが適用済みで、それ以降はやり直せる操作）
+export interface TableHistoryEntry {
+  id: number;
+  description: string;
+  timestamp: number;
+}
+
+export interface TableHistoryData {
+  entries: TableHistoryEntry[];
+  position: number;
+  native?: boolean; // カスタムエディターでは VS Code の元に戻す / やり直しを使うため、履歴パネルは使わない
+}
+
+export interface JumpToHistoryData {
+  position: number; // 戻したい時点（適用済みにする操作の数）
+}
+
+// テーブルデータの差分更新（前回送信したテーブルからの変更だけを送る）
+// 行・列の位置は直前の操作を適用した後のテーブル上の位置
+export type TablePatchOperation =
+  | { type: 'updateCells'; updates: Array<{ row: number; col: number; value: string }> }
+  | { type: 'updateHeaders'; updates: Array<{ col: number; value: string }> }
+  | { type: 'insertRows'; index: number; rows: string[][] }
+  | { type: 'deleteRows'; index: number; count: number }
+  | { type: 'insertColumns'; index: number; headers: string[]; cells: string[][] } // cells は行ごとの挿入する値
+  | { type: 'deleteColumns'; index: number; count: number }
+  | { type: 'setAlignment'; alignment: string[]; separatorLine?: string }
+  | { type: 'setValidationRules'; rules?: TableValidationRules }
+  | { type: 'setSpans'; spans?: CellSpan[] }
+  | { type: 'replaceTable'; table: TableData }; // 行数と列数が両方変わった場合など
+
+export interface TablePatch {
+  tableIndex: number;
+  operations: TablePatchOperation[];
+}
+
+// webview は baseRevision が手元のリビジョンと一致する場合だけ適用し、異なれば REQUEST_SYNC で全体を取り直す
+export interface PatchTableData {
+  baseRevision: number;
+  revision: number;
+  patches: TablePatch[];
+  documentVersion?: number;
+  history?: TableHistoryData;
+  mergeConflicts?: TableMergeConflict[];
 }
 
 /**
@@ -208,7 +497,19 @@ export type WebviewCommandDataMap = {
   [WebviewCommand.MOVE_COLUMN]: MoveData;
   [WebviewCommand.EXPORT_CSV]: ExportCSVData;
   [WebviewCommand.IMPORT_CSV]: ImportCSVData;
+  [WebviewCommand.ADD_AGGREGATE_ROW]: AddAggregateRowData;
+  [WebviewCommand.SET_ALIGNMENT]: SetAlignmentData;
+  [WebviewCommand.MERGE_CELLS]: MergeCellsData;
+  [WebviewCommand.UNMERGE_CELLS]: UnmergeCellsData;
+  [WebviewCommand.SAVE_VIEW_STATE]: SaveViewStateData;
   [WebviewCommand.SWITCH_TABLE]: SwitchTableData;
+  [WebviewCommand.SEARCH_WORKSPACE]: SearchWorkspaceData;
+  [WebviewCommand.OPEN_SEARCH_MATCH]: OpenSearchMatchData;
+  [WebviewCommand.OPEN_LINK]: OpenLinkData;
+  [WebviewCommand.LIST_LINK_TARGETS]: void;
+  [WebviewCommand.REPLACE_IN_WORKSPACE]: ReplaceInWorkspaceData;
+  [WebviewCommand.RESOLVE_MERGE_CONFLICT]: ResolveMergeConflictData;
+  [WebviewCommand.JUMP_TO_HISTORY]: JumpToHistoryData;
   [WebviewCommand.REQUEST_THEME_VARIABLES]: void;
   [WebviewCommand.UNDO]: void;
   [WebviewCommand.REDO]: void;
@@ -224,6 +525,7 @@ export interface SyncStateData {
     uri: string;
     fileName: string;
     fileNameWithoutExt: string;
+    baseUri?: string; // ドキュメントのあるフォルダーの webview URI（セル内の画像の解決に使用）
   };
 }
 
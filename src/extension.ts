@@ -1,13 +1,32 @@
 import * as vscode from 'vscode';
 import { WebviewManager } from './webviewManager';
 import { TableDataManager, TableData } from './tableDataManager';
-import { MarkdownParser } from './markdownParser';
+import { MarkdownParser, TableNode } from './markdownParser';
 import { getFileHandler } from './fileHandler';
 import { buildThemeVariablesCss, getInstalledColorThemes } from './themeUtils';
-import { UndoRedoManager } from './undoRedoManager';
+import { TableEditRecord, UndoRedoManager } from './undoRedoManager';
+import { TableContent, snapshotTable } from './tableOperations';
 import { decodeBuffer, detectTextEncoding, parseCsv, toRectangular } from './csvUtils';
 import { normalizeForImport } from './encodingNormalizer';
 import { normalizeForShiftJisExport } from './encodingNormalizer';
+import { TableFormatMode } from './tableFormatter';
+import { TableEditorPanelSerializer, TableEditorProvider } from './tableEditorProvider';
+import {
+    OpenSearchMatchData,
+    ReplaceInWorkspaceData,
+    ResolveMergeConflictData,
+    RevealCellData,
+    SearchWorkspaceData,
+    SearchWorkspaceResult,
+    SortKeyData,
+    TableDiffData,
+    WorkspaceSearchMatch
+} from './communication/protocol';
+import { MAX_WORKSPACE_MATCHES, createWorkspaceSearchPattern, findTableMatches } from './workspaceSearch';
+import { findConflictedTables, hasConflictMarkers } from './gitConflict';
+import { diffTables, findCorrespondingTable, summarizeTableDiff } from './tableDiff';
+import { readFileAtRevision } from './gitRevision';
+import { CellValidationError, describeValidationIssue } from './cellValidation';
 
 export function activate(context: vscode.ExtensionContext) {
     // VS Code automatically loads l10n files based on vscode.env.language
@@ -30,6 +49,52 @@ export function activate(context: vscode.ExtensionContext) {
         }
     };
 
+    // Helper: read configured table format mode (compact / padded / preserve)
+    const getTableFormatMode = (): TableFormatMode => {
+        const mode = vscode.workspace.getConfiguration('markdownTableEditor').get<string>('format', 'preserve');
+        return mode === 'compact' || mode === 'padded' ? mode : 'preserve';
+    };
+    // 元に戻す / やり直しで書き戻すテーブルも、通常の編集と同じ形式で整形する
+    undoRedoManager.setFormatModeProvider(getTableFormatMode);
+
+    // Helper: build text edits that reformat tables in a document
+    const buildTableFormatEdits = (
+        document: vscode.TextDocument,
+        formatMode: Exclude<TableFormatMode, 'preserve'>,
+        shouldFormat: (startLine: number, endLine: number) => boolean = () => true
+    ): vscode.TextEdit[] => {
+        const content = document.getText();
+        const ast = markdownParser.parseDocument(content);
+        const tables = markdownParser.findTablesInDocument(ast);
+        const edits: vscode.TextEdit[] = [];
+
+        tables.forEach((tableNode, index) => {
+            // HTML のテーブルは書かれた形のまま残す（GFM に変換しない）
+            if (tableNode.format === 'html') {
+                return;
+            }
+            const { startLine, endLine, actualContent } = markdownParser.getTableBoundaries(content, tableNode);
+            if (endLine >= document.lineCount || !shouldFormat(startLine, endLine)) {
+                return;
+            }
+            const formatted = new TableDataManager(tableNode, document.uri.toString(), index).serializeToMarkdown(formatMode);
+            const original = actualContent.map(line => line.replace(/\r$/, '')).join('\n');
+            if (formatted === original) {
+                return;
+            }
+            const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+            edits.push(vscode.TextEdit.replace(range, formatted));
+        });
+
+        return edits;
+    };
+
+    // Custom editor (Reopen With…) and panel restoration after reload
+    context.subscriptions.push(
+        TableEditorProvider.register(webviewManager),
+        TableEditorPanelSerializer.register(webviewManager)
+    );
+
     // Apply once on activation so再起動後も即時反映（パネル作成後にも個別適用されます）
     applyConfiguredThemeToPanels();
 
@@ -56,7 +121,8 @@ export function activate(context: vscode.ExtensionContext) {
             const ast = markdownParser.parseDocument(content);
             const tables = markdownParser.findTablesInDocument(ast);
 
-            if (tables.length === 0) {
+            // コンフリクトマーカーで壊れたテーブルだけの場合も、マージ画面のために開く
+            if (tables.length === 0 && findConflictedTables(markdownParser, content).length === 0) {
                 vscode.window.showInformationMessage(vscode.l10n.t('error.noTables'));
                 return;
             }
@@ -142,7 +208,8 @@ export function activate(context: vscode.ExtensionContext) {
             const ast = markdownParser.parseDocument(content);
             const tables = markdownParser.findTablesInDocument(ast);
 
-            if (tables.length === 0) {
+            // コンフリクトマーカーで壊れたテーブルだけの場合も、マージ画面のために開く
+            if (tables.length === 0 && findConflictedTables(markdownParser, content).length === 0) {
                 vscode.window.showInformationMessage(vscode.l10n.t('error.noTables'));
                 return;
             }
@@ -228,6 +295,208 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Format table commands (通常のテキストエディターから実行)
+    const runFormatTables = async (scope: 'cursor' | 'all') => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'markdown') {
+            vscode.window.showErrorMessage(vscode.l10n.t('error.noMarkdownFile'));
+            return;
+        }
+        // preserve 設定時でも明示的なコマンド実行では padded で整形する
+        const configured = getTableFormatMode();
+        const formatMode = configured === 'preserve' ? 'padded' : configured;
+        const cursorLine = editor.selection.active.line;
+        const isTarget = (startLine: number, endLine: number) =>
+            scope === 'all' || (cursorLine >= startLine && cursorLine <= endLine);
+
+        const tables = markdownParser.findTablesInDocument(markdownParser.parseDocument(editor.document.getText()));
+        if (tables.length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t('error.noTables'));
+            return;
+        }
+
+        const edits = buildTableFormatEdits(editor.document, formatMode, isTarget);
+        if (scope === 'cursor' && edits.length === 0) {
+            const content = editor.document.getText();
+            const atCursor = tables.some(table => {
+                const { startLine, endLine } = markdownParser.getTableBoundaries(content, table);
+                return isTarget(startLine, endLine);
+            });
+            if (!atCursor) {
+                vscode.window.showInformationMessage(vscode.l10n.t('formatTable.noTableAtCursor'));
+            }
+            return;
+        }
+        if (edits.length === 0) {
+            return;
+        }
+
+        const applied = await editor.edit(editBuilder => {
+            for (const edit of edits) {
+                editBuilder.replace(edit.range, edit.newText);
+            }
+        });
+        if (!applied) {
+            throw new Error('The text edit could not be applied');
+        }
+    };
+
+    const formatTableCommand = vscode.commands.registerCommand('markdownTableEditor.formatTable', async () => {
+        try {
+            await runFormatTables('cursor');
+        } catch (err) {
+            vscode.window.showErrorMessage(vscode.l10n.t('error.formatTable', err instanceof Error ? err.message : String(err)));
+        }
+    });
+
+    const formatAllTablesCommand = vscode.commands.registerCommand('markdownTableEditor.formatAllTables', async () => {
+        try {
+            await runFormatTables('all');
+        } catch (err) {
+            vscode.window.showErrorMessage(vscode.l10n.t('error.formatTable', err instanceof Error ? err.message : String(err)));
+        }
+    });
+
+    // 差分表示の比較元（Git のリビジョン、または別のファイル）を選んで内容を読み込む
+    const pickTableDiffSource = async (document: vscode.TextDocument): Promise<{ label: string; content: string } | undefined> => {
+        type SourceItem = vscode.QuickPickItem & { source: 'head' | 'revision' | 'file' };
+        const items: SourceItem[] = [];
+        if (document.uri.scheme === 'file') {
+            items.push(
+                { label: vscode.l10n.t('diffTable.sourceHead'), description: 'HEAD', source: 'head' },
+                { label: vscode.l10n.t('diffTable.sourceRevision'), source: 'revision' }
+            );
+        }
+        items.push({ label: vscode.l10n.t('diffTable.sourceFile'), source: 'file' });
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: vscode.l10n.t('diffTable.selectSource') });
+        if (!picked) {
+            return undefined;
+        }
+
+        if (picked.source === 'file') {
+            const selected = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: document.uri,
+                filters: { Markdown: ['md', 'markdown'] },
+                openLabel: vscode.l10n.t('diffTable.compare')
+            });
+            if (!selected || selected.length === 0) {
+                return undefined;
+            }
+            const other = await vscode.workspace.openTextDocument(selected[0]);
+            return { label: vscode.workspace.asRelativePath(selected[0]), content: other.getText() };
+        }
+
+        let revision: string | undefined = 'HEAD';
+        if (picked.source === 'revision') {
+            revision = await vscode.window.showInputBox({
+                prompt: vscode.l10n.t('diffTable.revisionPrompt'),
+                placeHolder: 'main, HEAD~1, v1.2.0, 3f2a1c9',
+                validateInput: value => value.trim().length === 0 ? vscode.l10n.t('diffTable.revisionRequired') : undefined
+            });
+            if (!revision) {
+                return undefined;
+            }
+        }
+        const content = await readFileAtRevision(document.uri.fsPath, revision);
+        return { label: revision.trim(), content };
+    };
+
+    // カーソル位置のテーブルを別のバージョンと比較し、テーブルエディタに読み取り専用で差分を表示する
+    const diffTableCommand = vscode.commands.registerCommand('markdownTableEditor.diffTable', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'markdown') {
+                vscode.window.showErrorMessage(vscode.l10n.t('error.noMarkdownFile'));
+                return;
+            }
+            const document = editor.document;
+            const content = document.getText();
+            const tables = markdownParser.findTablesInDocument(markdownParser.parseDocument(content));
+            if (tables.length === 0) {
+                vscode.window.showInformationMessage(vscode.l10n.t('error.noTables'));
+                return;
+            }
+            const cursorLine = editor.selection.active.line;
+            const tableIndex = tables.findIndex(table => {
+                const { startLine, endLine } = markdownParser.getTableBoundaries(content, table);
+                return cursorLine >= startLine && cursorLine <= endLine;
+            });
+            if (tableIndex < 0) {
+                vscode.window.showInformationMessage(vscode.l10n.t('formatTable.noTableAtCursor'));
+                return;
+            }
+            const { headers, rows, alignment } = tables[tableIndex];
+            const current = { headers, rows, alignment };
+
+            const source = await pickTableDiffSource(document);
+            if (!source) {
+                return;
+            }
+            const baseTables = markdownParser.findTablesInDocument(markdownParser.parseDocument(source.content));
+            const baseIndex = findCorrespondingTable(baseTables, current, tableIndex);
+            if (baseIndex < 0) {
+                vscode.window.showInformationMessage(vscode.l10n.t('diffTable.tableNotFound', source.label));
+                return;
+            }
+            const base = baseTables[baseIndex];
+
+            // 両方にある列はキー列として選べる（選ばなければ行の内容の類似度で対応付ける）
+            let keyColumn: string | undefined;
+            const commonHeaders = headers.filter(header => base.headers.some(other => other.trim() === header.trim()));
+            if (commonHeaders.length > 0) {
+                type KeyItem = vscode.QuickPickItem & { keyColumn?: string };
+                const keyItems: KeyItem[] = [
+                    { label: vscode.l10n.t('diffTable.matchBySimilarity') },
+                    ...commonHeaders.map(header => ({ label: header, description: vscode.l10n.t('diffTable.keyColumn'), keyColumn: header }))
+                ];
+                const pickedKey = await vscode.window.showQuickPick(keyItems, { placeHolder: vscode.l10n.t('diffTable.selectKeyColumn') });
+                if (!pickedKey) {
+                    return;
+                }
+                keyColumn = pickedKey.keyColumn;
+            }
+
+            const diff = diffTables(base, current, { keyColumn });
+            const summary = summarizeTableDiff(diff);
+            if (summary.added + summary.removed + summary.changed === 0 && diff.columns.every(column => column.status === 'unchanged')) {
+                vscode.window.showInformationMessage(vscode.l10n.t('diffTable.noChanges', source.label));
+                return;
+            }
+
+            const data: TableDiffData = { tableIndex, baseLabel: source.label, diff };
+            const panel = webviewManager.getPanelsForFile(document.uri.toString()).values().next().value as vscode.WebviewPanel | undefined;
+            if (panel) {
+                panel.reveal();
+                webviewManager.showTableDiff(panel, data);
+                return;
+            }
+
+            // パネルが無い場合は開いた後、最初のテーブルデータ送信時に差分を表示させる
+            webviewManager.queueTableDiff(document.uri.toString(), data);
+            await vscode.commands.executeCommand('markdownTableEditor.openEditor', document.uri);
+        } catch (err) {
+            vscode.window.showErrorMessage(vscode.l10n.t('error.diffTable', err instanceof Error ? err.message : String(err)));
+        }
+    });
+
+    // 保存時の自動整形（format が preserve 以外の場合）
+    const formatOnSaveWatcher = vscode.workspace.onWillSaveTextDocument((e) => {
+        if (e.document.languageId !== 'markdown') {
+            return;
+        }
+        const formatMode = getTableFormatMode();
+        if (formatMode === 'preserve') {
+            return;
+        }
+        try {
+            e.waitUntil(Promise.resolve(buildTableFormatEdits(e.document, formatMode)));
+        } catch (error) {
+            console.error('Error formatting tables on save:', error);
+        }
+    });
+
     // Store active table data managers by URI and table index
     const activeTableManagers = new Map<string, TableDataManager>();
     const activeMultiTableManagers = new Map<string, Map<number, TableDataManager>>();
@@ -371,7 +640,7 @@ export function activate(context: vscode.ExtensionContext) {
 
         try {
             const undoDescription = options.getUndoDescription ? options.getUndoDescription(commandData) : options.operationName;
-            await undoRedoManager.saveState(uri, undoDescription);
+            const before = snapshotTable(tableDataManager.getTableData());
 
             const result = await options.mutate({
                 manager: tableDataManager,
@@ -380,13 +649,16 @@ export function activate(context: vscode.ExtensionContext) {
                 commandData
             });
 
-            const updatedMarkdown = tableDataManager.serializeToMarkdown();
+            const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode());
             const tableData = tableDataManager.getTableData();
             await fileHandler.updateTableByIndex(
                 uri,
                 tableData.metadata.tableIndex,
                 updatedMarkdown
             );
+            await undoRedoManager.recordTableEdits(uri, undoDescription, [
+                { tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) }
+            ]);
 
             const allTableData: TableData[] = [];
             tableManagersMap.forEach((manager, idx) => {
@@ -448,7 +720,7 @@ export function activate(context: vscode.ExtensionContext) {
             const ast = markdownParser.parseDocument(content);
             const tables = markdownParser.findTablesInDocument(ast);
 
-            if (tables.length > 0) {
+            if (tables.length > 0 || hasConflictMarkers(content)) {
                 // Create managers for all tables using the actual panel ID
                 const allTableData: TableData[] = [];
                 const tableManagersMap = new Map<number, TableDataManager>();
@@ -491,6 +763,21 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // ドキュメント変更後のテーブルに対応するマネージャー（内容が同じテーブルは既存のマネージャーの位置だけ更新）
+    const reconcileTableManagers = (tables: TableNode[], panelId: string, previous?: Map<number, TableDataManager>) => {
+        const managers = new Map<number, TableDataManager>();
+        tables.forEach((table, index) => {
+            const existing = previous?.get(index);
+            if (existing && existing.hasSameContent(table)) {
+                existing.updatePosition(table.startLine, table.endLine, index);
+                managers.set(index, existing);
+            } else {
+                managers.set(index, new TableDataManager(table, panelId, index));
+            }
+        });
+        return managers;
+    };
+
     // ファイル変更監視 - VSCodeエディタでの変更を全パネルに反映
     const fileWatcher = vscode.workspace.onDidChangeTextDocument(async (event) => {
         const changedUri = event.document.uri;
@@ -511,18 +798,14 @@ export function activate(context: vscode.ExtensionContext) {
                 const ast = markdownParser.parseDocument(content);
                 const tables = markdownParser.findTablesInDocument(ast);
 
-                if (tables.length > 0) {
+                if (tables.length > 0 || hasConflictMarkers(content)) {
                     // 各パネルに対してデータを更新
                     for (const [panelId, panel] of filePanels.entries()) {
-                        // Create managers for all tables using the panel ID
+                        // 内容が変わっていないテーブルのマネージャーはそのまま使う
+                        const tableManagersMap = reconcileTableManagers(tables, panelId, activeMultiTableManagers.get(panelId));
                         const allTableData: TableData[] = [];
-                        const tableManagersMap = new Map<number, TableDataManager>();
-
-                        tables.forEach((table, index) => {
-                            const manager = new TableDataManager(table, panelId, index);
-                            const tableData = manager.getTableData();
-                            allTableData.push(tableData);
-                            tableManagersMap.set(index, manager);
+                        tableManagersMap.forEach((manager, index) => {
+                            allTableData[index] = manager.getTableData();
                         });
 
                         // Store managers for all tables using the panel ID
@@ -567,10 +850,6 @@ export function activate(context: vscode.ExtensionContext) {
                                     
             const { uri, panelId, row, col, value, tableIndex } = data;
 
-            // Save state before making changes for undo functionality
-            const uriObj = typeof uri === 'string' ? vscode.Uri.parse(uri) : uri;
-            await undoRedoManager.saveState(uriObj, `Update cell (${row}, ${col})`);
-
             // Get the URI string and panel ID to use for manager lookup
             let uriString: string;
             let actualPanelId: string;
@@ -615,6 +894,9 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
+            // Snapshot for the undo history (taken again if the manager is reloaded below)
+            let before = snapshotTable(tableDataManager.getTableData());
+
             // Try to update the cell, if it fails due to invalid position, refresh the table data
             try {
                 tableDataManager.updateCell(row, col, value);
@@ -632,6 +914,7 @@ export function activate(context: vscode.ExtensionContext) {
                             const newManager = new TableDataManager(tables[targetTableIndex], actualPanelId, targetTableIndex);
                             tableManagersMap.set(targetTableIndex, newManager);
                             tableDataManager = newManager;
+                            before = snapshotTable(newManager.getTableData());
                             
                             // Try the update again with fresh data
                             tableDataManager.updateCell(row, col, value);
@@ -648,7 +931,7 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             // Update the file using table index for more accurate positioning
-            const updatedMarkdown = tableDataManager.serializeToMarkdown();
+            const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode());
             const tableData = tableDataManager.getTableData();
 
             const fileUri = vscode.Uri.parse(uriString);
@@ -657,6 +940,9 @@ export function activate(context: vscode.ExtensionContext) {
                 tableData.metadata.tableIndex,
                 updatedMarkdown
             );
+            await undoRedoManager.recordTableEdits(fileUri, `Update cell (${row}, ${col})`, [
+                { tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) }
+            ]);
 
             // Don't send any update back to webview to avoid re-rendering
             // The webview has already updated the cell locally
@@ -665,6 +951,11 @@ export function activate(context: vscode.ExtensionContext) {
             const actualPanelId = data.panelId || data.uri || webviewManager.getActivePanelUri();
             const panel = actualPanelId ? webviewManager.getPanel(actualPanelId) : null;
             if (panel) {
+                // 入力規則に合わない値は適用していない（webview 側で値を戻す）
+                if (error instanceof CellValidationError) {
+                    sendValidationFailures(panel, error);
+                    return;
+                }
                 // Send error with original position information for potential rollback
                 webviewManager.sendError(panel, `Failed to update cell: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 webviewManager.sendCellUpdateError(panel, {
@@ -676,11 +967,29 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // 入力規則に合わないセルごとに webview へ通知する（webview は編集前の値に戻す）
+    const sendValidationFailures = (panel: vscode.WebviewPanel, error: CellValidationError) => {
+        const [first] = error.failures;
+        if (first) {
+            const position = [first.row + 1, first.col + 1, describeValidationIssue(first)];
+            vscode.window.showWarningMessage(error.failures.length > 1
+                ? vscode.l10n.t('warning.cellValidationMultiple', error.failures.length, ...position)
+                : vscode.l10n.t('warning.cellValidation', ...position));
+        }
+        for (const failure of error.failures) {
+            webviewManager.sendCellUpdateError(panel, {
+                row: failure.row,
+                col: failure.col,
+                error: describeValidationIssue(failure)
+            });
+        }
+    };
+
     const bulkUpdateCellsCommand = vscode.commands.registerCommand('markdownTableEditor.internal.bulkUpdateCells', async (data: any) => {
         try {
 
                         
-            const { uri, panelId, updates, tableIndex } = data;
+            const { uri, panelId, updates, tableIndex, additionalTables } = data;
 
             // Get the URI string and panel ID to use for manager lookup
             let uriString: string;
@@ -712,59 +1021,90 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             const targetTableIndex = tableIndex !== undefined ? tableIndex : 0;
-            let tableDataManager = tableManagersMap.get(targetTableIndex);
-
-            if (!tableDataManager) {
-                                webviewManager.sendError(panel, `Table manager not found for table ${targetTableIndex}`);
+            // 他のテーブルへの更新（全シート置換など）も同じ Undo 単位でまとめて適用する
+            const batches: Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string }> }> = [
+                { tableIndex: targetTableIndex, updates },
+                ...(Array.isArray(additionalTables) ? additionalTables : [])
+            ];
+
+            const missingTable = batches.find(batch => !tableManagersMap.has(batch.tableIndex));
+            if (missingTable) {
+                webviewManager.sendError(panel, `Table manager not found for table ${missingTable.tableIndex}`);
                 return;
             }
 
-            // 事前にテーブルサイズを確保（必要な最大行・列を計算）
-            let maxRow = -1;
-            let maxCol = -1;
-            for (const update of updates) {
-                maxRow = Math.max(maxRow, update.row);
-                maxCol = Math.max(maxCol, update.col);
-            }
+            // すべてのテーブルに更新を適用・検証してからファイルに書き込む
+            // （後のテーブルで検証エラーになった場合に、一部のテーブルだけ変更されたままにしない）
+            const fileUri = vscode.Uri.parse(uriString);
+            const applied: Array<{ tableDataManager: TableDataManager; before: TableContent }> = [];
+            try {
+                for (const batch of batches) {
+                    const tableDataManager = tableManagersMap.get(batch.tableIndex)!;
+                    const before = snapshotTable(tableDataManager.getTableData());
+                    applied.push({ tableDataManager, before });
+
+                    // 事前にテーブルサイズを確保（必要な最大行・列を計算）
+                    let maxRow = -1;
+                    let maxCol = -1;
+                    for (const update of batch.updates) {
+                        maxRow = Math.max(maxRow, update.row);
+                        maxCol = Math.max(maxCol, update.col);
+                    }
 
-            const currentTableData = tableDataManager.getTableData();
-            const neededRows = Math.max(0, maxRow + 1 - currentTableData.rows.length);
-            const neededCols = Math.max(0, maxCol + 1 - currentTableData.headers.length);
+                    const currentTableData = tableDataManager.getTableData();
+                    const neededRows = Math.max(0, maxRow + 1 - currentTableData.rows.length);
+                    const neededCols = Math.max(0, maxCol + 1 - currentTableData.headers.length);
 
-            // 必要に応じてテーブルを拡張
-            if (neededRows > 0) {
-                tableDataManager.insertRows(currentTableData.rows.length, neededRows);
-            }
+                    // 必要に応じてテーブルを拡張
+                    if (neededRows > 0) {
+                        tableDataManager.insertRows(currentTableData.rows.length, neededRows);
+                    }
+
+                    if (neededCols > 0) {
+                        for (let i = 0; i < neededCols; i++) {
+                            const newColIndex = currentTableData.headers.length + i;
+                            const columnLetter = String.fromCharCode(65 + (newColIndex % 26)); // A, B, C...
+                            tableDataManager.addColumn(undefined, 1, `Column ${columnLetter}`);
+                        }
+                    }
 
-            if (neededCols > 0) {
-                for (let i = 0; i < neededCols; i++) {
-                    const newColIndex = currentTableData.headers.length + i;
-                    const columnLetter = String.fromCharCode(65 + (newColIndex % 26)); // A, B, C...
-                    tableDataManager.addColumn(undefined, 1, `Column ${columnLetter}`);
+                    // Apply all updates using batchUpdateCells (supports row=-1 for header row)
+                    console.log('Applying batch updates:', JSON.stringify(batch.updates));
+                    tableDataManager.batchUpdateCells(batch.updates);
                 }
+            } catch (error) {
+                // 拡張した行・列も含めて、適用済みのすべてのテーブルを編集前の内容に戻す
+                for (const { tableDataManager, before } of applied.reverse()) {
+                    tableDataManager.restoreContents(before);
+                }
+                throw error;
             }
 
-            // Apply all updates using batchUpdateCells (supports row=-1 for header row)
-            console.log('Applying batch updates:', JSON.stringify(updates));
-            tableDataManager.batchUpdateCells(updates);
-
-            // Update the file once after all updates
-            const updatedMarkdown = tableDataManager.serializeToMarkdown();
-            console.log('Serialized markdown:', updatedMarkdown);
-            const tableData = tableDataManager.getTableData();
-            console.log('Table data after update:', JSON.stringify(tableData));
+            const edits: TableEditRecord[] = [];
+            for (const { tableDataManager, before } of applied) {
+                // Update the file once after all updates
+                const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode());
+                console.log('Serialized markdown:', updatedMarkdown);
+                const tableData = tableDataManager.getTableData();
+                console.log('Table data after update:', JSON.stringify(tableData));
 
-            const fileUri = vscode.Uri.parse(uriString);
-            await fileHandler.updateTableByIndex(
-                fileUri,
-                tableData.metadata.tableIndex,
-                updatedMarkdown
-            );
+                await fileHandler.updateTableByIndex(
+                    fileUri,
+                    tableData.metadata.tableIndex,
+                    updatedMarkdown
+                );
+                edits.push({ tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) });
+            }
+            await undoRedoManager.recordTableEdits(fileUri, 'Bulk cell update', edits);
         } catch (error) {
             console.error('Error in bulkUpdateCells:', error);
             const actualPanelId = data.panelId || data.uri || webviewManager.getActivePanelUri();
             const panel = actualPanelId ? webviewManager.getPanel(actualPanelId) : null;
             if (panel) {
+                if (error instanceof CellValidationError) {
+                    sendValidationFailures(panel, error);
+                    return;
+                }
                 webviewManager.sendError(panel, `Failed to bulk update cells: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
         }
@@ -814,6 +1154,9 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
+            // Snapshot for the undo history (taken again if the manager is reloaded below)
+            let before = snapshotTable(tableDataManager.getTableData());
+
             // Try to update the header, if it fails due to invalid position, refresh the table data
             try {
                 tableDataManager.updateHeader(col, value);
@@ -831,6 +1174,7 @@ export function activate(context: vscode.ExtensionContext) {
                             const newManager = new TableDataManager(tables[targetTableIndex], actualPanelId, targetTableIndex);
                             tableManagersMap.set(targetTableIndex, newManager);
                             tableDataManager = newManager;
+                            before = snapshotTable(newManager.getTableData());
                             
                             // Try the update again with fresh data
                             tableDataManager.updateHeader(col, value);
@@ -847,7 +1191,7 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             // Update the file using table index for more accurate positioning
-            const updatedMarkdown = tableDataManager.serializeToMarkdown();
+            const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode());
             const tableData = tableDataManager.getTableData();
 
             const fileUri = vscode.Uri.parse(uriString);
@@ -856,6 +1200,9 @@ export function activate(context: vscode.ExtensionContext) {
                 tableData.metadata.tableIndex,
                 updatedMarkdown
             );
+            await undoRedoManager.recordTableEdits(fileUri, `Update header (${col})`, [
+                { tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) }
+            ]);
 
             // Don't send any update back to webview to avoid re-rendering
             // The webview has already updated the header locally
@@ -971,9 +1318,63 @@ export function activate(context: vscode.ExtensionContext) {
         });
     });
 
+    const addAggregateRowCommand = vscode.commands.registerCommand('markdownTableEditor.internal.addAggregateRow', async (data: any) => {
+        await runTableEdit(data, {
+            operationName: 'Add aggregate row',
+            getSuccessMessage: () => 'Aggregate row added successfully',
+            mutate: ({ manager, commandData }) => {
+                if (!Array.isArray(commandData?.functions)) {
+                    throw new Error('No aggregate functions provided');
+                }
+                manager.addAggregateRow(commandData.functions);
+            },
+            getErrorMessage: (error) => `Failed to add aggregate row: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+    });
+
+    const setAlignmentCommand = vscode.commands.registerCommand('markdownTableEditor.internal.setAlignment', async (data: any) => {
+        await runTableEdit(data, {
+            operationName: 'Set alignment',
+            getUndoDescription: (commandData) => `Set alignment (${commandData?.alignment})`,
+            getSuccessMessage: () => 'Alignment updated successfully',
+            mutate: ({ manager, commandData }) => {
+                if (!Array.isArray(commandData?.columns) || commandData.columns.length === 0) {
+                    throw new Error('No columns provided for alignment');
+                }
+                for (const col of commandData.columns) {
+                    manager.setColumnAlignment(col, commandData.alignment);
+                }
+            },
+            getErrorMessage: (error) => `Failed to set alignment: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+    });
+
+    const mergeCellsCommand = vscode.commands.registerCommand('markdownTableEditor.internal.mergeCells', async (data: any) => {
+        await runTableEdit(data, {
+            operationName: 'Merge cells',
+            getUndoDescription: (commandData) => `Merge cells (${commandData?.rowSpan}x${commandData?.colSpan})`,
+            getSuccessMessage: () => 'Cells merged successfully',
+            mutate: ({ manager, commandData }) => {
+                manager.mergeCells(commandData.row, commandData.col, commandData.rowSpan, commandData.colSpan);
+            },
+            getErrorMessage: (error) => `Failed to merge cells: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+    });
+
+    const unmergeCellsCommand = vscode.commands.registerCommand('markdownTableEditor.internal.unmergeCells', async (data: any) => {
+        await runTableEdit(data, {
+            operationName: 'Unmerge cells',
+            getSuccessMessage: () => 'Cells unmerged successfully',
+            mutate: ({ manager, commandData }) => {
+                manager.unmergeCells(commandData.row, commandData.col);
+            },
+            getErrorMessage: (error) => `Failed to unmerge cells: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+    });
+
     const sortCommand = vscode.commands.registerCommand('markdownTableEditor.internal.sort', async (data: any) => {
         try {
-            const { uri: rawUri, panelId, column, direction, tableIndex } = data;
+            const { uri: rawUri, panelId, column, direction, keys, tableIndex } = data;
             const { uri, uriString, panel, panelKey, tableManagersMap } = resolvePanelContext(rawUri, panelId);
 
             if (!uriString || !uri) {
@@ -998,15 +1399,32 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            tableDataManager.sortByColumn(column, direction);
+            const before = snapshotTable(tableDataManager.getTableData());
+            const sortKeys: SortKeyData[] = Array.isArray(keys) ? keys : [];
+            if (sortKeys.length > 0) {
+                // 複数キー: 主キーから順に比較（型はキーごとに判定）
+                tableDataManager.sortByMultipleColumns(sortKeys.map(key => ({
+                    columnIndex: key.column,
+                    direction: key.direction,
+                    dataType: key.type
+                })));
+            } else {
+                tableDataManager.sortByColumn(column, direction);
+            }
 
-            const updatedMarkdown = tableDataManager.serializeToMarkdown();
+            const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode());
             const tableData = tableDataManager.getTableData();
             await fileHandler.updateTableByIndex(
                 uri,
                 tableData.metadata.tableIndex,
                 updatedMarkdown
             );
+            const sortDescription = sortKeys.length > 0
+                ? sortKeys.map(key => `${key.column} (${key.direction})`).join(', ')
+                : `${column} (${direction})`;
+            await undoRedoManager.recordTableEdits(uri, `Sort by column ${sortDescription}`, [
+                { tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) }
+            ]);
 
             const allTableData: TableData[] = [];
             tableManagersMap.forEach((manager, idx) => {
@@ -1014,7 +1432,7 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             webviewManager.updateTableData(panel, allTableData, uri);
-            webviewManager.sendSuccess(panel, `Table sorted by column ${column} (${direction})`);
+            webviewManager.sendSuccess(panel, `Table sorted by column ${sortDescription}`);
         } catch (error) {
             console.error('Error in sort:', error);
             const { panel } = resolvePanelContext(data?.uri, data?.panelId);
@@ -1051,15 +1469,19 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
+            const before = snapshotTable(tableDataManager.getTableData());
             tableDataManager.moveRow(fromIndex, toIndex);
 
-            const updatedMarkdown = tableDataManager.serializeToMarkdown();
+            const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode());
             const tableData = tableDataManager.getTableData();
             await fileHandler.updateTableByIndex(
                 uri,
                 tableData.metadata.tableIndex,
                 updatedMarkdown
             );
+            await undoRedoManager.recordTableEdits(uri, `Move row (${fromIndex} → ${toIndex})`, [
+                { tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) }
+            ]);
 
             const allTableData: TableData[] = [];
             tableManagersMap.forEach((manager, idx) => {
@@ -1104,15 +1526,19 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
+            const before = snapshotTable(tableDataManager.getTableData());
             tableDataManager.moveColumn(fromIndex, toIndex);
 
-            const updatedMarkdown = tableDataManager.serializeToMarkdown();
+            const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode());
             const tableData = tableDataManager.getTableData();
             await fileHandler.updateTableByIndex(
                 uri,
                 tableData.metadata.tableIndex,
                 updatedMarkdown
             );
+            await undoRedoManager.recordTableEdits(uri, `Move column (${fromIndex} → ${toIndex})`, [
+                { tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) }
+            ]);
 
             const allTableData: TableData[] = [];
             tableManagersMap.forEach((manager, idx) => {
@@ -1303,20 +1729,23 @@ export function activate(context: vscode.ExtensionContext) {
                                 return
             }
 
-            // Undo保存
-            await undoRedoManager.saveState(uri, 'Import CSV')
+            // Undo用に置換前の内容を保持
+            const before = snapshotTable(tableDataManager.getTableData());
 
             // テーブルに反映（置換）
             tableDataManager.replaceContents(headersNormalized, rowsNormalized)
 
             // Markdownへ反映
-            const updatedMarkdown = tableDataManager.serializeToMarkdown()
+            const updatedMarkdown = tableDataManager.serializeToMarkdown(getTableFormatMode())
             const tableData = tableDataManager.getTableData()
             await fileHandler.updateTableByIndex(
                 uri,
                 tableData.metadata.tableIndex,
                 updatedMarkdown
             )
+            await undoRedoManager.recordTableEdits(uri, 'Import CSV', [
+                { tableIndex: tableData.metadata.tableIndex, before, after: snapshotTable(tableData) }
+            ]);
 
             // すべてのテーブルを再送
             const allTableData: TableData[] = []
@@ -1336,10 +1765,190 @@ export function activate(context: vscode.ExtensionContext) {
         }
     })
 
+    // ワークスペース内の全 Markdown ファイルのテーブルを検索する
+    const searchWorkspaceCommand = vscode.commands.registerCommand('markdownTableEditor.internal.searchWorkspace', async (data: SearchWorkspaceData): Promise<SearchWorkspaceResult> => {
+        const pattern = createWorkspaceSearchPattern(data?.searchText, data?.options || { caseSensitive: false, wholeWord: false, regex: false });
+        if (!pattern) {
+            return { matches: [], truncated: false };
+        }
+
+        const files = await vscode.workspace.findFiles('**/*.{md,markdown}', '**/node_modules/**');
+        files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+        const matches: WorkspaceSearchMatch[] = [];
+        for (const fileUri of files) {
+            const remaining = MAX_WORKSPACE_MATCHES - matches.length;
+            if (remaining <= 0) {
+                return { matches, truncated: true };
+            }
+            try {
+                // 未保存の編集を含めるため、開いているドキュメントはその内容を優先する
+                const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === fileUri.toString());
+                const content = openDocument
+                    ? openDocument.getText()
+                    : Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+                matches.push(...findTableMatches(markdownParser, content, {
+                    uri: fileUri.toString(),
+                    fileName: vscode.workspace.asRelativePath(fileUri)
+                }, pattern, remaining));
+            } catch (error) {
+                console.warn('Skipping file in workspace search:', fileUri.toString(), error);
+            }
+        }
+        return { matches, truncated: matches.length >= MAX_WORKSPACE_MATCHES };
+    });
+
+    // 検索結果のセルを、そのファイルのテーブルエディタで選択状態にする
+    const openSearchMatchCommand = vscode.commands.registerCommand('markdownTableEditor.internal.openSearchMatch', async (data: OpenSearchMatchData) => {
+        try {
+            const reveal: RevealCellData = { tableIndex: data.tableIndex, row: data.row, col: data.col };
+            const filePanels = webviewManager.getPanelsForFile(data.uri);
+            const panel = filePanels.values().next().value as vscode.WebviewPanel | undefined;
+            if (panel) {
+                panel.reveal();
+                webviewManager.revealCell(panel, reveal);
+                return;
+            }
+
+            // パネルが無い場合は開いた後、最初のテーブルデータ送信時に選択させる
+            webviewManager.queueRevealCell(data.uri, reveal);
+            await vscode.commands.executeCommand('markdownTableEditor.openEditor', vscode.Uri.parse(data.uri));
+        } catch (error) {
+            console.error('Error in openSearchMatch:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t('error.openTableEditor', error instanceof Error ? error.message : 'Unknown error'));
+        }
+    });
+
+    // 複数ファイルへの置換を 1 つの WorkspaceEdit にまとめ、確認後に適用する
+    const replaceInWorkspaceCommand = vscode.commands.registerCommand('markdownTableEditor.internal.replaceInWorkspace', async (data: ReplaceInWorkspaceData) => {
+        try {
+            const edit = new vscode.WorkspaceEdit();
+            const changedUris: vscode.Uri[] = [];
+            const tableEdits = new Map<string, TableEditRecord[]>();
+            let cellCount = 0;
+            let skippedCount = 0;
+
+            for (const file of data.files) {
+                const fileUri = vscode.Uri.parse(file.uri);
+                const document = await vscode.workspace.openTextDocument(fileUri);
+                const content = document.getText();
+                const tables = markdownParser.findTablesInDocument(markdownParser.parseDocument(content));
+                let fileChanged = false;
+
+                for (const target of file.tables) {
+                    const tableNode = tables[target.tableIndex];
+                    if (!tableNode) {
+                        throw new Error(vscode.l10n.t('error.tableManagerNotFoundForIndex', target.tableIndex));
+                    }
+                    const { startLine, endLine } = markdownParser.getTableBoundaries(content, tableNode);
+                    if (endLine >= document.lineCount) {
+                        continue;
+                    }
+                    // 検索後に変更されたセル（行の挿入・削除や値の編集）は、別のセルを上書きしないよう置換しない
+                    const updates = target.updates.filter(update => tableNode.rows[update.row]?.[update.col] === update.original);
+                    skippedCount += target.updates.length - updates.length;
+                    if (updates.length === 0) {
+                        continue;
+                    }
+                    const tableDataManager = new TableDataManager(tableNode, file.uri, target.tableIndex);
+                    const before = snapshotTable(tableDataManager.getTableData());
+                    tableDataManager.batchUpdateCells(updates.map(({ row, col, value }) => ({ row, col, value })));
+                    const fileEdits = tableEdits.get(fileUri.toString()) ?? [];
+                    fileEdits.push({ tableIndex: target.tableIndex, before, after: snapshotTable(tableDataManager.getTableData()) });
+                    tableEdits.set(fileUri.toString(), fileEdits);
+                    const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+                    edit.replace(fileUri, range, tableDataManager.serializeToMarkdown(getTableFormatMode()));
+                    cellCount += updates.length;
+                    fileChanged = true;
+                }
+
+                if (fileChanged) {
+                    changedUris.push(fileUri);
+                }
+            }
+
+            if (changedUris.length === 0) {
+                if (skippedCount > 0) {
+                    vscode.window.showWarningMessage(vscode.l10n.t('workspaceReplace.allChanged'));
+                }
+                return { applied: false };
+            }
+
+            const fileList = changedUris.map(fileUri => vscode.workspace.asRelativePath(fileUri)).join('\n');
+            const confirmLabel = vscode.l10n.t('workspaceReplace.replace');
+            const confirm = await vscode.window.showWarningMessage(
+                vscode.l10n.t('workspaceReplace.confirm', cellCount, changedUris.length),
+                {
+                    modal: true,
+                    detail: skippedCount > 0 ? `${vscode.l10n.t('workspaceReplace.skipped', skippedCount)}\n\n${fileList}` : fileList
+                },
+                confirmLabel
+            );
+            if (confirm !== confirmLabel) {
+                return { applied: false };
+            }
+
+            const applied = await vscode.workspace.applyEdit(edit);
+            if (!applied) {
+                throw new Error(vscode.l10n.t('error.applyWorkspaceEdit'));
+            }
+
+            // 開いているテーブルエディタから元に戻せるよう、ファイルごとに履歴へ記録
+            for (const fileUri of changedUris) {
+                await undoRedoManager.recordTableEdits(fileUri, 'Replace in workspace', tableEdits.get(fileUri.toString()) ?? []);
+            }
+            vscode.window.showInformationMessage(vscode.l10n.t('workspaceReplace.done', cellCount, changedUris.length));
+            return { applied: true };
+        } catch (error) {
+            console.error('Error in replaceInWorkspace:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t('error.replaceInWorkspace', error instanceof Error ? error.message : 'Unknown error'));
+            return { applied: false };
+        }
+    });
+
+    // Git のコンフリクトを含むテーブルを、webview で選んだセルから組み立てたテーブルで置き換える
+    const resolveMergeConflictCommand = vscode.commands.registerCommand('markdownTableEditor.internal.resolveMergeConflict', async (data: ResolveMergeConflictData & { uri: string; panelId?: string }) => {
+        const { uri, panel } = resolvePanelContext(data?.uri, data?.panelId);
+        if (!uri || !panel) {
+            return;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const conflict = findConflictedTables(markdownParser, document.getText())
+                .find(item => item.startLine === data.startLine && item.endLine === data.endLine);
+            if (!conflict) {
+                throw new Error(vscode.l10n.t('error.mergeConflictChanged'));
+            }
+
+            const manager = new TableDataManager({
+                startLine: conflict.startLine,
+                endLine: conflict.endLine,
+                headers: data.table.headers,
+                rows: data.table.rows,
+                alignment: (data.table.alignment ?? []) as ('left' | 'center' | 'right')[]
+            }, uri.toString(), 0);
+
+            const resolvedMarkdown = manager.serializeToMarkdown(getTableFormatMode());
+            const conflictedLines = Array.from({ length: conflict.endLine - conflict.startLine + 1 }, (_, index) => document.lineAt(conflict.startLine + index).text);
+            await fileHandler.updateTableInFile(uri, conflict.startLine, conflict.endLine, resolvedMarkdown);
+            // コンフリクトマーカーを含む範囲はテーブルとして解析できないため、行の置換として履歴に記録
+            undoRedoManager.recordLineEdit(uri, 'Resolve merge conflict', conflict.startLine, conflictedLines, resolvedMarkdown.split('\n'));
+            webviewManager.sendSuccess(panel, vscode.l10n.t('mergeConflict.resolved'));
+        } catch (error) {
+            console.error('Error in resolveMergeConflict:', error);
+            webviewManager.sendError(panel, vscode.l10n.t('error.resolveMergeConflict', error instanceof Error ? error.message : 'Unknown error'));
+        }
+    });
+
     context.subscriptions.push(
         openEditorCommand,
         openEditorNewPanelCommand,
         selectThemeCommand,
+        formatTableCommand,
+        formatAllTablesCommand,
+        diffTableCommand,
+        formatOnSaveWatcher,
         requestTableDataCommand,
         fileWatcher,
         configWatcher,
@@ -1353,11 +1962,19 @@ export function activate(context: vscode.ExtensionContext) {
         addColumnCommand,
         deleteColumnCommand,
         deleteColumnsCommand,
+        addAggregateRowCommand,
+        setAlignmentCommand,
+        mergeCellsCommand,
+        unmergeCellsCommand,
         sortCommand,
         moveRowCommand,
         moveColumnCommand,
         exportCSVCommand,
-        importCSVCommand
+        importCSVCommand,
+        searchWorkspaceCommand,
+        openSearchMatchCommand,
+        replaceInWorkspaceCommand,
+        resolveMergeConflictCommand
     );
 
     }
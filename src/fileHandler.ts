@@ -1,6 +1,14 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseHtmlTable } from './htmlTable';
+import { computeLineHunks } from './lineDiff';
+import { getTableConflictDetector } from './tableConflict';
+
+/**
+ * When table edits are saved to disk (`markdownTableEditor.autoSave`)
+ */
+export type AutoSaveMode = 'always' | 'never' | 'afterDelay';
 
 /**
  * Interface for file system operations related to Markdown files
@@ -36,11 +44,26 @@ export class FileSystemError extends Error {
  */
 export class MarkdownFileHandler implements FileHandler {
     private readonly outputChannel: vscode.OutputChannel;
+    // カスタムエディターで開かれているドキュメントは保存をユーザーに委ねる（dirty 状態を維持）
+    private readonly saveDeferredUris = new Set<string>();
+    // autoSave: afterDelay の保存待ちタイマー
+    private readonly pendingSaves = new Map<string, NodeJS.Timeout>();
 
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('Markdown Table Editor');
     }
 
+    /**
+     * Defer saving for a document so table edits only mark it dirty
+     */
+    setSaveDeferred(uri: vscode.Uri, deferred: boolean): void {
+        if (deferred) {
+            this.saveDeferredUris.add(uri.toString());
+        } else {
+            this.saveDeferredUris.delete(uri.toString());
+        }
+    }
+
     /**
      * Read the content of a Markdown file
      */
@@ -192,7 +215,7 @@ export class MarkdownFileHandler implements FileHandler {
             this.outputChannel.appendLine(`Target table found at lines ${targetTable.startLine}-${targetTable.endLine}`);
             
             // Update using the accurate line numbers on the live document
-            await this.updateTableInDocument(document, targetTable.startLine, targetTable.endLine, newTableContent, currentContent);
+            await this.updateTableInDocument(document, targetTable.startLine, targetTable.endLine, newTableContent);
             
             this.outputChannel.appendLine(`Successfully updated table ${tableIndex} in file: ${uri.fsPath}`);
             
@@ -233,6 +256,19 @@ export class MarkdownFileHandler implements FileHandler {
         for (let i = 0; i < tokens.length; i++) {
             const token = tokens[i];
             
+            // HTML の <table> ブロックも MarkdownParser と同じくテーブルとして数える
+            if (token?.type === 'html_block' && token?.map && parseHtmlTable(token.content ?? '')) {
+                const adjustedEndLine = Math.max(0, token.map[1] - 1);
+                this.outputChannel.appendLine(`Table ${tableIndex}: HTML table at lines ${token.map[0]}-${adjustedEndLine}`);
+                tables.push({
+                    startLine: token.map[0],
+                    endLine: adjustedEndLine,
+                    tableIndex
+                });
+                tableIndex++;
+                continue;
+            }
+
             if (token?.type === 'table_open' && token?.map) {
                 const startLine = token.map[0];
                 let endLine = token.map[1];
@@ -349,97 +385,149 @@ export class MarkdownFileHandler implements FileHandler {
         return filtered;
     }
 
-    private contentEndsWithLineBreak(content: string, eol: string): boolean {
-        if (!content.length) {
-            return false;
-        }
-        return content.endsWith(eol);
-    }
-
-    private buildUpdatedContent(
-        uri: vscode.Uri,
-        operation: string,
-        originalContent: string,
-        startLine: number,
-        endLine: number,
-        replacementLines: string[],
-        eol: string
-    ): string {
-        const lines = originalContent.split(/\r?\n/);
-
-        if (startLine < 0 || endLine >= lines.length || startLine > endLine) {
+    private validateLineRange(document: vscode.TextDocument, startLine: number, endLine: number, operation: string): void {
+        if (startLine < 0 || endLine >= document.lineCount || startLine > endLine) {
             throw new FileSystemError(
-                `Invalid line range: ${startLine}-${endLine} (file has ${lines.length} lines, valid range: 0-${Math.max(0, lines.length - 1)})`,
+                `Invalid line range: ${startLine}-${endLine} (file has ${document.lineCount} lines, valid range: 0-${Math.max(0, document.lineCount - 1)})`,
                 operation,
-                uri
+                document.uri
             );
         }
+    }
 
-        const beforeTable = lines.slice(0, startLine);
-        const afterTable = lines.slice(endLine + 1);
-        const updatedLines = [...beforeTable, ...replacementLines, ...afterTable];
-
-        let updatedContent = updatedLines.join(eol);
-        const originalEndsWithBreak = this.contentEndsWithLineBreak(originalContent, eol);
-
-        if (originalEndsWithBreak && !updatedContent.endsWith(eol)) {
-            updatedContent += eol;
-        } else if (!originalEndsWithBreak && updatedContent.endsWith(eol)) {
-            updatedContent = updatedContent.slice(0, -eol.length);
+    /**
+     * Add the edit for one changed hunk (line numbers are absolute document lines)
+     */
+    private addHunkEdit(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        oldStart: number,
+        oldEnd: number,
+        lines: string[],
+        eol: string
+    ): void {
+        const uri = document.uri;
+        const lineEnd = (line: number) => new vscode.Position(line, document.lineAt(line).text.length);
+
+        if (oldEnd > oldStart && lines.length > 0) {
+            // 行の置換（改行は残し、行の内容だけを置き換える）
+            edit.replace(uri, new vscode.Range(new vscode.Position(oldStart, 0), lineEnd(oldEnd - 1)), lines.join(eol));
+        } else if (oldEnd === oldStart) {
+            // 行の挿入
+            if (oldStart < document.lineCount) {
+                edit.insert(uri, new vscode.Position(oldStart, 0), lines.join(eol) + eol);
+            } else {
+                edit.insert(uri, lineEnd(oldStart - 1), eol + lines.join(eol));
+            }
+        } else if (oldEnd < document.lineCount) {
+            // 行の削除（後続の行がある場合は行頭から次の行頭まで）
+            edit.delete(uri, new vscode.Range(new vscode.Position(oldStart, 0), new vscode.Position(oldEnd, 0)));
+        } else {
+            // 末尾の行の削除（直前の行の改行ごと削除）
+            const from = oldStart > 0 ? lineEnd(oldStart - 1) : new vscode.Position(0, 0);
+            edit.delete(uri, new vscode.Range(from, lineEnd(oldEnd - 1)));
         }
-
-        return updatedContent;
     }
 
-    private async applyFullDocumentUpdate(
+    /**
+     * Apply table updates by editing only the lines that changed
+     */
+    private async applyTableLineUpdates(
         document: vscode.TextDocument,
-        originalContent: string,
-        updatedContent: string,
+        updates: Array<{ startLine: number; endLine: number; replacementLines: string[] }>,
         operation: string
     ): Promise<void> {
         const uri = document.uri;
+        const eol = this.getEolString(document);
         const edit = new vscode.WorkspaceEdit();
-        const fullRange = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(originalContent.length)
-        );
 
-        edit.replace(uri, fullRange, updatedContent);
+        for (const update of updates) {
+            this.validateLineRange(document, update.startLine, update.endLine, operation);
+
+            const currentLines: string[] = [];
+            for (let line = update.startLine; line <= update.endLine; line++) {
+                currentLines.push(document.lineAt(line).text);
+            }
 
+            for (const hunk of computeLineHunks(currentLines, update.replacementLines)) {
+                this.addHunkEdit(edit, document, update.startLine + hunk.oldStart, update.startLine + hunk.oldEnd, hunk.lines, eol);
+            }
+        }
+
+        if (edit.size === 0) {
+            this.outputChannel.appendLine(`No table lines changed in file: ${uri.fsPath}`);
+            return;
+        }
+
+        const versionBefore = document.version;
         const applied = await vscode.workspace.applyEdit(edit);
         if (!applied) {
             throw new FileSystemError('Failed to apply document edit', operation, uri);
         }
+        // 自分の編集で進んだバージョンは衝突判定の対象外にする
+        getTableConflictDetector().recordOwnEdit(uri.toString(), versionBefore, document.version);
+
+        await this.saveAfterUpdate(document, operation);
+
+        this.notifyFileChange(uri);
+    }
+
+    /**
+     * Save the document according to the `markdownTableEditor.autoSave` setting
+     */
+    private async saveAfterUpdate(document: vscode.TextDocument, operation: string): Promise<void> {
+        const uri = document.uri;
+        const key = uri.toString();
+        if (this.saveDeferredUris.has(key)) {
+            return;
+        }
+
+        const autoSave = vscode.workspace.getConfiguration('markdownTableEditor', uri).get<AutoSaveMode>('autoSave', 'always');
+        if (autoSave === 'never') {
+            return;
+        }
+
+        if (autoSave === 'afterDelay') {
+            // 連続した編集では最後の編集から files.autoSaveDelay 経過後に 1 回だけ保存する
+            const pending = this.pendingSaves.get(key);
+            if (pending) {
+                clearTimeout(pending);
+            }
+            const delay = vscode.workspace.getConfiguration('files', uri).get<number>('autoSaveDelay', 1000);
+            this.pendingSaves.set(key, setTimeout(() => {
+                this.pendingSaves.delete(key);
+                if (document.isClosed || !document.isDirty) {
+                    return;
+                }
+                document.save().then(saved => {
+                    if (!saved) {
+                        this.outputChannel.appendLine(`Delayed save failed for: ${uri.fsPath}`);
+                    }
+                }, error => {
+                    const message = error instanceof Error ? error.message : String(error);
+                    this.outputChannel.appendLine(`Error during delayed save: ${uri.fsPath}: ${message}`);
+                });
+            }, delay));
+            return;
+        }
 
         const saved = await document.save();
         if (!saved) {
             throw new FileSystemError('Failed to save document after update', operation, uri);
         }
-
-        this.notifyFileChange(uri);
     }
 
     private async updateTableInDocument(
         document: vscode.TextDocument,
         startLine: number,
         endLine: number,
-        newTableContent: string,
-        originalContent?: string
+        newTableContent: string
     ): Promise<void> {
-        const eol = this.getEolString(document);
-        const baseContent = originalContent ?? document.getText();
-        const replacementLines = this.normalizeTableLines(newTableContent);
-        const updatedContent = this.buildUpdatedContent(
-            document.uri,
-            'update',
-            baseContent,
+        await this.applyTableLineUpdates(document, [{
             startLine,
             endLine,
-            replacementLines,
-            eol
-        );
-
-        await this.applyFullDocumentUpdate(document, baseContent, updatedContent, 'update');
+            replacementLines: this.normalizeTableLines(newTableContent)
+        }], 'update');
     }
 
     private async updateMultipleTablesInDocument(
@@ -450,25 +538,11 @@ export class MarkdownFileHandler implements FileHandler {
             newContent: string;
         }>
     ): Promise<void> {
-        const eol = this.getEolString(document);
-        const originalContent = document.getText();
-        const sortedUpdates = [...updates].sort((a, b) => b.startLine - a.startLine);
-
-        let workingContent = originalContent;
-        for (const update of sortedUpdates) {
-            const replacementLines = this.normalizeTableLines(update.newContent);
-            workingContent = this.buildUpdatedContent(
-                document.uri,
-                'update',
-                workingContent,
-                update.startLine,
-                update.endLine,
-                replacementLines,
-                eol
-            );
-        }
-
-        await this.applyFullDocumentUpdate(document, originalContent, workingContent, 'update');
+        await this.applyTableLineUpdates(document, updates.map(update => ({
+            startLine: update.startLine,
+            endLine: update.endLine,
+            replacementLines: this.normalizeTableLines(update.newContent)
+        })), 'update');
     }
 
     /**
@@ -559,6 +633,8 @@ export class MarkdownFileHandler implements FileHandler {
      * Dispose resources
      */
     dispose(): void {
+        this.pendingSaves.forEach(timer => clearTimeout(timer));
+        this.pendingSaves.clear();
         this.outputChannel.dispose();
     }
 }
@@ -0,0 +1,627 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: `=SUM(B2:B10)` や `=A2*C2` のような表計算スタイルの数式セルを評価する
+ * なぜ: 数式の原文を HTML コメントとしてセル内に保持しつつ、Markdown には計算結果を出力するため
+ *
+ * セルの保存形式: `<!--=A2*C2-->42`（コメント内が数式、後ろが計算結果）
+ * 参照は A1 形式で、列記号は Webview の getColumnLetter と同じ規則、行番号はデータ行の 1 始まり。
+ */
+
+export type FormulaErrorCode = '#CYCLE!' | '#REF!' | '#DIV/0!' | '#VALUE!' | '#NAME?' | '#ERROR!';
+
+export interface FormulaResult {
+    value: string;
+    error?: FormulaErrorCode;
+}
+
+export interface FormulaCellRef {
+    row: number;
+    col: number;
+}
+
+const FORMULA_CELL_PATTERN = /^<!--=([\s\S]*?)-->([\s\S]*)$/;
+const CELL_REF_PATTERN = /^([A-Z]+)([0-9]+)$/;
+const ERROR_CODES: FormulaErrorCode[] = ['#CYCLE!', '#REF!', '#DIV/0!', '#VALUE!', '#NAME?', '#ERROR!'];
+const DELETED_REF = '#REF!';
+// 数式中の数値・単語（セル参照を含む）と、範囲（A1:B2）の組。数値を先に読み、1E5 の E5 を参照として扱わない
+const FORMULA_REF_PATTERN = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|([A-Za-z_][A-Za-z0-9_.]*)(?:(\s*:\s*)([A-Za-z_][A-Za-z0-9_.]*))?/g;
+
+class FormulaEvaluationError extends Error {
+    constructor(public readonly code: FormulaErrorCode) {
+        super(code);
+        this.name = 'FormulaEvaluationError';
+    }
+}
+
+/**
+ * Parse a stored formula cell (`<!--=expr-->value`)
+ */
+export function parseFormulaCell(cell: string): { formula: string; value: string } | null {
+    if (typeof cell !== 'string') {
+        return null;
+    }
+    const match = cell.match(FORMULA_CELL_PATTERN);
+    if (!match) {
+        return null;
+    }
+    return { formula: match[1].trim(), value: match[2] };
+}
+
+/**
+ * Build the stored representation of a formula cell
+ */
+export function buildFormulaCell(formula: string, value: string): string {
+    return `<!--=${formula}-->${value}`;
+}
+
+/**
+ * Convert user input into a formula cell when it starts with `=`
+ * 既に保存形式の場合はそのまま返す
+ */
+export function normalizeFormulaInput(value: string): string {
+    if (typeof value !== 'string' || parseFormulaCell(value)) {
+        return value;
+    }
+    const trimmed = value.trim();
+    if (trimmed.length > 1 && trimmed.startsWith('=')) {
+        return buildFormulaCell(trimmed.substring(1).trim(), '');
+    }
+    return value;
+}
+
+export function isFormulaCell(cell: string): boolean {
+    return parseFormulaCell(cell) !== null;
+}
+
+/**
+ * Column letter for A1 notation (A, B, ..., Z, AA, AB, ...)
+ */
+export function getColumnLetter(index: number): string {
+    let result = '';
+    while (index >= 0) {
+        result = String.fromCharCode(65 + (index % 26)) + result;
+        index = Math.floor(index / 26) - 1;
+    }
+    return result;
+}
+
+/**
+ * Parse an A1 reference into 0-based data row/column indices
+ */
+export function parseCellReference(ref: string): FormulaCellRef | null {
+    const match = ref.toUpperCase().match(CELL_REF_PATTERN);
+    if (!match) {
+        return null;
+    }
+    let col = 0;
+    for (const ch of match[1]) {
+        col = col * 26 + (ch.charCodeAt(0) - 64);
+    }
+    const rowNumber = parseInt(match[2], 10);
+    if (rowNumber < 1) {
+        return null;
+    }
+    return { row: rowNumber - 1, col: col - 1 };
+}
+
+/**
+ * Rewrite the references of a formula after rows or columns are inserted, deleted or moved
+ * - mapIndex は変更前の行（列）番号から変更後の番号を返す。削除された場合は null（参照は #REF! になる）
+ * - 範囲は両端を付け替え、端が削除された場合は残っている行（列）まで縮める
+ */
+export function remapFormulaReferences(
+    formula: string,
+    axis: 'row' | 'col',
+    mapIndex: (index: number) => number | null
+): string {
+    const mapRef = (ref: FormulaCellRef, index: number): string =>
+        getColumnLetter(axis === 'col' ? index : ref.col) + String((axis === 'row' ? index : ref.row) + 1);
+
+    return formula.replace(FORMULA_REF_PATTERN, (match: string, word?: string, colon?: string, endWord?: string) => {
+        const from = word ? parseCellReference(word) : null;
+        if (!from || !CELL_REF_PATTERN.test(word!.toUpperCase())) {
+            return match;
+        }
+        const to = endWord ? parseCellReference(endWord) : null;
+        if (!to) {
+            const index = mapIndex(axis === 'row' ? from.row : from.col);
+            return (index === null ? DELETED_REF : mapRef(from, index)) + (colon ?? '') + (endWord ?? '');
+        }
+
+        const first = Math.min(axis === 'row' ? from.row : from.col, axis === 'row' ? to.row : to.col);
+        const last = Math.max(axis === 'row' ? from.row : from.col, axis === 'row' ? to.row : to.col);
+        let start: number | null = null;
+        let end: number | null = null;
+        for (let i = first; i <= last && start === null; i++) {
+            start = mapIndex(i);
+        }
+        for (let i = last; i >= first && end === null; i--) {
+            end = mapIndex(i);
+        }
+        if (start === null || end === null) {
+            return `${DELETED_REF}${colon}${DELETED_REF}`;
+        }
+        const normalizedFrom = { row: Math.min(from.row, to.row), col: Math.min(from.col, to.col) };
+        const normalizedTo = { row: Math.max(from.row, to.row), col: Math.max(from.col, to.col) };
+        return `${mapRef(normalizedFrom, Math.min(start, end))}${colon}${mapRef(normalizedTo, Math.max(start, end))}`;
+    });
+}
+
+// ---- Tokenizer / Parser ----
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'ref'; value: string }
+    | { type: 'ident'; value: string }
+    | { type: 'op'; value: string };
+
+type FormulaNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'ref'; ref: FormulaCellRef | null }
+    | { kind: 'range'; from: FormulaCellRef | null; to: FormulaCellRef | null }
+    | { kind: 'unary'; op: string; operand: FormulaNode }
+    | { kind: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+    | { kind: 'call'; name: string; args: FormulaNode[] };
+
+function tokenize(formula: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < formula.length) {
+        const ch = formula[i];
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        const numberMatch = formula.substring(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+        if (numberMatch) {
+            tokens.push({ type: 'number', value: parseFloat(numberMatch[0]) });
+            i += numberMatch[0].length;
+            continue;
+        }
+        // 削除された行・列への参照（remapFormulaReferences が書き込む）は評価時に #REF!
+        if (formula.startsWith(DELETED_REF, i)) {
+            tokens.push({ type: 'ref', value: DELETED_REF });
+            i += DELETED_REF.length;
+            continue;
+        }
+        const wordMatch = formula.substring(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+        if (wordMatch) {
+            const word = wordMatch[0].toUpperCase();
+            tokens.push(CELL_REF_PATTERN.test(word) ? { type: 'ref', value: word } : { type: 'ident', value: word });
+            i += wordMatch[0].length;
+            continue;
+        }
+        if ('+-*/^(),:'.includes(ch)) {
+            tokens.push({ type: 'op', value: ch });
+            i++;
+            continue;
+        }
+        throw new FormulaEvaluationError('#ERROR!');
+    }
+    return tokens;
+}
+
+class FormulaParser {
+    private pos = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    parse(): FormulaNode {
+        const node = this.parseAdditive();
+        if (this.pos < this.tokens.length) {
+            throw new FormulaEvaluationError('#ERROR!');
+        }
+        return node;
+    }
+
+    private peekOp(...ops: string[]): string | null {
+        const token = this.tokens[this.pos];
+        return token && token.type === 'op' && ops.includes(token.value) ? token.value : null;
+    }
+
+    private expectOp(op: string): void {
+        if (!this.peekOp(op)) {
+            throw new FormulaEvaluationError('#ERROR!');
+        }
+        this.pos++;
+    }
+
+    private parseAdditive(): FormulaNode {
+        let node = this.parseMultiplicative();
+        let op: string | null;
+        while ((op = this.peekOp('+', '-'))) {
+            this.pos++;
+            node = { kind: 'binary', op, left: node, right: this.parseMultiplicative() };
+        }
+        return node;
+    }
+
+    private parseMultiplicative(): FormulaNode {
+        let node = this.parseUnary();
+        let op: string | null;
+        while ((op = this.peekOp('*', '/'))) {
+            this.pos++;
+            node = { kind: 'binary', op, left: node, right: this.parseUnary() };
+        }
+        return node;
+    }
+
+    private parseUnary(): FormulaNode {
+        const op = this.peekOp('+', '-');
+        if (op) {
+            this.pos++;
+            return { kind: 'unary', op, operand: this.parseUnary() };
+        }
+        return this.parsePower();
+    }
+
+    private parsePower(): FormulaNode {
+        const base = this.parsePrimary();
+        if (this.peekOp('^')) {
+            this.pos++;
+            return { kind: 'binary', op: '^', left: base, right: this.parseUnary() };
+        }
+        return base;
+    }
+
+    private parsePrimary(): FormulaNode {
+        const token = this.tokens[this.pos];
+        if (!token) {
+            throw new FormulaEvaluationError('#ERROR!');
+        }
+        this.pos++;
+
+        if (token.type === 'number') {
+            return { kind: 'number', value: token.value };
+        }
+        if (token.type === 'ref') {
+            if (this.peekOp(':')) {
+                this.pos++;
+                const end = this.tokens[this.pos];
+                if (!end || end.type !== 'ref') {
+                    throw new FormulaEvaluationError('#ERROR!');
+                }
+                this.pos++;
+                return { kind: 'range', from: parseCellReference(token.value), to: parseCellReference(end.value) };
+            }
+            return { kind: 'ref', ref: parseCellReference(token.value) };
+        }
+        if (token.type === 'ident') {
+            this.expectOp('(');
+            const args: FormulaNode[] = [];
+            if (!this.peekOp(')')) {
+                args.push(this.parseAdditive());
+                while (this.peekOp(',')) {
+                    this.pos++;
+                    args.push(this.parseAdditive());
+                }
+            }
+            this.expectOp(')');
+            return { kind: 'call', name: token.value, args };
+        }
+        if (token.value === '(') {
+            const inner = this.parseAdditive();
+            this.expectOp(')');
+            return inner;
+        }
+        throw new FormulaEvaluationError('#ERROR!');
+    }
+}
+
+function parseFormula(formula: string): FormulaNode {
+    return new FormulaParser(tokenize(formula)).parse();
+}
+
+export interface TableBounds {
+    rows: number;
+    cols: number;
+}
+
+function getTableBounds(rows: string[][]): TableBounds {
+    return { rows: rows.length, cols: rows.reduce((max, row) => Math.max(max, row.length), 0) };
+}
+
+function isRangeInBounds(from: FormulaCellRef, to: FormulaCellRef, bounds: TableBounds): boolean {
+    return Math.max(from.row, to.row) < bounds.rows && Math.max(from.col, to.col) < bounds.cols;
+}
+
+// 範囲をセルの一覧に展開する（bounds 指定時はテーブル内のセルのみ。A1:ZZZ999999 などの巨大な範囲で止まらないようにする）
+function expandRange(from: FormulaCellRef, to: FormulaCellRef, bounds?: TableBounds): FormulaCellRef[] {
+    const refs: FormulaCellRef[] = [];
+    const lastRow = Math.max(from.row, to.row);
+    const lastCol = Math.max(from.col, to.col);
+    const maxRow = bounds ? Math.min(lastRow, bounds.rows - 1) : lastRow;
+    const maxCol = bounds ? Math.min(lastCol, bounds.cols - 1) : lastCol;
+    for (let row = Math.min(from.row, to.row); row <= maxRow; row++) {
+        for (let col = Math.min(from.col, to.col); col <= maxCol; col++) {
+            refs.push({ row, col });
+        }
+    }
+    return refs;
+}
+
+function collectReferences(node: FormulaNode, refs: FormulaCellRef[], bounds?: TableBounds): void {
+    switch (node.kind) {
+        case 'ref':
+            if (node.ref) {
+                refs.push(node.ref);
+            }
+            break;
+        case 'range':
+            if (node.from && node.to) {
+                refs.push(...expandRange(node.from, node.to, bounds));
+            }
+            break;
+        case 'unary':
+            collectReferences(node.operand, refs, bounds);
+            break;
+        case 'binary':
+            collectReferences(node.left, refs, bounds);
+            collectReferences(node.right, refs, bounds);
+            break;
+        case 'call':
+            node.args.forEach(arg => collectReferences(arg, refs, bounds));
+            break;
+    }
+}
+
+/**
+ * List the cells a formula depends on (ranges are expanded, limited to the table when bounds are given)
+ */
+export function extractReferences(formula: string, bounds?: TableBounds): FormulaCellRef[] {
+    const refs: FormulaCellRef[] = [];
+    try {
+        collectReferences(parseFormula(formula), refs, bounds);
+    } catch {
+        // 構文エラーの数式は依存なしとして扱う（評価時にエラー表示）
+    }
+    return refs;
+}
+
+/**
+ * Format a computed number for display (avoid floating point noise)
+ */
+export function formatFormulaNumber(value: number): string {
+    if (Number.isInteger(value)) {
+        return String(value);
+    }
+    return String(parseFloat(value.toPrecision(12)));
+}
+
+// ---- Evaluation ----
+
+type CellValue = { kind: 'number'; value: number } | { kind: 'text'; value: string } | { kind: 'blank' };
+
+const cellKey = (row: number, col: number): string => `${row}-${col}`;
+
+function toCellValue(text: string): CellValue {
+    const trimmed = (text ?? '').trim();
+    if (trimmed === '') {
+        return { kind: 'blank' };
+    }
+    if ((ERROR_CODES as string[]).includes(trimmed)) {
+        throw new FormulaEvaluationError(trimmed as FormulaErrorCode);
+    }
+    const numeric = Number(trimmed.replace(/,/g, ''));
+    return isNaN(numeric) ? { kind: 'text', value: trimmed } : { kind: 'number', value: numeric };
+}
+
+function toScalarNumber(value: CellValue): number {
+    if (value.kind === 'blank') {
+        return 0;
+    }
+    if (value.kind === 'text') {
+        throw new FormulaEvaluationError('#VALUE!');
+    }
+    return value.value;
+}
+
+/**
+ * Evaluate formula cells of a table
+ * - dependency graph: 参照先を再帰的に評価し、評価中のセルへ戻ってきた場合は循環参照 (#CYCLE!)
+ * - targets 指定時はそのセルのみ再計算し、それ以外の数式セルは保存済みの計算結果を使う
+ */
+export function evaluateFormulas(rows: string[][], targets?: Set<string>): Map<string, FormulaResult> {
+    const formulas = new Map<string, FormulaNode | FormulaEvaluationError>();
+    rows.forEach((row, r) => row.forEach((cell, c) => {
+        const parsed = parseFormulaCell(cell);
+        if (!parsed) {
+            return;
+        }
+        try {
+            formulas.set(cellKey(r, c), parseFormula(parsed.formula));
+        } catch (error) {
+            formulas.set(cellKey(r, c), error instanceof FormulaEvaluationError ? error : new FormulaEvaluationError('#ERROR!'));
+        }
+    }));
+
+    const results = new Map<string, FormulaResult>();
+    const visiting = new Set<string>();
+    const bounds = getTableBounds(rows);
+
+    const readCell = (ref: FormulaCellRef | null): CellValue => {
+        if (!ref || ref.row >= rows.length || ref.col >= (rows[ref.row]?.length ?? 0)) {
+            throw new FormulaEvaluationError('#REF!');
+        }
+        const key = cellKey(ref.row, ref.col);
+        if (formulas.has(key) && (!targets || targets.has(key))) {
+            const result = resolve(ref.row, ref.col);
+            if (result.error) {
+                throw new FormulaEvaluationError(result.error);
+            }
+            return toCellValue(result.value);
+        }
+        const cell = rows[ref.row][ref.col];
+        const parsed = parseFormulaCell(cell);
+        return toCellValue(parsed ? parsed.value : cell.replace(/<br\s*\/?>/gi, ' '));
+    };
+
+    const collectValues = (node: FormulaNode, values: CellValue[]): void => {
+        if (node.kind === 'range') {
+            if (!node.from || !node.to) {
+                throw new FormulaEvaluationError('#REF!');
+            }
+            // テーブル外にはみ出す範囲は展開せずに #REF!
+            if (!isRangeInBounds(node.from, node.to, bounds)) {
+                throw new FormulaEvaluationError('#REF!');
+            }
+            expandRange(node.from, node.to).forEach(ref => values.push(readCell(ref)));
+        } else if (node.kind === 'ref') {
+            values.push(readCell(node.ref));
+        } else {
+            values.push({ kind: 'number', value: evaluateNode(node) });
+        }
+    };
+
+    const callFunction = (name: string, args: FormulaNode[]): number => {
+        if (name === 'ABS' || name === 'ROUND') {
+            if (args.length < 1 || args.length > (name === 'ROUND' ? 2 : 1)) {
+                throw new FormulaEvaluationError('#VALUE!');
+            }
+            const x = evaluateNode(args[0]);
+            if (name === 'ABS') {
+                return Math.abs(x);
+            }
+            const factor = Math.pow(10, args[1] ? Math.trunc(evaluateNode(args[1])) : 0);
+            return Math.round(x * factor) / factor;
+        }
+
+        const values: CellValue[] = [];
+        args.forEach(arg => collectValues(arg, values));
+        const numbers = values.filter((v): v is { kind: 'number'; value: number } => v.kind === 'number').map(v => v.value);
+
+        switch (name) {
+            case 'SUM':
+                return numbers.reduce((sum, n) => sum + n, 0);
+            case 'AVERAGE':
+            case 'AVG':
+                if (numbers.length === 0) {
+                    throw new FormulaEvaluationError('#DIV/0!');
+                }
+                return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+            case 'MIN':
+                return numbers.length > 0 ? Math.min(...numbers) : 0;
+            case 'MAX':
+                return numbers.length > 0 ? Math.max(...numbers) : 0;
+            case 'COUNT':
+                return numbers.length;
+            default:
+                throw new FormulaEvaluationError('#NAME?');
+        }
+    };
+
+    const evaluateNode = (node: FormulaNode): number => {
+        switch (node.kind) {
+            case 'number':
+                return node.value;
+            case 'ref':
+                return toScalarNumber(readCell(node.ref));
+            case 'range':
+                // 範囲は関数の引数としてのみ使用可能
+                throw new FormulaEvaluationError('#VALUE!');
+            case 'unary': {
+                const operand = evaluateNode(node.operand);
+                return node.op === '-' ? -operand : operand;
+            }
+            case 'binary': {
+                const left = evaluateNode(node.left);
+                const right = evaluateNode(node.right);
+                switch (node.op) {
+                    case '+': return left + right;
+                    case '-': return left - right;
+                    case '*': return left * right;
+                    case '/':
+                        if (right === 0) {
+                            throw new FormulaEvaluationError('#DIV/0!');
+                        }
+                        return left / right;
+                    default: return Math.pow(left, right);
+                }
+            }
+            case 'call':
+                return callFunction(node.name, node.args);
+        }
+    };
+
+    const resolve = (row: number, col: number): FormulaResult => {
+        const key = cellKey(row, col);
+        const cached = results.get(key);
+        if (cached) {
+            return cached;
+        }
+        if (visiting.has(key)) {
+            return { value: '#CYCLE!', error: '#CYCLE!' };
+        }
+
+        const node = formulas.get(key)!;
+        let result: FormulaResult;
+        if (node instanceof FormulaEvaluationError) {
+            result = { value: node.code, error: node.code };
+        } else {
+            visiting.add(key);
+            try {
+                const value = evaluateNode(node);
+                result = isFinite(value)
+                    ? { value: formatFormulaNumber(value) }
+                    : { value: '#DIV/0!', error: '#DIV/0!' };
+            } catch (error) {
+                const code = error instanceof FormulaEvaluationError ? error.code : '#ERROR!';
+                result = { value: code, error: code };
+            } finally {
+                visiting.delete(key);
+            }
+        }
+        results.set(key, result);
+        return result;
+    };
+
+    formulas.forEach((_node, key) => {
+        if (targets && !targets.has(key)) {
+            return;
+        }
+        const [row, col] = key.split('-').map(Number);
+        resolve(row, col);
+    });
+
+    return results;
+}
+
+/**
+ * Collect formula cells that (transitively) depend on the changed cells
+ * 変更されたセル自体が数式の場合はそのセルも含む
+ */
+export function collectDependentFormulas(rows: string[][], changed: FormulaCellRef[]): Set<string> {
+    const dependents = new Map<string, string[]>();
+    const formulaKeys = new Set<string>();
+    const bounds = getTableBounds(rows);
+    rows.forEach((row, r) => row.forEach((cell, c) => {
+        const parsed = parseFormulaCell(cell);
+        if (!parsed) {
+            return;
+        }
+        const key = cellKey(r, c);
+        formulaKeys.add(key);
+        for (const ref of extractReferences(parsed.formula, bounds)) {
+            const refKey = cellKey(ref.row, ref.col);
+            const list = dependents.get(refKey) ?? [];
+            list.push(key);
+            dependents.set(refKey, list);
+        }
+    }));
+
+    const dirty = new Set<string>();
+    const queue = changed.map(ref => cellKey(ref.row, ref.col));
+    while (queue.length > 0) {
+        const key = queue.shift()!;
+        if (formulaKeys.has(key)) {
+            dirty.add(key);
+        }
+        for (const dependent of dependents.get(key) ?? []) {
+            if (!dirty.has(dependent)) {
+                dirty.add(dependent);
+                queue.push(dependent);
+            }
+        }
+    }
+    return dirty;
+}
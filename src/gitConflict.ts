@@ -0,0 +1,187 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: Git のコンフリクトマーカー（<<<<<<< / ||||||| / ======= / >>>>>>>）が入ったテーブルを見つけ、
+ *       ours / theirs（diff3 形式なら base も）のテーブルとして取り出す
+ * なぜ: マーカーがテーブルの途中に入ると MarkdownParser がテーブルとして認識できなくなるため、
+ *       各バージョンを組み立て直してからセル単位のマージに使う
+ */
+
+import { MarkdownParser } from './markdownParser';
+import { TableData, TableMergeConflict } from './communication/protocol';
+
+interface ConflictBlock {
+    start: number;      // <<<<<<< の行
+    baseStart?: number; // ||||||| の行（diff3 形式のみ）
+    separator: number;  // ======= の行
+    end: number;        // >>>>>>> の行
+    oursLabel: string;
+    theirsLabel: string;
+}
+
+type ConflictSide = 'ours' | 'theirs' | 'base';
+
+const START_MARKER = /^<{7}(?:\s+(.*))?$/;
+const BASE_MARKER = /^\|{7}(?:\s|$)/;
+const SEPARATOR_MARKER = /^={7}$/;
+const END_MARKER = /^>{7}(?:\s+(.*))?$/;
+
+/**
+ * Quick check used before the more expensive table reconstruction
+ */
+export function hasConflictMarkers(content: string): boolean {
+    return /^<{7}(?:\s|$)/m.test(content) && /^>{7}(?:\s|$)/m.test(content);
+}
+
+/**
+ * Find tables that contain (or are interrupted by) Git conflict blocks
+ */
+export function findConflictedTables(parser: MarkdownParser, content: string): TableMergeConflict[] {
+    if (!hasConflictMarkers(content)) {
+        return [];
+    }
+
+    const lines = content.split(/\r?\n/);
+    const blocks = findConflictBlocks(lines);
+    const blockAt = new Map(blocks.map(block => [block.start, block]));
+    const conflicts: TableMergeConflict[] = [];
+
+    let index = 0;
+    while (index < blocks.length) {
+        const first = blocks[index];
+
+        // マーカーの前後に続くテーブル行と、隣接するコンフリクトブロックを 1 つの範囲にまとめる
+        let startLine = first.start;
+        while (startLine > 0 && isTableLine(lines[startLine - 1])) {
+            startLine--;
+        }
+        const regionBlocks = [first];
+        let endLine = first.end;
+        while (endLine + 1 < lines.length) {
+            const next = blockAt.get(endLine + 1);
+            if (next) {
+                regionBlocks.push(next);
+                endLine = next.end;
+            } else if (isTableLine(lines[endLine + 1])) {
+                endLine++;
+            } else {
+                break;
+            }
+        }
+        index += regionBlocks.length;
+
+        // 本文だけのコンフリクトはテーブルのマージ対象にしない
+        const touchesTable = regionBlocks.some(block =>
+            lines.slice(block.start + 1, block.end).some(line => isTableLine(line) && !BASE_MARKER.test(line))
+        );
+        if (!touchesTable) {
+            continue;
+        }
+
+        const ours = buildVersion(parser, lines, startLine, endLine, regionBlocks, 'ours');
+        const theirs = buildVersion(parser, lines, startLine, endLine, regionBlocks, 'theirs');
+        if (!ours && !theirs) {
+            continue;
+        }
+
+        const conflict: TableMergeConflict = {
+            startLine,
+            endLine,
+            oursLabel: first.oursLabel,
+            theirsLabel: first.theirsLabel,
+            ours: ours ?? emptyTable(),
+            theirs: theirs ?? emptyTable()
+        };
+        if (regionBlocks.every(block => block.baseStart !== undefined)) {
+            conflict.base = buildVersion(parser, lines, startLine, endLine, regionBlocks, 'base') ?? emptyTable();
+        }
+        conflicts.push(conflict);
+    }
+
+    return conflicts;
+}
+
+function findConflictBlocks(lines: string[]): ConflictBlock[] {
+    const blocks: ConflictBlock[] = [];
+    let line = 0;
+    while (line < lines.length) {
+        const start = START_MARKER.exec(lines[line]);
+        if (!start) {
+            line++;
+            continue;
+        }
+
+        let baseStart: number | undefined;
+        let separator = -1;
+        let end = -1;
+        for (let i = line + 1; i < lines.length; i++) {
+            if (START_MARKER.test(lines[i])) {
+                break;
+            }
+            if (separator < 0 && baseStart === undefined && BASE_MARKER.test(lines[i])) {
+                baseStart = i;
+            } else if (separator < 0 && SEPARATOR_MARKER.test(lines[i])) {
+                separator = i;
+            } else if (separator >= 0 && END_MARKER.test(lines[i])) {
+                end = i;
+                break;
+            }
+        }
+
+        if (separator < 0 || end < 0) {
+            // 閉じていないマーカーは無視する
+            line++;
+            continue;
+        }
+
+        blocks.push({
+            start: line,
+            baseStart,
+            separator,
+            end,
+            oursLabel: (start[1] ?? '').trim(),
+            theirsLabel: (END_MARKER.exec(lines[end])?.[1] ?? '').trim()
+        });
+        line = end + 1;
+    }
+    return blocks;
+}
+
+function buildVersion(
+    parser: MarkdownParser,
+    lines: string[],
+    startLine: number,
+    endLine: number,
+    blocks: ConflictBlock[],
+    side: ConflictSide
+): TableData | undefined {
+    const versionLines: string[] = [];
+    let line = startLine;
+    for (const block of blocks) {
+        versionLines.push(...lines.slice(line, block.start));
+        if (side === 'ours') {
+            versionLines.push(...lines.slice(block.start + 1, block.baseStart ?? block.separator));
+        } else if (side === 'base') {
+            versionLines.push(...lines.slice((block.baseStart ?? block.separator) + 1, block.separator));
+        } else {
+            versionLines.push(...lines.slice(block.separator + 1, block.end));
+        }
+        line = block.end + 1;
+    }
+    versionLines.push(...lines.slice(line, endLine + 1));
+
+    const tables = parser.findTablesInDocument(parser.parseDocument(versionLines.join('\n')));
+    if (tables.length === 0) {
+        return undefined;
+    }
+    const { headers, rows, alignment } = tables[0];
+    return { headers, rows, alignment };
+}
+
+function isTableLine(line: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.length > 0 && trimmed.includes('|');
+}
+
+function emptyTable(): TableData {
+    return { headers: [], rows: [], alignment: [] };
+}
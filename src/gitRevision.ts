@@ -0,0 +1,38 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: git コマンドで、ファイルの指定したリビジョン時点の内容を読み込む
+ * なぜ: テーブルの差分表示で、HEAD や任意のコミット・ブランチの内容を比較元にするため
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+
+// git show の出力の上限（大きなファイルでも失敗しないよう余裕を持たせる）
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Read the content of a file at a Git revision (e.g. HEAD, main~1, a commit hash)
+ */
+export function readFileAtRevision(filePath: string, revision: string): Promise<string> {
+    const rev = revision.trim();
+    // オプションとして解釈される値や、パス指定を含む値は受け付けない
+    if (!rev || rev.startsWith('-') || rev.includes(':')) {
+        return Promise.reject(new Error(`Invalid revision: ${revision}`));
+    }
+
+    return new Promise((resolve, reject) => {
+        // "<rev>:./<file>" はカレントディレクトリ（ファイルのあるディレクトリ）からの相対パスとして解決される
+        execFile(
+            'git',
+            ['show', `${rev}:./${path.basename(filePath)}`],
+            { cwd: path.dirname(filePath), maxBuffer: MAX_OUTPUT_BYTES, encoding: 'utf8' },
+            (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error((stderr || error.message).trim()));
+                    return;
+                }
+                resolve(stdout);
+            }
+        );
+    });
+}
@@ -0,0 +1,235 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)。セルの結合の範囲計算は webview からも参照する
+ * 何を: HTML の <table> ブロックの読み込み・書き出しと、結合したセル（rowspan / colspan）の範囲の計算
+ * なぜ: GFM のテーブルではセルを結合できないため、手書きの HTML テーブルも編集できるようにし、
+ *       結合したセルがあるテーブルは HTML として保存するため
+ */
+
+import { CellSpan } from './communication/protocol';
+
+export type { CellSpan };
+
+export interface HtmlTableContent {
+    headers: string[];
+    rows: string[][];
+    alignment: ('left' | 'center' | 'right')[];
+    spans: CellSpan[];
+}
+
+interface HtmlCell {
+    content: string;
+    rowSpan: number;
+    colSpan: number;
+    align?: 'left' | 'center' | 'right';
+}
+
+const ROW_PATTERN = /<tr\b[^>]*>([\s\S]*?)<\/tr\s*>/gi;
+const CELL_PATTERN = /<(th|td)\b([^>]*)>([\s\S]*?)<\/\1\s*>/gi;
+
+/**
+ * Whether an HTML block is a single table that can be edited as a grid
+ * (nested tables and captions are left as they are)
+ */
+export function isHtmlTableBlock(content: string): boolean {
+    const html = content.trim();
+    return /^<table[\s>]/i.test(html) &&
+        /<\/table\s*>$/i.test(html) &&
+        (html.match(/<table[\s>]/gi) ?? []).length === 1 &&
+        !/<caption[\s>]/i.test(html);
+}
+
+/**
+ * Read an HTML table into a grid: the first row becomes the headers, and the cells covered by a merged cell are empty.
+ * Returns null when the block is not an editable table, has no rows, or merges header cells with the rows below
+ * (the header row can't span rows in the grid).
+ */
+export function parseHtmlTable(content: string): HtmlTableContent | null {
+    if (!isHtmlTableBlock(content)) {
+        return null;
+    }
+    const htmlRows = Array.from(content.matchAll(ROW_PATTERN), match => parseCells(match[1]));
+    if (htmlRows.length === 0 || htmlRows[0].length === 0) {
+        return null;
+    }
+    if (htmlRows.length > 1 && htmlRows[0].some(cell => cell.rowSpan > 1)) {
+        return null;
+    }
+
+    const grid: string[][] = htmlRows.map(() => []);
+    const alignment: ('left' | 'center' | 'right')[] = [];
+    const spans: CellSpan[] = [];
+    htmlRows.forEach((cells, rowIndex) => {
+        let col = 0;
+        cells.forEach(cell => {
+            // 上の行から縦に結合されたセルを飛ばす
+            while (grid[rowIndex][col] !== undefined) {
+                col++;
+            }
+            // 表の末尾を越える rowspan は末尾までにする（ブラウザと同じ）
+            const rowSpan = Math.min(cell.rowSpan, htmlRows.length - rowIndex);
+            for (let r = 0; r < rowSpan; r++) {
+                for (let c = 0; c < cell.colSpan; c++) {
+                    grid[rowIndex + r][col + c] = r === 0 && c === 0 ? cell.content : '';
+                }
+            }
+            if (rowSpan > 1 || cell.colSpan > 1) {
+                spans.push({ row: rowIndex - 1, col, rowSpan, colSpan: cell.colSpan });
+            }
+            if (rowIndex === 0) {
+                alignment[col] = cell.align ?? 'left';
+            }
+            col += cell.colSpan;
+        });
+    });
+
+    const columnCount = Math.max(...grid.map(row => row.length));
+    const filled = grid.map(row => Array.from({ length: columnCount }, (_, col) => row[col] ?? ''));
+    return {
+        headers: filled[0],
+        rows: filled.slice(1),
+        alignment: Array.from({ length: columnCount }, (_, col) => alignment[col] ?? 'left'),
+        spans
+    };
+}
+
+/**
+ * Write a table as an HTML block (the first row in <thead>, the cells covered by a merged cell omitted).
+ * The block has no blank lines so that Markdown keeps it as one HTML block.
+ */
+export function serializeHtmlTable(table: { headers: string[]; rows: string[][]; alignment: string[]; spans?: CellSpan[] }): string {
+    const anchors = new Map((table.spans ?? []).map(span => [`${span.row}-${span.col}`, span]));
+    const covered = new Set<string>();
+    (table.spans ?? []).forEach(span => {
+        getSpanCells(span).forEach(([row, col]) => {
+            if (row !== span.row || col !== span.col) {
+                covered.add(`${row}-${col}`);
+            }
+        });
+    });
+
+    const renderRow = (cells: string[], row: number, tag: 'th' | 'td', indent: string): string[] => {
+        const rendered = cells.flatMap((value, col) => {
+            if (covered.has(`${row}-${col}`)) {
+                return [];
+            }
+            const span = anchors.get(`${row}-${col}`);
+            const align = table.alignment[col];
+            const attributes = [
+                span && span.rowSpan > 1 ? ` rowspan="${span.rowSpan}"` : '',
+                span && span.colSpan > 1 ? ` colspan="${span.colSpan}"` : '',
+                align === 'center' || align === 'right' ? ` align="${align}"` : ''
+            ].join('');
+            return [`${indent}  <${tag}${attributes}>${toHtmlCellContent(value)}</${tag}>`];
+        });
+        return [`${indent}<tr>`, ...rendered, `${indent}</tr>`];
+    };
+
+    return [
+        '<table>',
+        '  <thead>',
+        ...renderRow(table.headers, -1, 'th', '    '),
+        '  </thead>',
+        '  <tbody>',
+        ...table.rows.flatMap((row, rowIndex) => renderRow(row, rowIndex, 'td', '    ')),
+        '  </tbody>',
+        '</table>'
+    ].join('\n');
+}
+
+/**
+ * The positions [row, col] of all cells of a merged cell, the top-left cell first
+ */
+export function getSpanCells(span: CellSpan): Array<[number, number]> {
+    const cells: Array<[number, number]> = [];
+    for (let row = span.row; row < span.row + span.rowSpan; row++) {
+        for (let col = span.col; col < span.col + span.colSpan; col++) {
+            cells.push([row, col]);
+        }
+    }
+    return cells;
+}
+
+/**
+ * The merged cell containing the position, if any
+ */
+export function findSpanAt(spans: CellSpan[] | undefined, row: number, col: number): CellSpan | undefined {
+    return spans?.find(span => (
+        row >= span.row && row < span.row + span.rowSpan &&
+        col >= span.col && col < span.col + span.colSpan
+    ));
+}
+
+/**
+ * Move and stretch merged cells for rows / columns inserted at index
+ * (a merged cell grows when the lines are inserted inside it)
+ */
+export function insertSpanLines(spans: CellSpan[], axis: 'row' | 'col', index: number, count: number): CellSpan[] {
+    return spans.map(span => {
+        const { start, size } = getExtent(span, axis);
+        if (start >= index) {
+            return setExtent(span, axis, start + count, size);
+        }
+        if (index < start + size) {
+            return setExtent(span, axis, start, size + count);
+        }
+        return span;
+    });
+}
+
+/**
+ * Move and shrink merged cells for deleted rows / columns; merged cells reduced to one cell are removed
+ */
+export function deleteSpanLines(spans: CellSpan[], axis: 'row' | 'col', indices: number[]): CellSpan[] {
+    const deleted = new Set(indices);
+    const countBefore = (position: number) => indices.filter(index => index < position).length;
+    return spans
+        .map(span => {
+            const { start, size } = getExtent(span, axis);
+            let remaining = 0;
+            for (let position = start; position < start + size; position++) {
+                if (!deleted.has(position)) {
+                    remaining++;
+                }
+            }
+            return remaining > 0 ? setExtent(span, axis, start - countBefore(start), remaining) : null;
+        })
+        .filter((span): span is CellSpan => span !== null && (span.rowSpan > 1 || span.colSpan > 1));
+}
+
+// 1行にまとめ、改行は <br> にする（空行があると HTML ブロックが途切れるため）
+function toHtmlCellContent(value: string): string {
+    return (value ?? '').replace(/\r?\n/g, '<br>');
+}
+
+function parseCells(rowHtml: string): HtmlCell[] {
+    return Array.from(rowHtml.matchAll(CELL_PATTERN), match => {
+        const attributes = match[2];
+        return {
+            // セル内の改行とインデントは空白 1 つにまとめる（<br> は Markdown のセルと同じく改行として残す）
+            content: match[3].trim().replace(/\s*\n\s*/g, ' '),
+            rowSpan: readSpanAttribute(attributes, 'rowspan'),
+            colSpan: readSpanAttribute(attributes, 'colspan'),
+            align: readAlignment(attributes)
+        };
+    });
+}
+
+function readSpanAttribute(attributes: string, name: 'rowspan' | 'colspan'): number {
+    const match = new RegExp(`\\b${name}\\s*=\\s*["']?(\\d+)`, 'i').exec(attributes);
+    const value = match ? parseInt(match[1], 10) : 1;
+    return value >= 1 ? value : 1;
+}
+
+function readAlignment(attributes: string): 'left' | 'center' | 'right' | undefined {
+    const match = /\balign\s*=\s*["']?(left|center|right)/i.exec(attributes) ??
+        /text-align\s*:\s*(left|center|right)/i.exec(attributes);
+    return match ? match[1].toLowerCase() as 'left' | 'center' | 'right' : undefined;
+}
+
+function getExtent(span: CellSpan, axis: 'row' | 'col'): { start: number; size: number } {
+    return axis === 'row' ? { start: span.row, size: span.rowSpan } : { start: span.col, size: span.colSpan };
+}
+
+function setExtent(span: CellSpan, axis: 'row' | 'col', start: number, size: number): CellSpan {
+    return axis === 'row' ? { ...span, row: start, rowSpan: size } : { ...span, col: start, colSpan: size };
+}
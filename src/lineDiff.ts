@@ -0,0 +1,62 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: テーブルを書き戻すときに、実際に変わった行の範囲（ハンク）を求める
+ * なぜ: ドキュメント全体を置換するとテキストエディタのカーソルや他の拡張の
+ *       マーカー・装飾が失われるため、変更された行だけを編集する
+ */
+
+export interface LineHunk {
+    /** 置換する元の行の開始位置 */
+    oldStart: number;
+    /** 置換する元の行の終了位置（この行は含まない。oldStart と同じなら挿入） */
+    oldEnd: number;
+    /** 置き換える行（空なら削除） */
+    lines: string[];
+}
+
+/**
+ * Compute the line hunks that turn `oldLines` into `newLines`.
+ * Rows edited in place (same line count) become one hunk per run of changed lines;
+ * otherwise a single hunk covers everything between the common prefix and suffix.
+ */
+export function computeLineHunks(oldLines: string[], newLines: string[]): LineHunk[] {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldEnd = oldLines.length - suffix;
+    const newEnd = newLines.length - suffix;
+    if (prefix === oldEnd && prefix === newEnd) {
+        return [];
+    }
+
+    // 行の追加・削除が無い場合（セル編集・ソートなど）は変わった行だけを置換する
+    if (oldEnd === newEnd) {
+        const hunks: LineHunk[] = [];
+        let line = prefix;
+        while (line < oldEnd) {
+            if (oldLines[line] === newLines[line]) {
+                line++;
+                continue;
+            }
+            const start = line;
+            while (line < oldEnd && oldLines[line] !== newLines[line]) {
+                line++;
+            }
+            hunks.push({ oldStart: start, oldEnd: line, lines: newLines.slice(start, line) });
+        }
+        return hunks;
+    }
+
+    return [{ oldStart: prefix, oldEnd, lines: newLines.slice(prefix, newEnd) }];
+}
@@ -1,5 +1,8 @@
 const MarkdownIt = require('markdown-it');
 import * as vscode from 'vscode';
+import { TableValidationRules, parseValidationComment } from './cellValidation';
+import { CellSpan, LinkTargetHeading } from './communication/protocol';
+import { parseHtmlTable } from './htmlTable';
 
 /**
  * Error types for markdown parsing operations
@@ -35,6 +38,9 @@ export interface TableNode {
     rows: string[][];
     alignment: ('left' | 'center' | 'right')[];
     separatorLine?: string; // オリジナルの区切り線を保持
+    validationRules?: TableValidationRules; // 直前の <!-- table-validation --> コメントの入力規則
+    format?: 'html'; // HTML の <table> ブロックから読み込んだテーブル
+    spans?: CellSpan[]; // 結合したセル（HTML テーブルの rowspan / colspan）
 }
 
 export interface MarkdownAST {
@@ -42,6 +48,13 @@ export interface MarkdownAST {
     content: string;
 }
 
+/**
+ * GitHub-style heading slug: lower case, punctuation removed and spaces replaced by hyphens
+ */
+export function slugifyHeading(text: string): string {
+    return text.trim().toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+}
+
 export class MarkdownParser {
     private md: any;
 
@@ -111,9 +124,17 @@ export class MarkdownParser {
                 try {
                     const token = tokens[i];
 
-                    if (token?.type === 'table_open') {
-                        const tableNode = this.parseTableToken(tokens, i, ast.content);
+                    if (token?.type === 'table_open' || token?.type === 'html_block') {
+                        const tableNode = token.type === 'table_open'
+                            ? this.parseTableToken(tokens, i, ast.content)
+                            : this.parseHtmlTableToken(token);
                         if (tableNode) {
+                            // テーブル直前の HTML コメントに記述された列ごとの入力規則
+                            const previous = tokens[i - 1];
+                            const validationRules = previous?.type === 'html_block' ? parseValidationComment(previous.content) : undefined;
+                            if (validationRules) {
+                                tableNode.validationRules = validationRules;
+                            }
                             // Validate the parsed table
                             const validation = this.validateTableStructure(tableNode);
                             if (!validation.isValid) {
@@ -144,6 +165,35 @@ export class MarkdownParser {
         }
     }
 
+    /**
+     * Find the headings of the document with the GitHub-style slugs used as link fragments
+     */
+    findHeadingsInDocument(ast: MarkdownAST): LinkTargetHeading[] {
+        const headings: LinkTargetHeading[] = [];
+        const slugCounts = new Map<string, number>();
+        ast.tokens.forEach((token: any, index: number) => {
+            const inline = ast.tokens[index + 1];
+            if (token?.type !== 'heading_open' || inline?.type !== 'inline') {
+                return;
+            }
+            // 書式を除いた見出しの文字列（リンク・強調などは中の文字列だけを使う）
+            const text = (inline.children ?? [])
+                .filter((child: any) => child.type === 'text' || child.type === 'code_inline')
+                .map((child: any) => child.content)
+                .join('')
+                .trim();
+            if (!text) {
+                return;
+            }
+            // 同じ見出しが複数ある場合は -1, -2 ... を付ける
+            const base = slugifyHeading(text);
+            const count = slugCounts.get(base) ?? 0;
+            slugCounts.set(base, count + 1);
+            headings.push({ text, level: Number(token.tag.slice(1)), slug: count > 0 ? `${base}-${count}` : base });
+        });
+        return headings;
+    }
+
     /**
      * Find table at specific position
      */
@@ -263,6 +313,28 @@ export class MarkdownParser {
         }
     }
 
+    /**
+     * Parse an HTML block holding a <table> (GFM tables can't merge cells, so such tables are written in HTML)
+     */
+    private parseHtmlTableToken(token: any): TableNode | null {
+        const table = token.map ? parseHtmlTable(token.content ?? '') : null;
+        if (!table) {
+            return null;
+        }
+        const tableNode: TableNode = {
+            startLine: token.map[0],
+            endLine: token.map[1],
+            headers: table.headers,
+            rows: table.rows,
+            alignment: table.alignment,
+            format: 'html'
+        };
+        if (table.spans.length > 0) {
+            tableNode.spans = table.spans;
+        }
+        return tableNode;
+    }
+
     /**
      * Parse table header
      */
@@ -457,6 +529,14 @@ export class MarkdownParser {
         actualContent: string[];
     } {
         const lines = content.split('\n');
+        // HTML テーブルはブロックの範囲そのもの（endLine は次の行）
+        if (tableNode.format === 'html') {
+            return {
+                startLine: tableNode.startLine,
+                endLine: tableNode.endLine - 1,
+                actualContent: lines.slice(tableNode.startLine, tableNode.endLine)
+            };
+        }
         let actualStartLine = tableNode.startLine;
         let actualEndLine = tableNode.endLine;
 
@@ -12,8 +12,20 @@ export type WebviewCommand =
   | 'moveColumn'
   | 'exportCSV'
   | 'importCSV'
+  | 'addAggregateRow'
+  | 'setAlignment'
+  | 'mergeCells'
+  | 'unmergeCells'
+  | 'saveViewState'
   | 'pong'
   | 'switchTable'
+  | 'searchWorkspace'
+  | 'openSearchMatch'
+  | 'openLink'
+  | 'listLinkTargets'
+  | 'replaceInWorkspace'
+  | 'resolveMergeConflict'
+  | 'jumpToHistory'
   | 'requestThemeVariables'
   | 'undo'
   | 'redo'
@@ -38,6 +50,8 @@ export interface UpdateCellData {
 export interface BulkUpdateCellsData {
   updates: Array<{ row: number; col: number; value: string }>;
   tableIndex?: number;
+  /** Updates for other tables applied in the same undo step (e.g. replace all across sheets) */
+  additionalTables?: Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string }> }>;
 }
 
 export interface UpdateHeaderData {
@@ -67,9 +81,20 @@ export interface DeleteColumnsData {
   tableIndex?: number;
 }
 
+// ソートキーの比較方法（auto は列の内容から number / date / string を判定）
+export type SortValueType = 'auto' | 'string' | 'number' | 'date' | 'natural';
+
+export interface SortKeyData {
+  column: number;
+  direction: 'asc' | 'desc';
+  type?: SortValueType;
+}
+
 export interface SortData {
   column: number;
   direction: 'asc' | 'desc' | 'none';
+  // 複数キーでのソート（先頭が主キー）。指定時は column / direction より優先
+  keys?: SortKeyData[];
   tableIndex?: number;
 }
 
@@ -89,6 +114,68 @@ export interface ImportCSVData {
   tableIndex?: number;
 }
 
+export interface SetAlignmentData {
+  columns: number[];
+  alignment: 'left' | 'center' | 'right' | 'default';
+  tableIndex?: number;
+}
+
+export interface MergeCellsData {
+  row: number; // -1 は見出し行
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  tableIndex?: number;
+}
+
+export interface UnmergeCellsData {
+  row: number;
+  col: number;
+  tableIndex?: number;
+}
+
+export interface AddAggregateRowData {
+  functions: Array<'sum' | 'avg' | 'count' | 'min' | 'max' | 'none'>;
+  tableIndex?: number;
+}
+
+export interface SaveViewStateData {
+  viewState: { activeTableKey?: string; tables: Record<string, unknown> };
+}
+
 export interface SwitchTableData { index: number }
 
+export interface SearchWorkspaceData {
+  searchText: string;
+  options: { caseSensitive: boolean; wholeWord: boolean; regex: boolean };
+}
+
+export interface OpenSearchMatchData {
+  uri: string;
+  tableIndex: number;
+  row: number;
+  col: number;
+}
+
+export interface OpenLinkData {
+  href: string;
+}
+
+export interface ReplaceInWorkspaceData {
+  files: Array<{
+    uri: string;
+    tables: Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string; original: string }> }>;
+  }>;
+}
+
+export interface ResolveMergeConflictData {
+  startLine: number;
+  endLine: number;
+  table: { headers: string[]; rows: string[][]; alignment?: string[] };
+}
+
+export interface JumpToHistoryData {
+  position: number;
+}
+
 export type WebviewMessage = BaseMessage;
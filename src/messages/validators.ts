@@ -1,4 +1,5 @@
 import {
+  AddAggregateRowData,
   AddColumnData,
   AddRowData,
   BulkUpdateCellsData,
@@ -6,9 +7,19 @@ import {
   DeleteRowsData,
   ExportCSVData,
   ImportCSVData,
+  JumpToHistoryData,
+  MergeCellsData,
   MoveData,
+  OpenLinkData,
+  OpenSearchMatchData,
+  ReplaceInWorkspaceData,
+  ResolveMergeConflictData,
+  SaveViewStateData,
+  SearchWorkspaceData,
+  SetAlignmentData,
   SortData,
   SwitchTableData,
+  UnmergeCellsData,
   UpdateCellData,
   UpdateHeaderData,
   WebviewMessage,
@@ -17,7 +28,8 @@ import {
 
 export const validCommands: WebviewCommand[] = [
   'requestTableData', 'updateCell', 'bulkUpdateCells', 'updateHeader', 'addRow', 'deleteRows',
-  'addColumn', 'deleteColumns', 'sort', 'moveRow', 'moveColumn', 'exportCSV', 'importCSV', 'pong', 'switchTable', 'requestThemeVariables', 'undo', 'redo',
+  'addColumn', 'deleteColumns', 'sort', 'moveRow', 'moveColumn', 'exportCSV', 'importCSV', 'addAggregateRow', 'setAlignment', 'mergeCells', 'unmergeCells', 'saveViewState', 'pong', 'switchTable',
+  'searchWorkspace', 'openSearchMatch', 'openLink', 'listLinkTargets', 'replaceInWorkspace', 'resolveMergeConflict', 'jumpToHistory', 'requestThemeVariables', 'undo', 'redo',
   'webviewError', 'webviewUnhandledRejection', 'diag'
 ];
 
@@ -25,6 +37,10 @@ export function isObject(v: unknown): v is Record<string, unknown> {
   return !!v && typeof v === 'object';
 }
 
+function isValidCellUpdates(updates: unknown): boolean {
+  return Array.isArray(updates) && updates.every(u => isObject(u) && typeof (u as any).row === 'number' && typeof (u as any).col === 'number' && typeof (u as any).value === 'string');
+}
+
 export function validateBasicMessageStructure(message: any): message is WebviewMessage {
   return isObject(message) && typeof (message as any).command === 'string';
 }
@@ -36,7 +52,7 @@ export function validateMessageCommand(message: WebviewMessage): boolean {
 // 柔らかいデータ検証: 安全側（許容）に倒す
 export function validateMessageData(message: WebviewMessage): boolean {
   // 診断・ヘルス系は素通し
-  if (message.command === 'diag' || message.command === 'webviewError' || message.command === 'webviewUnhandledRejection' || message.command === 'pong' || message.command === 'requestThemeVariables' || message.command === 'undo' || message.command === 'redo' || message.command === 'requestTableData') {
+  if (message.command === 'diag' || message.command === 'webviewError' || message.command === 'webviewUnhandledRejection' || message.command === 'pong' || message.command === 'requestThemeVariables' || message.command === 'listLinkTargets' || message.command === 'undo' || message.command === 'redo' || message.command === 'requestTableData') {
     return true;
   }
 
@@ -46,7 +62,13 @@ export function validateMessageData(message: WebviewMessage): boolean {
       const v = d as UpdateCellData; return isObject(v) && typeof v.row === 'number' && v.row >= 0 && typeof v.col === 'number' && v.col >= 0 && typeof v.value === 'string';
     }
     case 'bulkUpdateCells': {
-      const v = d as BulkUpdateCellsData; return isObject(v) && Array.isArray(v.updates) && v.updates.every(u => isObject(u) && typeof (u as any).row === 'number' && typeof (u as any).col === 'number' && typeof (u as any).value === 'string');
+      const v = d as BulkUpdateCellsData;
+      if (!isObject(v) || !isValidCellUpdates(v.updates)) {
+        return false;
+      }
+      // additionalTables は任意。指定時は各テーブルの番号と更新内容を検証
+      return v.additionalTables === undefined || (Array.isArray(v.additionalTables) &&
+        v.additionalTables.every(t => isObject(t) && typeof t.tableIndex === 'number' && t.tableIndex >= 0 && isValidCellUpdates(t.updates)));
     }
     case 'updateHeader': {
       const v = d as UpdateHeaderData; return isObject(v) && typeof v.col === 'number' && v.col >= 0 && typeof v.value === 'string';
@@ -64,7 +86,16 @@ export function validateMessageData(message: WebviewMessage): boolean {
       const v = d as DeleteColumnsData; return isObject(v) && Array.isArray(v.indices) && v.indices.every(i => typeof i === 'number' && i >= 0);
     }
     case 'sort': {
-      const v = d as SortData; return isObject(v) && typeof v.column === 'number' && ['asc', 'desc', 'none'].includes((v as any).direction);
+      const v = d as SortData;
+      if (!isObject(v) || typeof v.column !== 'number' || !['asc', 'desc', 'none'].includes((v as any).direction)) {
+        return false;
+      }
+      // keys は任意。指定時は各キーの列・方向・比較方法を検証
+      if (v.keys === undefined) {
+        return true;
+      }
+      return Array.isArray(v.keys) && v.keys.every(k => isObject(k) && typeof k.column === 'number' && k.column >= 0 &&
+        ['asc', 'desc'].includes((k as any).direction) && (k.type === undefined || ['auto', 'string', 'number', 'date', 'natural'].includes(k.type)));
     }
     case 'moveRow':
     case 'moveColumn': {
@@ -82,9 +113,54 @@ export function validateMessageData(message: WebviewMessage): boolean {
     case 'importCSV': {
       const v = d as ImportCSVData; return v === undefined || isObject(v);
     }
+    case 'addAggregateRow': {
+      const v = d as AddAggregateRowData; return isObject(v) && Array.isArray(v.functions) && v.functions.every(f => ['sum', 'avg', 'count', 'min', 'max', 'none'].includes(f as any));
+    }
+    case 'setAlignment': {
+      const v = d as SetAlignmentData; return isObject(v) && Array.isArray(v.columns) && v.columns.length > 0 && v.columns.every(c => typeof c === 'number' && c >= 0) && ['left', 'center', 'right', 'default'].includes((v as any).alignment);
+    }
+    case 'mergeCells': {
+      const v = d as MergeCellsData;
+      return isObject(v) && typeof v.row === 'number' && v.row >= -1 && typeof v.col === 'number' && v.col >= 0 &&
+        [v.rowSpan, v.colSpan].every(n => typeof n === 'number' && n >= 1) && v.rowSpan * v.colSpan > 1;
+    }
+    case 'unmergeCells': {
+      const v = d as UnmergeCellsData; return isObject(v) && typeof v.row === 'number' && v.row >= -1 && typeof v.col === 'number' && v.col >= 0;
+    }
+    case 'saveViewState': {
+      const v = d as SaveViewStateData; return isObject(v) && isObject(v.viewState) && isObject(v.viewState.tables);
+    }
     case 'switchTable': {
       const v = d as SwitchTableData; return isObject(v) && typeof v.index === 'number' && v.index >= 0;
     }
+    case 'searchWorkspace': {
+      const v = d as SearchWorkspaceData;
+      return isObject(v) && typeof v.searchText === 'string' && isObject(v.options) &&
+        ['caseSensitive', 'wholeWord', 'regex'].every(key => typeof (v.options as any)[key] === 'boolean');
+    }
+    case 'openSearchMatch': {
+      const v = d as OpenSearchMatchData;
+      return isObject(v) && typeof v.uri === 'string' && [v.tableIndex, v.row, v.col].every(n => typeof n === 'number' && n >= 0);
+    }
+    case 'openLink': {
+      const v = d as OpenLinkData; return isObject(v) && typeof v.href === 'string' && v.href.trim().length > 0;
+    }
+    case 'replaceInWorkspace': {
+      const v = d as ReplaceInWorkspaceData;
+      return isObject(v) && Array.isArray(v.files) && v.files.every(f => isObject(f) && typeof f.uri === 'string' && Array.isArray(f.tables) &&
+        f.tables.every(t => isObject(t) && typeof t.tableIndex === 'number' && t.tableIndex >= 0 && isValidCellUpdates(t.updates) &&
+          t.updates.every(u => typeof u.original === 'string')));
+    }
+    case 'resolveMergeConflict': {
+      const v = d as ResolveMergeConflictData;
+      return isObject(v) && typeof v.startLine === 'number' && typeof v.endLine === 'number' && v.startLine >= 0 && v.endLine >= v.startLine &&
+        isObject(v.table) && Array.isArray(v.table.headers) && v.table.headers.every(h => typeof h === 'string') &&
+        Array.isArray(v.table.rows) && v.table.rows.every(r => Array.isArray(r) && r.every(c => typeof c === 'string'));
+    }
+    case 'jumpToHistory': {
+      const v = d as JumpToHistoryData;
+      return isObject(v) && Number.isInteger(v.position) && v.position >= 0;
+    }
     default:
       return false;
   }
@@ -0,0 +1,126 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: webview からの編集要求が、送信時点の古いテーブルを元にしていないかを判定する
+ * なぜ: テキストエディタや外部ツールでテーブルが変わった直後に webview の編集が届くと、
+ *       変更を黙って上書きしてしまうため、適用前に衝突として検出する
+ */
+
+import { createHash } from 'crypto';
+
+// ドキュメントごとに保持するスナップショット（バージョン）の上限
+export const MAX_SNAPSHOTS_PER_DOCUMENT = 20;
+
+/**
+ * Content hash of a table (headers, rows and alignment only; ids and timestamps are ignored)
+ */
+export function hashTableContent(table: { headers: string[]; rows: string[][]; alignment?: string[] }): string {
+    return createHash('sha1')
+        .update(JSON.stringify([table.headers, table.rows, table.alignment ?? []]))
+        .digest('hex');
+}
+
+/**
+ * Tracks which table contents each document version sent to the webview had,
+ * and which versions were produced by the extension itself.
+ */
+export class TableConflictDetector {
+    private snapshots = new Map<string, Map<number, string[]>>();
+    private ownEdits = new Map<string, Set<number>>();
+
+    /**
+     * Record the table hashes sent to the webview for a document version
+     */
+    recordSnapshot(uri: string, version: number, tableHashes: string[]): void {
+        let versions = this.snapshots.get(uri);
+        if (!versions) {
+            versions = new Map();
+            this.snapshots.set(uri, versions);
+        }
+        versions.delete(version);
+        versions.set(version, tableHashes);
+
+        while (versions.size > MAX_SNAPSHOTS_PER_DOCUMENT) {
+            const oldest = versions.keys().next().value as number;
+            versions.delete(oldest);
+        }
+        this.pruneOwnEdits(uri);
+    }
+
+    /**
+     * Record the document versions produced by an edit applied by the extension
+     */
+    recordOwnEdit(uri: string, fromVersion: number, toVersion: number): void {
+        let versions = this.ownEdits.get(uri);
+        if (!versions) {
+            versions = new Set();
+            this.ownEdits.set(uri, versions);
+        }
+        for (let version = fromVersion + 1; version <= toVersion; version++) {
+            versions.add(version);
+        }
+    }
+
+    /**
+     * Whether an edit based on `baseVersion` would overwrite changes made outside the table editor.
+     * Unknown base versions are not treated as conflicts so that edits are never blocked without evidence.
+     */
+    isConflict(uri: string, tableIndex: number, baseVersion: number | undefined, currentVersion: number, currentHash: string | undefined): boolean {
+        if (baseVersion === undefined || baseVersion >= currentVersion) {
+            return false;
+        }
+
+        const baseHashes = this.snapshots.get(uri)?.get(baseVersion);
+        if (!baseHashes) {
+            return false;
+        }
+        if (baseHashes[tableIndex] === currentHash) {
+            return false;
+        }
+
+        // テーブルが変わっていても、途中の変更がすべて拡張自身の編集なら衝突ではない
+        const ownEdits = this.ownEdits.get(uri);
+        for (let version = baseVersion + 1; version <= currentVersion; version++) {
+            if (!ownEdits?.has(version)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Forget everything recorded for a document
+     */
+    clear(uri: string): void {
+        this.snapshots.delete(uri);
+        this.ownEdits.delete(uri);
+    }
+
+    private pruneOwnEdits(uri: string): void {
+        const versions = this.snapshots.get(uri);
+        const ownEdits = this.ownEdits.get(uri);
+        if (!versions || !ownEdits) {
+            return;
+        }
+        const oldest = Math.min(...versions.keys());
+        for (const version of ownEdits) {
+            if (version <= oldest) {
+                ownEdits.delete(version);
+            }
+        }
+    }
+}
+
+/**
+ * Singleton instance shared by the file handler and the webview manager
+ */
+let detectorInstance: TableConflictDetector | undefined;
+
+/**
+ * Get the singleton conflict detector instance
+ */
+export function getTableConflictDetector(): TableConflictDetector {
+    if (!detectorInstance) {
+        detectorInstance = new TableConflictDetector();
+    }
+    return detectorInstance;
+}
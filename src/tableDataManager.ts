@@ -1,4 +1,18 @@
 import { TableNode } from './markdownParser';
+import {
+    FormulaCellRef,
+    buildFormulaCell,
+    collectDependentFormulas,
+    evaluateFormulas,
+    getColumnLetter,
+    normalizeFormulaInput,
+    parseFormulaCell,
+    remapFormulaReferences
+} from './formulaEngine';
+import { ColumnAlignment, TableFormatMode, formatTableLines, parseSeparatorAlignments } from './tableFormatter';
+import { CellValidationError, TableValidationRules, validateTable } from './cellValidation';
+import { CellSpan, deleteSpanLines, findSpanAt, getSpanCells, insertSpanLines, serializeHtmlTable } from './htmlTable';
+import { computeAggregate } from './columnAggregates';
 
 /**
  * Enhanced table data interface with metadata
@@ -9,6 +23,8 @@ export interface TableData {
     rows: string[][];
     alignment: ('left' | 'center' | 'right')[];
     separatorLine?: string; // オリジナルの区切り線を保持
+    validationRules?: TableValidationRules; // 列ごとの入力規則（テーブル直前のコメント）
+    spans?: CellSpan[]; // 結合したセル（あれば HTML のテーブルとして保存する）
     metadata: TableMetadata;
 }
 
@@ -60,6 +76,8 @@ export class TableDataManager {
             rows: tableNode.rows.map(row => [...row]),
             alignment: [...tableNode.alignment],
             separatorLine: tableNode.separatorLine, // オリジナルの区切り線を保持
+            validationRules: tableNode.validationRules,
+            spans: tableNode.spans?.map(span => ({ ...span })),
             metadata: {
                 sourceUri,
                 startLine: tableNode.startLine,
@@ -73,6 +91,9 @@ export class TableDataManager {
             }
         };
 
+        // ファイル上の計算結果が古い可能性があるため読み込み時に数式を再計算
+        this.recalculateFormulas(tableData.rows);
+
         return tableData;
     }
 
@@ -83,6 +104,31 @@ export class TableDataManager {
         return { ...this.tableData };
     }
 
+    /**
+     * Check whether a parsed table has the same content as this table
+     * (the manager of an unchanged table is kept when the document changes)
+     */
+    hasSameContent(tableNode: TableNode): boolean {
+        const sameCells = (a: string[], b: string[]) => a.length === b.length && a.every((value, index) => value === b[index]);
+        const data = this.tableData;
+        return sameCells(data.headers, tableNode.headers) &&
+            sameCells(data.alignment, tableNode.alignment) &&
+            data.separatorLine === tableNode.separatorLine &&
+            JSON.stringify(data.validationRules) === JSON.stringify(tableNode.validationRules) &&
+            JSON.stringify(data.spans ?? []) === JSON.stringify(tableNode.spans ?? []) &&
+            data.rows.length === tableNode.rows.length &&
+            data.rows.every((row, index) => sameCells(row, tableNode.rows[index]));
+    }
+
+    /**
+     * Update the position of the table after lines above it were added or removed
+     */
+    updatePosition(startLine: number, endLine: number, tableIndex: number): void {
+        this.tableData.metadata.startLine = startLine;
+        this.tableData.metadata.endLine = endLine;
+        this.tableData.metadata.tableIndex = tableIndex;
+    }
+
     /**
      * Update cell value
      */
@@ -91,7 +137,10 @@ export class TableDataManager {
             throw new Error(`Invalid cell position: row ${row}, col ${col}`);
         }
 
-        this.tableData.rows[row][col] = value;
+        const normalized = normalizeFormulaInput(value);
+        this.assertValidUpdates([{ row, col, value: normalized }]);
+        this.tableData.rows[row][col] = normalized;
+        this.recalculateFormulas(this.tableData.rows, [{ row, col }]);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -131,6 +180,8 @@ export class TableDataManager {
             newRows.push(new Array(this.tableData.headers.length).fill(''));
         }
         this.tableData.rows.splice(insertIndex, 0, ...newRows);
+        this.shiftSpansForInsert('row', insertIndex, count);
+        this.shiftFormulasForInsert('row', insertIndex, count);
 
         this.updateMetadata();
         this.notifyChange();
@@ -145,6 +196,8 @@ export class TableDataManager {
         }
 
         this.tableData.rows.splice(index, 1);
+        this.shiftSpansForDelete('row', [index]);
+        this.shiftFormulasForDelete('row', [index]);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -186,6 +239,8 @@ export class TableDataManager {
 
         // Update separator line to match new column count
         this.updateSeparatorLineForColumnChange(insertIndex, count, 'add');
+        this.shiftSpansForInsert('col', insertIndex, count);
+        this.shiftFormulasForInsert('col', insertIndex, count);
 
         this.updateMetadata();
         this.notifyChange();
@@ -216,6 +271,8 @@ export class TableDataManager {
 
         // Update separator line to match new column count
         this.updateSeparatorLineForColumnChange(index, 1, 'delete');
+        this.shiftSpansForDelete('col', [index]);
+        this.shiftFormulasForDelete('col', [index]);
 
         this.updateMetadata();
         this.notifyChange();
@@ -229,6 +286,7 @@ export class TableDataManager {
             throw new Error(`Invalid column index: ${columnIndex}`);
         }
 
+        this.clearSpans();
         this.tableData.rows.sort((a, b) => {
             const valueA = a[columnIndex] || '';
             const valueB = b[columnIndex] || '';
@@ -246,6 +304,7 @@ export class TableDataManager {
             return direction === 'asc' ? comparison : -comparison;
         });
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -258,8 +317,10 @@ export class TableDataManager {
             throw new Error(`Invalid row indices: from ${fromIndex}, to ${toIndex}`);
         }
 
+        this.clearSpans();
         const row = this.tableData.rows.splice(fromIndex, 1)[0];
         this.tableData.rows.splice(toIndex, 0, row);
+        this.shiftFormulasForMove('row', fromIndex, toIndex);
 
         this.updateMetadata();
         this.notifyChange();
@@ -273,6 +334,8 @@ export class TableDataManager {
             throw new Error(`Invalid column indices: from ${fromIndex}, to ${toIndex}`);
         }
 
+        this.clearSpans();
+
         // Move header
         const header = this.tableData.headers.splice(fromIndex, 1)[0];
         this.tableData.headers.splice(toIndex, 0, header);
@@ -289,6 +352,7 @@ export class TableDataManager {
 
         // Move separator in separator line
         this.updateSeparatorLineForColumnMove(fromIndex, toIndex);
+        this.shiftFormulasForMove('col', fromIndex, toIndex);
 
         this.updateMetadata();
         this.notifyChange();
@@ -583,8 +647,21 @@ export class TableDataManager {
 
     /**
      * Serialize table to Markdown format
+     * - preserve: 元の区切り線を維持し、セル幅は揃えない
+     * - compact / padded: tableFormatter で整形
+     * 結合したセルがあるときは GFM で表せないため HTML のテーブルにする
      */
-    serializeToMarkdown(): string {
+    serializeToMarkdown(formatMode: TableFormatMode = 'preserve'): string {
+        if (this.tableData.spans && this.tableData.spans.length > 0) {
+            return serializeHtmlTable(this.tableData);
+        }
+
+        if (formatMode !== 'preserve') {
+            const cells = [this.tableData.headers, ...this.tableData.rows]
+                .map(row => row.map(cell => this.escapePipeCharacters(cell)));
+            return formatTableLines(cells, this.getColumnAlignments(), formatMode).join('\n');
+        }
+
         let markdown = '';
 
         // Header row - escape pipe characters in headers
@@ -730,7 +807,8 @@ export class TableDataManager {
             endLine: this.tableData.metadata.endLine,
             headers: [...this.tableData.headers],
             rows: this.tableData.rows.map(row => [...row]),
-            alignment: [...this.tableData.alignment]
+            alignment: [...this.tableData.alignment],
+            spans: this.tableData.spans?.map(span => ({ ...span }))
         };
 
         return new TableDataManager(clonedTableNode, this.tableData.metadata.sourceUri);
@@ -754,6 +832,121 @@ export class TableDataManager {
         return index >= 0 && index < this.tableData.headers.length;
     }
 
+    private getCellOrHeader(row: number, col: number): string {
+        return (row === -1 ? this.tableData.headers[col] : this.tableData.rows[row][col]) ?? '';
+    }
+
+    // 行・列の挿入と削除に合わせて結合したセルの位置と大きさを直す
+    private shiftSpansForInsert(axis: 'row' | 'col', index: number, count: number): void {
+        if (this.tableData.spans) {
+            this.tableData.spans = insertSpanLines(this.tableData.spans, axis, index, count);
+        }
+    }
+
+    private shiftSpansForDelete(axis: 'row' | 'col', indices: number[]): void {
+        if (this.tableData.spans) {
+            const spans = deleteSpanLines(this.tableData.spans, axis, indices);
+            this.tableData.spans = spans.length > 0 ? spans : undefined;
+        }
+    }
+
+    // 並べ替えると結合したセルの範囲が崩れるため、行・列の順序を変える操作では結合を解除する
+    private clearSpans(): void {
+        this.tableData.spans = undefined;
+    }
+
+    // 並べ替えでは数式の参照は変えず（表計算ソフトと同様）、計算結果だけを更新する
+    // 行・列の挿入・削除・移動では、数式の参照が同じセルを指すように付け替える
+    private shiftFormulasForInsert(axis: 'row' | 'col', index: number, count: number): void {
+        this.remapFormulas(axis, i => i >= index ? i + count : i);
+    }
+
+    private shiftFormulasForDelete(axis: 'row' | 'col', indices: number[]): void {
+        const deleted = new Set(indices);
+        const sorted = [...deleted].sort((a, b) => a - b);
+        this.remapFormulas(axis, i => deleted.has(i) ? null : i - sorted.filter(d => d < i).length);
+    }
+
+    private shiftFormulasForMove(axis: 'row' | 'col', fromIndex: number, toIndex: number): void {
+        this.remapFormulas(axis, i => {
+            if (i === fromIndex) {
+                return toIndex;
+            }
+            if (fromIndex < toIndex && i > fromIndex && i <= toIndex) {
+                return i - 1;
+            }
+            if (fromIndex > toIndex && i >= toIndex && i < fromIndex) {
+                return i + 1;
+            }
+            return i;
+        });
+    }
+
+    private remapFormulas(axis: 'row' | 'col', mapIndex: (index: number) => number | null): void {
+        let hasFormulas = false;
+        for (const row of this.tableData.rows) {
+            row.forEach((cell, col) => {
+                const parsed = parseFormulaCell(cell);
+                if (parsed) {
+                    hasFormulas = true;
+                    row[col] = buildFormulaCell(remapFormulaReferences(parsed.formula, axis, mapIndex), parsed.value);
+                }
+            });
+        }
+        if (hasFormulas) {
+            this.recalculateFormulas(this.tableData.rows);
+        }
+    }
+
+    /**
+     * Recalculate formula cells and store the computed values after the formula comment
+     * changed 指定時は依存する数式セルのみを再計算する
+     */
+    private recalculateFormulas(rows: string[][], changed?: FormulaCellRef[]): void {
+        const targets = changed ? collectDependentFormulas(rows, changed) : undefined;
+        if (targets && targets.size === 0) {
+            return;
+        }
+
+        const results = evaluateFormulas(rows, targets);
+        results.forEach((result, key) => {
+            const [row, col] = key.split('-').map(Number);
+            const parsed = parseFormulaCell(rows[row][col]);
+            if (parsed) {
+                rows[row][col] = buildFormulaCell(parsed.formula, result.value);
+            }
+        });
+    }
+
+    /**
+     * Reject updates that break the column rules (checked against the table as it would be after the updates)
+     * row=-1 updates the header row
+     */
+    private assertValidUpdates(updates: Array<{ row: number; col: number; value: string }>): void {
+        const rules = this.tableData.validationRules;
+        if (!rules) {
+            return;
+        }
+        const headers = [...this.tableData.headers];
+        const rows = [...this.tableData.rows];
+        const copied = new Set<number>();
+        for (const { row, col, value } of updates) {
+            if (row === -1) {
+                headers[col] = value;
+                continue;
+            }
+            if (!copied.has(row)) {
+                rows[row] = [...rows[row]];
+                copied.add(row);
+            }
+            rows[row][col] = value;
+        }
+        const failures = validateTable({ headers, rows }, rules, updates.filter(update => update.row >= 0));
+        if (failures.length > 0) {
+            throw new CellValidationError(failures);
+        }
+    }
+
     private updateMetadata(): void {
         this.tableData.metadata.lastModified = new Date();
         this.tableData.metadata.columnCount = this.tableData.headers.length;
@@ -815,6 +1008,92 @@ export class TableDataManager {
         this.tableData.separatorLine = '|' + parts.join('|') + '|';
     }
 
+    /**
+     * Set column alignment and regenerate the separator line cell for that column
+     * 'default' はコロンなし（---）で、表示上は左寄せとして扱う
+     */
+    setColumnAlignment(col: number, alignment: 'left' | 'center' | 'right' | 'default'): void {
+        if (!this.isValidColumnIndex(col)) {
+            throw new Error(`Invalid column index: ${col}`);
+        }
+        if (!['left', 'center', 'right', 'default'].includes(alignment)) {
+            throw new Error(`Invalid alignment: ${alignment}`);
+        }
+
+        const parts = this.getSeparatorParts();
+        parts[col] = this.buildSeparatorPart(alignment, parts[col]);
+        this.tableData.separatorLine = '|' + parts.join('|') + '|';
+        this.tableData.alignment[col] = alignment === 'default' ? 'left' : alignment;
+
+        this.updateMetadata();
+        this.notifyChange();
+    }
+
+    /**
+     * Get column alignments including 'default' (no colon) from the separator line
+     */
+    private getColumnAlignments(): ColumnAlignment[] {
+        const parsed = parseSeparatorAlignments(this.tableData.separatorLine, this.tableData.headers.length);
+        if (parsed) {
+            return parsed;
+        }
+        return this.tableData.headers.map((_, i) => this.tableData.alignment[i] ?? 'left');
+    }
+
+    /**
+     * Split the separator line into per-column parts (generated from the column alignments when unavailable)
+     */
+    private getSeparatorParts(): string[] {
+        const separatorLine = this.tableData.separatorLine?.trim();
+        if (separatorLine && separatorLine.startsWith('|') && separatorLine.endsWith('|')) {
+            const parts = separatorLine.slice(1, -1).split('|');
+            if (parts.length === this.tableData.headers.length) {
+                return parts;
+            }
+        }
+        // コロンのない列（'default'）は --- のまま残し、明示的な左寄せにしない
+        return this.getColumnAlignments().map(alignment => {
+            switch (alignment) {
+                case 'left':
+                    return ' :--- ';
+                case 'center':
+                    return ' :---: ';
+                case 'right':
+                    return ' ---: ';
+                default:
+                    return ' --- ';
+            }
+        });
+    }
+
+    /**
+     * Build a separator part for the alignment, keeping the original width where possible
+     */
+    private buildSeparatorPart(alignment: 'left' | 'center' | 'right' | 'default', currentPart: string = ' --- '): string {
+        const width = currentPart.trim().length;
+        const colonCount = alignment === 'center' ? 2 : alignment === 'default' ? 0 : 1;
+        const dashes = '-'.repeat(Math.max(3, width - colonCount));
+        // 既存の前後スペースを維持（コンパクト形式の区切り線を崩さない）
+        const leading = currentPart.match(/^\s*/)?.[0] ?? '';
+        const trailing = currentPart.match(/\s*$/)?.[0] ?? '';
+
+        let content: string;
+        switch (alignment) {
+            case 'left':
+                content = `:${dashes}`;
+                break;
+            case 'center':
+                content = `:${dashes}:`;
+                break;
+            case 'right':
+                content = `${dashes}:`;
+                break;
+            default:
+                content = dashes;
+        }
+        return `${leading}${content}${trailing}`;
+    }
+
     /**
      * Update separator line when column is moved
      * 列移動時に区切り線を更新
@@ -862,17 +1141,27 @@ export class TableDataManager {
             }
         }
 
+        this.assertValidUpdates(updates.map(update => (
+            update.row === -1 ? update : { ...update, value: normalizeFormulaInput(update.value) }
+        )));
+
         // Apply all updates
+        const changedCells: FormulaCellRef[] = [];
         for (const update of updates) {
             if (update.row === -1) {
                 // Update header row
                 this.tableData.headers[update.col] = update.value;
             } else {
                 // Update data row
-                this.tableData.rows[update.row][update.col] = update.value;
+                this.tableData.rows[update.row][update.col] = normalizeFormulaInput(update.value);
+                changedCells.push({ row: update.row, col: update.col });
             }
         }
 
+        if (changedCells.length > 0) {
+            this.recalculateFormulas(this.tableData.rows, changedCells);
+        }
+
         this.updateMetadata();
         this.notifyChange();
     }
@@ -894,12 +1183,128 @@ export class TableDataManager {
         this.tableData.headers = headers.slice()
         this.tableData.rows = rows.map(r => r.slice())
         this.tableData.alignment = align
-        // CSVインポート等で内容を置換する場合は、区切り線をクリア
+        // CSVインポート等で内容を置換する場合は、区切り線と結合したセルをクリア
         this.tableData.separatorLine = undefined
+        this.tableData.spans = undefined;
         this.updateMetadata()
         this.notifyChange()
     }
 
+    /**
+     * Restore headers, rows, alignment, separator line and merged cells from an undo/redo history snapshot
+     * - 区切り線も履歴の内容に戻す（replaceContents と違いクリアしない）
+     * - 数式の結果は履歴に保存された値をそのまま使う
+     */
+    restoreContents(content: { headers: string[]; rows: string[][]; alignment: string[]; separatorLine?: string; spans?: CellSpan[] }): void {
+        this.tableData.headers = [...content.headers];
+        this.tableData.rows = content.rows.map(row => [...row]);
+        this.tableData.alignment = content.alignment.map(value => (value === 'center' || value === 'right' ? value : 'left'));
+        this.tableData.separatorLine = content.separatorLine;
+        this.tableData.spans = content.spans && content.spans.length > 0 ? content.spans.map(span => ({ ...span })) : undefined;
+        this.updateMetadata();
+        this.notifyChange();
+    }
+
+    /**
+     * Merge a range of cells into one (row=-1 is the header row, which is merged only across columns)
+     * - 結合する範囲の空でない値を改行（<br>）でつなげて左上のセルに入れ、残りのセルは空にする
+     * - 範囲内の結合したセルはまとめて 1 つにする。範囲から一部はみ出す結合したセルがあればエラー
+     */
+    mergeCells(row: number, col: number, rowSpan: number, colSpan: number): void {
+        const lastRow = row + rowSpan - 1;
+        const lastCol = col + colSpan - 1;
+        if (rowSpan < 1 || colSpan < 1 || (rowSpan === 1 && colSpan === 1)) {
+            throw new Error(`Invalid merge size: ${rowSpan} x ${colSpan}`);
+        }
+        if (row === -1 ? rowSpan !== 1 : !this.isValidRowIndex(row) || !this.isValidRowIndex(lastRow)) {
+            throw new Error(`Invalid merge rows: ${row} - ${lastRow}`);
+        }
+        if (!this.isValidColumnIndex(col) || !this.isValidColumnIndex(lastCol)) {
+            throw new Error(`Invalid merge columns: ${col} - ${lastCol}`);
+        }
+
+        const range: CellSpan = { row, col, rowSpan, colSpan };
+        const spans = this.tableData.spans ?? [];
+        const inside = (span: CellSpan) => span.row >= row && span.row + span.rowSpan - 1 <= lastRow &&
+            span.col >= col && span.col + span.colSpan - 1 <= lastCol;
+        const overlaps = (span: CellSpan) => span.row <= lastRow && span.row + span.rowSpan - 1 >= row &&
+            span.col <= lastCol && span.col + span.colSpan - 1 >= col;
+        if (spans.some(span => overlaps(span) && !inside(span))) {
+            throw new Error('Cannot merge cells that partly overlap a merged cell');
+        }
+
+        const cells = getSpanCells(range);
+        const merged = cells
+            .map(([r, c]) => this.getCellOrHeader(r, c))
+            .filter(value => value.trim() !== '')
+            .join('<br>');
+        const updates = cells.map(([r, c], index) => ({ row: r, col: c, value: index === 0 ? merged : '' }));
+        this.assertValidUpdates(updates.filter(update => update.row >= 0));
+
+        for (const update of updates) {
+            if (update.row === -1) {
+                this.tableData.headers[update.col] = update.value;
+            } else {
+                this.tableData.rows[update.row][update.col] = update.value;
+            }
+        }
+        if (row >= 0) {
+            this.recalculateFormulas(this.tableData.rows, cells.map(([r, c]) => ({ row: r, col: c })));
+        }
+        this.tableData.spans = [...spans.filter(span => !inside(span)), range];
+        this.updateMetadata();
+        this.notifyChange();
+    }
+
+    /**
+     * Split the merged cell containing the position back into single cells (the value stays in the top-left cell)
+     */
+    unmergeCells(row: number, col: number): void {
+        const span = findSpanAt(this.tableData.spans, row, col);
+        if (!span) {
+            throw new Error(`No merged cell at row ${row}, col ${col}`);
+        }
+
+        const remaining = (this.tableData.spans ?? []).filter(other => other !== span);
+        this.tableData.spans = remaining.length > 0 ? remaining : undefined;
+        this.updateMetadata();
+        this.notifyChange();
+    }
+
+    /**
+     * Append an aggregate row built from formula cells (e.g. =SUM(B1:B10))
+     * - 'none' の列は空セル
+     * - 数式セルのため、以降のセル更新で自動的に再計算される
+     */
+    addAggregateRow(functions: Array<'sum' | 'avg' | 'count' | 'min' | 'max' | 'none'>): void {
+        const colCount = this.tableData.headers.length;
+        if (functions.length !== colCount) {
+            throw new Error(`Aggregate function count mismatch: expected ${colCount}, got ${functions.length}`);
+        }
+        const rowCount = this.tableData.rows.length;
+        if (rowCount === 0) {
+            throw new Error('Cannot add aggregate row to a table without data rows');
+        }
+
+        const formulaNames: Record<string, string> = { sum: 'SUM', avg: 'AVERAGE', count: 'COUNT', min: 'MIN', max: 'MAX' };
+        const aggregateRow = functions.map((fn, col) => {
+            if (fn === 'none') {
+                return '';
+            }
+            const name = formulaNames[fn];
+            if (!name) {
+                throw new Error(`Invalid aggregate function: ${fn}`);
+            }
+            const letter = getColumnLetter(col);
+            return buildFormulaCell(`${name}(${letter}1:${letter}${rowCount})`, '');
+        });
+
+        this.tableData.rows.push(aggregateRow);
+        this.recalculateFormulas(this.tableData.rows, aggregateRow.map((_, col) => ({ row: rowCount, col })));
+        this.updateMetadata();
+        this.notifyChange();
+    }
+
     /**
      * Insert multiple rows at once
      */
@@ -917,6 +1322,8 @@ export class TableDataManager {
         );
 
         this.tableData.rows.splice(startIndex, 0, ...newRows);
+        this.shiftSpansForInsert('row', startIndex, count);
+        this.shiftFormulasForInsert('row', startIndex, count);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -937,6 +1344,8 @@ export class TableDataManager {
         for (const index of sortedIndices) {
             this.tableData.rows.splice(index, 1);
         }
+        this.shiftSpansForDelete('row', sortedIndices);
+        this.shiftFormulasForDelete('row', sortedIndices);
 
         this.updateMetadata();
         this.notifyChange();
@@ -978,6 +1387,8 @@ export class TableDataManager {
 
         // Update separator line to match new column count
         this.updateSeparatorLineForColumnChange(startIndex, count, 'add');
+        this.shiftSpansForInsert('col', startIndex, count);
+        this.shiftFormulasForInsert('col', startIndex, count);
 
         this.updateMetadata();
         this.notifyChange();
@@ -1015,6 +1426,8 @@ export class TableDataManager {
             // Update separator line for each deletion
             this.updateSeparatorLineForColumnChange(index, 1, 'delete');
         }
+        this.shiftSpansForDelete('col', sortedIndices);
+        this.shiftFormulasForDelete('col', sortedIndices);
 
         this.updateMetadata();
         this.notifyChange();
@@ -1033,6 +1446,7 @@ export class TableDataManager {
         }
 
         this.tableData.rows[rowIndex] = [...newValues];
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1059,6 +1473,7 @@ export class TableDataManager {
             this.tableData.rows[i][colIndex] = newValues[i];
         }
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1073,6 +1488,7 @@ export class TableDataManager {
             }
         }
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1089,6 +1505,7 @@ export class TableDataManager {
             this.tableData.rows[rowIndex][i] = '';
         }
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1105,6 +1522,7 @@ export class TableDataManager {
             row[colIndex] = '';
         }
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1121,6 +1539,8 @@ export class TableDataManager {
         const duplicatedRow = [...this.tableData.rows[rowIndex]];
 
         this.tableData.rows.splice(targetIndex, 0, duplicatedRow);
+        this.shiftSpansForInsert('row', targetIndex, 1);
+        this.shiftFormulasForInsert('row', targetIndex, 1);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1148,6 +1568,8 @@ export class TableDataManager {
             const duplicatedCell = row[colIndex];
             row.splice(targetIndex, 0, duplicatedCell);
         }
+        this.shiftSpansForInsert('col', targetIndex, 1);
+        this.shiftFormulasForInsert('col', targetIndex, 1);
 
         this.updateMetadata();
         this.notifyChange();
@@ -1340,6 +1762,7 @@ export class TableDataManager {
             dataType: actualDataType
         };
 
+        this.clearSpans();
         this.tableData.rows.sort((a, b) => {
             const valueA = a[columnIndex] || '';
             const valueB = b[columnIndex] || '';
@@ -1355,18 +1778,20 @@ export class TableDataManager {
             return direction === 'asc' ? comparison : -comparison;
         });
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
 
     /**
      * Multi-column sort
+     * 先頭のキーから順に比較し、同値の場合は次のキーで比較する（natural は自然順比較）
      */
     sortByMultipleColumns(
         sortCriteria: Array<{
             columnIndex: number;
             direction: 'asc' | 'desc';
-            dataType?: 'string' | 'number' | 'date' | 'auto';
+            dataType?: 'string' | 'number' | 'date' | 'natural' | 'auto';
         }>
     ): void {
         if (sortCriteria.length === 0) {
@@ -1380,23 +1805,27 @@ export class TableDataManager {
             }
         }
 
-        // Determine data types for auto detection
-        const processedCriteria = sortCriteria.map(criteria => ({
-            ...criteria,
-            dataType: criteria.dataType === 'auto' || !criteria.dataType
-                ? this.detectColumnDataType(criteria.columnIndex)
-                : criteria.dataType
-        }));
+        // Determine data types for auto detection (文字列列は自然順で比較)
+        const processedCriteria = sortCriteria.map(criteria => {
+            if (criteria.dataType && criteria.dataType !== 'auto') {
+                return { ...criteria, dataType: criteria.dataType };
+            }
+            const detected = this.detectColumnDataType(criteria.columnIndex, true);
+            return { ...criteria, dataType: detected === 'string' ? 'natural' as const : detected };
+        });
 
+        this.clearSpans();
         this.tableData.rows.sort((a, b) => {
             for (const criteria of processedCriteria) {
                 const valueA = a[criteria.columnIndex] || '';
                 const valueB = b[criteria.columnIndex] || '';
 
-                const comparison = this.compareValues(valueA, valueB, criteria.dataType, {
-                    caseSensitive: true,
-                    locale: 'en-US'
-                });
+                const comparison = criteria.dataType === 'natural'
+                    ? this.naturalCompare(valueA, valueB)
+                    : this.compareValues(valueA, valueB, criteria.dataType, {
+                        caseSensitive: true,
+                        locale: 'en-US'
+                    });
 
                 if (comparison !== 0) {
                     return criteria.direction === 'asc' ? comparison : -comparison;
@@ -1406,12 +1835,14 @@ export class TableDataManager {
         });
 
         // Store primary sort state
+        const primary = processedCriteria[0];
         this.sortState = {
-            columnIndex: processedCriteria[0].columnIndex,
-            direction: processedCriteria[0].direction,
-            dataType: processedCriteria[0].dataType
+            columnIndex: primary.columnIndex,
+            direction: primary.direction,
+            dataType: primary.dataType === 'natural' ? 'string' : primary.dataType
         };
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1420,11 +1851,13 @@ export class TableDataManager {
      * Sort by custom function
      */
     sortByCustomFunction(compareFn: (rowA: string[], rowB: string[]) => number): void {
+        this.clearSpans();
         this.tableData.rows.sort(compareFn);
 
         // Clear sort state since it's custom
         this.sortState = null;
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1433,12 +1866,14 @@ export class TableDataManager {
      * Shuffle rows randomly
      */
     shuffleRows(): void {
+        this.clearSpans();
         for (let i = this.tableData.rows.length - 1; i > 0; i--) {
             const j = Math.floor(Math.random() * (i + 1));
             [this.tableData.rows[i], this.tableData.rows[j]] = [this.tableData.rows[j], this.tableData.rows[i]];
         }
 
         this.sortState = null;
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1447,6 +1882,7 @@ export class TableDataManager {
      * Reverse current row order
      */
     reverseRows(): void {
+        this.clearSpans();
         this.tableData.rows.reverse();
 
         // Update sort state to indicate reversed order
@@ -1454,6 +1890,7 @@ export class TableDataManager {
             this.sortState.direction = this.sortState.direction === 'asc' ? 'desc' : 'asc';
         }
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
@@ -1485,8 +1922,9 @@ export class TableDataManager {
 
     /**
      * Detect column data type
+     * strictNumbers が true の場合は値全体が数値の列のみ number とする（複数列ソート用）
      */
-    private detectColumnDataType(columnIndex: number): 'string' | 'number' | 'date' {
+    private detectColumnDataType(columnIndex: number, strictNumbers = false): 'string' | 'number' | 'date' {
         if (columnIndex < 0 || columnIndex >= this.tableData.headers.length) {
             return 'string';
         }
@@ -1498,7 +1936,11 @@ export class TableDataManager {
         }
 
         // Check if all values are numbers
-        const numberCount = values.filter(val => !isNaN(parseFloat(val)) && isFinite(parseFloat(val))).length;
+        // strict では 2024-01-15 などの日付を数値扱いしない。通常は 1,000 や 10% も先頭の数値で比較する
+        const numberCount = values.filter(val => strictNumbers
+            ? isFinite(Number(val.trim()))
+            : !isNaN(parseFloat(val)) && isFinite(parseFloat(val))
+        ).length;
         if (numberCount === values.length) {
             return 'number';
         }
@@ -1549,6 +1991,7 @@ export class TableDataManager {
             throw new Error(`Invalid column index: ${columnIndex}`);
         }
 
+        this.clearSpans();
         this.tableData.rows.sort((a, b) => {
             const valueA = a[columnIndex] || '';
             const valueB = b[columnIndex] || '';
@@ -1563,27 +2006,34 @@ export class TableDataManager {
             dataType: 'string'
         };
 
+        this.recalculateFormulas(this.tableData.rows);
         this.updateMetadata();
         this.notifyChange();
     }
 
     /**
      * Natural comparison for alphanumeric strings
+     * 数字部分は数値として、それ以外は文字列として先頭から順に比較する（Item2 < Item10）
      */
     private naturalCompare(a: string, b: string): number {
-        const reA = /[^a-zA-Z]/g;
-        const reN = /[^0-9]/g;
-
-        const aA = a.replace(reA, '');
-        const bA = b.replace(reA, '');
-
-        if (aA === bA) {
-            const aN = parseInt(a.replace(reN, ''), 10);
-            const bN = parseInt(b.replace(reN, ''), 10);
-            return aN === bN ? 0 : aN > bN ? 1 : -1;
-        } else {
-            return aA > bA ? 1 : -1;
+        const chunksA = a.match(/\d+|\D+/g) || [];
+        const chunksB = b.match(/\d+|\D+/g) || [];
+
+        for (let i = 0; i < Math.min(chunksA.length, chunksB.length); i++) {
+            const chunkA = chunksA[i];
+            const chunkB = chunksB[i];
+            const isNumberA = /^\d/.test(chunkA);
+            const isNumberB = /^\d/.test(chunkB);
+
+            const comparison = isNumberA && isNumberB
+                ? parseInt(chunkA, 10) - parseInt(chunkB, 10)
+                : chunkA.localeCompare(chunkB);
+            if (comparison !== 0) {
+                return comparison;
+            }
         }
+
+        return chunksA.length - chunksB.length;
     }
 
     /**
@@ -1634,9 +2084,11 @@ export class TableDataManager {
 
         if (nonEmptyValues.length > 0) {
             if (dataType === 'number') {
-                const numbers = nonEmptyValues.map(val => parseFloat(val)).filter(num => !isNaN(num));
-                minValue = Math.min(...numbers).toString();
-                maxValue = Math.max(...numbers).toString();
+                // 最小・最大は集計フッターと同じ解釈（1,000 は 1000、10% などの単位付きの値は除外）
+                const min = computeAggregate(nonEmptyValues, 'min');
+                const max = computeAggregate(nonEmptyValues, 'max');
+                minValue = min === null ? '' : min.toString();
+                maxValue = max === null ? '' : max.toString();
             } else if (dataType === 'date') {
                 const dates = nonEmptyValues.map(val => new Date(val)).filter(date => !isNaN(date.getTime()));
                 minValue = new Date(Math.min(...dates.map(d => d.getTime()))).toISOString();
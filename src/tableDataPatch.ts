@@ -0,0 +1,173 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: webview に送信済みのテーブルと最新のテーブルを比較し、セル・行・列単位の差分（PATCH_TABLE_DATA）を求める
+ * なぜ: 編集のたびにドキュメント内の全テーブルを送り直さず、変更された部分だけを webview に反映するため
+ */
+
+import { TablePatch, TablePatchOperation, TableValidationRules } from './communication/protocol';
+import { TableContent, snapshotTable } from './tableOperations';
+
+// 差分の対象は見出し・行・配置・区切り線・結合したセルと入力規則。id や metadata は webview に反映しない
+export type PatchedTableContent = TableContent & { validationRules?: TableValidationRules };
+
+/**
+ * Copy what is compared on the next update (the table managers update their rows in place)
+ */
+export function snapshotPatchedTable(table: PatchedTableContent): PatchedTableContent {
+    return { ...snapshotTable(table), validationRules: table.validationRules };
+}
+
+/**
+ * Compute the patches that turn the previously sent tables into the current ones.
+ * Returns null when tables were added or removed, in which case the full data has to be sent.
+ */
+export function computeTablePatches(previous: PatchedTableContent[], current: PatchedTableContent[]): TablePatch[] | null {
+    if (previous.length !== current.length) {
+        return null;
+    }
+    const patches: TablePatch[] = [];
+    current.forEach((table, tableIndex) => {
+        const operations = diffTableContent(previous[tableIndex], table);
+        if (operations.length > 0) {
+            patches.push({ tableIndex, operations });
+        }
+    });
+    return patches;
+}
+
+/**
+ * Operations that turn one version of a table into another.
+ * Either rows or columns are inserted / deleted around the changed range; when both counts change the table is replaced.
+ */
+export function diffTableContent(before: PatchedTableContent, after: PatchedTableContent): TablePatchOperation[] {
+    const operations = diffCells(before, after);
+    if (JSON.stringify(before.validationRules) !== JSON.stringify(after.validationRules)) {
+        operations.push({ type: 'setValidationRules', rules: after.validationRules });
+    }
+    if (JSON.stringify(before.spans ?? []) !== JSON.stringify(after.spans ?? [])) {
+        operations.push({ type: 'setSpans', spans: after.spans?.map(span => ({ ...span })) });
+    }
+    return operations;
+}
+
+function diffCells(before: TableContent, after: TableContent): TablePatchOperation[] {
+    const rowCountChanged = before.rows.length !== after.rows.length;
+    const columnCountChanged = before.headers.length !== after.headers.length;
+    if (rowCountChanged && columnCountChanged) {
+        return [{ type: 'replaceTable', table: snapshotTable(after) }];
+    }
+
+    const operations = columnCountChanged ? diffColumns(before, after) : diffRows(before, after);
+
+    if (!sameCells(before.alignment, after.alignment) || before.separatorLine !== after.separatorLine) {
+        operations.push({ type: 'setAlignment', alignment: [...after.alignment], separatorLine: after.separatorLine });
+    }
+    return operations;
+}
+
+// 列数が同じ場合: 先頭・末尾の一致する行を除いた範囲をセルの更新と行の挿入・削除で表す
+function diffRows(before: TableContent, after: TableContent): TablePatchOperation[] {
+    const operations: TablePatchOperation[] = [];
+
+    const headerUpdates = after.headers
+        .map((value, col) => ({ col, value }))
+        .filter(({ col, value }) => before.headers[col] !== value);
+    if (headerUpdates.length > 0) {
+        operations.push({ type: 'updateHeaders', updates: headerUpdates });
+    }
+
+    const { start, beforeEnd, afterEnd } = findChangedRange(
+        before.rows.length,
+        after.rows.length,
+        (beforeIndex, afterIndex) => sameCells(before.rows[beforeIndex], after.rows[afterIndex])
+    );
+    const overlap = Math.min(beforeEnd, afterEnd) - start;
+
+    const cellUpdates: Array<{ row: number; col: number; value: string }> = [];
+    for (let row = start; row < start + overlap; row++) {
+        const width = Math.max(before.rows[row].length, after.rows[row].length);
+        for (let col = 0; col < width; col++) {
+            const value = after.rows[row][col] ?? '';
+            if ((before.rows[row][col] ?? '') !== value) {
+                cellUpdates.push({ row, col, value });
+            }
+        }
+    }
+    if (cellUpdates.length > 0) {
+        operations.push({ type: 'updateCells', updates: cellUpdates });
+    }
+
+    if (afterEnd > beforeEnd) {
+        operations.push({ type: 'insertRows', index: start + overlap, rows: after.rows.slice(start + overlap, afterEnd).map(row => [...row]) });
+    } else if (beforeEnd > afterEnd) {
+        operations.push({ type: 'deleteRows', index: start + overlap, count: beforeEnd - afterEnd });
+    }
+    return operations;
+}
+
+// 行数が同じ場合: 先頭・末尾の一致する列を除いた範囲を見出し・セルの更新と列の挿入・削除で表す
+function diffColumns(before: TableContent, after: TableContent): TablePatchOperation[] {
+    const operations: TablePatchOperation[] = [];
+    const sameColumn = (beforeCol: number, afterCol: number) =>
+        before.headers[beforeCol] === after.headers[afterCol] &&
+        before.rows.every((row, index) => (row[beforeCol] ?? '') === (after.rows[index][afterCol] ?? ''));
+
+    const { start, beforeEnd, afterEnd } = findChangedRange(before.headers.length, after.headers.length, sameColumn);
+    const overlap = Math.min(beforeEnd, afterEnd) - start;
+
+    const headerUpdates: Array<{ col: number; value: string }> = [];
+    const cellUpdates: Array<{ row: number; col: number; value: string }> = [];
+    for (let col = start; col < start + overlap; col++) {
+        if (before.headers[col] !== after.headers[col]) {
+            headerUpdates.push({ col, value: after.headers[col] });
+        }
+        after.rows.forEach((row, index) => {
+            const value = row[col] ?? '';
+            if ((before.rows[index][col] ?? '') !== value) {
+                cellUpdates.push({ row: index, col, value });
+            }
+        });
+    }
+    if (headerUpdates.length > 0) {
+        operations.push({ type: 'updateHeaders', updates: headerUpdates });
+    }
+    if (cellUpdates.length > 0) {
+        operations.push({ type: 'updateCells', updates: cellUpdates });
+    }
+
+    const index = start + overlap;
+    if (afterEnd > beforeEnd) {
+        const count = afterEnd - beforeEnd;
+        operations.push({
+            type: 'insertColumns',
+            index,
+            headers: after.headers.slice(index, index + count),
+            cells: after.rows.map(row => row.slice(index, index + count))
+        });
+    } else if (beforeEnd > afterEnd) {
+        operations.push({ type: 'deleteColumns', index, count: beforeEnd - afterEnd });
+    }
+    return operations;
+}
+
+// 先頭・末尾から一致する要素を除いた範囲（[start, beforeEnd) が [start, afterEnd) に変わった）
+function findChangedRange(
+    beforeLength: number,
+    afterLength: number,
+    same: (beforeIndex: number, afterIndex: number) => boolean
+): { start: number; beforeEnd: number; afterEnd: number } {
+    const shorter = Math.min(beforeLength, afterLength);
+    let start = 0;
+    while (start < shorter && same(start, start)) {
+        start++;
+    }
+    let suffix = 0;
+    while (suffix < shorter - start && same(beforeLength - 1 - suffix, afterLength - 1 - suffix)) {
+        suffix++;
+    }
+    return { start, beforeEnd: beforeLength - suffix, afterEnd: afterLength - suffix };
+}
+
+function sameCells(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+}
@@ -0,0 +1,269 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: 同じテーブルの 2 つのバージョンを比較し、行・列・セル単位の差分（追加 / 削除 / 変更）を求める
+ * なぜ: Git のリビジョンや別ファイルとの違いを、テーブルエディタの読み取り専用表示でハイライトするため
+ */
+
+import { TableData, TableDiffColumn, TableDiffResult, TableDiffRow } from './communication/protocol';
+
+export interface TableDiffOptions {
+    keyColumn?: string; // 行を対応付けるキー列の見出し（未指定なら内容の類似度で対応付ける）
+}
+
+type RowPair = [number | null, number | null]; // [比較元の行, 比較先の行]
+
+// 類似度で対応付ける行の下限（共通の列の半分以上が一致していれば同じ行の変更とみなす）
+const MIN_ROW_SIMILARITY = 0.5;
+// LCS の計算量の上限（超える場合は行番号で対応付ける）
+const MAX_LCS_CELLS = 250000;
+
+const normalizeHeader = (header: string) => header.trim();
+
+/**
+ * Compare two versions of a table. Rows are matched by the key column when given, otherwise by content.
+ */
+export function diffTables(base: TableData, current: TableData, options: TableDiffOptions = {}): TableDiffResult {
+    const columns = matchColumns(base.headers, current.headers);
+    const shared = columns.filter(column => column.baseIndex !== null && column.currentIndex !== null);
+
+    const baseKeyIndex = options.keyColumn === undefined ? -1 : base.headers.findIndex(header => normalizeHeader(header) === normalizeHeader(options.keyColumn!));
+    const currentKeyIndex = options.keyColumn === undefined ? -1 : current.headers.findIndex(header => normalizeHeader(header) === normalizeHeader(options.keyColumn!));
+    const byKey = baseKeyIndex >= 0 && currentKeyIndex >= 0;
+
+    const pairs = byKey
+        ? pairRowsByKey(base.rows, current.rows, baseKeyIndex, currentKeyIndex)
+        : pairRowsByContent(base.rows, current.rows, shared);
+
+    const result: TableDiffResult = {
+        headers: columns.map(column => column.currentIndex !== null ? current.headers[column.currentIndex] : base.headers[column.baseIndex!]),
+        columns,
+        rows: pairs.map(([baseRow, currentRow]) => buildRow(columns, base.rows, current.rows, baseRow, currentRow))
+    };
+    if (byKey) {
+        result.keyColumn = options.keyColumn;
+    }
+    return result;
+}
+
+/**
+ * Find the table in another version of the document that corresponds to the given table.
+ * Tables sharing the most headers win; ties go to the table closest to the original position.
+ */
+export function findCorrespondingTable(tables: TableData[], target: TableData, tableIndex: number): number {
+    const targetHeaders = new Set(target.headers.map(normalizeHeader));
+    let bestIndex = -1;
+    let bestScore = 0;
+    tables.forEach((table, index) => {
+        const common = table.headers.filter(header => targetHeaders.has(normalizeHeader(header))).length;
+        const score = common / Math.max(table.headers.length, target.headers.length, 1);
+        const closer = bestIndex < 0 || Math.abs(index - tableIndex) < Math.abs(bestIndex - tableIndex);
+        if (score > bestScore || (score === bestScore && score > 0 && closer)) {
+            bestIndex = index;
+            bestScore = score;
+        }
+    });
+    if (bestIndex < 0 && tableIndex < tables.length) {
+        // 見出しが全て変わっていても、同じ位置のテーブルがあれば比較する
+        return tableIndex;
+    }
+    return bestIndex;
+}
+
+/**
+ * Count rows per status (unchanged rows are not counted)
+ */
+export function summarizeTableDiff(diff: TableDiffResult): { added: number; removed: number; changed: number } {
+    const summary = { added: 0, removed: 0, changed: 0 };
+    for (const row of diff.rows) {
+        if (row.status !== 'unchanged') {
+            summary[row.status]++;
+        }
+    }
+    return summary;
+}
+
+function matchColumns(baseHeaders: string[], currentHeaders: string[]): TableDiffColumn[] {
+    const used = new Set<number>();
+    const baseIndexOf: Array<number | null> = currentHeaders.map(header => {
+        const index = baseHeaders.findIndex((candidate, i) => !used.has(i) && normalizeHeader(candidate) === normalizeHeader(header));
+        if (index < 0) {
+            return null;
+        }
+        used.add(index);
+        return index;
+    });
+    // 見出しが一致しない列は、同じ位置の比較元の列が残っていれば見出しの変更とみなす
+    baseIndexOf.forEach((baseIndex, index) => {
+        if (baseIndex === null && index < baseHeaders.length && !used.has(index)) {
+            baseIndexOf[index] = index;
+            used.add(index);
+        }
+    });
+
+    const columns: TableDiffColumn[] = currentHeaders.map((header, index) => {
+        const baseIndex = baseIndexOf[index];
+        if (baseIndex === null) {
+            return { status: 'added', baseIndex: null, currentIndex: index };
+        }
+        if (normalizeHeader(baseHeaders[baseIndex]) === normalizeHeader(header)) {
+            return { status: 'unchanged', baseIndex, currentIndex: index };
+        }
+        return { status: 'changed', baseIndex, currentIndex: index, previousHeader: baseHeaders[baseIndex] };
+    });
+
+    // 比較元にしか無い列は、比較元で直前にあった列の後ろに並べる
+    baseHeaders.forEach((_, baseIndex) => {
+        if (used.has(baseIndex)) {
+            return;
+        }
+        let insertAt = 0;
+        columns.forEach((column, position) => {
+            if (column.baseIndex !== null && column.baseIndex < baseIndex) {
+                insertAt = position + 1;
+            }
+        });
+        columns.splice(insertAt, 0, { status: 'removed', baseIndex, currentIndex: null });
+    });
+    return columns;
+}
+
+function pairRowsByKey(baseRows: string[][], currentRows: string[][], baseKeyIndex: number, currentKeyIndex: number): RowPair[] {
+    // 同じキーが複数ある場合は先頭から順に対応付ける
+    const baseByKey = new Map<string, number[]>();
+    baseRows.forEach((row, index) => {
+        const key = (row[baseKeyIndex] ?? '').trim();
+        const list = baseByKey.get(key);
+        if (list) {
+            list.push(index);
+        } else {
+            baseByKey.set(key, [index]);
+        }
+    });
+    const matches = currentRows.map(row => baseByKey.get((row[currentKeyIndex] ?? '').trim())?.shift() ?? null);
+    return orderPairs(baseRows.length, matches);
+}
+
+function pairRowsByContent(baseRows: string[][], currentRows: string[][], shared: TableDiffColumn[]): RowPair[] {
+    const n = baseRows.length;
+    const m = currentRows.length;
+    if (n * m > MAX_LCS_CELLS) {
+        return Array.from({ length: Math.max(n, m) }, (_, i): RowPair => [i < n ? i : null, i < m ? i : null]);
+    }
+
+    // 共通の列の値で比較する（追加・削除された列だけの違いは変更とみなさない）
+    const baseKeys = baseRows.map(row => JSON.stringify(shared.map(column => row[column.baseIndex!] ?? '')));
+    const currentKeys = currentRows.map(row => JSON.stringify(shared.map(column => row[column.currentIndex!] ?? '')));
+
+    // lcs[i * (m + 1) + j] = baseRows[i..] と currentRows[j..] の LCS 長
+    const lcs = new Int32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = baseKeys[i] === currentKeys[j]
+                ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const matches: Array<number | null> = new Array(m).fill(null);
+    let baseGap: number[] = [];
+    let currentGap: number[] = [];
+    // 一致した行の間にある行は、似ている行同士を「変更された行」として対応付ける
+    const flushGap = () => {
+        for (const currentIndex of currentGap) {
+            let best = -1;
+            let bestScore = MIN_ROW_SIMILARITY;
+            baseGap.forEach((baseIndex, position) => {
+                const score = rowSimilarity(baseRows[baseIndex], currentRows[currentIndex], shared);
+                if (score >= bestScore && (best < 0 || score > bestScore)) {
+                    best = position;
+                    bestScore = score;
+                }
+            });
+            if (best >= 0) {
+                matches[currentIndex] = baseGap[best];
+                baseGap = baseGap.slice(best + 1);
+            }
+        }
+        baseGap = [];
+        currentGap = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && baseKeys[i] === currentKeys[j]) {
+            flushGap();
+            matches[j++] = i++;
+        } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+            baseGap.push(i++);
+        } else {
+            currentGap.push(j++);
+        }
+    }
+    flushGap();
+    return orderPairs(n, matches);
+}
+
+function rowSimilarity(baseRow: string[], currentRow: string[], shared: TableDiffColumn[]): number {
+    if (shared.length === 0) {
+        return 0;
+    }
+    const same = shared.filter(column => (baseRow[column.baseIndex!] ?? '') === (currentRow[column.currentIndex!] ?? '')).length;
+    return same / shared.length;
+}
+
+/**
+ * Lay out matched rows in the current order, placing unmatched base rows before the next row that follows them in the base
+ */
+function orderPairs(baseCount: number, matches: Array<number | null>): RowPair[] {
+    const matched = new Set(matches.filter((index): index is number => index !== null));
+    const removed = Array.from({ length: baseCount }, (_, index) => index).filter(index => !matched.has(index));
+    const pairs: RowPair[] = [];
+    let next = 0;
+    matches.forEach((baseIndex, currentIndex) => {
+        if (baseIndex !== null) {
+            while (next < removed.length && removed[next] < baseIndex) {
+                pairs.push([removed[next++], null]);
+            }
+        }
+        pairs.push([baseIndex, currentIndex]);
+    });
+    while (next < removed.length) {
+        pairs.push([removed[next++], null]);
+    }
+    return pairs;
+}
+
+function buildRow(
+    columns: TableDiffColumn[],
+    baseRows: string[][],
+    currentRows: string[][],
+    baseRow: number | null,
+    currentRow: number | null
+): TableDiffRow {
+    const baseCells = baseRow !== null ? baseRows[baseRow] : null;
+    const currentCells = currentRow !== null ? currentRows[currentRow] : null;
+
+    const cells = columns.map(column => {
+        if (currentCells && column.currentIndex !== null) {
+            return currentCells[column.currentIndex] ?? '';
+        }
+        if (baseCells && column.baseIndex !== null) {
+            return baseCells[column.baseIndex] ?? '';
+        }
+        return '';
+    });
+    const previous = columns.map(column => {
+        if (!baseCells || !currentCells || column.baseIndex === null || column.currentIndex === null) {
+            return null;
+        }
+        const before = baseCells[column.baseIndex] ?? '';
+        return before === (currentCells[column.currentIndex] ?? '') ? null : before;
+    });
+
+    const status = !baseCells ? 'added'
+        : !currentCells ? 'removed'
+        : previous.some(value => value !== null) ? 'changed'
+        : 'unchanged';
+    return { status, baseRow, currentRow, cells, previous };
+}
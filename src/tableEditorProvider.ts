@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { WebviewManager } from './webviewManager';
+import { getFileHandler } from './fileHandler';
+
+/**
+ * Custom text editor provider for Markdown files
+ * 「Reopen With… > Markdown Table Editor」で開くエディター。
+ * TextDocument を正とし、dirty/保存/Undo は VS Code 標準の仕組みに委ねる
+ */
+export class TableEditorProvider implements vscode.CustomTextEditorProvider {
+    public static readonly viewType = 'markdownTableEditor.tableEditor';
+
+    public static register(webviewManager: WebviewManager): vscode.Disposable {
+        return vscode.window.registerCustomEditorProvider(
+            TableEditorProvider.viewType,
+            new TableEditorProvider(webviewManager),
+            {
+                webviewOptions: { retainContextWhenHidden: true },
+                supportsMultipleEditorsPerDocument: false
+            }
+        );
+    }
+
+    private constructor(private readonly webviewManager: WebviewManager) {}
+
+    public async resolveCustomTextEditor(
+        document: vscode.TextDocument,
+        webviewPanel: vscode.WebviewPanel,
+        _token: vscode.CancellationToken
+    ): Promise<void> {
+        const fileHandler = getFileHandler();
+        fileHandler.setSaveDeferred(document.uri, true);
+        webviewPanel.onDidDispose(() => {
+            fileHandler.setSaveDeferred(document.uri, false);
+        });
+
+        await this.webviewManager.resolveCustomEditorPanel(webviewPanel, document.uri);
+    }
+}
+
+/**
+ * Restore command-opened table editor panels after a window reload
+ * webview 側で setState した uri から復元する
+ */
+export class TableEditorPanelSerializer implements vscode.WebviewPanelSerializer {
+    public static register(webviewManager: WebviewManager): vscode.Disposable {
+        return vscode.window.registerWebviewPanelSerializer(
+            WebviewManager.viewType,
+            new TableEditorPanelSerializer(webviewManager)
+        );
+    }
+
+    private constructor(private readonly webviewManager: WebviewManager) {}
+
+    public async deserializeWebviewPanel(webviewPanel: vscode.WebviewPanel, state: any): Promise<void> {
+        const uriString = typeof state?.uri === 'string' ? state.uri : '';
+        if (!uriString) {
+            // 復元先のファイルが不明なパネルは閉じる
+            webviewPanel.dispose();
+            return;
+        }
+
+        try {
+            await this.webviewManager.restoreTableEditorPanel(webviewPanel, vscode.Uri.parse(uriString));
+        } catch (error) {
+            console.error('Failed to restore table editor panel:', error);
+            webviewPanel.dispose();
+        }
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: Markdown テーブルの整形（列幅に合わせたパディング／コンパクト形式）
+ * なぜ: `| a | b |` 形式のままだと生の Markdown や差分表示で読みにくいため、
+ *       東アジアの全角文字を幅2として列を揃えた出力を提供する
+ */
+
+export type TableFormatMode = 'compact' | 'padded' | 'preserve';
+
+export type ColumnAlignment = 'left' | 'center' | 'right' | 'default';
+
+// 全角（幅2）として扱うコードポイント範囲（East Asian Wide / Fullwidth の主要ブロック）
+const WIDE_RANGES: Array<[number, number]> = [
+    [0x1100, 0x115F],   // Hangul Jamo
+    [0x2E80, 0x303E],   // CJK Radicals, Kangxi, CJK Symbols and Punctuation
+    [0x3041, 0x33FF],   // Hiragana, Katakana, Bopomofo, CJK Compatibility
+    [0x3400, 0x4DBF],   // CJK Unified Ideographs Extension A
+    [0x4E00, 0x9FFF],   // CJK Unified Ideographs
+    [0xA000, 0xA4CF],   // Yi
+    [0xAC00, 0xD7A3],   // Hangul Syllables
+    [0xF900, 0xFAFF],   // CJK Compatibility Ideographs
+    [0xFE30, 0xFE4F],   // CJK Compatibility Forms
+    [0xFF00, 0xFF60],   // Fullwidth Forms
+    [0xFFE0, 0xFFE6],   // Fullwidth Signs
+    [0x1F300, 0x1F64F], // Misc Symbols and Pictographs, Emoticons
+    [0x1F900, 0x1F9FF], // Supplemental Symbols and Pictographs
+    [0x20000, 0x3FFFD]  // CJK Unified Ideographs Extension B and later
+];
+
+// 幅0として扱うコードポイント範囲（結合文字・ゼロ幅文字・異体字セレクタ）
+const ZERO_WIDTH_RANGES: Array<[number, number]> = [
+    [0x0300, 0x036F],
+    [0x200B, 0x200F],
+    [0xFE00, 0xFE0F]
+];
+
+const inRanges = (codePoint: number, ranges: Array<[number, number]>): boolean =>
+    ranges.some(([start, end]) => codePoint >= start && codePoint <= end);
+
+/**
+ * Get the display width of text (East Asian wide characters count as 2)
+ */
+export function getDisplayWidth(text: string): number {
+    let width = 0;
+    for (const ch of text) {
+        const codePoint = ch.codePointAt(0) ?? 0;
+        if (inRanges(codePoint, ZERO_WIDTH_RANGES)) {
+            continue;
+        }
+        width += inRanges(codePoint, WIDE_RANGES) ? 2 : 1;
+    }
+    return width;
+}
+
+/**
+ * Parse column alignments from a separator line (| :--- | :---: | ---: | --- |, outer pipes optional)
+ */
+export function parseSeparatorAlignments(separatorLine: string | undefined, columnCount: number): ColumnAlignment[] | null {
+    const line = separatorLine?.trim();
+    if (!line || !line.includes('-')) {
+        return null;
+    }
+    // 外側のパイプは省略できる（---|:-:）
+    const inner = line.replace(/^\|/, '').replace(/\|$/, '');
+    const parts = inner.split('|').map(part => part.trim());
+    if (parts.length !== columnCount) {
+        return null;
+    }
+    return parts.map(part => {
+        const starts = part.startsWith(':');
+        const ends = part.endsWith(':');
+        if (starts && ends) {
+            return 'center';
+        }
+        if (ends) {
+            return 'right';
+        }
+        return starts ? 'left' : 'default';
+    });
+}
+
+function buildSeparatorCell(alignment: ColumnAlignment, width: number): string {
+    const colonCount = alignment === 'center' ? 2 : alignment === 'default' ? 0 : 1;
+    const dashes = '-'.repeat(Math.max(1, width - colonCount));
+    switch (alignment) {
+        case 'left':
+            return `:${dashes}`;
+        case 'center':
+            return `:${dashes}:`;
+        case 'right':
+            return `${dashes}:`;
+        default:
+            return dashes;
+    }
+}
+
+function padCell(content: string, width: number, alignment: ColumnAlignment): string {
+    const padding = Math.max(0, width - getDisplayWidth(content));
+    switch (alignment) {
+        case 'right':
+            return ' '.repeat(padding) + content;
+        case 'center': {
+            const left = Math.floor(padding / 2);
+            return ' '.repeat(left) + content + ' '.repeat(padding - left);
+        }
+        default:
+            return content + ' '.repeat(padding);
+    }
+}
+
+/**
+ * Format table lines
+ * - cells: ヘッダー行を先頭に含むエスケープ済みのセル
+ * - compact: `| a | b |` と `| --- | :---: |`
+ * - padded: 列の表示幅に合わせてセルと区切り線を揃える
+ */
+export function formatTableLines(cells: string[][], alignments: ColumnAlignment[], mode: 'compact' | 'padded'): string[] {
+    const columnCount = alignments.length;
+    const normalized = cells.map(row => Array.from({ length: columnCount }, (_, col) => (row[col] ?? '').trim()));
+
+    // compact は `---` 固定（コロン分を加算）、padded は列内の最大表示幅（最小3）
+    const widths = alignments.map((alignment, col) => {
+        if (mode === 'compact') {
+            return 3 + (alignment === 'center' ? 2 : alignment === 'default' ? 0 : 1);
+        }
+        return normalized.reduce((max, row) => Math.max(max, getDisplayWidth(row[col])), 3);
+    });
+
+    const formatRow = (row: string[]): string => {
+        const formatted = row.map((cell, col) => mode === 'padded' ? padCell(cell, widths[col], alignments[col]) : cell);
+        return '| ' + formatted.join(' | ') + ' |';
+    };
+
+    const separator = '| ' + alignments.map((alignment, col) => buildSeparatorCell(alignment, widths[col])).join(' | ') + ' |';
+
+    const [header, ...body] = normalized;
+    return [formatRow(header), separator, ...body.map(formatRow)];
+}
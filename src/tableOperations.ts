@@ -0,0 +1,385 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: テーブルの編集を「操作」（セル更新・行挿入・列移動・ソート・置換など）として表し、
+ *       編集前後の内容から操作を求める・操作を適用する・逆操作を作る
+ * なぜ: 元に戻す / やり直しの履歴を、ドキュメント全体のスナップショットではなく
+ *       テーブルごとの小さな操作として保持するため
+ */
+
+import { CellSpan } from './communication/protocol';
+
+export interface TableContent {
+    headers: string[];
+    rows: string[][];
+    alignment: string[];
+    separatorLine?: string;
+    spans?: CellSpan[];
+}
+
+export interface TableColumnContent {
+    header: string;
+    cells: string[];
+    alignment: string;
+}
+
+export interface TableCellChange {
+    row: number; // -1 は見出し行
+    col: number;
+    before: string;
+    after: string;
+}
+
+export type TableOperation =
+    | { type: 'setCells'; cells: TableCellChange[] }
+    // indices は挿入後のテーブルでの位置（昇順）
+    | { type: 'insertRows'; indices: number[]; rows: string[][] }
+    // indices は削除前のテーブルでの位置（昇順）
+    | { type: 'deleteRows'; indices: number[]; rows: string[][] }
+    | { type: 'insertColumns'; indices: number[]; columns: TableColumnContent[] }
+    | { type: 'deleteColumns'; indices: number[]; columns: TableColumnContent[] }
+    // 適用後の i 番目の行（列）は、適用前の order[i] 番目の行（列）
+    | { type: 'permuteRows'; order: number[] }
+    | { type: 'permuteColumns'; order: number[] }
+    | { type: 'setAlignment'; before: string[]; after: string[] }
+    | { type: 'setSeparator'; before?: string; after?: string }
+    // 結合したセルは行・列の操作の後にまとめて置き換える
+    | { type: 'setSpans'; before?: CellSpan[]; after?: CellSpan[] }
+    | { type: 'replaceTable'; before: TableContent; after: TableContent };
+
+/**
+ * Copy the editable content of a table (the source may be a live TableData object)
+ */
+export function snapshotTable(table: TableContent): TableContent {
+    const snapshot: TableContent = {
+        headers: [...table.headers],
+        rows: table.rows.map(row => [...row]),
+        alignment: [...table.alignment]
+    };
+    if (table.separatorLine !== undefined) {
+        snapshot.separatorLine = table.separatorLine;
+    }
+    if (table.spans && table.spans.length > 0) {
+        snapshot.spans = copySpans(table.spans);
+    }
+    return snapshot;
+}
+
+/**
+ * Describe the change between two versions of a table as operations.
+ * Returns an empty list when nothing changed; changes that don't fit a smaller operation become replaceTable.
+ */
+export function computeTableOperations(before: TableContent, after: TableContent): TableOperation[] {
+    const operation = computeContentOperation(before, after);
+    if (operation?.type === 'replaceTable') {
+        return [operation];
+    }
+    const operations: TableOperation[] = operation ? [operation] : [];
+    if (before.separatorLine !== after.separatorLine) {
+        operations.push({ type: 'setSeparator', before: before.separatorLine, after: after.separatorLine });
+    }
+    if (JSON.stringify(before.spans ?? []) !== JSON.stringify(after.spans ?? [])) {
+        operations.push({ type: 'setSpans', before: copySpans(before.spans), after: copySpans(after.spans) });
+    }
+    return operations;
+}
+
+/**
+ * Apply operations to a table and return the new content (the input is not modified)
+ */
+export function applyTableOperations(table: TableContent, operations: TableOperation[]): TableContent {
+    return operations.reduce((content, operation) => applyTableOperation(content, operation), snapshotTable(table));
+}
+
+/**
+ * Build the operations that undo the given operations
+ */
+export function invertTableOperations(operations: TableOperation[]): TableOperation[] {
+    return operations.map(invertTableOperation).reverse();
+}
+
+/**
+ * Merge two consecutive edits of the same single cell (e.g. typing in one cell) into one edit.
+ * Returns null when the edits can't be merged.
+ */
+export function coalesceTableOperations(previous: TableOperation[], next: TableOperation[]): TableOperation[] | null {
+    const [first] = previous;
+    const [second] = next;
+    if (previous.length !== 1 || next.length !== 1 || first.type !== 'setCells' || second.type !== 'setCells') {
+        return null;
+    }
+    if (first.cells.length !== 1 || second.cells.length !== 1) {
+        return null;
+    }
+    const [earlier] = first.cells;
+    const [later] = second.cells;
+    if (earlier.row !== later.row || earlier.col !== later.col || earlier.after !== later.before) {
+        return null;
+    }
+    // 入力を元の値に戻した場合は、操作そのものが無くなる
+    if (earlier.before === later.after) {
+        return [];
+    }
+    return [{ type: 'setCells', cells: [{ ...earlier, after: later.after }] }];
+}
+
+function computeContentOperation(before: TableContent, after: TableContent): TableOperation | null {
+    const sameColumnCount = before.headers.length === after.headers.length;
+    const sameRowCount = before.rows.length === after.rows.length;
+
+    if (sameColumnCount && sameRowCount) {
+        const cells = diffCells(before, after);
+        const alignmentChanged = !sameValues(before.alignment, after.alignment);
+        if (cells.length === 0) {
+            return alignmentChanged ? { type: 'setAlignment', before: [...before.alignment], after: [...after.alignment] } : null;
+        }
+        const rowOrder = findPermutation(before.rows.map(rowKey), after.rows.map(rowKey));
+        if (rowOrder && !alignmentChanged && sameValues(before.headers, after.headers)) {
+            return { type: 'permuteRows', order: rowOrder };
+        }
+        const columnOrder = findPermutation(columnKeys(before), columnKeys(after));
+        if (columnOrder) {
+            return { type: 'permuteColumns', order: columnOrder };
+        }
+        if (!alignmentChanged) {
+            return { type: 'setCells', cells };
+        }
+    } else if (sameColumnCount && sameValues(before.headers, after.headers) && sameValues(before.alignment, after.alignment)) {
+        const inserted = after.rows.length > before.rows.length;
+        const indices = inserted
+            ? findExtraItems(after.rows.map(rowKey), before.rows.map(rowKey))
+            : findExtraItems(before.rows.map(rowKey), after.rows.map(rowKey));
+        if (indices) {
+            return inserted
+                ? { type: 'insertRows', indices, rows: indices.map(index => [...after.rows[index]]) }
+                : { type: 'deleteRows', indices, rows: indices.map(index => [...before.rows[index]]) };
+        }
+    } else if (sameRowCount && !sameColumnCount) {
+        const inserted = after.headers.length > before.headers.length;
+        const indices = inserted
+            ? findExtraItems(columnKeys(after), columnKeys(before))
+            : findExtraItems(columnKeys(before), columnKeys(after));
+        if (indices) {
+            return inserted
+                ? { type: 'insertColumns', indices, columns: indices.map(index => getColumn(after, index)) }
+                : { type: 'deleteColumns', indices, columns: indices.map(index => getColumn(before, index)) };
+        }
+    }
+
+    return { type: 'replaceTable', before: snapshotTable(before), after: snapshotTable(after) };
+}
+
+function applyTableOperation(table: TableContent, operation: TableOperation): TableContent {
+    switch (operation.type) {
+        case 'setCells': {
+            for (const cell of operation.cells) {
+                const target = cell.row === -1 ? table.headers : table.rows[cell.row];
+                if (!target || cell.col < 0 || cell.col >= target.length) {
+                    throw new Error(`Invalid cell position: row ${cell.row}, col ${cell.col}`);
+                }
+                target[cell.col] = cell.after;
+            }
+            return table;
+        }
+        case 'insertRows': {
+            operation.indices.forEach((index, i) => {
+                if (index < 0 || index > table.rows.length) {
+                    throw new Error(`Invalid row index: ${index}`);
+                }
+                table.rows.splice(index, 0, [...operation.rows[i]]);
+            });
+            return table;
+        }
+        case 'deleteRows': {
+            // 後ろから削除して、手前の位置がずれないようにする
+            [...operation.indices].reverse().forEach(index => {
+                if (index < 0 || index >= table.rows.length) {
+                    throw new Error(`Invalid row index: ${index}`);
+                }
+                table.rows.splice(index, 1);
+            });
+            return table;
+        }
+        case 'insertColumns': {
+            operation.indices.forEach((index, i) => {
+                if (index < 0 || index > table.headers.length) {
+                    throw new Error(`Invalid column index: ${index}`);
+                }
+                const column = operation.columns[i];
+                table.headers.splice(index, 0, column.header);
+                table.alignment.splice(index, 0, column.alignment);
+                table.rows.forEach((row, rowIndex) => row.splice(index, 0, column.cells[rowIndex] ?? ''));
+            });
+            return table;
+        }
+        case 'deleteColumns': {
+            [...operation.indices].reverse().forEach(index => {
+                if (index < 0 || index >= table.headers.length) {
+                    throw new Error(`Invalid column index: ${index}`);
+                }
+                table.headers.splice(index, 1);
+                table.alignment.splice(index, 1);
+                table.rows.forEach(row => row.splice(index, 1));
+            });
+            return table;
+        }
+        case 'permuteRows': {
+            assertPermutation(operation.order, table.rows.length);
+            table.rows = operation.order.map(index => table.rows[index]);
+            return table;
+        }
+        case 'permuteColumns': {
+            assertPermutation(operation.order, table.headers.length);
+            const permute = <T>(values: T[]) => operation.order.map(index => values[index]);
+            table.headers = permute(table.headers);
+            table.alignment = permute(table.alignment);
+            table.rows = table.rows.map(permute);
+            return table;
+        }
+        case 'setAlignment': {
+            if (operation.after.length !== table.headers.length) {
+                throw new Error('Alignment does not match the number of columns');
+            }
+            table.alignment = [...operation.after];
+            return table;
+        }
+        case 'setSeparator': {
+            if (operation.after === undefined) {
+                delete table.separatorLine;
+            } else {
+                table.separatorLine = operation.after;
+            }
+            return table;
+        }
+        case 'setSpans': {
+            if (operation.after && operation.after.length > 0) {
+                table.spans = copySpans(operation.after);
+            } else {
+                delete table.spans;
+            }
+            return table;
+        }
+        case 'replaceTable':
+            return snapshotTable(operation.after);
+    }
+}
+
+function invertTableOperation(operation: TableOperation): TableOperation {
+    switch (operation.type) {
+        case 'setCells':
+            return { type: 'setCells', cells: operation.cells.map(cell => ({ ...cell, before: cell.after, after: cell.before })) };
+        case 'insertRows':
+            return { type: 'deleteRows', indices: operation.indices, rows: operation.rows };
+        case 'deleteRows':
+            return { type: 'insertRows', indices: operation.indices, rows: operation.rows };
+        case 'insertColumns':
+            return { type: 'deleteColumns', indices: operation.indices, columns: operation.columns };
+        case 'deleteColumns':
+            return { type: 'insertColumns', indices: operation.indices, columns: operation.columns };
+        case 'permuteRows':
+            return { type: 'permuteRows', order: invertPermutation(operation.order) };
+        case 'permuteColumns':
+            return { type: 'permuteColumns', order: invertPermutation(operation.order) };
+        case 'setAlignment':
+            return { type: 'setAlignment', before: operation.after, after: operation.before };
+        case 'setSeparator':
+            return { type: 'setSeparator', before: operation.after, after: operation.before };
+        case 'setSpans':
+            return { type: 'setSpans', before: operation.after, after: operation.before };
+        case 'replaceTable':
+            return { type: 'replaceTable', before: operation.after, after: operation.before };
+    }
+}
+
+function diffCells(before: TableContent, after: TableContent): TableCellChange[] {
+    const cells: TableCellChange[] = [];
+    after.headers.forEach((value, col) => {
+        if (before.headers[col] !== value) {
+            cells.push({ row: -1, col, before: before.headers[col], after: value });
+        }
+    });
+    after.rows.forEach((row, rowIndex) => {
+        row.forEach((value, col) => {
+            const previous = before.rows[rowIndex][col] ?? '';
+            if (previous !== value) {
+                cells.push({ row: rowIndex, col, before: previous, after: value });
+            }
+        });
+    });
+    return cells;
+}
+
+function copySpans(spans: CellSpan[] | undefined): CellSpan[] | undefined {
+    return spans && spans.length > 0 ? spans.map(span => ({ ...span })) : undefined;
+}
+
+const rowKey = (row: string[]) => JSON.stringify(row);
+
+function columnKeys(table: TableContent): string[] {
+    return table.headers.map((_, index) => JSON.stringify(getColumn(table, index)));
+}
+
+function getColumn(table: TableContent, index: number): TableColumnContent {
+    return {
+        header: table.headers[index],
+        cells: table.rows.map(row => row[index] ?? ''),
+        alignment: table.alignment[index] ?? 'left'
+    };
+}
+
+function sameValues(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Find order such that after[i] === before[order[i]]; null when after is not a reordering of before
+ */
+function findPermutation(before: string[], after: string[]): number[] | null {
+    const positions = new Map<string, number[]>();
+    before.forEach((key, index) => {
+        const list = positions.get(key);
+        if (list) {
+            list.push(index);
+        } else {
+            positions.set(key, [index]);
+        }
+    });
+    const order: number[] = [];
+    for (const key of after) {
+        const index = positions.get(key)?.shift();
+        if (index === undefined) {
+            return null;
+        }
+        order.push(index);
+    }
+    return order.some((index, i) => index !== i) ? order : null;
+}
+
+/**
+ * Find the positions in longer that are not part of shorter, when shorter is longer with some items removed
+ */
+function findExtraItems(longer: string[], shorter: string[]): number[] | null {
+    const extra: number[] = [];
+    let next = 0;
+    longer.forEach((key, index) => {
+        if (next < shorter.length && key === shorter[next]) {
+            next++;
+        } else {
+            extra.push(index);
+        }
+    });
+    return next === shorter.length ? extra : null;
+}
+
+function invertPermutation(order: number[]): number[] {
+    const inverse = new Array<number>(order.length);
+    order.forEach((from, to) => {
+        inverse[from] = to;
+    });
+    return inverse;
+}
+
+function assertPermutation(order: number[], length: number): void {
+    if (order.length !== length) {
+        throw new Error(`Expected ${length} items to reorder but got ${order.length}`);
+    }
+}
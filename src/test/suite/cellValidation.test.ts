@@ -0,0 +1,99 @@
+const assert = require('assert');
+import {
+    CellValidationError,
+    matchesDateFormat,
+    parseValidationComment,
+    validateCellValue,
+    validateTable
+} from '../../cellValidation';
+import { MarkdownParser } from '../../markdownParser';
+import { TableDataManager } from '../../tableDataManager';
+
+suite('CellValidation Test Suite', () => {
+    test('should parse the rules of a table-validation comment and ignore invalid entries', () => {
+        const rules = parseValidationComment(
+            '<!-- table-validation {"Age": {"type": "number", "min": 0, "max": "x"}, "Note": 3, "ID": {"unique": true}} -->\n'
+        );
+
+        assert.deepStrictEqual(rules, { Age: { type: 'number', min: 0 }, ID: { unique: true } });
+        assert.strictEqual(parseValidationComment('<!-- other comment -->'), undefined);
+        assert.strictEqual(parseValidationComment('<!-- table-validation {broken -->'), undefined);
+    });
+
+    test('should check numbers, dates, enums and patterns', () => {
+        assert.deepStrictEqual(validateCellValue('abc', { type: 'number' }), { code: 'number' });
+        assert.deepStrictEqual(validateCellValue('-1', { type: 'number', min: 0 }), { code: 'min', expected: '0' });
+        assert.strictEqual(validateCellValue('1,200', { type: 'number', max: 5000 }), null);
+        assert.deepStrictEqual(validateCellValue('2024-02-30', { type: 'date' }), { code: 'date', expected: 'YYYY-MM-DD' });
+        assert.strictEqual(validateCellValue('29/02/2024', { type: 'date', format: 'DD/MM/YYYY' }), null);
+        assert.deepStrictEqual(validateCellValue('doing', { type: 'enum', values: ['todo', 'done'] }), { code: 'enum', expected: 'todo, done' });
+        assert.deepStrictEqual(validateCellValue('AB-1', { pattern: '[A-Z]{2}-\\d{3}' }), { code: 'pattern', expected: '[A-Z]{2}-\\d{3}' });
+    });
+
+    test('should only require non-empty values for required columns and skip formulas', () => {
+        assert.strictEqual(validateCellValue('  ', { type: 'number' }), null);
+        assert.deepStrictEqual(validateCellValue('', { required: true }), { code: 'required' });
+        assert.strictEqual(validateCellValue('<!--=SUM(B1:B3)-->60', { type: 'date' }), null);
+    });
+
+    test('should report duplicates of unique columns and invalid cells of the table', () => {
+        const table = {
+            headers: ['ID', 'Age', 'Name'],
+            rows: [['a', '20', 'Alice'], ['b', 'x', 'Bob'], ['a', '30', 'Carol']]
+        };
+        const rules = { ID: { unique: true }, Age: { type: 'number' as const } };
+
+        assert.deepStrictEqual(validateTable(table, rules), [
+            { row: 0, col: 0, value: 'a', code: 'unique' },
+            { row: 2, col: 0, value: 'a', code: 'unique' },
+            { row: 1, col: 1, value: 'x', code: 'number' }
+        ]);
+        assert.deepStrictEqual(validateTable(table, rules, [{ row: 0, col: 1 }, { row: 1, col: 2 }]), []);
+        assert.deepStrictEqual(validateTable(table, undefined), []);
+    });
+
+    test('should match date formats with times', () => {
+        assert.strictEqual(matchesDateFormat('2024-05-01 13:45', 'YYYY-MM-DD HH:mm'), true);
+        assert.strictEqual(matchesDateFormat('2024-05-01 24:00', 'YYYY-MM-DD HH:mm'), false);
+        assert.strictEqual(matchesDateFormat('2024.5.1', 'YYYY.MM.DD'), false);
+    });
+
+    test('should read the rules from the comment right above a table', () => {
+        const parser = new MarkdownParser();
+        const markdown = `<!-- table-validation {"Age": {"type": "number"}} -->
+| Name | Age |
+|------|-----|
+| Alice | 25 |
+
+| Other |
+|-------|
+| x |`;
+
+        const tables = parser.findTablesInDocument(parser.parseDocument(markdown));
+
+        assert.deepStrictEqual(tables[0].validationRules, { Age: { type: 'number' } });
+        assert.strictEqual(tables[1].validationRules, undefined);
+    });
+
+    test('should reject edits that break the rules without applying them', () => {
+        const manager = new TableDataManager({
+            startLine: 1,
+            endLine: 4,
+            headers: ['Name', 'Age'],
+            rows: [['Alice', '25'], ['Bob', '30']],
+            alignment: ['left', 'left'],
+            validationRules: { Age: { type: 'number', min: 0 } }
+        }, 'test.md');
+
+        assert.throws(() => manager.updateCell(0, 1, '-5'), (error: unknown) =>
+            error instanceof CellValidationError && error.failures[0].code === 'min');
+        assert.throws(() => manager.batchUpdateCells([
+            { row: 0, col: 0, value: 'Ann' },
+            { row: 1, col: 1, value: 'old' }
+        ]), CellValidationError);
+        assert.deepStrictEqual(manager.getTableData().rows, [['Alice', '25'], ['Bob', '30']]);
+
+        manager.updateCell(1, 1, '31');
+        assert.strictEqual(manager.getTableData().rows[1][1], '31');
+    });
+});
@@ -227,6 +227,56 @@ suite('FileHandler Test Suite', () => {
         });
     });
 
+    suite('minimal edits and autoSave', () => {
+        const originalContent = [
+            '# Title',
+            '',
+            '| A | B |',
+            '|---|---|',
+            '| 1 | 2 |',
+            '| 3 | 4 |',
+            '',
+            'After'
+        ].join('\n');
+        const newTableContent = '| A | B |\n|---|---|\n| 1 | 2 |\n| 3 | x |';
+
+        teardown(async () => {
+            await vscode.workspace.getConfiguration('markdownTableEditor').update('autoSave', undefined, vscode.ConfigurationTarget.Global);
+        });
+
+        test('should only edit the changed row', async () => {
+            fs.writeFileSync(testFile.fsPath, originalContent, 'utf8');
+            const document = await vscode.workspace.openTextDocument(testFile);
+            const changedLines: number[] = [];
+            const listener = vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.uri.toString() === testFile.toString()) {
+                    event.contentChanges.forEach(change => changedLines.push(change.range.start.line, change.range.end.line));
+                }
+            });
+
+            try {
+                await fileHandler.updateTableInFile(testFile, 2, 5, newTableContent);
+            } finally {
+                listener.dispose();
+            }
+
+            assert.deepStrictEqual(changedLines, [5, 5]);
+            assert.strictEqual(document.getText(), originalContent.replace('| 3 | 4 |', '| 3 | x |'));
+        });
+
+        test('should leave the document unsaved when autoSave is never', async () => {
+            await vscode.workspace.getConfiguration('markdownTableEditor').update('autoSave', 'never', vscode.ConfigurationTarget.Global);
+            fs.writeFileSync(testFile.fsPath, originalContent, 'utf8');
+            const document = await vscode.workspace.openTextDocument(testFile);
+
+            await fileHandler.updateTableInFile(testFile, 2, 5, newTableContent);
+
+            assert.ok(document.isDirty);
+            assert.strictEqual(fs.readFileSync(testFile.fsPath, 'utf8'), originalContent);
+            await document.save();
+        });
+    });
+
     suite('getFileHandler singleton', () => {
         test('should return same instance', () => {
             const handler1 = getFileHandler();
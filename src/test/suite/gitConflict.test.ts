@@ -0,0 +1,80 @@
+const assert = require('assert');
+import { MarkdownParser } from '../../markdownParser';
+import { findConflictedTables, hasConflictMarkers } from '../../gitConflict';
+
+suite('GitConflict Test Suite', () => {
+    const parser = new MarkdownParser();
+
+    test('should rebuild ours and theirs tables around a conflict block', () => {
+        const content = [
+            '# Tasks',
+            '',
+            '| Task | Status |',
+            '| --- | --- |',
+            '<<<<<<< HEAD',
+            '| Write docs | done |',
+            '=======',
+            '| Write docs | review |',
+            '| Release | todo |',
+            '>>>>>>> feature/release',
+            '| Review | todo |',
+            '',
+            'After the table'
+        ].join('\n');
+
+        assert.strictEqual(hasConflictMarkers(content), true);
+        const conflicts = findConflictedTables(parser, content);
+
+        assert.strictEqual(conflicts.length, 1);
+        const [conflict] = conflicts;
+        assert.strictEqual(conflict.startLine, 2);
+        assert.strictEqual(conflict.endLine, 10);
+        assert.strictEqual(conflict.oursLabel, 'HEAD');
+        assert.strictEqual(conflict.theirsLabel, 'feature/release');
+        assert.deepStrictEqual(conflict.ours.headers, ['Task', 'Status']);
+        assert.deepStrictEqual(conflict.ours.rows, [['Write docs', 'done'], ['Review', 'todo']]);
+        assert.deepStrictEqual(conflict.theirs.rows, [['Write docs', 'review'], ['Release', 'todo'], ['Review', 'todo']]);
+        assert.strictEqual(conflict.base, undefined);
+    });
+
+    test('should read the base version of diff3 style conflicts', () => {
+        const content = [
+            '<<<<<<< ours',
+            '| Name | Qty |',
+            '| --- | ---: |',
+            '| Apple | 3 |',
+            '||||||| base',
+            '| Name | Qty |',
+            '| --- | ---: |',
+            '| Apple | 1 |',
+            '=======',
+            '| Name | Qty |',
+            '| --- | ---: |',
+            '| Apple | 2 |',
+            '>>>>>>> theirs'
+        ].join('\n');
+
+        const [conflict] = findConflictedTables(parser, content);
+
+        assert.deepStrictEqual(conflict.ours.rows, [['Apple', '3']]);
+        assert.deepStrictEqual(conflict.theirs.rows, [['Apple', '2']]);
+        assert.deepStrictEqual(conflict.base?.rows, [['Apple', '1']]);
+    });
+
+    test('should ignore conflicts that do not touch a table', () => {
+        const content = [
+            '| A | B |',
+            '| --- | --- |',
+            '| 1 | 2 |',
+            '',
+            '<<<<<<< HEAD',
+            'Our paragraph',
+            '=======',
+            'Their paragraph',
+            '>>>>>>> main'
+        ].join('\n');
+
+        assert.deepStrictEqual(findConflictedTables(parser, content), []);
+        assert.strictEqual(hasConflictMarkers('| A |\n| --- |\n| <<<<<<< not a marker |'), false);
+    });
+});
@@ -0,0 +1,104 @@
+const assert = require('assert');
+import {
+    deleteSpanLines,
+    findSpanAt,
+    insertSpanLines,
+    isHtmlTableBlock,
+    parseHtmlTable,
+    serializeHtmlTable
+} from '../../htmlTable';
+
+suite('HtmlTable Test Suite', () => {
+    const html = [
+        '<table>',
+        '  <tr><th>Region</th><th colspan="2" align="center">Sales</th></tr>',
+        '  <tr><td rowspan="2">East</td><td>10</td><td>20</td></tr>',
+        '  <tr><td>30</td><td style="text-align: right">40</td></tr>',
+        '</table>'
+    ].join('\n');
+
+    test('should read merged cells into a grid with spans', () => {
+        const table = parseHtmlTable(html);
+
+        assert.deepStrictEqual(table, {
+            headers: ['Region', 'Sales', ''],
+            rows: [['East', '10', '20'], ['', '30', '40']],
+            alignment: ['left', 'center', 'left'],
+            spans: [
+                { row: -1, col: 1, rowSpan: 1, colSpan: 2 },
+                { row: 0, col: 0, rowSpan: 2, colSpan: 1 }
+            ]
+        });
+    });
+
+    test('should clamp row spans to the end of the table', () => {
+        const table = parseHtmlTable('<table>\n<tr><th>A</th><th>B</th></tr>\n<tr><td rowspan="5">1</td><td>2</td></tr>\n</table>');
+
+        assert.deepStrictEqual(table?.rows, [['1', '2']]);
+        assert.deepStrictEqual(table?.spans, []);
+    });
+
+    test('should not read tables whose header cells span the rows below', () => {
+        // 見出しの rowspan を 1 にすると、次の行のセルが左にずれて保存されるため編集対象にしない
+        const html = '<table>\n<tr><th rowspan="2">A</th><th>B</th></tr>\n<tr><td>2</td></tr>\n</table>';
+
+        assert.strictEqual(parseHtmlTable(html), null);
+        assert.deepStrictEqual(parseHtmlTable('<table>\n<tr><th rowspan="2">A</th><th>B</th></tr>\n</table>')?.headers, ['A', 'B']);
+    });
+
+    test('should only accept single tables without captions', () => {
+        assert.strictEqual(isHtmlTableBlock(html), true);
+        assert.strictEqual(isHtmlTableBlock('<div><table><tr><td>1</td></tr></table></div>'), false);
+        assert.strictEqual(isHtmlTableBlock('<table><caption>T</caption><tr><td>1</td></tr></table>'), false);
+        assert.strictEqual(isHtmlTableBlock('<table><tr><td><table><tr><td>1</td></tr></table></td></tr></table>'), false);
+        assert.strictEqual(parseHtmlTable('<table></table>'), null);
+    });
+
+    test('should write merged cells back as HTML and read them again', () => {
+        const table = parseHtmlTable(html)!;
+        const serialized = serializeHtmlTable({ ...table, rows: [['East', '10', 'a\nb'], ['', '30', '40']] });
+
+        assert.strictEqual(serialized, [
+            '<table>',
+            '  <thead>',
+            '    <tr>',
+            '      <th>Region</th>',
+            '      <th colspan="2" align="center">Sales</th>',
+            '    </tr>',
+            '  </thead>',
+            '  <tbody>',
+            '    <tr>',
+            '      <td rowspan="2">East</td>',
+            '      <td align="center">10</td>',
+            '      <td>a<br>b</td>',
+            '    </tr>',
+            '    <tr>',
+            '      <td align="center">30</td>',
+            '      <td>40</td>',
+            '    </tr>',
+            '  </tbody>',
+            '</table>'
+        ].join('\n'));
+        assert.deepStrictEqual(parseHtmlTable(serialized)?.spans, table.spans);
+    });
+
+    test('should move and resize spans when lines are inserted or deleted', () => {
+        const spans = [{ row: 1, col: 0, rowSpan: 2, colSpan: 2 }];
+
+        assert.deepStrictEqual(insertSpanLines(spans, 'row', 0, 1), [{ row: 2, col: 0, rowSpan: 2, colSpan: 2 }]);
+        assert.deepStrictEqual(insertSpanLines(spans, 'col', 1, 2), [{ row: 1, col: 0, rowSpan: 2, colSpan: 4 }]);
+        assert.deepStrictEqual(insertSpanLines(spans, 'row', 3, 1), spans);
+        assert.deepStrictEqual(deleteSpanLines(spans, 'row', [0]), [{ row: 0, col: 0, rowSpan: 2, colSpan: 2 }]);
+        assert.deepStrictEqual(deleteSpanLines(spans, 'col', [1]), [{ row: 1, col: 0, rowSpan: 2, colSpan: 1 }]);
+        // 1 セルだけになった結合は取り除く
+        assert.deepStrictEqual(deleteSpanLines([{ row: 0, col: 0, rowSpan: 1, colSpan: 2 }], 'col', [0]), []);
+    });
+
+    test('should find the span covering a cell', () => {
+        const spans = [{ row: 0, col: 1, rowSpan: 2, colSpan: 2 }];
+
+        assert.deepStrictEqual(findSpanAt(spans, 1, 2), spans[0]);
+        assert.strictEqual(findSpanAt(spans, 2, 1), undefined);
+        assert.strictEqual(findSpanAt(undefined, 0, 0), undefined);
+    });
+});
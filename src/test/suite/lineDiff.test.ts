@@ -0,0 +1,51 @@
+const assert = require('assert');
+import { computeLineHunks } from '../../lineDiff';
+
+suite('LineDiff Test Suite', () => {
+    const table = [
+        '| A | B |',
+        '| --- | --- |',
+        '| 1 | 2 |',
+        '| 3 | 4 |',
+        '| 5 | 6 |'
+    ];
+
+    test('should return no hunks for identical lines', () => {
+        assert.deepStrictEqual(computeLineHunks(table, [...table]), []);
+    });
+
+    test('should return one hunk per changed row when the line count is unchanged', () => {
+        const updated = [...table];
+        updated[2] = '| x | 2 |';
+        updated[4] = '| 5 | y |';
+
+        assert.deepStrictEqual(computeLineHunks(table, updated), [
+            { oldStart: 2, oldEnd: 3, lines: ['| x | 2 |'] },
+            { oldStart: 4, oldEnd: 5, lines: ['| 5 | y |'] }
+        ]);
+    });
+
+    test('should return an insertion hunk for added rows', () => {
+        const updated = [...table.slice(0, 3), '| a | b |', ...table.slice(3)];
+
+        assert.deepStrictEqual(computeLineHunks(table, updated), [
+            { oldStart: 3, oldEnd: 3, lines: ['| a | b |'] }
+        ]);
+    });
+
+    test('should return a deletion hunk for removed rows', () => {
+        const updated = [...table.slice(0, 3), ...table.slice(4)];
+
+        assert.deepStrictEqual(computeLineHunks(table, updated), [
+            { oldStart: 3, oldEnd: 4, lines: [] }
+        ]);
+    });
+
+    test('should replace the whole range when every line changes length and content', () => {
+        const updated = ['| A | B | C |', '| --- | --- | --- |', '| 1 | 2 | |'];
+
+        assert.deepStrictEqual(computeLineHunks(table, updated), [
+            { oldStart: 0, oldEnd: 5, lines: updated }
+        ]);
+    });
+});
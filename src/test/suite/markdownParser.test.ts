@@ -511,6 +511,51 @@ Another good table:
         assert.strictEqual(tables[0].headers.length, 100);
         assert.strictEqual(tables[0].rows.length, 1000);
     });
+
+    test('should find headings with GitHub-style slugs', () => {
+        const markdown = `# Design Spec
+
+## Usage & Options
+
+### \`run()\` *command*
+
+## Usage & Options
+
+| Name |
+|------|
+| x |`;
+
+        const headings = parser.findHeadingsInDocument(parser.parseDocument(markdown));
+
+        assert.deepStrictEqual(headings, [
+            { text: 'Design Spec', level: 1, slug: 'design-spec' },
+            { text: 'Usage & Options', level: 2, slug: 'usage--options' },
+            { text: 'run() command', level: 3, slug: 'run-command' },
+            { text: 'Usage & Options', level: 2, slug: 'usage--options-1' }
+        ]);
+    });
+
+    test('should parse HTML tables with merged cells', () => {
+        const markdown = `| A | B |
+|---|---|
+| 1 | 2 |
+
+<table>
+  <tr><th>Name</th><th>Score</th></tr>
+  <tr><td colspan="2">None</td></tr>
+</table>
+`;
+
+        const tables = parser.findTablesInDocument(parser.parseDocument(markdown));
+
+        assert.strictEqual(tables.length, 2);
+        assert.strictEqual(tables[1].format, 'html');
+        assert.deepStrictEqual(tables[1].rows, [['None', '']]);
+        assert.deepStrictEqual(tables[1].spans, [{ row: 0, col: 0, rowSpan: 1, colSpan: 2 }]);
+        const boundaries = parser.getTableBoundaries(markdown, tables[1]);
+        assert.strictEqual(boundaries.startLine, 4);
+        assert.strictEqual(boundaries.endLine, 7);
+    });
 });
 
 // Error class tests
@@ -122,6 +122,9 @@ suite('Protocol and Validator Completeness Tests', () => {
             'moveColumn',
             'exportCSV',
             'importCSV',
+            'addAggregateRow',
+            'setAlignment',
+            'saveViewState',
             'switchTable'
         ];
 
@@ -159,6 +162,15 @@ suite('Protocol and Validator Completeness Tests', () => {
                 case 'exportCSV':
                     testMessage.data = { csvContent: 'test' };
                     break;
+                case 'setAlignment':
+                    testMessage.data = { columns: [0], alignment: 'center' };
+                    break;
+                case 'addAggregateRow':
+                    testMessage.data = { functions: ['none', 'sum'] };
+                    break;
+                case 'saveViewState':
+                    testMessage.data = { viewState: { tables: {} } };
+                    break;
                 case 'switchTable':
                     testMessage.data = { index: 0 };
                     break;
@@ -195,4 +207,80 @@ suite('Protocol and Validator Completeness Tests', () => {
             'Validator should be lenient with importCSV data format'
         );
     });
+
+    test('Validator should validate setAlignment data', () => {
+        assert.strictEqual(validateMessageData({ command: 'setAlignment', data: { columns: [0, 2], alignment: 'default' } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'setAlignment', data: { columns: [], alignment: 'left' } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'setAlignment', data: { columns: [0], alignment: 'justify' } } as any), false);
+    });
+
+    test('Validator should validate mergeCells and unmergeCells data', () => {
+        assert.strictEqual(validateMessageData({ command: 'mergeCells', data: { row: -1, col: 0, rowSpan: 1, colSpan: 2 } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'mergeCells', data: { row: 0, col: 0, rowSpan: 1, colSpan: 1 } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'mergeCells', data: { row: 0, col: 0, rowSpan: 0, colSpan: 2 } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'unmergeCells', data: { row: 2, col: 1 } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'unmergeCells', data: { row: 2 } } as any), false);
+    });
+
+    test('Validator should validate saveViewState data', () => {
+        assert.strictEqual(validateMessageData({ command: 'saveViewState', data: { viewState: { activeTableKey: 'A|B', tables: {} } } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'saveViewState', data: { viewState: null } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'saveViewState', data: {} } as any), false);
+    });
+
+    test('Validator should validate multi-key sort data', () => {
+        const keys = [{ column: 2, direction: 'asc', type: 'auto' }, { column: 0, direction: 'desc' }];
+        assert.strictEqual(validateMessageData({ command: 'sort', data: { column: 2, direction: 'asc', keys } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'sort', data: { column: 2, direction: 'asc', keys: [{ column: 2, direction: 'none' }] } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'sort', data: { column: 2, direction: 'asc', keys: [{ column: 2, direction: 'asc', type: 'binary' }] } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'sort', data: { column: 2, direction: 'asc', keys: 'column' } } as any), false);
+    });
+
+    test('Validator should validate bulk updates across tables', () => {
+        const updates = [{ row: 0, col: 1, value: 'x' }];
+        assert.strictEqual(validateMessageData({ command: 'bulkUpdateCells', data: { updates, tableIndex: 0, additionalTables: [{ tableIndex: 2, updates }] } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'bulkUpdateCells', data: { updates, additionalTables: [{ updates }] } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'bulkUpdateCells', data: { updates, additionalTables: [{ tableIndex: 1, updates: [{ row: 0, col: 0 }] }] } } as any), false);
+    });
+
+    test('Validator should validate workspace search messages', () => {
+        const options = { caseSensitive: false, wholeWord: false, regex: true };
+        assert.strictEqual(validateMessageData({ command: 'searchWorkspace', data: { searchText: 'todo', options } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'searchWorkspace', data: { searchText: 'todo', options: { regex: true } } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'openSearchMatch', data: { uri: 'file:///a.md', tableIndex: 1, row: 0, col: 2 } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'openSearchMatch', data: { uri: 'file:///a.md', tableIndex: 1, row: -1, col: 2 } } as any), false);
+        const files = [{ uri: 'file:///a.md', tables: [{ tableIndex: 0, updates: [{ row: 0, col: 0, value: 'x', original: 'a' }] }] }];
+        assert.strictEqual(validateMessageData({ command: 'replaceInWorkspace', data: { files } } as any), true);
+        // 検索時の値が無い更新は受け付けない（検索後に変更されたセルを上書きしないため）
+        const withoutOriginal = [{ uri: 'file:///a.md', tables: [{ tableIndex: 0, updates: [{ row: 0, col: 0, value: 'x' }] }] }];
+        assert.strictEqual(validateMessageData({ command: 'replaceInWorkspace', data: { files: withoutOriginal } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'replaceInWorkspace', data: { files: [{ uri: 'file:///a.md' }] } } as any), false);
+    });
+
+    test('Validator should validate cell link messages', () => {
+        assert.strictEqual(validateMessageData({ command: 'openLink', data: { href: '../docs/spec.md#usage' } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'openLink', data: { href: '' } } as any), false);
+        assert.strictEqual(validateMessageCommand({ command: 'listLinkTargets' } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'listLinkTargets' } as any), true);
+    });
+
+    test('Validator should check resolved merge conflict tables', () => {
+        const table = { headers: ['A', 'B'], rows: [['1', '2']], alignment: ['left', 'left'] };
+        assert.strictEqual(validateMessageData({ command: 'resolveMergeConflict', data: { startLine: 2, endLine: 8, table } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'resolveMergeConflict', data: { startLine: 8, endLine: 2, table } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'resolveMergeConflict', data: { startLine: 2, endLine: 8, table: { headers: ['A'], rows: [[1]] } } } as any), false);
+    });
+
+    test('Validator should check history positions', () => {
+        assert.strictEqual(validateMessageData({ command: 'jumpToHistory', data: { position: 0 } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'jumpToHistory', data: { position: 3 } } as any), true);
+        assert.strictEqual(validateMessageData({ command: 'jumpToHistory', data: { position: -1 } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'jumpToHistory', data: { position: 1.5 } } as any), false);
+    });
+
+    test('Validator should reject unknown aggregate functions', () => {
+        assert.strictEqual(validateMessageData({ command: 'addAggregateRow', data: { functions: ['sum', 'median'] } } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'addAggregateRow', data: {} } as any), false);
+        assert.strictEqual(validateMessageData({ command: 'addAggregateRow', data: { functions: ['none', 'avg'] } } as any), true);
+    });
 });
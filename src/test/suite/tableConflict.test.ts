@@ -0,0 +1,50 @@
+const assert = require('assert');
+import { TableConflictDetector, hashTableContent, MAX_SNAPSHOTS_PER_DOCUMENT } from '../../tableConflict';
+
+suite('TableConflict Test Suite', () => {
+    const uri = 'file:///docs/tasks.md';
+    const original = hashTableContent({ headers: ['Task', 'Status'], rows: [['Write docs', 'todo']], alignment: ['left', 'left'] });
+    const changed = hashTableContent({ headers: ['Task', 'Status'], rows: [['Write docs', 'done']], alignment: ['left', 'left'] });
+    const other = hashTableContent({ headers: ['Owner'], rows: [['Alice']], alignment: ['left'] });
+
+    test('should not report a conflict when the document has not changed or the version is unknown', () => {
+        const detector = new TableConflictDetector();
+        detector.recordSnapshot(uri, 3, [original]);
+
+        assert.strictEqual(detector.isConflict(uri, 0, 3, 3, changed), false);
+        assert.strictEqual(detector.isConflict(uri, 0, undefined, 5, changed), false);
+        assert.strictEqual(detector.isConflict(uri, 0, 2, 5, changed), false);
+    });
+
+    test('should report a conflict only when the edited table itself changed', () => {
+        const detector = new TableConflictDetector();
+        detector.recordSnapshot(uri, 3, [original, other]);
+
+        // 別のテーブルや本文だけが変わった場合は衝突ではない
+        assert.strictEqual(detector.isConflict(uri, 0, 3, 4, original), false);
+        assert.strictEqual(detector.isConflict(uri, 0, 3, 4, changed), true);
+        assert.strictEqual(detector.isConflict(uri, 1, 3, 4, undefined), true);
+    });
+
+    test('should ignore versions produced by the extension own edits', () => {
+        const detector = new TableConflictDetector();
+        detector.recordSnapshot(uri, 3, [original]);
+        detector.recordOwnEdit(uri, 3, 4);
+
+        assert.strictEqual(detector.isConflict(uri, 0, 3, 4, changed), false);
+        assert.strictEqual(detector.isConflict(uri, 0, 3, 5, changed), true);
+    });
+
+    test('should keep a limited number of snapshots per document', () => {
+        const detector = new TableConflictDetector();
+        for (let version = 1; version <= MAX_SNAPSHOTS_PER_DOCUMENT + 1; version++) {
+            detector.recordSnapshot(uri, version, [original]);
+        }
+
+        assert.strictEqual(detector.isConflict(uri, 0, 1, MAX_SNAPSHOTS_PER_DOCUMENT + 2, changed), false);
+        assert.strictEqual(detector.isConflict(uri, 0, 2, MAX_SNAPSHOTS_PER_DOCUMENT + 2, changed), true);
+
+        detector.clear(uri);
+        assert.strictEqual(detector.isConflict(uri, 0, 2, MAX_SNAPSHOTS_PER_DOCUMENT + 2, changed), false);
+    });
+});
@@ -531,6 +531,36 @@ suite('TableDataManager Test Suite', () => {
         assert.strictEqual(tableData.rows[2][1], '35');
     });
 
+    test('should apply direction and natural comparison per sort key', () => {
+        const taskManager = new TableDataManager({
+            startLine: 0,
+            endLine: 6,
+            headers: ['Status', 'Priority', 'Task'],
+            rows: [
+                ['open', '1', 'Task10'],
+                ['done', '3', 'Task1'],
+                ['open', '3', 'Task2'],
+                ['open', '3', 'Task10'],
+                ['done', '2', 'Task3']
+            ],
+            alignment: ['left', 'left', 'left']
+        });
+
+        taskManager.sortByMultipleColumns([
+            { columnIndex: 0, direction: 'asc' },
+            { columnIndex: 1, direction: 'desc', dataType: 'auto' },
+            { columnIndex: 2, direction: 'asc', dataType: 'natural' }
+        ]);
+
+        assert.deepStrictEqual(taskManager.getTableData().rows.map(row => row.join(',')), [
+            'done,3,Task1',
+            'done,2,Task3',
+            'open,3,Task2',
+            'open,3,Task10',
+            'open,1,Task10'
+        ]);
+    });
+
     test('should sort with custom function', () => {
         // Sort by city length (shortest first)
         manager.sortByCustomFunction((rowA, rowB) => {
@@ -598,6 +628,51 @@ suite('TableDataManager Test Suite', () => {
         assert.strictEqual(nameStats.dataType, 'string');
     });
 
+    test('should sort values with units as numbers when auto-detecting', () => {
+        const unitManager = new TableDataManager({
+            startLine: 0,
+            endLine: 4,
+            headers: ['Amount'],
+            rows: [['10%'], ['1,000'], ['5 kg']],
+            alignment: ['left']
+        });
+
+        unitManager.sortByColumnAdvanced(0, 'asc');
+
+        assert.deepStrictEqual(unitManager.getTableData().rows.map(row => row[0]), ['1,000', '5 kg', '10%']);
+        assert.strictEqual(unitManager.getSortState()!.dataType, 'number');
+    });
+
+    test('should not treat dates as numbers in multi-column sort', () => {
+        const dateManager = new TableDataManager({
+            startLine: 0,
+            endLine: 4,
+            headers: ['Date'],
+            rows: [['2024-03-01'], ['2023-12-31'], ['2024-01-15']],
+            alignment: ['left']
+        });
+
+        dateManager.sortByMultipleColumns([{ columnIndex: 0, direction: 'asc' }]);
+
+        assert.deepStrictEqual(dateManager.getTableData().rows.map(row => row[0]), ['2023-12-31', '2024-01-15', '2024-03-01']);
+        assert.strictEqual(dateManager.getSortState()!.dataType, 'date');
+    });
+
+    test('should compare each numeric part in natural sort', () => {
+        const naturalManager = new TableDataManager({
+            startLine: 0,
+            endLine: 4,
+            headers: ['File'],
+            rows: [['File10-part1'], ['File2-part10'], ['File2-part9']],
+            alignment: ['left']
+        });
+
+        naturalManager.sortNatural(0, 'asc');
+
+        // 数字部分をそれぞれ数値として比較する（数字をつなげた 210 と 101 では比較しない）
+        assert.deepStrictEqual(naturalManager.getTableData().rows.map(row => row[0]), ['File2-part9', 'File2-part10', 'File10-part1']);
+    });
+
     test('should perform natural sort', () => {
         // Create table with mixed alphanumeric data
         const naturalTableNode: TableNode = {
@@ -645,6 +720,41 @@ suite('TableDataManager Test Suite', () => {
         assert.ok(stats.sampleValues.length > 0);
     });
 
+    test('should read thousands separators in numeric column statistics', () => {
+        const amountManager = new TableDataManager({
+            startLine: 0,
+            endLine: 4,
+            headers: ['Amount'],
+            rows: [['1,000'], ['25'], ['']],
+            alignment: ['left']
+        });
+
+        const stats = amountManager.getSortedColumnStats(0);
+
+        assert.strictEqual(stats.dataType, 'number');
+        assert.strictEqual(stats.minValue, '25');
+        assert.strictEqual(stats.maxValue, '1000');
+        assert.strictEqual(stats.nullValues, 1);
+        assert.strictEqual(amountManager.getStatistics().emptyCells, 1);
+    });
+
+    test('should leave values with units out of numeric column min and max', () => {
+        const unitManager = new TableDataManager({
+            startLine: 0,
+            endLine: 4,
+            headers: ['Amount'],
+            rows: [['10%'], ['5'], ['1,000']],
+            alignment: ['left']
+        });
+
+        const stats = unitManager.getSortedColumnStats(0);
+
+        // 10% は列の型判定では数値（parseFloat）だが、最小・最大は集計フッターと同じく数値だけで求める
+        assert.strictEqual(stats.dataType, 'number');
+        assert.strictEqual(stats.minValue, '5');
+        assert.strictEqual(stats.maxValue, '1000');
+    });
+
     test('should clear sort state', () => {
         manager.sortByColumnAdvanced(0, 'asc');
         assert.notStrictEqual(manager.getSortState(), null);
@@ -1337,4 +1447,191 @@ suite('TableDataManager Test Suite', () => {
         const tableData = manager.getTableData();
         assert.strictEqual(tableData.rows[0][0], '');
     });
-});
\ No newline at end of file
+
+    test('should store formula input as comment and serialize computed value', () => {
+        manager.updateCell(0, 2, '=SUM(B1:B3)');
+
+        const tableData = manager.getTableData();
+        assert.strictEqual(tableData.rows[0][2], '<!--=SUM(B1:B3)-->90');
+        assert.ok(manager.serializeToMarkdown().includes('| John | 25 | <!--=SUM(B1:B3)-->90 |'));
+    });
+
+    test('should recalculate dependent formulas when inputs change', () => {
+        manager.updateCell(0, 2, '=B1*2');
+        manager.updateCell(1, 2, '=C1+B2');
+        manager.batchUpdateCells([{ row: 0, col: 1, value: '10' }]);
+
+        const tableData = manager.getTableData();
+        assert.strictEqual(tableData.rows[0][2], '<!--=B1*2-->20');
+        assert.strictEqual(tableData.rows[1][2], '<!--=C1+B2-->50');
+    });
+
+    test('should shift formula references when rows are inserted', () => {
+        const formulaManager = new TableDataManager(sampleTableNode, 'test.md');
+        formulaManager.updateCell(0, 2, '=B2+B3');
+        formulaManager.insertRows(1, 1);
+
+        const tableData = formulaManager.getTableData();
+        assert.strictEqual(tableData.rows[0][2], '<!--=B3+B4-->65');
+        assert.ok(formulaManager.serializeToMarkdown().includes('<!--=B3+B4-->65'));
+    });
+
+    test('should shift formula references and shrink ranges when rows are deleted', () => {
+        const formulaManager = new TableDataManager(sampleTableNode, 'test.md');
+        formulaManager.updateCell(0, 2, '=SUM(B1:B3)');
+        formulaManager.updateCell(2, 2, '=B2*2');
+        formulaManager.deleteRows([1]);
+
+        const tableData = formulaManager.getTableData();
+        assert.strictEqual(tableData.rows[0][2], '<!--=SUM(B1:B2)-->60');
+        // 削除された行への参照は #REF!
+        assert.strictEqual(tableData.rows[1][2], '<!--=#REF!*2-->#REF!');
+    });
+
+    test('should keep references to the same cells when a row is moved', () => {
+        manager.updateCell(1, 2, '=B1+1');
+        manager.moveRow(0, 2);
+
+        const tableData = manager.getTableData();
+        assert.strictEqual(tableData.rows[0][2], '<!--=B3+1-->26');
+    });
+
+    test('should recalculate formulas after sorting without changing references', () => {
+        manager.updateCell(0, 2, '=B1*2');
+        manager.sortByColumn(1, 'desc');
+
+        const tableData = manager.getTableData();
+        assert.deepStrictEqual(tableData.rows.map(row => row[0]), ['Bob', 'Jane', 'John']);
+        assert.strictEqual(tableData.rows[2][2], '<!--=B1*2-->70');
+    });
+
+    test('should recalculate formulas with ranges larger than the table', () => {
+        manager.updateCell(0, 2, '=SUM(B1:B3)+COUNT(A1:ZZZ999999)');
+        manager.updateCell(1, 1, '40');
+
+        assert.strictEqual(manager.getTableData().rows[0][2], '<!--=SUM(B1:B3)+COUNT(A1:ZZZ999999)-->#REF!');
+    });
+
+    test('should regenerate separator line when alignment changes', () => {
+        const node: TableNode = { ...sampleTableNode, separatorLine: '|------|:---:|---|' };
+        const aligned = new TableDataManager(node, 'test.md');
+
+        aligned.setColumnAlignment(0, 'right');
+        aligned.setColumnAlignment(1, 'default');
+        aligned.setColumnAlignment(2, 'center');
+
+        const tableData = aligned.getTableData();
+        assert.strictEqual(tableData.separatorLine, '|-----:|-----|:---:|');
+        assert.deepStrictEqual(tableData.alignment, ['right', 'left', 'center']);
+        assert.ok(aligned.serializeToMarkdown().includes('|-----:|-----|:---:|'));
+    });
+
+    test('should keep default columns when separator line has no outer pipes', () => {
+        const node: TableNode = { ...sampleTableNode, separatorLine: '---|:-:|---' };
+        const aligned = new TableDataManager(node, 'test.md');
+
+        aligned.setColumnAlignment(0, 'right');
+
+        assert.strictEqual(aligned.getTableData().separatorLine, '| ---: | :---: | --- |');
+    });
+
+    test('should generate separator line from alignment when missing', () => {
+        manager.setColumnAlignment(1, 'right');
+
+        assert.strictEqual(manager.getTableData().separatorLine, '| :--- | ----: | ---: |');
+        assert.throws(() => manager.setColumnAlignment(5, 'left'));
+    });
+
+    test('should serialize with padded format using display width', () => {
+        const padded = new TableDataManager({
+            startLine: 0,
+            endLine: 3,
+            headers: ['Name', 'Age', 'City'],
+            rows: [
+                ['John', '25', 'NYC'],
+                ['田中', '30', 'LA']
+            ],
+            alignment: ['left', 'center', 'right'],
+            separatorLine: '|:-|:-:|-:|'
+        }, 'test.md');
+
+        assert.strictEqual(padded.serializeToMarkdown('padded'), [
+            '| Name | Age | City |',
+            '| :--- | :-: | ---: |',
+            '| John | 25  |  NYC |',
+            '| 田中 | 30  |   LA |'
+        ].join('\n'));
+    });
+
+    test('should keep default alignment and escape pipes when formatting', () => {
+        const table = new TableDataManager({
+            startLine: 0,
+            endLine: 2,
+            headers: ['A', 'B'],
+            rows: [['x|y', '1']],
+            alignment: ['left', 'left'],
+            separatorLine: '|---|:--|'
+        }, 'test.md');
+
+        assert.strictEqual(table.serializeToMarkdown('compact'), '| A | B |\n| --- | :--- |\n| x\\|y | 1 |');
+        assert.strictEqual(table.serializeToMarkdown('padded'), '| A    | B   |\n| ---- | :-- |\n| x\\|y | 1   |');
+        // preserve は元の区切り線を維持
+        assert.strictEqual(table.serializeToMarkdown(), '| A | B |\n|---|:--|\n| x\\|y | 1 |');
+    });
+
+    test('should add aggregate row as formula cells', () => {
+        manager.addAggregateRow(['none', 'sum', 'count']);
+
+        const tableData = manager.getTableData();
+        assert.strictEqual(tableData.rows.length, 4);
+        assert.deepStrictEqual(tableData.rows[3], ['', '<!--=SUM(B1:B3)-->90', '<!--=COUNT(C1:C3)-->0']);
+    });
+
+    test('should reject aggregate row with mismatched column count', () => {
+        assert.throws(() => manager.addAggregateRow(['sum']));
+    });
+
+    test('should mark circular formula references as errors', () => {
+        manager.updateCell(0, 2, '=C2');
+        manager.updateCell(1, 2, '=C1');
+
+        const tableData = manager.getTableData();
+        assert.strictEqual(tableData.rows[0][2], '<!--=C2-->#CYCLE!');
+        assert.strictEqual(tableData.rows[1][2], '<!--=C1-->#CYCLE!');
+    });
+
+    test('should merge cells and write the table as HTML', () => {
+        manager.mergeCells(0, 1, 2, 2);
+
+        const tableData = manager.getTableData();
+        assert.deepStrictEqual(tableData.spans, [{ row: 0, col: 1, rowSpan: 2, colSpan: 2 }]);
+        assert.deepStrictEqual(tableData.rows.slice(0, 2), [['John', '25<br>NYC<br>30<br>LA', ''], ['Jane', '', '']]);
+        assert.ok(manager.serializeToMarkdown().startsWith('<table>'));
+        assert.ok(manager.serializeToMarkdown().includes('<td rowspan="2" colspan="2" align="center">25<br>NYC<br>30<br>LA</td>'));
+    });
+
+    test('should reject merges that partly overlap a merged cell', () => {
+        manager.mergeCells(0, 0, 2, 1);
+
+        assert.throws(() => manager.mergeCells(1, 0, 2, 1), /partly overlap/);
+        assert.throws(() => manager.mergeCells(-1, 0, 2, 1), /Invalid merge rows/);
+        // 範囲内の結合はまとめて 1 つにする
+        manager.mergeCells(0, 0, 3, 2);
+        assert.deepStrictEqual(manager.getTableData().spans, [{ row: 0, col: 0, rowSpan: 3, colSpan: 2 }]);
+    });
+
+    test('should write GFM again after unmerging and clear spans on sort', () => {
+        manager.mergeCells(-1, 0, 1, 2);
+        manager.addRow(0);
+        assert.deepStrictEqual(manager.getTableData().spans, [{ row: -1, col: 0, rowSpan: 1, colSpan: 2 }]);
+
+        manager.unmergeCells(-1, 1);
+        assert.strictEqual(manager.getTableData().spans, undefined);
+        assert.ok(manager.serializeToMarkdown().startsWith('| Name<br>Age |  | City |'));
+        assert.throws(() => manager.unmergeCells(0, 0), /No merged cell/);
+
+        manager.mergeCells(0, 0, 2, 1);
+        manager.sortByColumn(1, 'asc');
+        assert.strictEqual(manager.getTableData().spans, undefined);
+    });
+});
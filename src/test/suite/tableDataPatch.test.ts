@@ -0,0 +1,68 @@
+const assert = require('assert');
+import { computeTablePatches, diffTableContent } from '../../tableDataPatch';
+
+suite('TableDataPatch Test Suite', () => {
+    const table = (headers: string[], rows: string[][]) => ({ headers, rows, alignment: headers.map(() => 'left') });
+    const base = table(['Name', 'Age'], [['Alice', '25'], ['Bob', '30'], ['Carol', '35']]);
+
+    test('should send only the changed cells and headers', () => {
+        const current = table(['Name', 'Years'], [['Alice', '25'], ['Bob', '31'], ['Carol', '35']]);
+
+        assert.deepStrictEqual(diffTableContent(base, current), [
+            { type: 'updateHeaders', updates: [{ col: 1, value: 'Years' }] },
+            { type: 'updateCells', updates: [{ row: 1, col: 1, value: '31' }] }
+        ]);
+    });
+
+    test('should describe inserted and deleted rows around the unchanged ones', () => {
+        const inserted = table(['Name', 'Age'], [['Alice', '25'], ['Dan', '40'], ['Bob', '30'], ['Carol', '35']]);
+        assert.deepStrictEqual(diffTableContent(base, inserted), [
+            { type: 'insertRows', index: 1, rows: [['Dan', '40']] }
+        ]);
+
+        const deleted = table(['Name', 'Age'], [['Alice', '25'], ['Carol', '35']]);
+        assert.deepStrictEqual(diffTableContent(base, deleted), [
+            { type: 'deleteRows', index: 1, count: 1 }
+        ]);
+    });
+
+    test('should describe inserted and deleted columns', () => {
+        const current = {
+            ...table(['Name', 'City', 'Age'], [['Alice', '', '25'], ['Bob', '', '30'], ['Carol', '', '35']]),
+            alignment: ['left', 'left', 'left']
+        };
+
+        assert.deepStrictEqual(diffTableContent(base, current), [
+            { type: 'insertColumns', index: 1, headers: ['City'], cells: [[''], [''], ['']] },
+            { type: 'setAlignment', alignment: ['left', 'left', 'left'], separatorLine: undefined }
+        ]);
+        assert.deepStrictEqual(diffTableContent(current, base)[0], { type: 'deleteColumns', index: 1, count: 1 });
+    });
+
+    test('should replace the table when both rows and columns changed', () => {
+        const current = table(['Name'], [['Alice']]);
+
+        assert.deepStrictEqual(diffTableContent(base, current), [
+            { type: 'replaceTable', table: { headers: ['Name'], rows: [['Alice']], alignment: ['left'] } }
+        ]);
+    });
+
+    test('should send the validation rules when they change', () => {
+        const rules = { Age: { type: 'number' as const, min: 0 } };
+
+        assert.deepStrictEqual(diffTableContent(base, { ...base, validationRules: rules }), [
+            { type: 'setValidationRules', rules }
+        ]);
+        assert.deepStrictEqual(diffTableContent({ ...base, validationRules: rules }, { ...base, validationRules: { ...rules } }), []);
+    });
+
+    test('should skip unchanged tables and require a full update when tables are added or removed', () => {
+        const other = table(['Key'], [['x']]);
+
+        assert.deepStrictEqual(computeTablePatches([base, other], [base, table(['Key'], [['y']])]), [
+            { tableIndex: 1, operations: [{ type: 'updateCells', updates: [{ row: 0, col: 0, value: 'y' }] }] }
+        ]);
+        assert.deepStrictEqual(computeTablePatches([base, other], [base, other]), []);
+        assert.strictEqual(computeTablePatches([base], [base, other]), null);
+    });
+});
@@ -0,0 +1,75 @@
+const assert = require('assert');
+import { diffTables, findCorrespondingTable, summarizeTableDiff } from '../../tableDiff';
+
+suite('TableDiff Test Suite', () => {
+    const table = (headers: string[], rows: string[][]) => ({ headers, rows, alignment: headers.map(() => 'left') });
+
+    test('should match rows by key column and highlight changed cells', () => {
+        const base = table(['ID', 'Name', 'Status'], [
+            ['1', 'Docs', 'todo'],
+            ['2', 'Review', 'todo'],
+            ['3', 'Release', 'todo']
+        ]);
+        const current = table(['ID', 'Name', 'Status'], [
+            ['3', 'Release', 'done'],
+            ['1', 'Docs', 'todo'],
+            ['4', 'Blog', 'todo']
+        ]);
+
+        const diff = diffTables(base, current, { keyColumn: 'ID' });
+
+        assert.strictEqual(diff.keyColumn, 'ID');
+        assert.deepStrictEqual(diff.rows.map(row => [row.status, row.baseRow, row.currentRow]), [
+            ['removed', 1, null],
+            ['changed', 2, 0],
+            ['unchanged', 0, 1],
+            ['added', null, 2]
+        ]);
+        assert.deepStrictEqual(diff.rows[0].cells, ['2', 'Review', 'todo']);
+        assert.deepStrictEqual(diff.rows[1].previous, [null, null, 'todo']);
+        assert.deepStrictEqual(summarizeTableDiff(diff), { added: 1, removed: 1, changed: 1 });
+    });
+
+    test('should match rows by similarity when no key column is given', () => {
+        const base = table(['Task', 'Owner', 'Due'], [
+            ['Write docs', 'Alice', '05-01'],
+            ['Fix bug', 'Bob', '05-02'],
+            ['Ship', 'Carol', '05-03']
+        ]);
+        const current = table(['Task', 'Owner', 'Due'], [
+            ['Write docs', 'Alice', '05-01'],
+            ['Fix bug', 'Bob', '05-09'],
+            ['Plan', 'Dan', '06-01'],
+            ['Ship', 'Carol', '05-03']
+        ]);
+
+        const diff = diffTables(base, current);
+
+        assert.strictEqual(diff.keyColumn, undefined);
+        assert.deepStrictEqual(diff.rows.map(row => row.status), ['unchanged', 'changed', 'added', 'unchanged']);
+        assert.deepStrictEqual(diff.rows[1].previous, [null, null, '05-02']);
+    });
+
+    test('should report added, removed and renamed columns', () => {
+        const base = table(['Name', 'Note', 'Qty'], [['Apple', 'fresh', '1']]);
+        const current = table(['Item', 'Qty', 'Price'], [['Apple', '1', '100']]);
+
+        const diff = diffTables(base, current);
+
+        // 同じ位置の見出しだけが変わった列は変更、対応の無い列は追加・削除
+        assert.deepStrictEqual(diff.headers, ['Item', 'Note', 'Qty', 'Price']);
+        assert.deepStrictEqual(diff.columns.map(column => column.status), ['changed', 'removed', 'unchanged', 'added']);
+        assert.strictEqual(diff.columns[0].previousHeader, 'Name');
+        assert.deepStrictEqual(diff.rows[0].cells, ['Apple', 'fresh', '1', '100']);
+        assert.strictEqual(diff.rows[0].status, 'unchanged');
+    });
+
+    test('should find the table with the same headers in the other version', () => {
+        const target = table(['ID', 'Name'], []);
+        const tables = [table(['Key', 'Value'], []), table(['Other'], []), table(['ID', 'Name'], [])];
+
+        assert.strictEqual(findCorrespondingTable(tables, target, 0), 2);
+        assert.strictEqual(findCorrespondingTable([table(['A'], [])], target, 0), 0);
+        assert.strictEqual(findCorrespondingTable([], target, 0), -1);
+    });
+});
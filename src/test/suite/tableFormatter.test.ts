@@ -0,0 +1,49 @@
+const assert = require('assert');
+import { formatTableLines, getDisplayWidth, parseSeparatorAlignments } from '../../tableFormatter';
+
+suite('TableFormatter Test Suite', () => {
+    test('should count East Asian wide characters as width 2', () => {
+        assert.strictEqual(getDisplayWidth('abc'), 3);
+        assert.strictEqual(getDisplayWidth('日本語'), 6);
+        assert.strictEqual(getDisplayWidth('한글'), 4);
+        assert.strictEqual(getDisplayWidth('ＡＢ'), 4);
+        assert.strictEqual(getDisplayWidth('ｱｲ'), 2);
+        assert.strictEqual(getDisplayWidth('é'), 1);
+    });
+
+    test('should parse alignments including default columns', () => {
+        assert.deepStrictEqual(
+            parseSeparatorAlignments('| :--- | :---: | ---: | --- |', 4),
+            ['left', 'center', 'right', 'default']
+        );
+        assert.deepStrictEqual(parseSeparatorAlignments('---|:-:|--:', 3), ['default', 'center', 'right']);
+        assert.strictEqual(parseSeparatorAlignments('| --- | --- |', 3), null);
+        assert.strictEqual(parseSeparatorAlignments(undefined, 2), null);
+    });
+
+    test('should pad cells and separator to column display width', () => {
+        const lines = formatTableLines(
+            [['H', 'Value', 'Note'], ['長い値', '1', 'x']],
+            ['center', 'right', 'default'],
+            'padded'
+        );
+        assert.deepStrictEqual(lines, [
+            '|   H    | Value | Note |',
+            '| :----: | ----: | ---- |',
+            '| 長い値 |     1 | x    |'
+        ]);
+    });
+
+    test('should write compact rows with fixed separators', () => {
+        const lines = formatTableLines(
+            [['Name', 'Age', 'City', 'Memo'], ['John', '25', 'NYC', '']],
+            ['left', 'center', 'right', 'default'],
+            'compact'
+        );
+        assert.deepStrictEqual(lines, [
+            '| Name | Age | City | Memo |',
+            '| :--- | :---: | ---: | --- |',
+            '| John | 25 | NYC |  |'
+        ]);
+    });
+});
@@ -0,0 +1,102 @@
+const assert = require('assert');
+import {
+    TableContent,
+    applyTableOperations,
+    coalesceTableOperations,
+    computeTableOperations,
+    invertTableOperations
+} from '../../tableOperations';
+
+suite('TableOperations Test Suite', () => {
+    const table = (headers: string[], rows: string[][], alignment = headers.map(() => 'left')): TableContent => ({ headers, rows, alignment });
+
+    // 操作を適用すると after に、逆操作を適用すると before に戻ることを確認
+    const assertRoundTrip = (before: TableContent, after: TableContent) => {
+        const operations = computeTableOperations(before, after);
+        assert.deepStrictEqual(applyTableOperations(before, operations), after);
+        assert.deepStrictEqual(applyTableOperations(after, invertTableOperations(operations)), before);
+        return operations;
+    };
+
+    test('should record a cell update with its previous value', () => {
+        const before = table(['Task', 'Status'], [['Docs', 'todo'], ['Review', 'todo']]);
+        const after = table(['Task', 'State'], [['Docs', 'done'], ['Review', 'todo']]);
+
+        const operations = assertRoundTrip(before, after);
+
+        assert.deepStrictEqual(operations, [{
+            type: 'setCells',
+            cells: [
+                { row: -1, col: 1, before: 'Status', after: 'State' },
+                { row: 0, col: 1, before: 'todo', after: 'done' }
+            ]
+        }]);
+    });
+
+    test('should record inserted and deleted rows without copying the whole table', () => {
+        const before = table(['A', 'B'], [['1', '2'], ['3', '4'], ['5', '6']]);
+        const inserted = table(['A', 'B'], [['1', '2'], ['', ''], ['3', '4'], ['5', '6'], ['', '']]);
+        const deleted = table(['A', 'B'], [['3', '4']]);
+
+        assert.deepStrictEqual(assertRoundTrip(before, inserted), [{ type: 'insertRows', indices: [1, 4], rows: [['', ''], ['', '']] }]);
+        assert.deepStrictEqual(assertRoundTrip(before, deleted), [{ type: 'deleteRows', indices: [0, 2], rows: [['1', '2'], ['5', '6']] }]);
+    });
+
+    test('should record sorts and column moves as reorderings', () => {
+        const before = table(['Name', 'Qty'], [['Pear', '5'], ['Apple', '1'], ['Kiwi', '3']], ['left', 'right']);
+        const sorted = table(['Name', 'Qty'], [['Apple', '1'], ['Kiwi', '3'], ['Pear', '5']], ['left', 'right']);
+        const moved = table(['Qty', 'Name'], [['5', 'Pear'], ['1', 'Apple'], ['3', 'Kiwi']], ['right', 'left']);
+
+        assert.deepStrictEqual(assertRoundTrip(before, sorted), [{ type: 'permuteRows', order: [1, 2, 0] }]);
+        assert.deepStrictEqual(assertRoundTrip(before, moved), [{ type: 'permuteColumns', order: [1, 0] }]);
+    });
+
+    test('should record added columns and separator changes', () => {
+        const before = { ...table(['A'], [['1'], ['2']]), separatorLine: '| --- |' };
+        const after = { ...table(['A', 'B'], [['1', ''], ['2', '']], ['left', 'center']), separatorLine: '| --- | :---: |' };
+
+        const operations = assertRoundTrip(before, after);
+
+        assert.deepStrictEqual(operations.map(operation => operation.type), ['insertColumns', 'setSeparator']);
+    });
+
+    test('should replace the whole table when the change is not a single operation', () => {
+        const before = table(['A', 'B'], [['1', '2']]);
+        const after = table(['X', 'Y', 'Z'], [['a', 'b', 'c'], ['d', 'e', 'f']]);
+
+        const operations = assertRoundTrip(before, after);
+
+        assert.deepStrictEqual(operations.map(operation => operation.type), ['replaceTable']);
+        assert.deepStrictEqual(computeTableOperations(before, table(['A', 'B'], [['1', '2']])), []);
+    });
+
+    test('should merge consecutive edits of the same cell', () => {
+        const first = computeTableOperations(table(['A'], [['']]), table(['A'], [['h']]));
+        const second = computeTableOperations(table(['A'], [['h']]), table(['A'], [['hi']]));
+        const otherCell = computeTableOperations(table(['A'], [['hi'], ['']]), table(['A'], [['hi'], ['x']]));
+        const backToStart = computeTableOperations(table(['A'], [['h']]), table(['A'], [['']]));
+
+        assert.deepStrictEqual(coalesceTableOperations(first, second), [{ type: 'setCells', cells: [{ row: 0, col: 0, before: '', after: 'hi' }] }]);
+        assert.strictEqual(coalesceTableOperations(second, otherCell), null);
+        assert.deepStrictEqual(coalesceTableOperations(first, backToStart), []);
+    });
+
+    test('should reject operations that do not fit the current table', () => {
+        const operations = computeTableOperations(table(['A'], [['1'], ['2']]), table(['A'], [['2'], ['1']]));
+
+        assert.throws(() => applyTableOperations(table(['A'], [['1']]), operations));
+    });
+
+    test('should restore merged cells together with the rows', () => {
+        const before: TableContent = { ...table(['A', 'B'], [['1', ''], ['2', '3']]), spans: [{ row: 0, col: 0, rowSpan: 1, colSpan: 2 }] };
+        const after: TableContent = { ...table(['A', 'B'], [['', ''], ['1', ''], ['2', '3']]), spans: [{ row: 1, col: 0, rowSpan: 1, colSpan: 2 }] };
+
+        const operations = assertRoundTrip(before, after);
+
+        assert.deepStrictEqual(operations.map(operation => operation.type), ['insertRows', 'setSpans']);
+        assert.deepStrictEqual(computeTableOperations(before, { ...before, spans: undefined }), [
+            { type: 'setSpans', before: before.spans, after: undefined }
+        ]);
+    });
+});
+
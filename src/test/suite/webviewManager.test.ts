@@ -2,6 +2,7 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { WebviewManager } from '../../webviewManager';
 import { TableData } from '../../tableDataManager';
+import { TableEditorProvider } from '../../tableEditorProvider';
 
 suite('WebviewManager Test Suite', () => {
     let webviewManager: WebviewManager;
@@ -47,6 +48,11 @@ suite('WebviewManager Test Suite', () => {
         assert.strictEqual(instance1, instance2, 'Should return same instance');
     });
 
+    test('should expose view types matching package.json contributions', () => {
+        assert.strictEqual(WebviewManager.viewType, 'markdownTableEditor');
+        assert.strictEqual(TableEditorProvider.viewType, 'markdownTableEditor.tableEditor');
+    });
+
     test('should track panel count correctly', () => {
         const initialCount = webviewManager.getPanelCount();
         assert.strictEqual(initialCount, 0, 'Initial panel count should be 0');
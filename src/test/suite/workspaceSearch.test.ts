@@ -0,0 +1,42 @@
+const assert = require('assert');
+import { MarkdownParser } from '../../markdownParser';
+import { createWorkspaceSearchPattern, findTableMatches } from '../../workspaceSearch';
+
+suite('WorkspaceSearch Test Suite', () => {
+    const parser = new MarkdownParser();
+    const file = { uri: 'file:///docs/tasks.md', fileName: 'docs/tasks.md' };
+    const content = [
+        '# Tasks',
+        '',
+        '| Task | Status |',
+        '| --- | --- |',
+        '| Write docs | todo |',
+        '| Review | done |',
+        '',
+        '| Owner | Note |',
+        '| --- | --- |',
+        '| Alice | TODO later |'
+    ].join('\n');
+
+    test('should return file, table, row and column of matching cells', () => {
+        const pattern = createWorkspaceSearchPattern('todo', { caseSensitive: false, wholeWord: false, regex: false })!;
+        const matches = findTableMatches(parser, content, file, pattern);
+
+        assert.deepStrictEqual(matches.map(m => [m.tableIndex, m.row, m.col, m.value]), [
+            [0, 0, 1, 'todo'],
+            [1, 0, 1, 'TODO later']
+        ]);
+        assert.strictEqual(matches[0].fileName, 'docs/tasks.md');
+    });
+
+    test('should honour case, whole word, regex options and the match limit', () => {
+        const caseSensitive = createWorkspaceSearchPattern('TODO', { caseSensitive: true, wholeWord: false, regex: false })!;
+        assert.strictEqual(findTableMatches(parser, content, file, caseSensitive).length, 1);
+
+        const regex = createWorkspaceSearchPattern('^(todo|done)$', { caseSensitive: false, wholeWord: false, regex: true })!;
+        assert.strictEqual(findTableMatches(parser, content, file, regex).length, 2);
+        assert.strictEqual(findTableMatches(parser, content, file, regex, 1).length, 1);
+
+        assert.strictEqual(createWorkspaceSearchPattern('(', { caseSensitive: false, wholeWord: false, regex: true }), null);
+    });
+});
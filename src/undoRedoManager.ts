@@ -1,21 +1,77 @@
 import * as vscode from 'vscode';
+import { TableHistoryData } from './communication/protocol';
+import { MarkdownParser } from './markdownParser';
+import { hashTableContent } from './tableConflict';
+import { TableDataManager } from './tableDataManager';
+import { TableFormatMode } from './tableFormatter';
+import {
+    TableContent,
+    TableOperation,
+    applyTableOperations,
+    coalesceTableOperations,
+    computeTableOperations,
+    invertTableOperations
+} from './tableOperations';
 
-interface UndoRedoState {
-    uri: string;
-    content: string;
-    timestamp: number;
+/**
+ * Change to one table, stored as operations that can be inverted
+ */
+interface TableChange {
+    kind: 'table';
+    tableIndex: number;
+    operations: TableOperation[];
+    afterHash: string; // 適用後のテーブルの内容（元に戻す前の確認用）
+    beforeHash?: string; // 元に戻した後のテーブルの内容（やり直す前の確認用）
+}
+
+/**
+ * Change to a range of lines that is not a table yet (e.g. a table with Git conflict markers)
+ */
+interface LinesChange {
+    kind: 'lines';
+    startLine: number;
+    before: string[];
+    after: string[];
+}
+
+interface HistoryEntry {
+    id: number;
     description: string;
+    timestamp: number;
+    changes: Array<TableChange | LinesChange>;
+}
+
+interface DocumentHistory {
+    entries: HistoryEntry[];
+    position: number; // 適用済みの操作の数（これ以降の操作はやり直せる）
 }
 
+export interface TableEditRecord {
+    tableIndex: number;
+    before: TableContent;
+    after: TableContent;
+}
+
+// 同じセルへの連続した入力を 1 つの操作にまとめる間隔
+export const COALESCE_WINDOW_MS = 2000;
+
 /**
- * Custom Undo/Redo Manager that works without focus changes
+ * Undo/Redo Manager that keeps a per-document log of table operations
  * Uses WorkspaceEdit to directly modify documents without requiring active editor
  */
 export class UndoRedoManager {
     private static instance: UndoRedoManager;
-    private undoStack: Map<string, UndoRedoState[]> = new Map();
-    private redoStack: Map<string, UndoRedoState[]> = new Map();
-    private maxStackSize = 50;
+    private histories: Map<string, DocumentHistory> = new Map();
+    private maxStackSize = 200;
+    private nextId = 1;
+    private markdownParser = new MarkdownParser();
+    private getFormatMode: () => TableFormatMode = () => 'preserve';
+    private readonly historyEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    /**
+     * Fired when the history of a document changes (edit, undo, redo or clear)
+     */
+    public readonly onDidChangeHistory = this.historyEmitter.event;
 
     private constructor() {}
 
@@ -27,189 +83,294 @@ export class UndoRedoManager {
     }
 
     /**
-     * Save current state before making changes - NO FOCUS CHANGE REQUIRED
+     * Set how tables restored by undo/redo are formatted (same as regular edits)
+     */
+    public setFormatModeProvider(provider: () => TableFormatMode): void {
+        this.getFormatMode = provider;
+    }
+
+    /**
+     * Record edits that have been written to the document.
+     * Consecutive edits of the same cell are merged into one history entry.
      */
-    public async saveState(uri: vscode.Uri, description: string = 'Table edit'): Promise<void> {
+    public async recordTableEdits(uri: vscode.Uri, description: string, edits: TableEditRecord[]): Promise<void> {
         try {
-            const document = await vscode.workspace.openTextDocument(uri);
-            const uriString = uri.toString();
-
-            const state: UndoRedoState = {
-                uri: uriString,
-                content: document.getText(),
-                timestamp: Date.now(),
-                description
-            };
-
-            // Get or create undo stack for this URI
-            let stack = this.undoStack.get(uriString);
-            if (!stack) {
-                stack = [];
-                this.undoStack.set(uriString, stack);
+            const changed = edits
+                .map(edit => ({ tableIndex: edit.tableIndex, operations: computeTableOperations(edit.before, edit.after) }))
+                .filter(edit => edit.operations.length > 0);
+            if (changed.length === 0) {
+                return;
             }
 
-            stack.push(state);
+            const hashes = await this.getTableHashes(uri);
+            const changes: TableChange[] = changed.map(edit => ({
+                kind: 'table',
+                tableIndex: edit.tableIndex,
+                operations: edit.operations,
+                afterHash: hashes[edit.tableIndex] ?? ''
+            }));
 
-            // Limit stack size
-            if (stack.length > this.maxStackSize) {
-                stack.shift(); // Remove oldest entry
+            if (!this.coalesce(uri, changes)) {
+                this.push(uri, description, changes);
             }
-
-            // Clear redo stack when new state is saved
-            this.redoStack.set(uriString, []);
+            this.historyEmitter.fire(uri);
         } catch (error) {
-            console.error('[MTE][UndoRedo] Failed to save state:', error);
+            console.error('[MTE][UndoRedo] Failed to record edit:', error);
         }
     }
 
+    /**
+     * Record a replacement of lines (used when the replaced text is not a table)
+     */
+    public recordLineEdit(uri: vscode.Uri, description: string, startLine: number, before: string[], after: string[]): void {
+        this.push(uri, description, [{ kind: 'lines', startLine, before, after }]);
+        this.historyEmitter.fire(uri);
+    }
+
     /**
      * Undo last change - NO FOCUS CHANGE REQUIRED
      */
     public async undo(uri: vscode.Uri): Promise<boolean> {
-        const uriString = uri.toString();
-        const undoStack = this.undoStack.get(uriString);
-
-        if (!undoStack || undoStack.length === 0) {
+        const history = this.histories.get(uri.toString());
+        if (!history || history.position === 0) {
             return false;
         }
 
-        try {
-            // Get current state BEFORE undo for redo stack
-            const document = await vscode.workspace.openTextDocument(uri);
-            const currentStateBeforeUndo: UndoRedoState = {
-                uri: uriString,
-                content: document.getText(),
-                timestamp: Date.now(),
-                description: 'State before undo'
-            };
-
-            // Get previous state from undo stack
-            const previousState = undoStack.pop()!;
-
-            // Apply previous state using WorkspaceEdit - NO FOCUS CHANGE NEEDED
-            const edit = new vscode.WorkspaceEdit();
-            const fullRange = new vscode.Range(
-                document.positionAt(0),
-                document.positionAt(document.getText().length)
-            );
-            edit.replace(uri, fullRange, previousState.content);
-
-            const success = await vscode.workspace.applyEdit(edit);
-
-            if (success) {
-                // Only save to redo stack AFTER successful undo
-                let redoStack = this.redoStack.get(uriString);
-                if (!redoStack) {
-                    redoStack = [];
-                    this.redoStack.set(uriString, redoStack);
-                }
-                redoStack.push(currentStateBeforeUndo);
-                return true;
-            } else {
-                // Restore undo stack if edit failed
-                undoStack.push(previousState);
-                console.error('[MTE][UndoRedo] Undo failed to apply');
-                return false;
-            }
-        } catch (error) {
-            console.error('[MTE][UndoRedo] Undo operation failed:', error);
-            return false;
+        const success = await this.applyEntry(uri, history.entries[history.position - 1], 'undo');
+        if (success) {
+            history.position--;
+            this.historyEmitter.fire(uri);
         }
+        return success;
     }
 
     /**
      * Redo last undone change - NO FOCUS CHANGE REQUIRED
      */
     public async redo(uri: vscode.Uri): Promise<boolean> {
-        const uriString = uri.toString();
-        const redoStack = this.redoStack.get(uriString);
-
-        if (!redoStack || redoStack.length === 0) {
+        const history = this.histories.get(uri.toString());
+        if (!history || history.position >= history.entries.length) {
             return false;
         }
 
-        try {
-            // Get current state BEFORE redo for undo stack
-            const document = await vscode.workspace.openTextDocument(uri);
-            const currentStateBeforeRedo: UndoRedoState = {
-                uri: uriString,
-                content: document.getText(),
-                timestamp: Date.now(),
-                description: 'State before redo'
-            };
+        const success = await this.applyEntry(uri, history.entries[history.position], 'redo');
+        if (success) {
+            history.position++;
+            this.historyEmitter.fire(uri);
+        }
+        return success;
+    }
 
-            // Get next state from redo stack
-            const nextState = redoStack.pop()!;
+    /**
+     * Undo or redo until the given number of operations is applied
+     */
+    public async jumpTo(uri: vscode.Uri, position: number): Promise<boolean> {
+        const history = this.histories.get(uri.toString());
+        if (!history || position < 0 || position > history.entries.length) {
+            return false;
+        }
 
-            // Apply next state using WorkspaceEdit - NO FOCUS CHANGE NEEDED
-            const edit = new vscode.WorkspaceEdit();
-            const fullRange = new vscode.Range(
-                document.positionAt(0),
-                document.positionAt(document.getText().length)
-            );
-            edit.replace(uri, fullRange, nextState.content);
-
-            const success = await vscode.workspace.applyEdit(edit);
-
-            if (success) {
-                // Only save to undo stack AFTER successful redo
-                let undoStack = this.undoStack.get(uriString);
-                if (!undoStack) {
-                    undoStack = [];
-                    this.undoStack.set(uriString, undoStack);
-                }
-                undoStack.push(currentStateBeforeRedo);
-                return true;
-            } else {
-                // Restore redo stack if edit failed
-                redoStack.push(nextState);
-                console.error('[MTE][UndoRedo] Redo failed to apply');
+        while (history.position > position) {
+            if (!await this.undo(uri)) {
                 return false;
             }
-        } catch (error) {
-            console.error('[MTE][UndoRedo] Redo operation failed:', error);
-            return false;
         }
+        while (history.position < position) {
+            if (!await this.redo(uri)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Get the history shown in the webview (oldest first)
+     */
+    public getHistory(uri: vscode.Uri): TableHistoryData {
+        const history = this.histories.get(uri.toString());
+        if (!history) {
+            return { entries: [], position: 0 };
+        }
+        return {
+            entries: history.entries.map(({ id, description, timestamp }) => ({ id, description, timestamp })),
+            position: history.position
+        };
     }
 
     /**
      * Check if undo is available for a URI
      */
     public canUndo(uri: vscode.Uri): boolean {
-        const stack = this.undoStack.get(uri.toString());
-        return stack !== undefined && stack.length > 0;
+        const history = this.histories.get(uri.toString());
+        return history !== undefined && history.position > 0;
     }
 
     /**
      * Check if redo is available for a URI
      */
     public canRedo(uri: vscode.Uri): boolean {
-        const stack = this.redoStack.get(uri.toString());
-        return stack !== undefined && stack.length > 0;
+        const history = this.histories.get(uri.toString());
+        return history !== undefined && history.position < history.entries.length;
     }
 
     /**
      * Clear all undo/redo history for a URI
      */
     public clearHistory(uri: vscode.Uri): void {
-        const uriString = uri.toString();
-        this.undoStack.delete(uriString);
-        this.redoStack.delete(uriString);
+        if (this.histories.delete(uri.toString())) {
+            this.historyEmitter.fire(uri);
+        }
     }
 
     /**
      * Get undo/redo statistics for debugging
      */
     public getStats(uri: vscode.Uri): { undoCount: number; redoCount: number } {
-        const uriString = uri.toString();
-        const undoStack = this.undoStack.get(uriString);
-        const redoStack = this.redoStack.get(uriString);
-        
-        const stats = {
-            undoCount: undoStack ? undoStack.length : 0,
-            redoCount: redoStack ? redoStack.length : 0
+        const history = this.histories.get(uri.toString());
+        return {
+            undoCount: history ? history.position : 0,
+            redoCount: history ? history.entries.length - history.position : 0
         };
-        
-        return stats;
     }
-}
\ No newline at end of file
+
+    private push(uri: vscode.Uri, description: string, changes: Array<TableChange | LinesChange>): void {
+        const uriString = uri.toString();
+        let history = this.histories.get(uriString);
+        if (!history) {
+            history = { entries: [], position: 0 };
+            this.histories.set(uriString, history);
+        }
+
+        // 新しい操作を記録したら、やり直せる操作は破棄する
+        history.entries.splice(history.position);
+        history.entries.push({ id: this.nextId++, description, timestamp: Date.now(), changes });
+
+        // Limit history size
+        if (history.entries.length > this.maxStackSize) {
+            history.entries.shift(); // Remove oldest entry
+        }
+        history.position = history.entries.length;
+    }
+
+    /**
+     * Merge a single-cell edit into the latest entry when it continues typing in the same cell
+     */
+    private coalesce(uri: vscode.Uri, changes: TableChange[]): boolean {
+        const history = this.histories.get(uri.toString());
+        if (!history || history.position === 0 || history.position !== history.entries.length || changes.length !== 1) {
+            return false;
+        }
+
+        const latest = history.entries[history.position - 1];
+        const previous = latest.changes.length === 1 ? latest.changes[0] : undefined;
+        const next = changes[0];
+        if (!previous || previous.kind !== 'table' || previous.tableIndex !== next.tableIndex || Date.now() - latest.timestamp > COALESCE_WINDOW_MS) {
+            return false;
+        }
+
+        const merged = coalesceTableOperations(previous.operations, next.operations);
+        if (!merged) {
+            return false;
+        }
+        if (merged.length === 0) {
+            // 元の値に戻す入力だった場合は、履歴からも取り除く
+            history.entries.pop();
+            history.position--;
+            return true;
+        }
+        previous.operations = merged;
+        previous.afterHash = next.afterHash;
+        latest.timestamp = Date.now();
+        return true;
+    }
+
+    /**
+     * Apply an entry (or its inverse) to the document after checking that the tables are as the entry expects
+     */
+    private async applyEntry(uri: vscode.Uri, entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<boolean> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const content = document.getText();
+            const tables = this.markdownParser.findTablesInDocument(this.markdownParser.parseDocument(content));
+            const edit = new vscode.WorkspaceEdit();
+
+            for (const change of entry.changes) {
+                if (change.kind === 'lines') {
+                    const expected = direction === 'undo' ? change.after : change.before;
+                    const replacement = direction === 'undo' ? change.before : change.after;
+                    const endLine = change.startLine + expected.length - 1;
+                    const matches = endLine < document.lineCount &&
+                        expected.every((line, index) => document.lineAt(change.startLine + index).text === line);
+                    if (!matches) {
+                        return this.rejectOutdated(uri);
+                    }
+                    edit.replace(uri, new vscode.Range(change.startLine, 0, endLine, document.lineAt(endLine).text.length), replacement.join('\n'));
+                    continue;
+                }
+
+                const tableNode = tables[change.tableIndex];
+                const manager = tableNode ? new TableDataManager(tableNode, uri.toString(), change.tableIndex) : undefined;
+                const expectedHash = direction === 'undo' ? change.afterHash : change.beforeHash;
+                if (!tableNode || !manager || hashTableContent(manager.getTableData()) !== expectedHash) {
+                    return this.rejectOutdated(uri);
+                }
+
+                const operations = direction === 'undo' ? invertTableOperations(change.operations) : change.operations;
+                manager.restoreContents(applyTableOperations(manager.getTableData(), operations));
+                const { startLine, endLine } = this.markdownParser.getTableBoundaries(content, tableNode);
+                if (endLine >= document.lineCount) {
+                    return this.rejectOutdated(uri);
+                }
+                edit.replace(uri, new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length), manager.serializeToMarkdown(this.getFormatMode()));
+            }
+
+            if (!await vscode.workspace.applyEdit(edit)) {
+                console.error(`[MTE][UndoRedo] ${direction === 'undo' ? 'Undo' : 'Redo'} failed to apply`);
+                return false;
+            }
+
+            // 次に逆方向へ戻すときの確認用に、書き込み後の内容を覚えておく
+            const hashes = await this.getTableHashes(uri);
+            for (const change of entry.changes) {
+                if (change.kind === 'table') {
+                    if (direction === 'undo') {
+                        change.beforeHash = hashes[change.tableIndex];
+                    } else {
+                        change.afterHash = hashes[change.tableIndex] ?? '';
+                    }
+                }
+            }
+            return true;
+        } catch (error) {
+            if (error instanceof OutdatedHistoryError) {
+                throw error;
+            }
+            console.error(`[MTE][UndoRedo] ${direction === 'undo' ? 'Undo' : 'Redo'} operation failed:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * The document was changed outside the recorded operations; the history can no longer be applied safely
+     */
+    private rejectOutdated(uri: vscode.Uri): never {
+        this.clearHistory(uri);
+        throw new OutdatedHistoryError(vscode.l10n.t('error.undoHistoryOutdated'));
+    }
+
+    private async getTableHashes(uri: vscode.Uri): Promise<string[]> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const tables = this.markdownParser.findTablesInDocument(this.markdownParser.parseDocument(document.getText()));
+        return tables.map((tableNode, index) => hashTableContent(new TableDataManager(tableNode, uri.toString(), index).getTableData()));
+    }
+}
+
+/**
+ * Thrown when the document no longer matches the undo/redo history
+ */
+export class OutdatedHistoryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OutdatedHistoryError';
+    }
+}
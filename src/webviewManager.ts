@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TableData } from './tableDataManager';
+import { TableData, TableDataManager } from './tableDataManager';
+import { MarkdownParser } from './markdownParser';
+import { getTableConflictDetector, hashTableContent } from './tableConflict';
+import { findConflictedTables } from './gitConflict';
+import { PatchedTableContent, computeTablePatches, snapshotPatchedTable } from './tableDataPatch';
 import * as fs from 'fs';
 import { buildThemeVariablesCss } from './themeUtils';
 import { UndoRedoManager } from './undoRedoManager';
@@ -8,18 +12,33 @@ import { WebviewMessage } from './messages/types';
 export type { WebviewMessage } from './messages/types';
 import { validateBasicMessageStructure, validateMessageCommand, validateMessageData } from './messages/validators';
 import { ExtensionCommunicationManager } from './communication/ExtensionCommunicationManager';
-import { WebviewCommand } from './communication/protocol';
+import { BulkUpdateCellsData, JumpToHistoryData, LinkTargetDocument, LinkTargetsResult, OpenLinkData, PersistedViewState, RevealCellData, SaveViewStateData, SortKeyData, TableConflictData, TableDiffData, TableHistoryData, TableMergeConflict, TablePatch, WebviewCommand } from './communication/protocol';
 
     // WebviewMessage 型は messages/types へ分離
 
+// リンクの候補として返すファイル数・見出しを読み込む Markdown ファイル数の上限
+const MAX_LINK_TARGETS = 2000;
+const MAX_LINK_TARGET_DOCUMENTS = 300;
+const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|svg|webp|bmp|ico)$/i;
+
 export class WebviewManager {
+    public static readonly viewType = 'markdownTableEditor';
     private static instance: WebviewManager;
     private panels: Map<string, vscode.WebviewPanel> = new Map();
+    // CustomTextEditorProvider から渡されたパネル（VS Code がライフサイクルを管理）
+    private customEditorPanels: Set<vscode.WebviewPanel> = new Set();
     private communicationManagers: Map<string, ExtensionCommunicationManager> = new Map();
     private context: vscode.ExtensionContext;
     private connectionHealthMap: Map<string, { lastActivity: number; isHealthy: boolean }> = new Map();
+    // パネルを開いた直後に選択するセル（ファイル URI ごと）
+    private pendingReveals: Map<string, RevealCellData> = new Map();
+    private pendingTableDiffs: Map<string, TableDiffData> = new Map();
+    // パネルごとに最後に送信したテーブル（次回は差分だけを送る）
+    private sentTables: Map<string, { uri: string; revision: number; tables: PatchedTableContent[] }> = new Map();
+    private markdownParser = new MarkdownParser();
     private healthCheckInterval: NodeJS.Timeout | null = null;
     private undoRedoManager: UndoRedoManager;
+    private historyListener: vscode.Disposable;
     private isInitialized: boolean = false;
     private initializationPromise: Promise<void> | null = null;
     // Legacy webview modular scripts (for tests and backward compatibility)
@@ -97,6 +116,8 @@ export class WebviewManager {
     private constructor(context: vscode.ExtensionContext) {
         this.context = context;
         this.undoRedoManager = UndoRedoManager.getInstance();
+        // 履歴が変わったら、そのファイルを開いている全パネルの履歴パネルを更新する
+        this.historyListener = this.undoRedoManager.onDidChangeHistory(uri => this.sendHistory(uri));
         this.startHealthMonitoring();
         
         // Start async initialization but don't block constructor
@@ -297,13 +318,7 @@ export class WebviewManager {
 
         // If forcing new panel, create unique panel ID
         if (forceNewPanel) {
-            let timestamp = Date.now();
-            panelId = `${uri.toString()}_${timestamp}`;
-            // Ensure uniqueness by incrementing timestamp if needed
-            while (this.panels.has(panelId)) {
-                timestamp++;
-                panelId = `${uri.toString()}_${timestamp}`;
-            }
+            panelId = this.createUniquePanelId(uri);
         }
 
         // If panel already exists for the same file and not forcing new panel, reveal it
@@ -315,9 +330,10 @@ export class WebviewManager {
         }
 
         // If any table editor panel is already open and not forcing new panel, reuse it for the new file
-        if (!forceNewPanel && this.panels.size > 0) {
-            const existingPanelEntry = Array.from(this.panels.entries())[0];
-            const [oldPanelId, existingPanel] = existingPanelEntry;
+        // (custom editor panels are bound to their document and are never reused)
+        const reusablePanelEntry = Array.from(this.panels.entries()).find(([, p]) => !this.customEditorPanels.has(p));
+        if (!forceNewPanel && reusablePanelEntry) {
+            const [oldPanelId, existingPanel] = reusablePanelEntry;
             
             // Remove old panel reference and add new one
             this.panels.delete(oldPanelId);
@@ -365,17 +381,12 @@ export class WebviewManager {
         let panel: vscode.WebviewPanel;
         try {
             panel = vscode.window.createWebviewPanel(
-                'markdownTableEditor',
+                WebviewManager.viewType,
                 panelTitle,
                 vscode.ViewColumn.Two,
                 {
-                    enableScripts: true,
-                    retainContextWhenHidden: true,
-                    localResourceRoots: [
-                        vscode.Uri.joinPath(this.context.extensionUri, 'webview-dist'),
-                        vscode.Uri.joinPath(this.context.extensionUri, 'out', 'webview'),
-                        vscode.Uri.joinPath(this.context.extensionUri, 'webview')
-                    ]
+                    ...this.getWebviewOptions(uri),
+                    retainContextWhenHidden: true
                 }
             );
 
@@ -391,6 +402,87 @@ export class WebviewManager {
             throw new Error(`Failed to create webview panel: ${panelError instanceof Error ? panelError.message : String(panelError)}`);
         }
 
+        await this.initializePanel(panel, panelId, uri, tableData);
+        return panel;
+    }
+
+    /**
+     * Attach the table editor to a panel created by a CustomTextEditorProvider
+     * dirty/save/undo はバックエンドの TextDocument に委ねる
+     */
+    public async resolveCustomEditorPanel(panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<string> {
+        await this.ensureInitialized();
+
+        const panelId = this.panels.has(uri.toString()) ? this.createUniquePanelId(uri) : uri.toString();
+        this.customEditorPanels.add(panel);
+        panel.webview.options = this.getWebviewOptions(uri);
+
+        await this.initializePanel(panel, panelId, uri);
+        return panelId;
+    }
+
+    /**
+     * Restore a table editor panel after window reload (WebviewPanelSerializer)
+     */
+    public async restoreTableEditorPanel(panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<string> {
+        await this.ensureInitialized();
+
+        const panelId = this.panels.has(uri.toString()) ? this.createUniquePanelId(uri) : uri.toString();
+        panel.title = `${path.basename(uri.fsPath)} - Table Editor`;
+        panel.webview.options = this.getWebviewOptions(uri);
+        try {
+            panel.iconPath = vscode.Uri.joinPath(this.context.extensionUri, 'icon.png');
+        } catch (iconError) {
+            console.warn('Failed to set panel icon:', iconError);
+        }
+
+        await this.initializePanel(panel, panelId, uri);
+        return panelId;
+    }
+
+    /**
+     * Check whether the panel is hosted by the custom text editor provider
+     */
+    public isCustomEditorPanel(panel: vscode.WebviewPanel): boolean {
+        return this.customEditorPanels.has(panel);
+    }
+
+    /**
+     * Create a unique panel ID for an additional panel of the same file
+     */
+    private createUniquePanelId(uri: vscode.Uri): string {
+        let timestamp = Date.now();
+        let panelId = `${uri.toString()}_${timestamp}`;
+        // Ensure uniqueness by incrementing timestamp if needed
+        while (this.panels.has(panelId)) {
+            timestamp++;
+            panelId = `${uri.toString()}_${timestamp}`;
+        }
+        return panelId;
+    }
+
+    /**
+     * Webview options shared by created, restored and custom editor panels
+     * セル内の画像を表示できるよう、ドキュメントのフォルダーとワークスペースフォルダーも読み込みを許可する
+     */
+    private getWebviewOptions(documentUri: vscode.Uri): vscode.WebviewOptions {
+        return {
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(this.context.extensionUri, 'webview-dist'),
+                vscode.Uri.joinPath(this.context.extensionUri, 'out', 'webview'),
+                vscode.Uri.joinPath(this.context.extensionUri, 'webview'),
+                vscode.Uri.joinPath(documentUri, '..'),
+                ...(vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri)
+            ]
+        };
+    }
+
+    /**
+     * Load the React build into the panel and wire up lifecycle and communication
+     * tableData 未指定時は webview 側の requestTableData とリフレッシュで読み込む
+     */
+    private async initializePanel(panel: vscode.WebviewPanel, panelId: string, uri: vscode.Uri, tableData?: TableData | TableData[]): Promise<void> {
         // Use React build for webview with enhanced error handling and retry logic
         const reactBuildPath = vscode.Uri.joinPath(this.context.extensionUri, 'webview-dist');
         
@@ -520,6 +612,8 @@ export class WebviewManager {
                 if (panelRef === panel) {
                     this.panels.delete(key);
                     this.connectionHealthMap.delete(key);
+                    this.sentTables.delete(key);
+                    this.customEditorPanels.delete(panel);
 
                     // Dispose communication manager
                     const commMgr = this.communicationManagers.get(key);
@@ -559,6 +653,12 @@ export class WebviewManager {
 
         // Send initial data after webview is fully ready
         setTimeout(() => {
+            if (!tableData) {
+                this.refreshPanelData(panel, uri);
+                this.applyThemeToPanel(panel);
+                this.applyFontSettingsToPanel(panel);
+                return;
+            }
             this.updateTableData(panel, tableData, uri);
             // Apply theme shortly after data is sent to avoid race with script init
             this.applyThemeToPanel(panel);
@@ -572,18 +672,33 @@ export class WebviewManager {
                 this.applyFontSettingsToPanel(panel);
             }, 1000);
         }, 500);
-
-        return panel;
     }
 
     /**
-     * Update table data in the webview
+     * Update table data in the webview.
+     * Once the webview has the tables of the document, only the changes since the last update are sent.
      */
     public updateTableData(panel: vscode.WebviewPanel, tableData: TableData | TableData[], uri?: vscode.Uri): void {
         const start = Date.now();
+        const panelId = this.findPanelId(panel);
+        const previous = this.sentTables.get(panelId);
+        const revision = (previous?.revision ?? 0) + 1;
+        const uriString = uri ? uri.toString() : '';
+        const tables = Array.isArray(tableData) ? tableData : [tableData];
+        const patches = uri && previous && previous.uri === uriString && Array.isArray(tableData)
+            ? computeTablePatches(previous.tables, tables)
+            : null;
+        this.sentTables.set(panelId, { uri: uriString, revision, tables: tables.map(table => snapshotPatchedTable(table)) });
+
+        if (uri && previous && patches) {
+            this.sendTablePatches(panel, uri, { baseRevision: previous.revision, revision, patches, tables });
+            return;
+        }
+
         const message: any = {
             command: 'updateTableData',
-            data: tableData
+            data: tableData,
+            revision
         };
 
         // Include file information if URI is provided
@@ -592,17 +707,21 @@ export class WebviewManager {
             message.fileInfo = {
                 uri: uri.toString(),
                 fileName: path.basename(uri.fsPath),
-                fileNameWithoutExt: path.basename(uri.fsPath, path.extname(uri.fsPath))
+                fileNameWithoutExt: path.basename(uri.fsPath, path.extname(uri.fsPath)),
+                baseUri: panel.webview.asWebviewUri(vscode.Uri.joinPath(uri, '..')).toString()
             };
+            // 前回の表示状態（webview 側の setState が無い場合の復元に使用）
+            message.viewState = this.getPersistedViewState(uri);
+            message.history = this.getHistoryForPanel(panel, uri);
+
+            Object.assign(message, this.getDocumentState(uri, tables));
         }
 
         try {
-            const tables = Array.isArray(tableData) ? tableData.length : 1;
-            console.log('[MTE][Ext] Sending updateTableData', { tables, hasUri: !!uri, panelActive: panel.active, panelVisible: panel.visible });
+            console.log('[MTE][Ext] Sending updateTableData', { tables: tables.length, revision, hasUri: !!uri, panelActive: panel.active, panelVisible: panel.visible });
         } catch {}
 
         // Send via new communication manager
-        const panelId = this.findPanelId(panel);
         const commManager = this.communicationManagers.get(panelId);
         if (commManager) {
             try {
@@ -614,6 +733,130 @@ export class WebviewManager {
         } else {
             console.warn('[MTE][Ext] Communication manager not found for panel:', panelId);
         }
+
+        this.processPendingRequests(panel, uri);
+    }
+
+    /**
+     * Send the changes since the last update (PATCH_TABLE_DATA)
+     */
+    private sendTablePatches(
+        panel: vscode.WebviewPanel,
+        uri: vscode.Uri,
+        update: { baseRevision: number; revision: number; patches: TablePatch[]; tables: TableData[] }
+    ): void {
+        const panelId = this.findPanelId(panel);
+        const commManager = this.communicationManagers.get(panelId);
+        if (!commManager) {
+            console.warn('[MTE][Ext] Communication manager not found for panel:', panelId);
+            return;
+        }
+        console.log('[MTE][Ext] Sending patchTableData', { baseRevision: update.baseRevision, revision: update.revision, patchedTables: update.patches.length });
+        commManager.patchTableData({
+            baseRevision: update.baseRevision,
+            revision: update.revision,
+            patches: update.patches,
+            history: this.getHistoryForPanel(panel, uri),
+            ...this.getDocumentState(uri, update.tables)
+        });
+        this.processPendingRequests(panel, uri);
+    }
+
+    /**
+     * Document version and merge conflicts sent along with the table data
+     */
+    private getDocumentState(uri: vscode.Uri, tables: TableData[]): { documentVersion?: number; mergeConflicts?: TableMergeConflict[] } {
+        // webview はこのバージョンを編集要求に付けて返す（衝突検出用）
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        if (!document) {
+            return {};
+        }
+        getTableConflictDetector().recordSnapshot(uri.toString(), document.version, tables.map(table => hashTableContent(table)));
+        return {
+            documentVersion: document.version,
+            // Git のコンフリクトマーカーを含むテーブル（webview でマージ画面を表示する）
+            mergeConflicts: findConflictedTables(this.markdownParser, document.getText())
+        };
+    }
+
+    /**
+     * Reveal a cell or show a diff requested before the panel received its data
+     */
+    private processPendingRequests(panel: vscode.WebviewPanel, uri?: vscode.Uri): void {
+        // 検索結果から開かれたパネルでは、データ送信後に対象セルを選択する
+        const pendingReveal = uri ? this.pendingReveals.get(uri.toString()) : undefined;
+        if (uri && pendingReveal) {
+            this.pendingReveals.delete(uri.toString());
+            this.revealCell(panel, pendingReveal);
+        }
+
+        // 差分表示のために開かれたパネルでは、データ送信後に差分を表示する
+        const pendingTableDiff = uri ? this.pendingTableDiffs.get(uri.toString()) : undefined;
+        if (uri && pendingTableDiff) {
+            this.pendingTableDiffs.delete(uri.toString());
+            this.showTableDiff(panel, pendingTableDiff);
+        }
+    }
+
+    /**
+     * Select a cell in the webview (used when jumping to a search match)
+     */
+    public revealCell(panel: vscode.WebviewPanel, data: RevealCellData): void {
+        const panelId = this.findPanelId(panel);
+        const commManager = this.communicationManagers.get(panelId);
+        if (commManager) {
+            commManager.revealCell(data);
+        } else {
+            console.warn('[MTE][Ext] Communication manager not found for revealCell');
+        }
+    }
+
+    /**
+     * Select a cell once the table editor for the file has received its data
+     */
+    public queueRevealCell(fileUri: string, data: RevealCellData): void {
+        this.pendingReveals.set(fileUri, data);
+    }
+
+    /**
+     * Show a read-only diff of a table against another version in the webview
+     */
+    public showTableDiff(panel: vscode.WebviewPanel, data: TableDiffData): void {
+        const panelId = this.findPanelId(panel);
+        const commManager = this.communicationManagers.get(panelId);
+        if (commManager) {
+            commManager.showTableDiff(data);
+        } else {
+            console.warn('[MTE][Ext] Communication manager not found for showTableDiff');
+        }
+    }
+
+    /**
+     * Show a table diff once the table editor for the file has received its data
+     */
+    public queueTableDiff(fileUri: string, data: TableDiffData): void {
+        this.pendingTableDiffs.set(fileUri, data);
+    }
+
+    /**
+     * Send the undo/redo history of a file to every panel showing it
+     */
+    private sendHistory(uri: vscode.Uri): void {
+        for (const [panelId, panel] of this.getPanelsForFile(uri.toString())) {
+            this.communicationManagers.get(panelId)?.updateHistory(this.getHistoryForPanel(panel, uri));
+        }
+    }
+
+    /**
+     * History shown in a panel's history panel
+     * カスタムエディターの元に戻す / やり直しは TextDocument のネイティブ操作のため、
+     * 拡張側の操作履歴とは一致しない。履歴パネルは使わせない
+     */
+    private getHistoryForPanel(panel: vscode.WebviewPanel, uri: vscode.Uri): TableHistoryData {
+        if (this.customEditorPanels.has(panel)) {
+            return { entries: [], position: 0, native: true };
+        }
+        return this.undoRedoManager.getHistory(uri);
     }
 
     /**
@@ -699,6 +942,12 @@ export class WebviewManager {
      */
     private async handleUndo(panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
         try {
+            // カスタムエディターでは TextDocument のネイティブ Undo を使用（フォーカスはパネル上にある）
+            if (this.customEditorPanels.has(panel)) {
+                await vscode.commands.executeCommand('undo');
+                return;
+            }
+
             console.log('[MTE][Ext] Executing custom undo (no focus change required)');
             
             // Log stats before undo
@@ -733,6 +982,12 @@ export class WebviewManager {
      */
     private async handleRedo(panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
         try {
+            // カスタムエディターでは TextDocument のネイティブ Redo を使用
+            if (this.customEditorPanels.has(panel)) {
+                await vscode.commands.executeCommand('redo');
+                return;
+            }
+
             console.log('[MTE][Ext] Executing custom redo (no focus change required)');
             
             // Log stats before redo
@@ -763,19 +1018,164 @@ export class WebviewManager {
     }
 
     /**
-     * Handle bulk cell update
+     * Handle a jump to a point in the undo/redo history from the webview's history panel
+     */
+    private async handleJumpToHistory(data: JumpToHistoryData, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
+        // カスタムエディターでは操作履歴を再生しない（ネイティブの Undo 後はハッシュが一致せず履歴が破棄されるため）
+        if (this.customEditorPanels.has(panel)) {
+            console.warn('[MTE][Ext] Ignoring history jump from a custom editor panel');
+            return;
+        }
+        try {
+            const success = await this.undoRedoManager.jumpTo(uri, data.position);
+            // 途中で止まった場合も、そこまでの変更を表示に反映する
+            this.refreshPanelData(panel, uri);
+            if (!success) {
+                vscode.window.showWarningMessage('No changes to undo');
+            }
+        } catch (error) {
+            console.error('[MTE][Ext] Jump to history failed:', error);
+            this.refreshPanelData(panel, uri);
+            vscode.window.showErrorMessage(`Undo failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Open a link of a cell: web and mail links externally, relative paths (optionally with #fragment) in VS Code.
+     * Other schemes (command:, file:, javascript: ...) are ignored.
      */
-    private async handleBulkUpdateCells(data: { updates: Array<{ row: number; col: number; value: string }>; tableIndex?: number }, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
-        // Save state before making changes for undo functionality
-        await this.undoRedoManager.saveState(uri, 'Bulk cell update');
+    private async handleOpenLink(data: OpenLinkData, uri: vscode.Uri): Promise<void> {
+        const href = data.href.trim();
+        try {
+            if (/^(https?|mailto):/i.test(href)) {
+                await vscode.env.openExternal(vscode.Uri.parse(href, true));
+                return;
+            }
+            if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('#')) {
+                console.warn('[MTE][Ext] Ignoring unsupported link:', href);
+                return;
+            }
+            const [linkPath, fragment] = href.split('#', 2);
+            // 先頭が / のパスはワークスペースフォルダー、それ以外はドキュメントのフォルダーを基準にする
+            const folder = vscode.workspace.getWorkspaceFolder(uri)?.uri;
+            const base = linkPath.startsWith('/') && folder ? folder : vscode.Uri.joinPath(uri, '..');
+            const target = vscode.Uri.joinPath(base, decodeURIComponent(linkPath));
+            await vscode.commands.executeCommand('vscode.open', fragment ? target.with({ fragment }) : target);
+        } catch (error) {
+            console.error('[MTE][Ext] Failed to open link:', error);
+            vscode.window.showErrorMessage(`Failed to open link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
+    /**
+     * List workspace files as link targets for a cell, as paths relative to the document's folder,
+     * with the headings of the Markdown files and the image files.
+     */
+    private async listLinkTargets(uri: vscode.Uri): Promise<LinkTargetsResult> {
+        const files = await vscode.workspace.findFiles('**/*', '{**/node_modules/**,**/.git/**}', MAX_LINK_TARGETS + 1);
+        const documentFolder = path.posix.dirname(uri.path);
+        // Markdown のリンクとして使えるよう、空白などはエンコードする
+        const toLinkPath = (file: vscode.Uri) => encodeURI(path.posix.relative(documentFolder, file.path));
+        const otherFiles = files
+            .slice(0, MAX_LINK_TARGETS)
+            .filter(file => file.scheme === uri.scheme && file.toString() !== uri.toString());
+
+        // Markdown ファイルは見出しも読み込む（開いているドキュメントは未保存の内容を使う）
+        const markdownFiles = [uri, ...otherFiles.filter(file => /\.(md|markdown)$/i.test(file.path))].slice(0, MAX_LINK_TARGET_DOCUMENTS);
+        const documents: LinkTargetDocument[] = [];
+        for (const file of markdownFiles) {
+            try {
+                const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === file.toString());
+                const content = openDocument
+                    ? openDocument.getText()
+                    : Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+                const headings = this.markdownParser.findHeadingsInDocument(this.markdownParser.parseDocument(content));
+                documents.push({ path: toLinkPath(file), headings });
+            } catch (error) {
+                console.warn('[MTE][Ext] Skipping file in link targets:', file.toString(), error);
+            }
+        }
+
+        const targets = otherFiles.map(toLinkPath).sort((a, b) => a.localeCompare(b));
+        return {
+            files: targets,
+            documents,
+            images: targets.filter(file => IMAGE_FILE_PATTERN.test(file)),
+            currentDocument: toLinkPath(uri),
+            truncated: files.length > MAX_LINK_TARGETS
+        };
+    }
+
+    /**
+     * Reject an edit that was made against a table which has since been changed outside the table editor.
+     * The webview is notified so that the user can re-apply or discard the edit.
+     */
+    private async rejectConflictingEdit(
+        command: WebviewCommand,
+        data: any,
+        message: { documentVersion?: number } | undefined,
+        panel: vscode.WebviewPanel,
+        uri: vscode.Uri
+    ): Promise<boolean> {
+        const baseVersion = message?.documentVersion;
+        if (typeof baseVersion !== 'number') {
+            return false;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            if (document.version <= baseVersion) {
+                return false;
+            }
+
+            const tables = this.markdownParser.findTablesInDocument(this.markdownParser.parseDocument(document.getText()));
+            const tableIndex = typeof data?.tableIndex === 'number' ? data.tableIndex : 0;
+            const additionalIndices = Array.isArray(data?.additionalTables)
+                ? data.additionalTables.map((table: { tableIndex: number }) => table.tableIndex)
+                : [];
+
+            for (const index of [tableIndex, ...additionalIndices]) {
+                const current = tables[index]
+                    ? new TableDataManager(tables[index], uri.toString(), index).getTableData()
+                    : undefined;
+                const currentHash = current ? hashTableContent(current) : undefined;
+                if (!getTableConflictDetector().isConflict(uri.toString(), index, baseVersion, document.version, currentHash)) {
+                    continue;
+                }
+
+                const conflict: TableConflictData = { command, tableIndex: index, data };
+                if (command === WebviewCommand.UPDATE_CELL && current) {
+                    conflict.currentValue = current.rows[data.row]?.[data.col] ?? '';
+                } else if (command === WebviewCommand.UPDATE_HEADER && current) {
+                    conflict.currentValue = current.headers[data.col] ?? '';
+                }
+
+                console.warn('[MTE][Ext] Edit conflicts with an external change:', { command, tableIndex: index, baseVersion, currentVersion: document.version });
+                const commManager = this.communicationManagers.get(this.findPanelId(panel));
+                commManager?.sendTableConflict(conflict);
+                // 楽観的に反映された webview 側の表示を現在のドキュメントに戻す
+                this.refreshPanelData(panel, uri);
+                return true;
+            }
+        } catch (error) {
+            // 判定できない場合は従来どおり編集を適用する
+            console.warn('[MTE][Ext] Failed to check edit conflict:', error);
+        }
+        return false;
+    }
+
+    /**
+     * Handle bulk cell update
+     */
+    private async handleBulkUpdateCells(data: BulkUpdateCellsData, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
         const actualPanelId = this.findPanelId(panel);
 
         const commandData = {
             uri: uri.toString(),
             panelId: actualPanelId,
             updates: data.updates,
-            tableIndex: data.tableIndex
+            tableIndex: data.tableIndex,
+            additionalTables: data.additionalTables
         };
 
         // Emit custom event that can be handled by the extension
@@ -892,7 +1292,7 @@ export class WebviewManager {
     /**
      * Handle sort
      */
-    private async handleSort(data: { column: number; direction: string; tableIndex?: number }, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
+    private async handleSort(data: { column: number; direction: string; keys?: SortKeyData[]; tableIndex?: number }, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
         // データの検証
         if (!data || typeof data.column !== 'number' || !data.direction) {
             console.error('Invalid sort data:', data);
@@ -919,6 +1319,7 @@ export class WebviewManager {
             panelId: actualPanelId,
             column: data.column,
             direction: data.direction,
+            keys: data.keys,
             tableIndex: data?.tableIndex
         });
     }
@@ -1063,6 +1464,67 @@ export class WebviewManager {
         });
     }
 
+    /**
+     * Handle add aggregate row (materialize aggregate footer)
+     */
+    private async handleAddAggregateRow(data: { functions: string[]; tableIndex?: number }, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
+        const actualPanelId = this.findPanelId(panel);
+
+        vscode.commands.executeCommand('markdownTableEditor.internal.addAggregateRow', {
+            uri: uri.toString(),
+            panelId: actualPanelId,
+            functions: data?.functions,
+            tableIndex: data?.tableIndex
+        });
+    }
+
+    /**
+     * Handle set column alignment
+     */
+    private async handleSetAlignment(data: { columns: number[]; alignment: string; tableIndex?: number }, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
+        const actualPanelId = this.findPanelId(panel);
+
+        vscode.commands.executeCommand('markdownTableEditor.internal.setAlignment', {
+            uri: uri.toString(),
+            panelId: actualPanelId,
+            columns: data?.columns,
+            alignment: data?.alignment,
+            tableIndex: data?.tableIndex
+        });
+    }
+
+    /**
+     * Handle merge cells
+     */
+    private async handleMergeCells(data: { row: number; col: number; rowSpan: number; colSpan: number; tableIndex?: number }, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
+        const actualPanelId = this.findPanelId(panel);
+
+        vscode.commands.executeCommand('markdownTableEditor.internal.mergeCells', {
+            uri: uri.toString(),
+            panelId: actualPanelId,
+            row: data?.row,
+            col: data?.col,
+            rowSpan: data?.rowSpan,
+            colSpan: data?.colSpan,
+            tableIndex: data?.tableIndex
+        });
+    }
+
+    /**
+     * Handle unmerge cells
+     */
+    private async handleUnmergeCells(data: { row: number; col: number; tableIndex?: number }, panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
+        const actualPanelId = this.findPanelId(panel);
+
+        vscode.commands.executeCommand('markdownTableEditor.internal.unmergeCells', {
+            uri: uri.toString(),
+            panelId: actualPanelId,
+            row: data?.row,
+            col: data?.col,
+            tableIndex: data?.tableIndex
+        });
+    }
+
     /**
      * Build initial theme CSS synchronously for faster panel startup
      */
@@ -1084,6 +1546,30 @@ export class WebviewManager {
         `;
     }
 
+    /**
+     * Persist webview UI state (column widths, sort, selection, active tab) per document
+     */
+    private async handleSaveViewState(data: SaveViewStateData, uri: vscode.Uri): Promise<void> {
+        if (typeof this.context.workspaceState?.update !== 'function') {
+            return;
+        }
+        await this.context.workspaceState.update(this.getViewStateKey(uri), data.viewState);
+    }
+
+    /**
+     * Get persisted webview UI state for a document
+     */
+    private getPersistedViewState(uri: vscode.Uri): PersistedViewState | undefined {
+        if (typeof this.context.workspaceState?.get !== 'function') {
+            return undefined;
+        }
+        return this.context.workspaceState.get<PersistedViewState>(this.getViewStateKey(uri));
+    }
+
+    private getViewStateKey(uri: vscode.Uri): string {
+        return `markdownTableEditor.viewState:${uri.toString()}`;
+    }
+
     /**
      * Handle theme variables request from webview
      */
@@ -1103,6 +1589,8 @@ export class WebviewManager {
             this.healthCheckInterval = null;
         }
 
+        this.historyListener.dispose();
+
         // Dispose all communication managers
         for (const [panelId, commManager] of this.communicationManagers.entries()) {
             try {
@@ -1448,66 +1936,98 @@ export class WebviewManager {
         // Register handlers for all webview commands
         commManager.registerHandler(WebviewCommand.REQUEST_TABLE_DATA, async (data) => {
             console.log('[MTE][Ext] Handler: REQUEST_TABLE_DATA');
+            // webview を読み込み直した場合は手元にデータが無いため全体を送る
+            this.sentTables.delete(this.findPanelId(panel));
             await this.handleRequestTableData(panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.UPDATE_CELL, async (data) => {
+        commManager.registerHandler(WebviewCommand.UPDATE_CELL, async (data, message) => {
             console.log('[MTE][Ext] Handler: UPDATE_CELL', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.UPDATE_CELL, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleCellUpdate(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.BULK_UPDATE_CELLS, async (data) => {
+        commManager.registerHandler(WebviewCommand.BULK_UPDATE_CELLS, async (data, message) => {
             console.log('[MTE][Ext] Handler: BULK_UPDATE_CELLS', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.BULK_UPDATE_CELLS, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleBulkUpdateCells(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.UPDATE_HEADER, async (data) => {
+        commManager.registerHandler(WebviewCommand.UPDATE_HEADER, async (data, message) => {
             console.log('[MTE][Ext] Handler: UPDATE_HEADER', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.UPDATE_HEADER, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleHeaderUpdate(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.ADD_ROW, async (data) => {
+        commManager.registerHandler(WebviewCommand.ADD_ROW, async (data, message) => {
             console.log('[MTE][Ext] Handler: ADD_ROW', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.ADD_ROW, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleAddRow(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.DELETE_ROWS, async (data) => {
+        commManager.registerHandler(WebviewCommand.DELETE_ROWS, async (data, message) => {
             console.log('[MTE][Ext] Handler: DELETE_ROWS', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.DELETE_ROWS, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleDeleteRows(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.ADD_COLUMN, async (data) => {
+        commManager.registerHandler(WebviewCommand.ADD_COLUMN, async (data, message) => {
             console.log('[MTE][Ext] Handler: ADD_COLUMN', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.ADD_COLUMN, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleAddColumn(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.DELETE_COLUMNS, async (data) => {
+        commManager.registerHandler(WebviewCommand.DELETE_COLUMNS, async (data, message) => {
             console.log('[MTE][Ext] Handler: DELETE_COLUMNS', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.DELETE_COLUMNS, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleDeleteColumns(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.SORT, async (data) => {
+        commManager.registerHandler(WebviewCommand.SORT, async (data, message) => {
             console.log('[MTE][Ext] Handler: SORT', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.SORT, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleSort(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.MOVE_ROW, async (data) => {
+        commManager.registerHandler(WebviewCommand.MOVE_ROW, async (data, message) => {
             console.log('[MTE][Ext] Handler: MOVE_ROW', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.MOVE_ROW, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleMoveRow(data, panel, uri);
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.MOVE_COLUMN, async (data) => {
+        commManager.registerHandler(WebviewCommand.MOVE_COLUMN, async (data, message) => {
             console.log('[MTE][Ext] Handler: MOVE_COLUMN', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.MOVE_COLUMN, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleMoveColumn(data, panel, uri);
             return { success: true };
         });
@@ -1518,18 +2038,100 @@ export class WebviewManager {
             return { success: true };
         });
 
-        commManager.registerHandler(WebviewCommand.IMPORT_CSV, async (data) => {
+        commManager.registerHandler(WebviewCommand.IMPORT_CSV, async (data, message) => {
             console.log('[MTE][Ext] Handler: IMPORT_CSV', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.IMPORT_CSV, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
             await this.handleImportCSV(data, panel, uri);
             return { success: true };
         });
 
+        commManager.registerHandler(WebviewCommand.ADD_AGGREGATE_ROW, async (data, message) => {
+            console.log('[MTE][Ext] Handler: ADD_AGGREGATE_ROW', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.ADD_AGGREGATE_ROW, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
+            await this.handleAddAggregateRow(data, panel, uri);
+            return { success: true };
+        });
+
+        commManager.registerHandler(WebviewCommand.SET_ALIGNMENT, async (data, message) => {
+            console.log('[MTE][Ext] Handler: SET_ALIGNMENT', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.SET_ALIGNMENT, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
+            await this.handleSetAlignment(data, panel, uri);
+            return { success: true };
+        });
+
+        commManager.registerHandler(WebviewCommand.MERGE_CELLS, async (data, message) => {
+            console.log('[MTE][Ext] Handler: MERGE_CELLS', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.MERGE_CELLS, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
+            await this.handleMergeCells(data, panel, uri);
+            return { success: true };
+        });
+
+        commManager.registerHandler(WebviewCommand.UNMERGE_CELLS, async (data, message) => {
+            console.log('[MTE][Ext] Handler: UNMERGE_CELLS', data);
+            if (await this.rejectConflictingEdit(WebviewCommand.UNMERGE_CELLS, data, message, panel, uri)) {
+                return { success: false, conflict: true };
+            }
+            await this.handleUnmergeCells(data, panel, uri);
+            return { success: true };
+        });
+
+        commManager.registerHandler(WebviewCommand.SAVE_VIEW_STATE, async (data) => {
+            console.log('[MTE][Ext] Handler: SAVE_VIEW_STATE');
+            await this.handleSaveViewState(data, uri);
+            return { success: true };
+        });
+
         commManager.registerHandler(WebviewCommand.SWITCH_TABLE, async (data) => {
             console.log('[MTE][Ext] Handler: SWITCH_TABLE', data);
             await this.handleSwitchTable(data, panel, uri);
             return { success: true };
         });
 
+        commManager.registerHandler(WebviewCommand.SEARCH_WORKSPACE, async (data) => {
+            console.log('[MTE][Ext] Handler: SEARCH_WORKSPACE');
+            return await vscode.commands.executeCommand('markdownTableEditor.internal.searchWorkspace', data);
+        });
+
+        commManager.registerHandler(WebviewCommand.OPEN_SEARCH_MATCH, async (data) => {
+            console.log('[MTE][Ext] Handler: OPEN_SEARCH_MATCH', data);
+            await vscode.commands.executeCommand('markdownTableEditor.internal.openSearchMatch', data);
+            return { success: true };
+        });
+
+        commManager.registerHandler(WebviewCommand.OPEN_LINK, async (data) => {
+            console.log('[MTE][Ext] Handler: OPEN_LINK', data);
+            await this.handleOpenLink(data, uri);
+            return { success: true };
+        });
+
+        commManager.registerHandler(WebviewCommand.LIST_LINK_TARGETS, async () => {
+            console.log('[MTE][Ext] Handler: LIST_LINK_TARGETS');
+            return await this.listLinkTargets(uri);
+        });
+
+        commManager.registerHandler(WebviewCommand.REPLACE_IN_WORKSPACE, async (data) => {
+            console.log('[MTE][Ext] Handler: REPLACE_IN_WORKSPACE');
+            return await vscode.commands.executeCommand('markdownTableEditor.internal.replaceInWorkspace', data);
+        });
+
+        commManager.registerHandler(WebviewCommand.RESOLVE_MERGE_CONFLICT, async (data) => {
+            console.log('[MTE][Ext] Handler: RESOLVE_MERGE_CONFLICT', data);
+            await vscode.commands.executeCommand('markdownTableEditor.internal.resolveMergeConflict', {
+                ...data,
+                uri: uri.toString(),
+                panelId: this.findPanelId(panel)
+            });
+            return { success: true };
+        });
+
         commManager.registerHandler(WebviewCommand.REQUEST_THEME_VARIABLES, async (data) => {
             console.log('[MTE][Ext] Handler: REQUEST_THEME_VARIABLES');
             await this.handleRequestThemeVariables(panel);
@@ -1548,6 +2150,12 @@ export class WebviewManager {
             return { success: true };
         });
 
+        commManager.registerHandler(WebviewCommand.JUMP_TO_HISTORY, async (data) => {
+            console.log('[MTE][Ext] Handler: JUMP_TO_HISTORY', data);
+            await this.handleJumpToHistory(data, panel, uri);
+            return { success: true };
+        });
+
         commManager.registerHandler(WebviewCommand.PONG, async (data) => {
             console.log('[MTE][Ext] Handler: PONG');
             const panelId = this.findPanelId(panel);
@@ -1557,7 +2165,8 @@ export class WebviewManager {
 
         commManager.registerHandler(WebviewCommand.REQUEST_SYNC, async (data) => {
             console.log('[MTE][Ext] Handler: REQUEST_SYNC');
-            // 現在の状態を送信
+            // 差分を適用できなかった場合（リビジョンの不一致）にも呼ばれるため、全体を送り直す
+            this.sentTables.delete(this.findPanelId(panel));
             this.refreshPanelData(panel, uri);
             return { success: true };
         });
@@ -0,0 +1,68 @@
+/**
+ * どこで: VS Code 拡張 (extension ホスト側)
+ * 何を: ワークスペース検索のためのテーブルセル照合
+ * なぜ: webview は開いているドキュメントのテーブルしか持たないため、
+ *       他の Markdown ファイルのテーブルは拡張側で解析して検索する
+ */
+
+import { MarkdownParser } from './markdownParser';
+import { WorkspaceSearchMatch, WorkspaceSearchOptions } from './communication/protocol';
+
+// 1 回の検索で返すマッチ数の上限（webview への転送量を抑える）
+export const MAX_WORKSPACE_MATCHES = 2000;
+
+/**
+ * Build the search pattern (same rules as the webview search bar)
+ */
+export function createWorkspaceSearchPattern(searchText: string, options: WorkspaceSearchOptions): RegExp | null {
+    if (!searchText) {
+        return null;
+    }
+    const flags = options.caseSensitive ? '' : 'i';
+    try {
+        if (options.regex) {
+            return new RegExp(searchText, flags);
+        }
+        let pattern = searchText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        if (options.wholeWord) {
+            pattern = `\\b${pattern}\\b`;
+        }
+        return new RegExp(pattern, flags);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Find matching data cells in every table of a Markdown document
+ */
+export function findTableMatches(
+    parser: MarkdownParser,
+    content: string,
+    file: { uri: string; fileName: string },
+    pattern: RegExp,
+    limit: number = MAX_WORKSPACE_MATCHES
+): WorkspaceSearchMatch[] {
+    const matches: WorkspaceSearchMatch[] = [];
+    if (limit <= 0) {
+        return matches;
+    }
+
+    const tables = parser.findTablesInDocument(parser.parseDocument(content));
+    for (let tableIndex = 0; tableIndex < tables.length; tableIndex++) {
+        const rows = tables[tableIndex].rows;
+        for (let row = 0; row < rows.length; row++) {
+            for (let col = 0; col < rows[row].length; col++) {
+                const value = rows[row][col] ?? '';
+                if (!pattern.test(value)) {
+                    continue;
+                }
+                matches.push({ uri: file.uri, fileName: file.fileName, tableIndex, row, col, value });
+                if (matches.length >= limit) {
+                    return matches;
+                }
+            }
+        }
+    }
+    return matches;
+}
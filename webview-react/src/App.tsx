@@ -1,13 +1,31 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import './i18n'
 import TableEditor from './components/TableEditor'
 import TableTabs from './components/TableTabs'
 import StatusBar from './components/StatusBar'
+import HistoryPanel from './components/HistoryPanel'
+import ConflictDialog from './components/ConflictDialog'
+import MergeConflictView from './components/MergeConflictView'
 import { StatusProvider } from './contexts/StatusContext'
 import { ThemeProvider, useTheme } from './contexts/ThemeContext'
 import { useCommunication } from './hooks/useCommunication'
-import { TableData, SortState } from './types'
+import { TableData, SortState, ColumnWidths, CellPosition, RevealCellRequest, FrozenPanes } from './types'
+import { TableConflictData, TableDiffData, TableHistoryData, TableMergeConflict } from '../../src/communication/protocol'
+import {
+  PersistedViewState,
+  TableViewState,
+  DEFAULT_SORT_STATE,
+  buildPersistedViewState,
+  createTableViewState,
+  getTableKeys,
+  reconcileViewStates,
+  sanitizeTableViewState
+} from './utils/viewState'
+import { NO_FROZEN_PANES } from './utils/frozenPanes'
+
+const EMPTY_COLUMN_WIDTHS: ColumnWidths = {}
+const EMPTY_HISTORY: TableHistoryData = { entries: [], position: 0 }
 
 function AppContent() {
   const { t } = useTranslation()
@@ -18,19 +36,43 @@ function AppContent() {
   const [error, setError] = useState<string | null>(null)
   const [themeRequested, setThemeRequested] = useState(false)
   const [fontSettings, setFontSettings] = useState<{ fontFamily?: string; fontSize?: number }>({})
-  // テーブルごとのソート状態を上位で管理
-  const [sortStates, setSortStates] = useState<SortState[]>([])
+  // テーブルごとの表示状態（列幅・ソート・選択）を上位で管理（キーはヘッダーのシグネチャ）
+  const [viewStates, setViewStates] = useState<Record<string, TableViewState>>({})
+  // ワークスペース検索の結果から選択するセル（拡張からの revealCell 通知）
+  const [revealCellRequest, setRevealCellRequest] = useState<RevealCellRequest | null>(null)
+  // ドキュメントが外部で変更されたため適用されなかった編集（先頭から順に確認する）
+  const [tableConflicts, setTableConflicts] = useState<TableConflictData[]>([])
+  // Git のコンフリクトマーカーを含むテーブル（マージ画面で解決する）
+  const [mergeConflicts, setMergeConflicts] = useState<TableMergeConflict[]>([])
+  const [mergeViewDismissed, setMergeViewDismissed] = useState(false)
+  // 別バージョン（Git のリビジョンや別ファイル）との差分。表示中は読み取り専用
+  const [tableDiff, setTableDiff] = useState<TableDiffData | null>(null)
+  // 元に戻す / やり直しの履歴（拡張側で操作単位に記録）
+  const [history, setHistory] = useState<TableHistoryData>(EMPTY_HISTORY)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  // ドキュメントのあるフォルダーの webview URI（セル内の画像の表示に使用）
+  const [documentBaseUri, setDocumentBaseUri] = useState<string | null>(null)
   const { theme, isLoaded, applyThemeVariables } = useTheme()
   const lastUpdateRef = useRef<{hash: string, time: number} | null>(null)
   const currentIndexRef = useRef(0)
   const pendingTabSwitchRef = useRef<{index: number, time: number} | null>(null)
   const allTablesRef = useRef<TableData[]>([])
+  const tableKeysRef = useRef<string[]>([])
+  // 表示状態の復元: 拡張から届いた保存値と、復元済みのドキュメントURI
+  const pendingViewStateRef = useRef<{ fileUri: string; viewState: PersistedViewState | null } | null>(null)
+  const restoredUriRef = useRef<string | null>(null)
+
+  const tableKeys = useMemo(() => getTableKeys(allTables), [allTables])
 
   // refを最新の値で同期
   useEffect(() => {
     allTablesRef.current = allTables
   }, [allTables])
 
+  useEffect(() => {
+    tableKeysRef.current = tableKeys
+  }, [tableKeys])
+
   useEffect(() => {
     currentIndexRef.current = currentTableIndex
   }, [currentTableIndex])
@@ -41,6 +83,7 @@ function AppContent() {
   }, [theme, isLoaded])
 
   const currentTableData = allTables[currentTableIndex] || null
+  const currentViewState = viewStates[tableKeys[currentTableIndex]]
 
 
   const communication = useCommunication({
@@ -72,20 +115,38 @@ function AppContent() {
       }
       if (Array.isArray(data)) {
         setAllTables(data)
-        // テーブル数に応じて sortStates を整列
-        setSortStates((prev) => {
-          const next = [...prev]
-          for (let i = next.length; i < data.length; i++) {
-            next[i] = { column: -1, direction: 'none' }
-          }
-          return next.slice(0, data.length)
-        })
+        const nextKeys = getTableKeys(data)
+        const prevKeys = tableKeysRef.current
+        // 新しいドキュメントの初回データでは保存済みの表示状態を復元し、以降はキーで引き継ぐ
+        const restore = pendingViewStateRef.current
+        pendingViewStateRef.current = null
+        if (restore) {
+          restoredUriRef.current = restore.fileUri
+          const restoredTables = reconcileViewStates(restore.viewState?.tables ?? {}, [], nextKeys)
+          nextKeys.forEach((key, i) => {
+            if (restoredTables[key]) {
+              restoredTables[key] = sanitizeTableViewState(restoredTables[key], data[i])
+            }
+          })
+          setViewStates(restoredTables)
+        } else {
+          setViewStates((prev) => reconcileViewStates(prev, prevKeys, nextKeys))
+        }
+        const restoredIndex = restore?.viewState?.activeTableKey ? nextKeys.indexOf(restore.viewState.activeTableKey) : -1
+        // 他のテーブルの追加・削除でインデックスがずれた場合は同じテーブルを追従
+        const followedIndex = !restore && prevKeys.length !== nextKeys.length
+          ? nextKeys.indexOf(prevKeys[currentIndexRef.current] ?? '')
+          : -1
         const len = data.length
         const now = Date.now()
         const pending = pendingTabSwitchRef.current
         if (pending && (now - pending.time) < 600 && pending.index >= 0 && pending.index < len) {
           setCurrentTableIndex(pending.index)
           currentIndexRef.current = pending.index
+        } else if (restoredIndex >= 0 || followedIndex >= 0) {
+          const index = restoredIndex >= 0 ? restoredIndex : followedIndex
+          setCurrentTableIndex(index)
+          currentIndexRef.current = index
         } else {
           if (currentIndexRef.current >= len) {
             setCurrentTableIndex(0)
@@ -97,7 +158,7 @@ function AppContent() {
         }
       } else {
         setAllTables([data])
-  setSortStates([{ column: -1, direction: 'none' }])
+        setViewStates((prev) => reconcileViewStates(prev, tableKeysRef.current, getTableKeys([data])))
         setCurrentTableIndex(0)
         currentIndexRef.current = 0
       }
@@ -107,6 +168,11 @@ function AppContent() {
         tableCount: Array.isArray(data) ? data.length : 1
       })
     },
+    onRevertTables: (tables: TableData[]) => {
+      // 同じ内容の再送として無視されないよう、重複判定をリセットしてから戻す
+      lastUpdateRef.current = null
+      setAllTables(tables)
+    },
     onError: (errorMessage: string) => {
       console.error('[MTE][React] onError', errorMessage)
       setError(errorMessage)
@@ -128,6 +194,13 @@ function AppContent() {
         })
       }
     },
+    onViewState: (viewState: PersistedViewState | null, fileUri: string) => {
+      // ドキュメントが変わった場合のみ復元（同じドキュメントでは現在の状態を優先）
+      if (fileUri !== restoredUriRef.current) {
+        pendingViewStateRef.current = { fileUri, viewState }
+      }
+    },
+    onDocumentBaseUri: setDocumentBaseUri,
     onSetActiveTable: (index: number) => {
       // Immediately update the index to avoid flicker
       if (index !== currentIndexRef.current) {
@@ -136,9 +209,48 @@ function AppContent() {
         // Clear any pending tab switch since this is authoritative
         pendingTabSwitchRef.current = null
       }
+    },
+    onRevealCell: (data: RevealCellRequest) => {
+      // 続けて届くテーブルデータで表示状態の復元にタブを戻されないよう、タブ切り替えとして扱う
+      setCurrentTableIndex(data.tableIndex)
+      currentIndexRef.current = data.tableIndex
+      pendingTabSwitchRef.current = { index: data.tableIndex, time: Date.now() }
+      setRevealCellRequest({ tableIndex: data.tableIndex, row: data.row, col: data.col })
+    },
+    onTableConflict: (data: TableConflictData) => {
+      setTableConflicts(prev => [...prev, data])
+    },
+    onMergeConflicts: (conflicts: TableMergeConflict[]) => {
+      setMergeConflicts(conflicts)
+      if (conflicts.length === 0) {
+        setMergeViewDismissed(false)
+      }
+    },
+    onTableDiff: (data: TableDiffData) => {
+      // 差分を閉じた時に比較したテーブルが開いているよう、タブも切り替える
+      setCurrentTableIndex(data.tableIndex)
+      currentIndexRef.current = data.tableIndex
+      pendingTabSwitchRef.current = { index: data.tableIndex, time: Date.now() }
+      setTableDiff(data)
+    },
+    onHistory: (data: TableHistoryData) => {
+      setHistory(data)
     }
   })
 
+  const handleResolveMerge = (conflict: TableMergeConflict, table: { headers: string[]; rows: string[][]; alignment: string[] }) => {
+    communication.resolveMergeConflict(conflict.startLine, conflict.endLine, table)
+  }
+
+  const handleApplyConflict = (conflict: TableConflictData) => {
+    setTableConflicts(prev => prev.filter(item => item !== conflict))
+    communication.reapplyEdit(conflict)
+  }
+
+  const handleDiscardConflict = (conflict: TableConflictData) => {
+    setTableConflicts(prev => prev.filter(item => item !== conflict))
+  }
+
   // タブ変更時の処理
   const handleTabChange = (index: number) => {
 
@@ -216,6 +328,83 @@ function AppContent() {
     }
   }, [fontSettings])
 
+  // 現在のテーブルの表示状態を更新
+  const updateCurrentViewState = useCallback((updater: (prev: TableViewState) => TableViewState) => {
+    const key = tableKeysRef.current[currentIndexRef.current]
+    if (!key) {
+      return
+    }
+    setViewStates((prev) => {
+      const current = prev[key] ?? createTableViewState()
+      const next = updater(current)
+      return next === current ? prev : { ...prev, [key]: next }
+    })
+  }, [])
+
+  const setCurrentSortState = useCallback((updater: SortState | ((prev: SortState) => SortState)) => {
+    updateCurrentViewState((prev) => ({
+      ...prev,
+      sortState: typeof updater === 'function' ? updater(prev.sortState) : updater
+    }))
+  }, [updateCurrentViewState])
+
+  const setCurrentColumnWidths = useCallback((updater: ColumnWidths | ((prev: ColumnWidths) => ColumnWidths)) => {
+    updateCurrentViewState((prev) => ({
+      ...prev,
+      columnWidths: typeof updater === 'function' ? updater(prev.columnWidths) : updater
+    }))
+  }, [updateCurrentViewState])
+
+  const setCurrentFrozenPanes = useCallback((frozen: FrozenPanes) => {
+    updateCurrentViewState((prev) => ({
+      ...prev,
+      frozen: frozen.rows > 0 || frozen.columns > 0 ? frozen : undefined
+    }))
+  }, [updateCurrentViewState])
+
+  const setCurrentShowMarkdownSource = useCallback((show: boolean) => {
+    updateCurrentViewState((prev) => ({
+      ...prev,
+      showMarkdownSource: show || undefined
+    }))
+  }, [updateCurrentViewState])
+
+  const handleSelectedCellChange = useCallback((cell: CellPosition) => {
+    updateCurrentViewState((prev) => (
+      prev.selectedCell?.row === cell.row && prev.selectedCell?.col === cell.col
+        ? prev
+        : { ...prev, selectedCell: cell }
+    ))
+  }, [updateCurrentViewState])
+
+  // 表示状態を保存（webview の state と拡張側の workspaceState）。復元前は保存しない
+  const { saveViewState } = communication
+  useEffect(() => {
+    if (!restoredUriRef.current || tableKeys.length === 0) {
+      return
+    }
+    const timer = window.setTimeout(() => {
+      saveViewState(buildPersistedViewState(viewStates, tableKeys, currentTableIndex))
+    }, 300)
+    return () => window.clearTimeout(timer)
+  }, [viewStates, tableKeys, currentTableIndex, saveViewState])
+
+  const diffTableData = useMemo<TableData | null>(() => tableDiff && {
+    headers: tableDiff.diff.headers,
+    rows: tableDiff.diff.rows.map(row => row.cells)
+  }, [tableDiff])
+
+  const diffSummary = useMemo(() => {
+    const summary = { added: 0, removed: 0, changed: 0 }
+    tableDiff?.diff.rows.forEach(row => {
+      if (row.status !== 'unchanged') summary[row.status]++
+    })
+    return summary
+  }, [tableDiff])
+
+  // 差分表示は読み取り専用のため、エディタからの更新は反映しない
+  const ignoreTableUpdate = useCallback(() => {}, [])
+
   // onTableUpdateコールバックを安定化して無限ループを防ぐ
   const handleTableUpdate = useCallback((updatedData: TableData) => {
     // refから最新の値を取得（依存配列から除外してコールバックを安定化）
@@ -249,6 +438,64 @@ function AppContent() {
     )
   }
 
+  // コンフリクトで壊れたテーブルしか無い場合も、マージ画面は表示する
+  if (mergeConflicts.length > 0 && (!mergeViewDismissed || !currentTableData)) {
+    return (
+      <StatusProvider>
+        <div id="mte-root">
+          <div id="app">
+            <MergeConflictView
+              conflicts={mergeConflicts}
+              onResolve={handleResolveMerge}
+              onClose={currentTableData ? () => setMergeViewDismissed(true) : undefined}
+            />
+            <div className="bottom-chrome">
+              <StatusBar />
+            </div>
+          </div>
+        </div>
+      </StatusProvider>
+    )
+  }
+
+  if (tableDiff && diffTableData) {
+    return (
+      <StatusProvider>
+        <div id="mte-root">
+          <div id="app">
+            <div className="table-diff-banner" role="status">
+              <span className="table-diff-title">{t('tableDiff.title', { label: tableDiff.baseLabel })}</span>
+              <span className="table-diff-match">
+                {tableDiff.diff.keyColumn
+                  ? t('tableDiff.matchedByKey', { column: tableDiff.diff.keyColumn })
+                  : t('tableDiff.matchedBySimilarity')}
+              </span>
+              <span className="table-diff-legend added">{t('tableDiff.added', { count: diffSummary.added })}</span>
+              <span className="table-diff-legend removed">{t('tableDiff.removed', { count: diffSummary.removed })}</span>
+              <span className="table-diff-legend changed">{t('tableDiff.changed', { count: diffSummary.changed })}</span>
+              <span className="sort-dialog-spacer" />
+              <span className="table-diff-readonly">{t('tableDiff.readOnly')}</span>
+              <button className="sort-dialog-btn" onClick={() => setTableDiff(null)}>{t('tableDiff.close')}</button>
+            </div>
+            <TableEditor
+              key={`diff-${tableDiff.tableIndex}-${tableDiff.baseLabel}`}
+              tableData={diffTableData}
+              currentTableIndex={tableDiff.tableIndex}
+              onTableUpdate={ignoreTableUpdate}
+              onSendMessage={communication.sendMessage}
+              readOnly
+              diff={tableDiff.diff}
+              documentBaseUri={documentBaseUri ?? undefined}
+            />
+            <div className="bottom-chrome">
+              <StatusBar />
+            </div>
+          </div>
+        </div>
+      </StatusProvider>
+    )
+  }
+
   if (!currentTableData) {
     return (
       <div className="error">
@@ -261,6 +508,12 @@ function AppContent() {
     <StatusProvider>
       <div id="mte-root">
         <div id="app">
+        {mergeConflicts.length > 0 && (
+          <div className="merge-conflict-banner">
+            <span>{t('mergeConflict.banner', { count: mergeConflicts.length })}</span>
+            <button className="sort-dialog-btn" onClick={() => setMergeViewDismissed(false)}>{t('mergeConflict.resolve')}</button>
+          </div>
+        )}
         <TableEditor
           tableData={currentTableData}
           currentTableIndex={currentTableIndex}
@@ -268,15 +521,20 @@ function AppContent() {
           onTableUpdate={handleTableUpdate}
           onSendMessage={communication.sendMessage}
           onTableSwitch={handleTabChange}
-          sortState={sortStates[currentTableIndex]}
-          setSortState={(updater) => {
-            setSortStates((prev) => {
-              const next = [...prev]
-              const current = prev[currentTableIndex] ?? { column: -1, direction: 'none' }
-              next[currentTableIndex] = typeof updater === 'function' ? (updater as any)(current) : updater
-              return next
-            })
-          }}
+          sortState={currentViewState?.sortState ?? DEFAULT_SORT_STATE}
+          setSortState={setCurrentSortState}
+          columnWidths={currentViewState?.columnWidths ?? EMPTY_COLUMN_WIDTHS}
+          setColumnWidths={setCurrentColumnWidths}
+          frozenPanes={currentViewState?.frozen ?? NO_FROZEN_PANES}
+          setFrozenPanes={setCurrentFrozenPanes}
+          showMarkdownSource={currentViewState?.showMarkdownSource ?? false}
+          setShowMarkdownSource={setCurrentShowMarkdownSource}
+          documentBaseUri={documentBaseUri ?? undefined}
+          initialSelectedCell={currentViewState?.selectedCell ?? null}
+          onSelectedCellChange={handleSelectedCellChange}
+          onSearchWorkspace={communication.searchWorkspace}
+          onListLinkTargets={communication.listLinkTargets}
+          revealCellRequest={revealCellRequest}
         />
         <div className="bottom-chrome">
           <TableTabs
@@ -284,8 +542,24 @@ function AppContent() {
             currentTableIndex={currentTableIndex}
             onTabChange={handleTabChange}
           />
-          <StatusBar />
+          {/* カスタムエディターでは VS Code の元に戻す / やり直しを使うため、履歴パネルは出さない */}
+          <StatusBar onToggleHistory={history.native ? undefined : () => setHistoryOpen(open => !open)} historyOpen={historyOpen} />
         </div>
+        {historyOpen && !history.native && (
+          <HistoryPanel
+            history={history}
+            onJump={communication.jumpToHistory}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+        {tableConflicts.length > 0 && (
+          <ConflictDialog
+            conflict={tableConflicts[0]}
+            remaining={tableConflicts.length - 1}
+            onApply={handleApplyConflict}
+            onDiscard={handleDiscardConflict}
+          />
+        )}
         </div>
       </div>
     </StatusProvider>
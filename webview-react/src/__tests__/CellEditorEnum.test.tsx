@@ -0,0 +1,66 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import CellEditor from '../components/CellEditor'
+
+describe('CellEditor enum dropdown', () => {
+  const mockOnCommit = jest.fn()
+  const mockOnCancel = jest.fn()
+  const options = ['todo', 'doing', 'done']
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const setup = (value: string, restrictToOptions = false) => {
+    render(
+      <CellEditor
+        value={value}
+        onCommit={mockOnCommit}
+        onCancel={mockOnCancel}
+        options={options}
+        restrictToOptions={restrictToOptions}
+      />
+    )
+    return screen.getByRole('combobox') as HTMLTextAreaElement
+  }
+
+  test('should list all choices and highlight the current value', () => {
+    setup('doing')
+
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(options)
+    expect(screen.getByRole('option', { selected: true })).toHaveTextContent('doing')
+  })
+
+  test('should filter the choices while typing and commit the highlighted one with the keyboard', () => {
+    const textarea = setup('')
+
+    fireEvent.change(textarea, { target: { value: 'do' } })
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['todo', 'doing', 'done'])
+
+    fireEvent.change(textarea, { target: { value: 'don' } })
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['done'])
+
+    fireEvent.keyDown(textarea, { key: 'ArrowDown' })
+    fireEvent.keyDown(textarea, { key: 'Enter' })
+    expect(mockOnCommit).toHaveBeenCalledWith('done', 'down')
+  })
+
+  test('should keep free text unless a choice is highlighted', () => {
+    const textarea = setup('')
+
+    fireEvent.change(textarea, { target: { value: 'blocked' } })
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    fireEvent.keyDown(textarea, { key: 'Tab' })
+    expect(mockOnCommit).toHaveBeenCalledWith('blocked', 'right')
+  })
+
+  test('should highlight the first match for configured choices and commit on click', () => {
+    const textarea = setup('', true)
+
+    fireEvent.change(textarea, { target: { value: 'o' } })
+    expect(screen.getByRole('option', { selected: true })).toHaveTextContent('todo')
+
+    fireEvent.click(screen.getByRole('option', { name: 'done' }))
+    expect(mockOnCommit).toHaveBeenCalledWith('done')
+  })
+})
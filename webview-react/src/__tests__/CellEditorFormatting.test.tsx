@@ -0,0 +1,121 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import CellEditor from '../components/CellEditor'
+import type { LinkTargetsResult } from '../utils/linkTargets'
+
+describe('CellEditor formatting', () => {
+  const mockOnCommit = jest.fn()
+  const mockOnCancel = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const setup = (value: string, onListLinkTargets?: () => Promise<LinkTargetsResult>) => {
+    render(
+      <CellEditor
+        value={value}
+        onCommit={mockOnCommit}
+        onCancel={mockOnCancel}
+        onListLinkTargets={onListLinkTargets}
+      />
+    )
+    return screen.getByRole('textbox') as HTMLTextAreaElement
+  }
+
+  const select = (textarea: HTMLTextAreaElement, start: number, end: number) => {
+    textarea.setSelectionRange(start, end)
+    fireEvent.select(textarea)
+  }
+
+  test('Ctrl+B and Ctrl+I should wrap the selection', () => {
+    const textarea = setup('make this bold')
+    select(textarea, 5, 9)
+
+    fireEvent.keyDown(textarea, { key: 'b', ctrlKey: true })
+    expect(textarea.value).toBe('make **this** bold')
+    expect(textarea.value.slice(textarea.selectionStart, textarea.selectionEnd)).toBe('this')
+
+    fireEvent.keyDown(textarea, { key: 'b', ctrlKey: true })
+    expect(textarea.value).toBe('make this bold')
+
+    fireEvent.keyDown(textarea, { key: 'i', metaKey: true })
+    expect(textarea.value).toBe('make *this* bold')
+  })
+
+  test('Ctrl+` should format code and the change should be undoable', () => {
+    const textarea = setup('npm test')
+    select(textarea, 0, 8)
+
+    fireEvent.keyDown(textarea, { key: '`', code: 'Backquote', ctrlKey: true })
+    expect(textarea.value).toBe('`npm test`')
+
+    fireEvent.keyDown(textarea, { key: 'z', ctrlKey: true })
+    expect(textarea.value).toBe('npm test')
+  })
+
+  test('should show the toolbar while text is selected', () => {
+    const textarea = setup('strike me')
+    expect(screen.queryByRole('toolbar')).not.toBeInTheDocument()
+
+    select(textarea, 7, 9)
+    fireEvent.click(screen.getByRole('button', { name: 'cellEditor.strikethrough' }))
+
+    expect(textarea.value).toBe('strike ~~me~~')
+  })
+
+  test('Ctrl+K should insert a link to a suggested workspace file', async () => {
+    const listLinkTargets = jest.fn().mockResolvedValue({
+      files: ['../design/spec.md', 'notes.md'], documents: [], images: [], currentDocument: 'index.md', truncated: false
+    })
+    const textarea = setup('see spec', listLinkTargets)
+    select(textarea, 4, 8)
+
+    await act(async () => {
+      fireEvent.keyDown(textarea, { key: 'k', ctrlKey: true })
+    })
+    const input = screen.getByRole('combobox', { name: 'cellEditor.link' })
+    expect(listLinkTargets).toHaveBeenCalledTimes(1)
+    expect(Array.from(document.querySelectorAll('#cell-link-targets option')).map(option => option.getAttribute('value')))
+      .toEqual(['../design/spec.md', 'notes.md'])
+
+    fireEvent.change(input, { target: { value: '../design/spec.md#usage' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+
+    expect(textarea.value).toBe('see [spec](../design/spec.md#usage)')
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument()
+    expect(mockOnCommit).not.toHaveBeenCalled()
+  })
+
+  test('Escape in the link input should return to the cell without committing', () => {
+    const textarea = setup('text')
+    select(textarea, 0, 4)
+    fireEvent.keyDown(textarea, { key: 'k', ctrlKey: true })
+
+    fireEvent.keyDown(screen.getByRole('combobox', { name: 'cellEditor.link' }), { key: 'Escape' })
+
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument()
+    expect(document.activeElement).toBe(textarea)
+    expect(mockOnCancel).not.toHaveBeenCalled()
+  })
+
+  test('should not format while composing', () => {
+    const textarea = setup('変換中')
+    select(textarea, 0, 3)
+    fireEvent.compositionStart(textarea)
+
+    fireEvent.keyDown(textarea, { key: 'b', ctrlKey: true })
+
+    expect(textarea.value).toBe('変換中')
+  })
+
+  test('should preview inline Markdown below the editor', () => {
+    const { container } = render(<CellEditor value={'**done**\nsee `code`'} onCommit={mockOnCommit} onCancel={mockOnCancel} />)
+    expect(container.querySelector('.cell-markdown-preview')?.innerHTML).toBe('<strong>done</strong><br>see <code>code</code>')
+  })
+
+  test('should not preview plain text or formulas', () => {
+    const { container } = render(<CellEditor value="=A1*B1*2" onCommit={mockOnCommit} onCancel={mockOnCancel} />)
+    expect(container.querySelector('.cell-markdown-preview')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,93 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import CellEditor from '../components/CellEditor'
+import type { LinkTargetsResult } from '../utils/linkTargets'
+
+describe('CellEditor link completion', () => {
+  const mockOnCommit = jest.fn()
+  const mockOnCancel = jest.fn()
+  const targets: LinkTargetsResult = {
+    files: ['../design/spec.md', 'notes.md'],
+    documents: [
+      { path: 'index.md', headings: [{ text: 'Overview', level: 1, slug: 'overview' }] },
+      { path: '../design/spec.md', headings: [{ text: 'Spec', level: 1, slug: 'spec' }, { text: 'Usage', level: 2, slug: 'usage' }] }
+    ],
+    images: [],
+    currentDocument: 'index.md',
+    truncated: false
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const setup = async (value: string) => {
+    const listLinkTargets = jest.fn().mockResolvedValue(targets)
+    render(
+      <CellEditor
+        value={value}
+        onCommit={mockOnCommit}
+        onCancel={mockOnCancel}
+        onListLinkTargets={listLinkTargets}
+      />
+    )
+    const textarea = screen.getByRole('textbox') as HTMLTextAreaElement
+    return { textarea, listLinkTargets }
+  }
+
+  // 入力してカーソルを末尾に置く
+  const type = async (textarea: HTMLTextAreaElement, value: string) => {
+    await act(async () => {
+      fireEvent.change(textarea, { target: { value, selectionStart: value.length, selectionEnd: value.length } })
+    })
+  }
+
+  test('should not show completions when the editor opens', async () => {
+    const { listLinkTargets } = await setup('see [spec](')
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    expect(listLinkTargets).not.toHaveBeenCalled()
+  })
+
+  test('should complete a path after ]( and then a heading after #', async () => {
+    const { textarea, listLinkTargets } = await setup('')
+
+    await type(textarea, 'see [spec](../de')
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['../design/spec.md'])
+
+    fireEvent.keyDown(textarea, { key: 'Enter' })
+    expect(textarea.value).toBe('see [spec](../design/spec.md')
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    expect(mockOnCommit).not.toHaveBeenCalled()
+
+    await type(textarea, 'see [spec](../design/spec.md#')
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['Spec#spec', 'Usage#usage'])
+
+    fireEvent.keyDown(textarea, { key: 'ArrowDown' })
+    fireEvent.keyDown(textarea, { key: 'Tab' })
+    expect(textarea.value).toBe('see [spec](../design/spec.md#usage')
+    expect(listLinkTargets).toHaveBeenCalledTimes(1)
+  })
+
+  test('should insert a whole link after [', async () => {
+    const { textarea } = await setup('')
+
+    await type(textarea, 'see [over')
+    fireEvent.click(screen.getByRole('option', { name: 'Overview #overview' }))
+
+    expect(textarea.value).toBe('see [Overview](#overview)')
+  })
+
+  test('Escape should close the completions without cancelling the edit', async () => {
+    const { textarea } = await setup('')
+
+    await type(textarea, '[')
+    expect(screen.getByRole('listbox')).toBeInTheDocument()
+
+    fireEvent.keyDown(textarea, { key: 'Escape' })
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    expect(mockOnCancel).not.toHaveBeenCalled()
+
+    fireEvent.keyDown(textarea, { key: 'Enter' })
+    expect(mockOnCommit).toHaveBeenCalledWith('[', 'down')
+  })
+})
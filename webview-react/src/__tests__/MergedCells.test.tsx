@@ -0,0 +1,100 @@
+import { render, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import TableEditor from '../components/TableEditor'
+import { StatusProvider } from '../contexts/StatusContext'
+import { TableData } from '../types'
+
+const mockTableData: TableData = {
+  headers: ['Region', 'Q1', 'Q2'],
+  rows: [
+    ['East', '10', '20'],
+    ['', '30', '40'],
+    ['West', '50', '60']
+  ],
+  spans: [{ row: 0, col: 0, rowSpan: 2, colSpan: 1 }]
+}
+
+describe('Merged cells', () => {
+  const mockOnTableUpdate = jest.fn()
+  const mockOnSendMessage = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const setup = () => render(
+    <StatusProvider>
+      <TableEditor
+        tableData={mockTableData}
+        onTableUpdate={mockOnTableUpdate}
+        onSendMessage={mockOnSendMessage}
+      />
+    </StatusProvider>
+  )
+
+  const getCell = (row: number, col: number) => document.querySelector(`td[data-row="${row}"][data-col="${col}"]`) as HTMLElement | null
+
+  const selectRange = (from: HTMLElement, to: HTMLElement) => {
+    fireEvent.mouseDown(from)
+    fireEvent.mouseUp(from)
+    fireEvent.mouseDown(to, { shiftKey: true })
+    fireEvent.mouseUp(to)
+  }
+
+  const openEditorMenu = (container: HTMLElement) => {
+    fireEvent.contextMenu(container.querySelector('#table-content') as HTMLElement)
+  }
+
+  test('should render merged cells with rowspan and skip the covered cells', () => {
+    setup()
+
+    expect(getCell(0, 0)).toHaveAttribute('rowspan', '2')
+    expect(getCell(1, 0)).toBeNull()
+    expect(getCell(1, 1)).toBeInTheDocument()
+  })
+
+  test('should render merged header cells with colspan', () => {
+    render(
+      <StatusProvider>
+        <TableEditor
+          tableData={{ ...mockTableData, spans: [{ row: -1, col: 1, rowSpan: 1, colSpan: 2 }] }}
+          onTableUpdate={mockOnTableUpdate}
+          onSendMessage={mockOnSendMessage}
+        />
+      </StatusProvider>
+    )
+
+    const headers = document.querySelectorAll('th.column-header')
+    expect(headers).toHaveLength(2)
+    expect(headers[1]).toHaveAttribute('colspan', '2')
+    expect(headers[1]).toHaveTextContent('B:C')
+  })
+
+  test('should merge the selected range from the context menu', () => {
+    const { container, getByText } = setup()
+
+    selectRange(getCell(2, 1)!, getCell(2, 2)!)
+    openEditorMenu(container)
+    fireEvent.click(getByText('contextMenu.mergeCells'))
+
+    expect(mockOnSendMessage).toHaveBeenCalledWith({
+      command: 'mergeCells',
+      data: { row: 2, col: 1, rowSpan: 1, colSpan: 2, tableIndex: 0 }
+    })
+  })
+
+  test('should unmerge the selected merged cell from the context menu', () => {
+    const { container, getByText } = setup()
+
+    fireEvent.mouseDown(getCell(0, 0)!)
+    fireEvent.mouseUp(getCell(0, 0)!)
+    openEditorMenu(container)
+    expect(getByText('contextMenu.mergeCells').closest('button')).toBeDisabled()
+    fireEvent.click(getByText('contextMenu.unmergeCells'))
+
+    expect(mockOnSendMessage).toHaveBeenCalledWith({
+      command: 'unmergeCells',
+      data: { row: 0, col: 0, tableIndex: 0 }
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { act, fireEvent, render } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import TableEditor from '../components/TableEditor'
+import { StatusProvider } from '../contexts/StatusContext'
+import { TableData } from '../types'
+
+// 5万行のテーブル（仮想化して表示範囲の行だけを描画する）
+const ROW_COUNT = 50000
+
+const largeTableData: TableData = {
+  headers: ['ID', 'Name', 'City', 'Score'],
+  rows: Array.from({ length: ROW_COUNT }, (_, index) => [
+    String(index + 1),
+    `Name ${index + 1}`,
+    index % 2 === 0 ? 'Tokyo' : 'Osaka',
+    String(index % 100)
+  ])
+}
+
+Object.defineProperty(window, 'vscode', {
+  value: { postMessage: jest.fn() },
+  writable: true
+})
+
+describe('TableEditor virtualization benchmark', () => {
+  const renderLargeTable = () => render(
+    <StatusProvider>
+      <TableEditor
+        tableData={largeTableData}
+        onTableUpdate={jest.fn()}
+        onSendMessage={jest.fn()}
+      />
+    </StatusProvider>
+  )
+
+  const renderedDataRows = (container: HTMLElement) =>
+    container.querySelectorAll('tbody tr:not(.virtual-spacer-row)')
+
+  const findCell = (container: HTMLElement, row: number, col: number) =>
+    container.querySelector(`td[data-row="${row}"][data-col="${col}"]`)
+
+  test('renders a 50k-row table quickly with only the visible rows in the DOM', () => {
+    const startedAt = performance.now()
+    const { container } = renderLargeTable()
+    const elapsed = performance.now() - startedAt
+
+    // jsdom 上でも全行を描画すると数十秒かかるため、十分に余裕のある上限で確認する
+    expect(elapsed).toBeLessThan(5000)
+
+    const rows = renderedDataRows(container)
+    expect(rows.length).toBeGreaterThan(0)
+    expect(rows.length).toBeLessThan(200)
+    expect(findCell(container, 0, 0)).toHaveTextContent('1')
+    expect(findCell(container, ROW_COUNT - 1, 0)).toBeNull()
+
+    // 描画しない行はスペーサーで埋め、スクロール量を保つ
+    expect(container.querySelector('tr.virtual-spacer-row')).toBeInTheDocument()
+  })
+
+  test('renders the rows around the scroll position', () => {
+    const { container } = renderLargeTable()
+    const tableContainer = container.querySelector('.table-container') as HTMLElement
+
+    act(() => {
+      tableContainer.scrollTop = 32 * 25000
+      fireEvent.scroll(tableContainer)
+    })
+
+    expect(findCell(container, 25000, 1)).toHaveTextContent('Name 25001')
+    // 表示範囲外の行は描画しない（選択中のセルの行は描画したまま残す）
+    expect(findCell(container, 100, 1)).toBeNull()
+    expect(renderedDataRows(container).length).toBeLessThan(200)
+  })
+
+  test('keeps keyboard navigation working across rows that are not rendered', () => {
+    jest.useFakeTimers()
+    try {
+      const { container } = renderLargeTable()
+
+      fireEvent.mouseDown(findCell(container, 0, 0) as HTMLElement)
+      fireEvent.mouseUp(findCell(container, 0, 0) as HTMLElement)
+
+      act(() => {
+        fireEvent.keyDown(document, { key: 'End', ctrlKey: true })
+        jest.runOnlyPendingTimers()
+      })
+      expect(findCell(container, ROW_COUNT - 1, 3)).toHaveClass('selected')
+
+      act(() => {
+        fireEvent.keyDown(document, { key: 'PageUp' })
+        jest.runOnlyPendingTimers()
+      })
+      expect(findCell(container, ROW_COUNT - 11, 3)).toHaveClass('selected')
+      expect(renderedDataRows(container).length).toBeLessThan(200)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
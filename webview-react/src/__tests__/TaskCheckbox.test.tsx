@@ -0,0 +1,103 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import TableEditor from '../components/TableEditor'
+import StatusBar from '../components/StatusBar'
+import { StatusProvider } from '../contexts/StatusContext'
+import { TableData } from '../types'
+
+const mockTableData: TableData = {
+  headers: ['Task', 'Done'],
+  rows: [
+    ['Write docs', '[x]'],
+    ['Ship', '[ ] after review'],
+    ['Plan', '[x](plan.md)']
+  ]
+}
+
+describe('Task list checkbox cells', () => {
+  const mockOnTableUpdate = jest.fn()
+  const mockOnSendMessage = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const setup = (readOnly = false) => render(
+    <StatusProvider>
+      <TableEditor
+        tableData={mockTableData}
+        onTableUpdate={mockOnTableUpdate}
+        onSendMessage={mockOnSendMessage}
+        readOnly={readOnly}
+      />
+      <StatusBar />
+    </StatusProvider>
+  )
+
+  const getSentUpdates = () => mockOnSendMessage.mock.calls
+    .map(([message]) => message)
+    .filter(message => message.command === 'updateCell' || message.command === 'bulkUpdateCells')
+
+  test('should render checkbox cells and toggle them on click', () => {
+    setup()
+
+    const checkboxes = screen.getAllByRole('checkbox') as HTMLInputElement[]
+    expect(checkboxes.map(checkbox => checkbox.checked)).toEqual([true, false])
+    expect(screen.getByText('after review')).toBeInTheDocument()
+    // リンクの "[x](...)" はチェックボックスにしない
+    expect(screen.getByText('x')).toBeInTheDocument()
+
+    fireEvent.click(checkboxes[1])
+
+    expect(getSentUpdates()).toEqual([
+      { command: 'updateCell', data: { row: 1, col: 1, value: '[x] after review', tableIndex: 0 } }
+    ])
+  })
+
+  test('Space should check every selected task and then uncheck them', async () => {
+    setup()
+
+    const first = document.querySelector('td[data-row="0"][data-col="1"]') as HTMLElement
+    const last = document.querySelector('td[data-row="1"][data-col="1"]') as HTMLElement
+    fireEvent.mouseDown(first)
+    fireEvent.mouseUp(first)
+    fireEvent.mouseDown(last, { shiftKey: true })
+    fireEvent.mouseUp(last)
+
+    await act(async () => {
+      fireEvent.keyDown(document.body, { key: ' ' })
+    })
+
+    expect(getSentUpdates()).toEqual([
+      { command: 'bulkUpdateCells', data: { updates: [{ row: 1, col: 1, value: '[x] after review' }], tableIndex: 0 } }
+    ])
+    expect((screen.getAllByRole('checkbox') as HTMLInputElement[]).map(checkbox => checkbox.checked)).toEqual([true, true])
+
+    await act(async () => {
+      fireEvent.keyDown(document.body, { key: ' ' })
+    })
+
+    expect(getSentUpdates()[1].data.updates).toEqual([
+      { row: 0, col: 1, value: '[ ]' },
+      { row: 1, col: 1, value: '[ ] after review' }
+    ])
+  })
+
+  test('should show the task progress of each column in the status bar', () => {
+    const { container } = setup()
+
+    const progress = container.querySelectorAll('.status-task-progress span')
+    expect(progress).toHaveLength(1)
+    expect(progress[0]).not.toHaveClass('complete')
+  })
+
+  test('should not toggle tasks in read-only mode', () => {
+    setup(true)
+
+    const checkboxes = screen.getAllByRole('checkbox')
+    expect(checkboxes[1]).toBeDisabled()
+    fireEvent.click(checkboxes[1])
+
+    expect(getSentUpdates()).toEqual([])
+  })
+})
@@ -1,5 +1,5 @@
 import { WebviewCommunicationManager } from '../../communication/WebviewCommunicationManager';
-import { WebviewCommand, MessageType } from '../../../../src/communication/protocol';
+import { WebviewCommand, ExtensionCommand, MessageType } from '../../../../src/communication/protocol';
 
 /**
  * WebviewCommunicationManager Tests
@@ -190,6 +190,45 @@ describe('WebviewCommunicationManager', () => {
         });
     });
 
+    describe('Document Version', () => {
+        const receiveTableData = async (documentVersion: number) => {
+            window.dispatchEvent(new MessageEvent('message', {
+                data: {
+                    id: `table-${documentVersion}`,
+                    type: MessageType.NOTIFICATION,
+                    command: ExtensionCommand.UPDATE_TABLE_DATA,
+                    data: { data: [], documentVersion },
+                    timestamp: Date.now()
+                }
+            }));
+            await Promise.resolve();
+        };
+
+        test('should stamp edits with the version of the last received table data', async () => {
+            manager.updateCell(0, 0, 'before');
+            expect(sentMessages[0].documentVersion).toBeUndefined();
+
+            await receiveTableData(7);
+            manager.updateCell(0, 0, 'after');
+
+            expect(sentMessages[1].documentVersion).toBe(7);
+            expect(manager.getDocumentVersion()).toBe(7);
+        });
+
+        test('reapplyEdit should resend a conflicting edit with the current version', async () => {
+            await receiveTableData(9);
+            manager.reapplyEdit({
+                command: WebviewCommand.UPDATE_CELL,
+                tableIndex: 0,
+                data: { row: 1, col: 2, value: 'mine', tableIndex: 0 }
+            });
+
+            expect(sentMessages[0].command).toBe(WebviewCommand.UPDATE_CELL);
+            expect(sentMessages[0].data).toEqual({ row: 1, col: 2, value: 'mine', tableIndex: 0 });
+            expect(sentMessages[0].documentVersion).toBe(9);
+        });
+    });
+
     describe('Error Handling', () => {
         test('should handle VSCode API failures gracefully', () => {
             // Make postMessage throw an error
@@ -232,4 +232,86 @@ describe('useCommunication Hook', () => {
       consoleWarnSpy.mockRestore();
     });
   });
+
+  describe('Panel state persistence', () => {
+    test('should store the file URI in webview state when table data arrives', async () => {
+      mockVSCodeApi.getState.mockReturnValue({ other: 1 });
+      renderHook(() => useCommunication({ onTableData: jest.fn() }));
+
+      window.dispatchEvent(new MessageEvent('message', {
+        data: {
+          id: 'n1',
+          type: 'notification',
+          command: 'updateTableData',
+          timestamp: Date.now(),
+          data: { data: [], fileInfo: { uri: 'file:///test/sample.md' } }
+        }
+      }));
+
+      await waitFor(() => {
+        expect(mockVSCodeApi.setState).toHaveBeenCalledWith({ other: 1, uri: 'file:///test/sample.md' });
+      });
+    });
+  });
+
+  describe('Incremental table data sync', () => {
+    const dispatchNotification = (command: string, data: any) => {
+      window.dispatchEvent(new MessageEvent('message', {
+        data: { id: `n-${Math.random()}`, type: 'notification', command, timestamp: Date.now(), data }
+      }));
+    };
+
+    const initialTables = [{ headers: ['A', 'B'], rows: [['1', '2'], ['3', '4']] }];
+
+    test('should apply patches on top of the last received tables', async () => {
+      const onTableData = jest.fn();
+      renderHook(() => useCommunication({ onTableData }));
+
+      dispatchNotification('updateTableData', { data: initialTables, revision: 1 });
+      dispatchNotification('patchTableData', {
+        baseRevision: 1,
+        revision: 2,
+        patches: [{ tableIndex: 0, operations: [
+          { type: 'updateCells', updates: [{ row: 1, col: 0, value: 'x' }] },
+          { type: 'insertRows', index: 2, rows: [['5', '6']] }
+        ] }]
+      });
+
+      await waitFor(() => {
+        expect(onTableData).toHaveBeenCalledTimes(2);
+      });
+      expect(onTableData).toHaveBeenLastCalledWith([
+        { headers: ['A', 'B'], rows: [['1', '2'], ['x', '4'], ['5', '6']] }
+      ]);
+      expect(sentMessages.find(m => m.command === 'requestSync')).toBeUndefined();
+    });
+
+    test('should request a full sync when the revisions diverge', async () => {
+      const onTableData = jest.fn();
+      renderHook(() => useCommunication({ onTableData }));
+
+      dispatchNotification('updateTableData', { data: initialTables, revision: 1 });
+      dispatchNotification('patchTableData', { baseRevision: 2, revision: 3, patches: [] });
+      dispatchNotification('patchTableData', { baseRevision: 3, revision: 4, patches: [] });
+
+      await waitFor(() => {
+        expect(sentMessages.filter(m => m.command === 'requestSync')).toHaveLength(1);
+      });
+      expect(onTableData).toHaveBeenCalledTimes(1);
+    });
+
+    test('should revert to the last received tables when a cell update is rejected', async () => {
+      const onRevertTables = jest.fn();
+      const onError = jest.fn();
+      renderHook(() => useCommunication({ onRevertTables, onError }));
+
+      dispatchNotification('updateTableData', { data: initialTables, revision: 1 });
+      dispatchNotification('cellUpdateError', { row: 0, col: 1, error: 'expected a number' });
+
+      await waitFor(() => {
+        expect(onRevertTables).toHaveBeenCalledWith(initialTables);
+      });
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,128 @@
+import { renderHook, act } from '@testing-library/react'
+import { useSearch } from '../../hooks/useSearch'
+import { TableData } from '../../types'
+
+const tables: TableData[] = [
+  { headers: ['Name', 'Note'], rows: [['Alice', 'todo: a, todo: b'], ['Bob', 'done']] },
+  { headers: ['Task'], rows: [['todo: c']] }
+]
+
+describe('useSearch', () => {
+  test('previews replace-all and applies it as a single bulk update', () => {
+    const onBulkUpdate = jest.fn()
+    const { result } = renderHook(() => useSearch({
+      tables,
+      currentTableIndex: 0,
+      selectionRange: null,
+      onBulkUpdate
+    }))
+
+    act(() => {
+      result.current.setSearchText('todo: (\\w)')
+      result.current.setReplaceText('[$1]')
+      result.current.toggleOption('regex')
+    })
+    act(() => {
+      result.current.performSearch()
+    })
+    expect(result.current.searchState.results).toHaveLength(2)
+
+    act(() => {
+      result.current.openReplacePreview()
+    })
+    const [first] = result.current.replacePreview!
+    expect(first.matches.map(match => match.replacement)).toEqual(['[a]', '[b]'])
+
+    act(() => {
+      result.current.toggleReplaceMatch(first, 1)
+    })
+    act(() => {
+      result.current.applyReplacePreview()
+    })
+
+    expect(onBulkUpdate).toHaveBeenCalledTimes(1)
+    expect(onBulkUpdate).toHaveBeenCalledWith([
+      { tableIndex: 0, updates: [{ row: 0, col: 1, value: '[a], todo: b' }] },
+      { tableIndex: 1, updates: [{ row: 0, col: 0, value: '[c]' }] }
+    ])
+    expect(result.current.replacePreview).toBeNull()
+    expect(result.current.searchState.results).toEqual([])
+  })
+
+  test('excludes a whole cell from the preview', () => {
+    const onBulkUpdate = jest.fn()
+    const { result } = renderHook(() => useSearch({
+      tables,
+      currentTableIndex: 0,
+      selectionRange: null,
+      onBulkUpdate
+    }))
+
+    act(() => {
+      result.current.setSearchText('todo')
+      result.current.setReplaceText('later')
+    })
+    act(() => {
+      result.current.performSearch()
+    })
+    act(() => {
+      result.current.openReplacePreview()
+    })
+    act(() => {
+      result.current.toggleReplacePreviewItem(result.current.replacePreview![1])
+    })
+    act(() => {
+      result.current.applyReplacePreview()
+    })
+
+    expect(onBulkUpdate).toHaveBeenCalledWith([
+      { tableIndex: 0, updates: [{ row: 0, col: 1, value: 'later: a, later: b' }] }
+    ])
+  })
+
+  test('searches the workspace and replaces across files through the extension', async () => {
+    const match = { uri: 'file:///docs/other.md', fileName: 'docs/other.md', tableIndex: 1, row: 2, col: 0, value: 'todo: d' }
+    const onSearchWorkspace = jest.fn().mockResolvedValue({ results: [match], truncated: false })
+    const onOpenWorkspaceResult = jest.fn()
+    const onWorkspaceReplace = jest.fn()
+    const onBulkUpdate = jest.fn()
+    const { result } = renderHook(() => useSearch({
+      tables,
+      currentTableIndex: 0,
+      selectionRange: null,
+      onBulkUpdate,
+      onSearchWorkspace,
+      onOpenWorkspaceResult,
+      onWorkspaceReplace
+    }))
+
+    act(() => {
+      result.current.setSearchText('todo')
+      result.current.setReplaceText('done')
+      result.current.setScope('workspace')
+    })
+    await act(async () => {
+      result.current.performSearch()
+    })
+    expect(onSearchWorkspace).toHaveBeenCalledWith('todo', expect.objectContaining({ regex: false }))
+    expect(result.current.searchState.results).toEqual([match])
+    // 結果を選ぶまで他のファイルは開かない
+    expect(onOpenWorkspaceResult).not.toHaveBeenCalled()
+
+    act(() => {
+      result.current.goToResult(0)
+    })
+    expect(onOpenWorkspaceResult).toHaveBeenCalledWith(match)
+
+    act(() => {
+      result.current.openReplacePreview()
+    })
+    act(() => {
+      result.current.applyReplacePreview()
+    })
+    expect(onWorkspaceReplace).toHaveBeenCalledWith([
+      { uri: 'file:///docs/other.md', tables: [{ tableIndex: 1, updates: [{ row: 2, col: 0, value: 'done: d', original: 'todo: d' }] }] }
+    ])
+    expect(onBulkUpdate).not.toHaveBeenCalled()
+  })
+})
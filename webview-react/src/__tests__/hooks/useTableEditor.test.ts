@@ -171,6 +171,78 @@ describe('useTableEditor', () => {
     expect(result.current.tableData.rows[2][0]).toBe('Charlie')
   })
 
+  test('adds a secondary sort key with shift-click', () => {
+    const mockTableData: TableData = {
+      headers: ['Status', 'Priority'],
+      rows: [['open', '1'], ['done', '2'], ['open', '3'], ['done', '1']]
+    }
+    const { result } = renderHook(() => useTableEditor(mockTableData))
+
+    act(() => {
+      result.current.sortColumn(0)
+    })
+    act(() => {
+      result.current.sortColumn(1, true)
+    })
+    act(() => {
+      result.current.sortColumn(1, true) // Priority を降順に
+    })
+
+    expect(result.current.editorState.sortState.keys).toEqual([
+      { column: 0, direction: 'asc' },
+      { column: 1, direction: 'desc' }
+    ])
+    expect(result.current.tableData.rows).toEqual([['done', '2'], ['done', '1'], ['open', '3'], ['open', '1']])
+    expect(result.current.viewToModelMap).toEqual([1, 3, 2, 0])
+  })
+
+  test('hides filtered rows from the view and maps edits to model rows', () => {
+    const mockTableData = createMockTableData()
+    const { result } = renderHook(() => useTableEditor(mockTableData))
+
+    act(() => {
+      result.current.setColumnFilter(1, { range: { min: 30 } })
+    })
+
+    expect(result.current.tableData.rows.map(row => row[0])).toEqual(['Bob', 'Charlie'])
+    expect(result.current.viewToModelMap).toEqual([1, 2])
+    expect(result.current.hiddenRowIndices).toEqual([0])
+
+    act(() => {
+      result.current.updateCell(1, 2, 'Nara')
+    })
+
+    expect(result.current.modelTableData.rows[2][2]).toBe('Nara')
+  })
+
+  test('keeps hidden rows when committing a sort and deletes them when committing a filter', () => {
+    const mockTableData = createMockTableData()
+    const { result } = renderHook(() => useTableEditor(mockTableData))
+
+    act(() => {
+      result.current.setColumnFilter(0, { values: ['Alice', 'Charlie'] })
+    })
+    act(() => {
+      result.current.sortColumn(1)
+    })
+    act(() => {
+      result.current.sortColumn(1) // Age 降順
+    })
+    act(() => {
+      result.current.commitSort()
+    })
+
+    expect(result.current.modelTableData.rows.map(row => row[0])).toEqual(['Charlie', 'Bob', 'Alice'])
+    expect(result.current.hiddenRowIndices).toEqual([1])
+
+    act(() => {
+      result.current.commitFilter()
+    })
+
+    expect(result.current.modelTableData.rows.map(row => row[0])).toEqual(['Charlie', 'Alice'])
+    expect(result.current.filterState).toEqual({})
+  })
+
   test('clears selection correctly', () => {
     const mockTableData = createMockTableData()
     const { result } = renderHook(() => useTableEditor(mockTableData))
@@ -186,4 +258,38 @@ describe('useTableEditor', () => {
     expect(result.current.editorState.selectedCells.size).toBe(0)
     expect(result.current.editorState.selectionRange).toBeNull()
   })
+
+  test('restores saved selection instead of A1 when initializing', () => {
+    const mockTableData = createMockTableData()
+    const { result } = renderHook(() => useTableEditor(
+      mockTableData,
+      'table-0',
+      undefined,
+      { initializeSelectionOnDataChange: true, initialSelection: { row: 2, col: 1 } }
+    ))
+
+    expect(result.current.editorState.selectionRange).toEqual({ start: { row: 2, col: 1 }, end: { row: 2, col: 1 } })
+  })
+
+  test('uses external column widths when provided', () => {
+    const mockTableData = createMockTableData()
+    const setColumnWidths = jest.fn()
+    const { result } = renderHook(() => useTableEditor(
+      mockTableData,
+      'table-0',
+      undefined,
+      undefined,
+      undefined,
+      { columnWidths: { 1: 240 }, setColumnWidths }
+    ))
+
+    expect(result.current.editorState.columnWidths).toEqual({ 1: 240 })
+
+    act(() => {
+      result.current.setColumnWidth(0, 180)
+    })
+
+    expect(setColumnWidths).toHaveBeenCalledTimes(1)
+    expect(setColumnWidths.mock.calls[0][0]({ 1: 240 })).toEqual({ 0: 180, 1: 240 })
+  })
 })
\ No newline at end of file
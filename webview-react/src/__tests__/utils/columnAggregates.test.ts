@@ -0,0 +1,63 @@
+import {
+  computeAggregate,
+  computeSelectionStats,
+  formatAggregateValue,
+  getDefaultAggregate,
+  isNumericColumn,
+  parseNumericValue
+} from '../../utils/columnAggregates'
+
+describe('columnAggregates', () => {
+  describe('parseNumericValue', () => {
+    it('should parse numbers with thousands separators', () => {
+      expect(parseNumericValue('1,234.5')).toBe(1234.5)
+      expect(parseNumericValue(' -3 ')).toBe(-3)
+    })
+
+    it('should return null for empty or non-numeric values', () => {
+      expect(parseNumericValue('')).toBeNull()
+      expect(parseNumericValue('abc')).toBeNull()
+    })
+  })
+
+  describe('isNumericColumn', () => {
+    it('should ignore empty cells', () => {
+      expect(isNumericColumn(['1', '', '3'])).toBe(true)
+      expect(getDefaultAggregate(['1', '', '3'])).toBe('sum')
+    })
+
+    it('should treat mixed or empty columns as non-numeric', () => {
+      expect(isNumericColumn(['1', 'x'])).toBe(false)
+      expect(isNumericColumn(['', ''])).toBe(false)
+      expect(getDefaultAggregate(['a', 'b'])).toBe('none')
+    })
+  })
+
+  describe('computeAggregate', () => {
+    const values = ['10', '20', '', 'n/a', '30']
+
+    it('should compute each aggregate over numeric values', () => {
+      expect(computeAggregate(values, 'sum')).toBe(60)
+      expect(computeAggregate(values, 'avg')).toBe(20)
+      expect(computeAggregate(values, 'count')).toBe(3)
+      expect(computeAggregate(values, 'min')).toBe(10)
+      expect(computeAggregate(values, 'max')).toBe(30)
+      expect(computeAggregate(values, 'none')).toBeNull()
+    })
+
+    it('should return null for avg/min/max without numbers', () => {
+      expect(computeAggregate(['a'], 'avg')).toBeNull()
+      expect(formatAggregateValue(computeAggregate(['a'], 'max'))).toBe('')
+    })
+  })
+
+  describe('computeSelectionStats', () => {
+    it('should count non-empty cells and sum numeric cells', () => {
+      expect(computeSelectionStats(['1', '2', 'text', ''])).toEqual({ sum: 3, average: 1.5, count: 3, numericCount: 2 })
+    })
+
+    it('should have null average when no numeric cells are selected', () => {
+      expect(computeSelectionStats(['a', 'b']).average).toBeNull()
+    })
+  })
+})
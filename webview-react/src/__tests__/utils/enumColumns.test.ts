@@ -0,0 +1,54 @@
+import { filterEnumOptions, findDisallowedEnumValues, getEnumColumns } from '../../utils/enumColumns'
+
+describe('enumColumns', () => {
+  const statuses = ['todo', 'done', 'todo', 'doing', 'done', 'todo']
+  const table = {
+    headers: ['Task', 'Status', 'Points', 'Owner'],
+    rows: statuses.map((status, index) => [`Task ${index}`, status, String(index % 2), index % 2 ? 'Bob' : 'Alice'])
+  }
+
+  it('should infer enum columns from a few repeated text values', () => {
+    const columns = getEnumColumns(table)
+
+    expect(columns[0]).toBeUndefined()
+    expect(columns[1]).toEqual({ values: ['doing', 'done', 'todo'], configured: false })
+    // 数値の列は推定しない
+    expect(columns[2]).toBeUndefined()
+    expect(columns[3]).toEqual({ values: ['Alice', 'Bob'], configured: false })
+  })
+
+  it('should use the choices of the validation rules and skip other ruled columns', () => {
+    const columns = getEnumColumns({
+      ...table,
+      validationRules: { Status: { type: 'enum', values: ['todo', 'doing', 'done', 'blocked'] }, Owner: { required: true } }
+    })
+
+    expect(columns[1]).toEqual({ values: ['todo', 'doing', 'done', 'blocked'], configured: true })
+    expect(columns[3]).toBeUndefined()
+  })
+
+  it('should not infer enums from short columns', () => {
+    expect(getEnumColumns({ headers: ['Status'], rows: [['todo'], ['done'], ['todo']] })).toEqual([undefined])
+  })
+
+  it('should report values outside the choices once per column', () => {
+    const columns = getEnumColumns(table)
+
+    expect(findDisallowedEnumValues([
+      { row: 0, col: 1, value: 'Done ' },
+      { row: 1, col: 1, value: 'Done' },
+      { row: 2, col: 1, value: 'done' },
+      { row: 3, col: 1, value: '' },
+      { row: 4, col: 0, value: 'anything' }
+    ], columns)).toEqual([{ col: 1, value: 'Done' }])
+  })
+
+  it('should show every choice until the text differs from them', () => {
+    const values = ['todo', 'doing', 'done']
+
+    expect(filterEnumOptions(values, '')).toEqual(values)
+    expect(filterEnumOptions(values, 'done')).toEqual(values)
+    expect(filterEnumOptions(values, 'DO')).toEqual(values)
+    expect(filterEnumOptions(values, 'in')).toEqual(['doing'])
+  })
+})
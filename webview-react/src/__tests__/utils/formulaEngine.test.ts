@@ -0,0 +1,106 @@
+import {
+  buildFormulaCell,
+  evaluateFormulas,
+  parseCellReference,
+  parseFormulaCell,
+  toCellReference
+} from '../../utils/formulaEngine'
+
+describe('formulaEngine', () => {
+  describe('parseFormulaCell', () => {
+    it('should parse stored formula cells', () => {
+      expect(parseFormulaCell('<!--=A1*B1-->42')).toEqual({ formula: 'A1*B1', value: '42' })
+    })
+
+    it('should return null for plain cells', () => {
+      expect(parseFormulaCell('42')).toBeNull()
+      expect(parseFormulaCell('=A1')).toBeNull()
+    })
+  })
+
+  describe('cell references', () => {
+    it('should round-trip A1 references with getColumnLetter', () => {
+      expect(parseCellReference('B2')).toEqual({ row: 1, col: 1 })
+      expect(parseCellReference('AA10')).toEqual({ row: 9, col: 26 })
+      expect(toCellReference(9, 26)).toBe('AA10')
+    })
+
+    it('should reject row 0 and malformed references', () => {
+      expect(parseCellReference('A0')).toBeNull()
+      expect(parseCellReference('1A')).toBeNull()
+    })
+  })
+
+  describe('evaluateFormulas', () => {
+    it('should evaluate arithmetic and functions', () => {
+      const rows = [
+        ['2', '3', buildFormulaCell('A1*B1', '')],
+        ['4', '5', buildFormulaCell('SUM(A1:B2)', '')],
+        ['', '', buildFormulaCell('AVERAGE(A1:A2) + MAX(B1:B2) - MIN(A1:B1)', '')],
+        ['', '', buildFormulaCell('ROUND(0.1 + 0.2, 1)', '')]
+      ]
+      const results = evaluateFormulas(rows)
+      expect(results.get('0-2')).toEqual({ value: '6' })
+      expect(results.get('1-2')).toEqual({ value: '14' })
+      expect(results.get('2-2')).toEqual({ value: '6' })
+      expect(results.get('3-2')).toEqual({ value: '0.3' })
+    })
+
+    it('should evaluate chained formulas regardless of order', () => {
+      const rows = [
+        [buildFormulaCell('A2+1', ''), '1'],
+        [buildFormulaCell('B1*10', ''), '']
+      ]
+      const results = evaluateFormulas(rows)
+      expect(results.get('0-0')?.value).toBe('11')
+      expect(results.get('1-0')?.value).toBe('10')
+    })
+
+    it('should detect circular references', () => {
+      const rows = [
+        [buildFormulaCell('A2', ''), buildFormulaCell('A1+1', '')],
+        [buildFormulaCell('A1', ''), '']
+      ]
+      const results = evaluateFormulas(rows)
+      expect(results.get('0-0')?.error).toBe('#CYCLE!')
+      expect(results.get('1-0')?.error).toBe('#CYCLE!')
+      expect(results.get('0-1')?.error).toBe('#CYCLE!')
+    })
+
+    it('should report evaluation errors', () => {
+      const rows = [
+        ['text', buildFormulaCell('A1*2', '')],
+        ['0', buildFormulaCell('1/A2', '')],
+        ['', buildFormulaCell('Z99', '')],
+        ['', buildFormulaCell('UNKNOWN(1)', '')],
+        ['', buildFormulaCell('1+', '')]
+      ]
+      const results = evaluateFormulas(rows)
+      expect(results.get('0-1')?.error).toBe('#VALUE!')
+      expect(results.get('1-1')?.error).toBe('#DIV/0!')
+      expect(results.get('2-1')?.error).toBe('#REF!')
+      expect(results.get('3-1')?.error).toBe('#NAME?')
+      expect(results.get('4-1')?.error).toBe('#ERROR!')
+    })
+
+    it('should not expand ranges beyond the table', () => {
+      const rows = [
+        ['1', buildFormulaCell('SUM(A1:ZZZ999999)', '')],
+        ['2', buildFormulaCell('SUM(A1:A2)', '')]
+      ]
+      const results = evaluateFormulas(rows)
+      expect(results.get('0-1')?.error).toBe('#REF!')
+      expect(results.get('1-1')?.value).toBe('3')
+    })
+
+    it('should only recalculate targets and reuse stored values for others', () => {
+      const rows = [
+        ['1', buildFormulaCell('A1+1', '99')],
+        ['', buildFormulaCell('B1*2', '')]
+      ]
+      const results = evaluateFormulas(rows, new Set(['1-1']))
+      expect(results.has('0-1')).toBe(false)
+      expect(results.get('1-1')?.value).toBe('198')
+    })
+  })
+})
@@ -0,0 +1,17 @@
+import { getFrozenColumnOffsets, getLastFrozenColumn } from '../../utils/frozenPanes'
+
+describe('frozenPanes', () => {
+  describe('getFrozenColumnOffsets', () => {
+    it('should place frozen columns after the row numbers using their widths', () => {
+      expect(getFrozenColumnOffsets({ 0: 200 }, 3)).toEqual({ 0: 60, 1: 260, 2: 410 })
+      expect(getFrozenColumnOffsets({}, 0)).toEqual({})
+    })
+
+    it('should skip the first column when it is shown as row headers', () => {
+      const headerConfig = { hasColumnHeaders: true, hasRowHeaders: true }
+      expect(getFrozenColumnOffsets({ 0: 200, 1: 80 }, 3, headerConfig)).toEqual({ 1: 60, 2: 140 })
+      expect(getLastFrozenColumn(1, headerConfig)).toBe(-1)
+      expect(getLastFrozenColumn(3, headerConfig)).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { renderInlineMarkdown } from '../../utils/inlineMarkdown'
+
+describe('inlineMarkdown', () => {
+  it('should render emphasis, strikethrough and code', () => {
+    expect(renderInlineMarkdown('**bold** and *italic* and ~~gone~~')).toBe(
+      '<strong>bold</strong> and <em>italic</em> and <del>gone</del>'
+    )
+    expect(renderInlineMarkdown('__bold__ _it_ snake_case_name')).toBe('<strong>bold</strong> <em>it</em> snake_case_name')
+    expect(renderInlineMarkdown('run `a **b** <i>`')).toBe('run <code>a **b** &lt;i&gt;</code>')
+  })
+
+  it('should escape HTML and keep line breaks and escaped pipes', () => {
+    expect(renderInlineMarkdown('<script>alert(1)</script><br/>a \\| b')).toBe(
+      '&lt;script&gt;alert(1)&lt;/script&gt;<br>a | b'
+    )
+    expect(renderInlineMarkdown('\\*not italic\\*')).toBe('*not italic*')
+  })
+
+  it('should render links that are opened through the extension', () => {
+    expect(renderInlineMarkdown('see [the **docs**](https://example.com/a_b_c "Docs")')).toBe(
+      'see <a class="cell-link" data-href="https://example.com/a_b_c" title="Docs">the <strong>docs</strong></a>'
+    )
+    expect(renderInlineMarkdown('<https://example.com>')).toBe(
+      '<a class="cell-link" data-href="https://example.com" title="https://example.com">https://example.com</a>'
+    )
+    expect(renderInlineMarkdown('[x](javascript:alert("1"))')).not.toContain('alert("1")')
+  })
+
+  it('should resolve images relative to the document', () => {
+    const baseUri = 'https://file.vscode-resource.test/docs'
+
+    expect(renderInlineMarkdown('![logo](images/logo.png)', { baseUri })).toBe(
+      '<img class="cell-image" src="https://file.vscode-resource.test/docs/images/logo.png" alt="logo" title="logo">'
+    )
+    expect(renderInlineMarkdown('![up](../a b.png)', { baseUri })).toBe('![up](../a b.png)')
+    expect(renderInlineMarkdown('![up](<../a.png>)', { baseUri })).toContain('src="https://file.vscode-resource.test/a.png"')
+    // 基準が無い場合・他のスキームは代替テキストで表示
+    expect(renderInlineMarkdown('![logo](images/logo.png)')).toBe('logo')
+    expect(renderInlineMarkdown('![x](file:///etc/passwd)', { baseUri })).toBe('x')
+    expect(renderInlineMarkdown('![plain](http://example.com/a.png)', { baseUri })).toBe('plain')
+    expect(renderInlineMarkdown('![secure](https://example.com/a.png)')).toContain('src="https://example.com/a.png"')
+  })
+
+  it('should mark broken links', () => {
+    const isBrokenLink = (href: string) => href === 'missing.md'
+
+    expect(renderInlineMarkdown('[a](missing.md) [b](spec.md)', { isBrokenLink, brokenLinkTitle: 'Not found' })).toBe(
+      '<a class="cell-link broken" data-href="missing.md" title="Not found: missing.md">a</a> ' +
+      '<a class="cell-link" data-href="spec.md" title="spec.md">b</a>'
+    )
+  })
+})
@@ -0,0 +1,84 @@
+import {
+  LinkTargetsResult,
+  createBrokenLinkChecker,
+  getLinkCompletionContext,
+  getLinkCompletions
+} from '../../utils/linkTargets'
+
+const targets: LinkTargetsResult = {
+  files: ['../design/spec.md', 'images/logo.png', 'My%20Notes.md', 'sub/readme.md'],
+  documents: [
+    { path: 'index.md', headings: [{ text: 'Overview', level: 1, slug: 'overview' }, { text: 'Open Issues', level: 2, slug: 'open-issues' }] },
+    { path: '../design/spec.md', headings: [{ text: 'Design Spec', level: 1, slug: 'design-spec' }, { text: 'Usage', level: 2, slug: 'usage' }] },
+    { path: 'My%20Notes.md', headings: [] }
+  ],
+  images: ['images/logo.png'],
+  currentDocument: 'index.md',
+  truncated: false
+}
+
+describe('linkTargets', () => {
+  describe('getLinkCompletionContext', () => {
+    it('should detect labels, paths and headings before the caret', () => {
+      expect(getLinkCompletionContext('see [spe', 8)).toEqual({ kind: 'label', start: 4, query: 'spe' })
+      expect(getLinkCompletionContext('see [spec](../de', 16)).toEqual({ kind: 'path', start: 11, query: '../de', image: false })
+      expect(getLinkCompletionContext('![logo](im', 10)).toEqual({ kind: 'path', start: 8, query: 'im', image: true })
+      expect(getLinkCompletionContext('[spec](../design/spec.md#us', 27))
+        .toEqual({ kind: 'heading', start: 25, query: 'us', documentPath: '../design/spec.md' })
+      expect(getLinkCompletionContext('[top](#', 7)).toEqual({ kind: 'heading', start: 7, query: '', documentPath: '' })
+    })
+
+    it('should ignore finished links, task boxes, images and other lines', () => {
+      expect(getLinkCompletionContext('[a](b.md) done', 14)).toBeNull()
+      expect(getLinkCompletionContext('[ ] task', 2)).toBeNull()
+      expect(getLinkCompletionContext('![alt', 5)).toBeNull()
+      expect(getLinkCompletionContext('\\[x', 3)).toBeNull()
+      expect(getLinkCompletionContext('[ab\nc', 5)).toBeNull()
+    })
+  })
+
+  describe('getLinkCompletions', () => {
+    it('should suggest headings of the current document and other documents for labels', () => {
+      expect(getLinkCompletions({ kind: 'label', start: 0, query: '' }, targets)).toEqual([
+        { label: 'Overview', detail: '#overview', insertText: '[Overview](#overview)' },
+        { label: 'Open Issues', detail: '#open-issues', insertText: '[Open Issues](#open-issues)' },
+        { label: 'Design Spec', detail: '../design/spec.md', insertText: '[Design Spec](../design/spec.md)' },
+        { label: 'My Notes', detail: 'My Notes.md', insertText: '[My Notes](My%20Notes.md)' }
+      ])
+      expect(getLinkCompletions({ kind: 'label', start: 0, query: 'note' }, targets).map(item => item.label)).toEqual(['My Notes'])
+    })
+
+    it('should suggest files, images and headings of the linked document', () => {
+      expect(getLinkCompletions({ kind: 'path', start: 0, query: 'my n' }, targets)).toEqual([{ label: 'My Notes.md', insertText: 'My%20Notes.md' }])
+      expect(getLinkCompletions({ kind: 'path', start: 0, query: '', image: true }, targets).map(item => item.insertText)).toEqual(['images/logo.png'])
+      expect(getLinkCompletions({ kind: 'heading', start: 0, query: 'us', documentPath: './../design/spec.md' }, targets))
+        .toEqual([{ label: 'Usage', detail: '#usage', insertText: 'usage' }])
+      expect(getLinkCompletions({ kind: 'heading', start: 0, query: 'issue', documentPath: '' }, targets).map(item => item.insertText)).toEqual(['open-issues'])
+    })
+  })
+
+  describe('createBrokenLinkChecker', () => {
+    const isBroken = createBrokenLinkChecker(targets)
+
+    it('should flag missing files and headings', () => {
+      expect(isBroken('missing.md')).toBe(true)
+      expect(isBroken('../design/spec.md#nothing')).toBe(true)
+      expect(isBroken('#overview-2')).toBe(true)
+    })
+
+    it('should accept existing files, headings and folders', () => {
+      expect(isBroken('../design/spec.md#usage')).toBe(false)
+      expect(isBroken('./sub/../My Notes.md')).toBe(false)
+      expect(isBroken('<My Notes.md>')).toBe(false)
+      expect(isBroken('#open-issues')).toBe(false)
+      expect(isBroken('sub/')).toBe(false)
+      expect(isBroken('images/logo.png?raw=1')).toBe(false)
+    })
+
+    it('should not check external links, root paths or truncated file lists', () => {
+      expect(isBroken('https://example.com/missing')).toBe(false)
+      expect(isBroken('/docs/missing.md')).toBe(false)
+      expect(createBrokenLinkChecker({ ...targets, truncated: true })('missing.md')).toBe(false)
+    })
+  })
+})
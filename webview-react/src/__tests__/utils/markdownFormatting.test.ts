@@ -0,0 +1,52 @@
+import { insertLink, toggleInlineFormat } from '../../utils/markdownFormatting'
+
+describe('markdownFormatting', () => {
+  describe('toggleInlineFormat', () => {
+    it('should wrap the selection and keep the text selected', () => {
+      expect(toggleInlineFormat('make this bold', 5, 9, 'bold')).toEqual({ value: 'make **this** bold', selectionStart: 7, selectionEnd: 11 })
+      expect(toggleInlineFormat('run npm test', 4, 12, 'code')).toEqual({ value: 'run `npm test`', selectionStart: 5, selectionEnd: 13 })
+    })
+
+    it('should leave surrounding spaces of the selection outside the markers', () => {
+      expect(toggleInlineFormat('a word here', 1, 7, 'strikethrough').value).toBe('a ~~word~~ here')
+    })
+
+    it('should insert empty markers around the caret', () => {
+      expect(toggleInlineFormat('ab', 1, 1, 'italic')).toEqual({ value: 'a**b', selectionStart: 2, selectionEnd: 2 })
+    })
+
+    it('should remove markers around or inside the selection', () => {
+      expect(toggleInlineFormat('make **this** bold', 7, 11, 'bold')).toEqual({ value: 'make this bold', selectionStart: 5, selectionEnd: 9 })
+      expect(toggleInlineFormat('make **this** bold', 5, 13, 'bold')).toEqual({ value: 'make this bold', selectionStart: 5, selectionEnd: 9 })
+    })
+
+    it('should tell italic markers from bold markers', () => {
+      expect(toggleInlineFormat('**bold**', 2, 6, 'italic').value).toBe('***bold***')
+      expect(toggleInlineFormat('*text*', 1, 5, 'bold').value).toBe('***text***')
+      expect(toggleInlineFormat('***both***', 3, 7, 'italic').value).toBe('**both**')
+    })
+
+    it('should use double backticks for code containing a backtick', () => {
+      expect(toggleInlineFormat('a`b', 0, 3, 'code').value).toBe('`` a`b ``')
+    })
+  })
+
+  describe('insertLink', () => {
+    it('should use the selection as the label', () => {
+      const result = insertLink('see the spec', 8, 12, '../design/spec.md#usage')
+      expect(result.value).toBe('see the [spec](../design/spec.md#usage)')
+      expect(result.selectionStart).toBe(result.value.length)
+    })
+
+    it('should select the file name as the label without a selection', () => {
+      const result = insertLink('', 0, 0, 'docs/My%20Notes.md')
+      expect(result.value).toBe('[My Notes](docs/My%20Notes.md)')
+      expect(result.value.slice(result.selectionStart, result.selectionEnd)).toBe('My Notes')
+    })
+
+    it('should keep URLs as labels and wrap targets with spaces', () => {
+      expect(insertLink('', 0, 0, 'https://example.com').value).toBe('[https://example.com](https://example.com)')
+      expect(insertLink('x', 0, 1, 'my file.md').value).toBe('[x](<my file.md>)')
+    })
+  })
+})
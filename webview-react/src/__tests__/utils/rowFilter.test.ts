@@ -0,0 +1,53 @@
+import { getDistinctColumnValues, isFilterActive, matchesColumnFilter, matchesFilters } from '../../utils/rowFilter'
+
+describe('rowFilter', () => {
+  describe('matchesColumnFilter', () => {
+    it('should match selected values including blanks', () => {
+      const filter = { values: ['open', ''] }
+      expect(matchesColumnFilter(' open ', filter)).toBe(true)
+      expect(matchesColumnFilter('', filter)).toBe(true)
+      expect(matchesColumnFilter('done', filter)).toBe(false)
+    })
+
+    it('should match text conditions case-insensitively', () => {
+      expect(matchesColumnFilter('Fix Login bug', { text: { mode: 'contains', pattern: 'login' } })).toBe(true)
+      expect(matchesColumnFilter('ISSUE-42', { text: { mode: 'regex', pattern: '^issue-\\d+$' } })).toBe(true)
+      expect(matchesColumnFilter('TASK-42', { text: { mode: 'regex', pattern: '^issue-\\d+$' } })).toBe(false)
+      // 入力途中の不正な正規表現は条件なし
+      expect(matchesColumnFilter('anything', { text: { mode: 'regex', pattern: '[' } })).toBe(true)
+    })
+
+    it('should match numeric ranges and exclude non-numeric cells', () => {
+      const filter = { range: { min: 10, max: 20 } }
+      expect(matchesColumnFilter('10', filter)).toBe(true)
+      expect(matchesColumnFilter('20.5', filter)).toBe(false)
+      expect(matchesColumnFilter('', filter)).toBe(false)
+      expect(matchesColumnFilter('n/a', filter)).toBe(false)
+    })
+
+    it('should include both ends of a date range', () => {
+      const filter = { dateRange: { from: '2024-01-10', to: '2024-01-20' } }
+      expect(matchesColumnFilter('2024-01-10', filter)).toBe(true)
+      expect(matchesColumnFilter('2024-01-20', filter)).toBe(true)
+      expect(matchesColumnFilter('2024-01-21', filter)).toBe(false)
+      expect(matchesColumnFilter('soon', filter)).toBe(false)
+    })
+  })
+
+  describe('matchesFilters', () => {
+    it('should combine column filters', () => {
+      const filters = { 0: { values: ['open'] }, 1: { range: { min: 2 } } }
+      expect(isFilterActive(filters)).toBe(true)
+      expect(matchesFilters(['open', '3'], filters)).toBe(true)
+      expect(matchesFilters(['open', '1'], filters)).toBe(false)
+      expect(matchesFilters(['done', '3'], filters)).toBe(false)
+      expect(isFilterActive({ 0: {} })).toBe(false)
+    })
+  })
+
+  describe('getDistinctColumnValues', () => {
+    it('should return unique values in natural order', () => {
+      expect(getDistinctColumnValues([['Item10'], ['Item2'], [''], ['Item2']], 0)).toEqual(['', 'Item2', 'Item10'])
+    })
+  })
+})
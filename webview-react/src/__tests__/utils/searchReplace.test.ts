@@ -0,0 +1,104 @@
+import {
+  applyPreserveCase,
+  applyReplaceMatches,
+  buildReplacePreview,
+  createSearchPattern,
+  findReplaceMatches,
+  getReplaceUpdates,
+  getWorkspaceReplaceFiles
+} from '../../utils/searchReplace'
+
+const plain = { caseSensitive: false, wholeWord: false, regex: false }
+const regex = { caseSensitive: false, wholeWord: false, regex: true }
+
+describe('searchReplace', () => {
+  describe('findReplaceMatches', () => {
+    it('should expand capture groups in regex mode', () => {
+      const pattern = createSearchPattern('(\\w+)@(\\w+)', regex)!
+      const matches = findReplaceMatches('alice@example bob@test', pattern, '$2:$1', regex)
+      expect(matches.map(m => m.replacement)).toEqual(['example:alice', 'test:bob'])
+      expect(applyReplaceMatches('alice@example bob@test', matches)).toBe('example:alice test:bob')
+    })
+
+    it('should expand named groups and whole-match references', () => {
+      const pattern = createSearchPattern('(?<year>\\d{4})-(?<month>\\d{2})', regex)!
+      const [match] = findReplaceMatches('2024-03', pattern, '$<month>/$<year> ($&)', regex)
+      expect(match.replacement).toBe('03/2024 (2024-03)')
+    })
+
+    it('should treat $ literally in plain mode', () => {
+      const pattern = createSearchPattern('price', plain)!
+      const [match] = findReplaceMatches('price', pattern, '$1 $&', plain)
+      expect(match.replacement).toBe('$1 $&')
+    })
+
+    it('should convert \\n in the replacement to <br/>', () => {
+      const pattern = createSearchPattern(', ', regex)!
+      const matches = findReplaceMatches('a, b', pattern, '\\n', regex)
+      expect(applyReplaceMatches('a, b', matches)).toBe('a<br/>b')
+    })
+
+    it('should handle empty matches without looping forever', () => {
+      const pattern = createSearchPattern('^', regex)!
+      const matches = findReplaceMatches('task', pattern, '- ', regex)
+      expect(matches).toHaveLength(1)
+      expect(applyReplaceMatches('task', matches)).toBe('- task')
+    })
+
+    it('should preserve the case of each match', () => {
+      const options = { ...plain, preserveCase: true }
+      const pattern = createSearchPattern('apple', options)!
+      const matches = findReplaceMatches('apple Apple APPLE', pattern, 'orange', options)
+      expect(applyReplaceMatches('apple Apple APPLE', matches)).toBe('orange Orange ORANGE')
+    })
+  })
+
+  describe('applyPreserveCase', () => {
+    it('should keep the replacement as typed for mixed case matches', () => {
+      expect(applyPreserveCase('iPhone', 'android')).toBe('android')
+      expect(applyPreserveCase('123', 'abc')).toBe('abc')
+    })
+  })
+
+  describe('buildReplacePreview', () => {
+    const tables = [
+      { headers: ['A'], rows: [['foo foo'], ['bar']] },
+      { headers: ['B'], rows: [['foo']] }
+    ]
+    const results = [{ tableIndex: 0, row: 0, col: 0 }, { tableIndex: 1, row: 0, col: 0 }]
+
+    it('should list each affected cell and skip excluded matches', () => {
+      const items = buildReplacePreview(tables, results, 'foo', 'baz', plain)
+      expect(items).toHaveLength(2)
+      expect(items[0].matches).toHaveLength(2)
+
+      items[0].matches[1].excluded = true
+      expect(getReplaceUpdates(items)).toEqual([
+        { tableIndex: 0, updates: [{ row: 0, col: 0, value: 'baz foo' }] },
+        { tableIndex: 1, updates: [{ row: 0, col: 0, value: 'baz' }] }
+      ])
+    })
+
+    it('should omit cells that would not change', () => {
+      expect(buildReplacePreview(tables, results, 'foo', 'foo', plain)).toEqual([])
+    })
+
+    it('should use the searched value for workspace results and group updates by file', () => {
+      const workspaceResults = [
+        { uri: 'file:///a.md', fileName: 'a.md', tableIndex: 0, row: 1, col: 0, value: 'foo' },
+        { uri: 'file:///b.md', fileName: 'b.md', tableIndex: 2, row: 0, col: 1, value: 'a foo' },
+        { uri: 'file:///a.md', fileName: 'a.md', tableIndex: 0, row: 3, col: 2, value: 'foo!' }
+      ]
+      const items = buildReplacePreview(tables, workspaceResults, 'foo', 'baz', plain)
+      expect(items.map(item => item.fileName)).toEqual(['a.md', 'b.md', 'a.md'])
+
+      expect(getWorkspaceReplaceFiles(items)).toEqual([
+        {
+          uri: 'file:///a.md',
+          tables: [{ tableIndex: 0, updates: [{ row: 1, col: 0, value: 'baz', original: 'foo' }, { row: 3, col: 2, value: 'baz!', original: 'foo!' }] }]
+        },
+        { uri: 'file:///b.md', tables: [{ tableIndex: 2, updates: [{ row: 0, col: 1, value: 'a baz', original: 'a foo' }] }] }
+      ])
+    })
+  })
+})
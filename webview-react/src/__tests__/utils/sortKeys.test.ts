@@ -0,0 +1,65 @@
+import { createSortState, getSortKeys, getSortedRowOrder, naturalCompare, toggleSortKey } from '../../utils/sortKeys'
+import { DEFAULT_SORT_STATE } from '../../utils/viewState'
+
+describe('sortKeys', () => {
+  describe('toggleSortKey', () => {
+    it('should cycle a single column asc → desc → none on plain click', () => {
+      const asc = toggleSortKey(DEFAULT_SORT_STATE, 1)
+      expect(asc).toEqual({ column: 1, direction: 'asc' })
+      const desc = toggleSortKey(asc, 1)
+      expect(desc).toEqual({ column: 1, direction: 'desc' })
+      expect(toggleSortKey(desc, 1)).toEqual(DEFAULT_SORT_STATE)
+    })
+
+    it('should append, flip and remove keys on shift-click', () => {
+      let state = toggleSortKey(DEFAULT_SORT_STATE, 2)
+      state = toggleSortKey(state, 0, true)
+      expect(getSortKeys(state)).toEqual([{ column: 2, direction: 'asc' }, { column: 0, direction: 'asc' }])
+
+      state = toggleSortKey(state, 0, true)
+      expect(getSortKeys(state)[1]).toEqual({ column: 0, direction: 'desc' })
+
+      state = toggleSortKey(state, 2, true)
+      state = toggleSortKey(state, 2, true)
+      // 主キーを外すと次のキーが主キーになる
+      expect(state).toEqual({ column: 0, direction: 'desc' })
+    })
+
+    it('should replace a multi-key sort with a single key on plain click', () => {
+      const state = createSortState([{ column: 0, direction: 'asc' }, { column: 1, direction: 'desc' }])
+      expect(toggleSortKey(state, 1)).toEqual({ column: 1, direction: 'asc' })
+    })
+  })
+
+  describe('naturalCompare', () => {
+    it('should compare digit runs numerically', () => {
+      const values = ['Item10', 'Item2', 'item1', 'Item1']
+      expect([...values].sort(naturalCompare)).toEqual(['item1', 'Item1', 'Item2', 'Item10'])
+      expect(naturalCompare('タスク', 'タスク')).toBe(0)
+    })
+  })
+
+  describe('getSortedRowOrder', () => {
+    const rows = [
+      ['open', '1', '2024-03-01'],
+      ['done', '3', '2024-01-15'],
+      ['open', '3', '2024-02-10'],
+      ['open', '3', '2024-01-20'],
+      ['done', '10', '2024-05-01']
+    ]
+
+    it('should apply keys in priority order with per-key direction', () => {
+      const order = getSortedRowOrder(rows, [
+        { column: 0, direction: 'asc' },
+        { column: 1, direction: 'desc' },
+        { column: 2, direction: 'asc' }
+      ])
+      expect(order).toEqual([4, 1, 3, 2, 0])
+    })
+
+    it('should honour explicit comparison types', () => {
+      expect(getSortedRowOrder(rows, [{ column: 1, direction: 'asc', type: 'string' }])).toEqual([0, 4, 1, 2, 3])
+      expect(getSortedRowOrder(rows, [{ column: 1, direction: 'asc' }])).toEqual([0, 1, 2, 3, 4])
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import {
+  buildMergeGrid,
+  chooseMergeAll,
+  chooseMergeCell,
+  countUnresolvedCells,
+  getMergeChoice,
+  resolveMergeGrid
+} from '../../utils/tableMerge'
+import { TableMergeConflict } from '../../../../src/communication/protocol'
+
+const table = (headers: string[], rows: string[][]) => ({ headers, rows, alignment: headers.map(() => 'left') })
+
+describe('tableMerge', () => {
+  describe('buildMergeGrid', () => {
+    it('should align rows by content and pair changed rows', () => {
+      const conflict: TableMergeConflict = {
+        startLine: 0,
+        endLine: 6,
+        oursLabel: 'HEAD',
+        theirsLabel: 'feature',
+        ours: table(['Task', 'Status'], [['Docs', 'done'], ['Review', 'todo']]),
+        theirs: table(['Task', 'Status'], [['Docs', 'review'], ['Release', 'todo'], ['Review', 'todo']])
+      }
+      const grid = buildMergeGrid(conflict)
+
+      expect(grid.rows.map(row => row.kind)).toEqual(['both', 'theirs', 'both'])
+      expect(grid.rows[0].cells[1]).toEqual({ ours: 'done', theirs: 'review', auto: null })
+      // 同じ値のセルは自動で解決済み
+      expect(grid.rows[0].cells[0].auto).toBe('ours')
+      expect(grid.rows[1].cells[0]).toEqual({ ours: null, theirs: 'Release', auto: null })
+      expect(countUnresolvedCells(grid, {})).toBe(3)
+    })
+
+    it('should auto-resolve one-sided changes when the base is available', () => {
+      const conflict: TableMergeConflict = {
+        startLine: 0,
+        endLine: 12,
+        oursLabel: 'ours',
+        theirsLabel: 'theirs',
+        base: table(['Name', 'Qty', 'Note'], [['Apple', '1', ''], ['Pear', '5', '']]),
+        ours: table(['Name', 'Qty', 'Note'], [['Apple', '3', ''], ['Pear', '5', '']]),
+        theirs: table(['Name', 'Qty', 'Note'], [['Apple', '1', 'fresh'], ['Kiwi', '2', '']])
+      }
+      const grid = buildMergeGrid(conflict)
+
+      // Apple: 数量は ours、メモは theirs だけが変更
+      expect(getMergeChoice(grid, {}, 0, 1)).toBe('ours')
+      expect(getMergeChoice(grid, {}, 0, 2)).toBe('theirs')
+      expect(countUnresolvedCells(grid, {})).toBe(0)
+
+      expect(resolveMergeGrid(grid, {}, conflict).rows).toEqual([
+        ['Apple', '3', 'fresh'],
+        ['Kiwi', '2', '']
+      ])
+    })
+  })
+
+  describe('resolveMergeGrid', () => {
+    const conflict: TableMergeConflict = {
+      startLine: 0,
+      endLine: 6,
+      oursLabel: 'HEAD',
+      theirsLabel: 'feature',
+      ours: { headers: ['A', 'B'], rows: [['1', '2'], ['3', '4']], alignment: ['left', 'right'] },
+      theirs: { headers: ['A', 'B', 'C'], rows: [['1', 'x', 'y']], alignment: ['center', 'left', 'left'] }
+    }
+
+    it('should apply per-cell and whole-row choices', () => {
+      const grid = buildMergeGrid(conflict)
+      let choices = chooseMergeAll(grid, 'ours')
+      choices = chooseMergeCell(grid, choices, 0, 1, 'theirs')
+
+      expect(resolveMergeGrid(grid, choices, conflict)).toEqual({
+        headers: ['A', 'B'],
+        rows: [['1', 'x'], ['3', '4']],
+        alignment: ['left', 'right']
+      })
+
+      // 片側にしかない行は行単位で選ばれ、もう一方を選ぶと削除される
+      choices = chooseMergeCell(grid, choices, 1, 0, 'theirs')
+      expect(getMergeChoice(grid, choices, 1, 1)).toBe('theirs')
+      expect(resolveMergeGrid(grid, choices, conflict).rows).toEqual([['1', 'x']])
+    })
+
+    it('should keep a column added on one side only when its header is chosen', () => {
+      const grid = buildMergeGrid(conflict)
+      const choices = chooseMergeAll(grid, 'theirs')
+
+      expect(resolveMergeGrid(grid, choices, conflict)).toEqual({
+        headers: ['A', 'B', 'C'],
+        rows: [['1', 'x', 'y']],
+        alignment: ['center', 'left', 'left']
+      })
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { applyTablePatches } from '../../utils/tablePatch'
+import { TableData } from '../../types'
+
+describe('tablePatch', () => {
+  const table: TableData = {
+    headers: ['Name', 'Age', 'City'],
+    rows: [
+      ['Alice', '25', 'Tokyo'],
+      ['Bob', '30', 'Osaka'],
+      ['Carol', '35', 'Kyoto']
+    ],
+    alignment: ['left', 'right', 'left']
+  }
+
+  it('should update cells and headers without touching unchanged rows', () => {
+    const [next] = applyTablePatches([table], [{
+      tableIndex: 0,
+      operations: [
+        { type: 'updateCells', updates: [{ row: 1, col: 1, value: '31' }] },
+        { type: 'updateHeaders', updates: [{ col: 2, value: 'Town' }] }
+      ]
+    }])
+
+    expect(next.headers).toEqual(['Name', 'Age', 'Town'])
+    expect(next.rows[1]).toEqual(['Bob', '31', 'Osaka'])
+    expect(next.rows[0]).toBe(table.rows[0])
+    expect(table.rows[1]).toEqual(['Bob', '30', 'Osaka'])
+  })
+
+  it('should insert and delete rows and columns in order', () => {
+    const [next] = applyTablePatches([table], [{
+      tableIndex: 0,
+      operations: [
+        { type: 'deleteRows', index: 0, count: 1 },
+        { type: 'insertRows', index: 2, rows: [['Dan', '40', 'Nara']] },
+        { type: 'insertColumns', index: 1, headers: ['ID'], cells: [['2'], ['3'], ['4']] },
+        { type: 'deleteColumns', index: 3, count: 1 },
+        { type: 'setAlignment', alignment: ['left', 'center', 'right'] }
+      ]
+    }])
+
+    expect(next.headers).toEqual(['Name', 'ID', 'Age'])
+    expect(next.rows).toEqual([['Bob', '2', '30'], ['Carol', '3', '35'], ['Dan', '4', '40']])
+    expect(next.alignment).toEqual(['left', 'center', 'right'])
+  })
+
+  it('should replace the validation rules', () => {
+    const rules = { Age: { type: 'number' as const, min: 0 } }
+    const [withRules] = applyTablePatches([table], [{ tableIndex: 0, operations: [{ type: 'setValidationRules', rules }] }])
+    expect(withRules.validationRules).toEqual(rules)
+    expect(withRules.rows).toBe(table.rows)
+
+    const [withoutRules] = applyTablePatches([withRules], [{ tableIndex: 0, operations: [{ type: 'setValidationRules' }] }])
+    expect(withoutRules.validationRules).toBeUndefined()
+  })
+
+  it('should replace the merged cells', () => {
+    const spans = [{ row: 0, col: 0, rowSpan: 2, colSpan: 1 }]
+    const [merged] = applyTablePatches([table], [{ tableIndex: 0, operations: [{ type: 'setSpans', spans }] }])
+    expect(merged.spans).toEqual(spans)
+    expect(merged.rows).toBe(table.rows)
+
+    const [unmerged] = applyTablePatches([merged], [{ tableIndex: 0, operations: [{ type: 'setSpans' }] }])
+    expect(unmerged.spans).toBeUndefined()
+  })
+
+  it('should reject patches that do not match the table', () => {
+    expect(() => applyTablePatches([table], [{ tableIndex: 1, operations: [] }])).toThrow()
+    expect(() => applyTablePatches([table], [{
+      tableIndex: 0,
+      operations: [{ type: 'deleteRows', index: 2, count: 2 }]
+    }])).toThrow()
+  })
+})
@@ -0,0 +1,26 @@
+import { getColumnAlignments, getColumnLetter } from '../../utils/tableUtils'
+
+describe('tableUtils', () => {
+  describe('getColumnLetter', () => {
+    it('should generate Excel style column letters', () => {
+      expect(getColumnLetter(0)).toBe('A')
+      expect(getColumnLetter(25)).toBe('Z')
+      expect(getColumnLetter(26)).toBe('AA')
+    })
+  })
+
+  describe('getColumnAlignments', () => {
+    it('should read alignments from the separator line', () => {
+      expect(getColumnAlignments(4, '| :--- | :---: | ---: | --- |')).toEqual(['left', 'center', 'right', 'default'])
+    })
+
+    it('should support compact separator lines', () => {
+      expect(getColumnAlignments(2, '|:-:|--:|')).toEqual(['center', 'right'])
+    })
+
+    it('should fall back to the alignment array when the separator line does not match', () => {
+      expect(getColumnAlignments(2, '| --- |', ['right', 'center'])).toEqual(['right', 'center'])
+      expect(getColumnAlignments(2)).toEqual(['default', 'default'])
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { parseTaskCell, setTaskChecked, summarizeTaskColumns, toggleTaskCell } from '../../utils/taskCheckbox'
+
+describe('taskCheckbox', () => {
+  describe('parseTaskCell', () => {
+    it('should detect checkbox-only cells and checkbox prefixes', () => {
+      expect(parseTaskCell('[ ]')).toEqual({ checked: false, label: '' })
+      expect(parseTaskCell('[x] Write docs')).toEqual({ checked: true, label: 'Write docs' })
+      expect(parseTaskCell(' [X] **Ship**')).toEqual({ checked: true, label: '**Ship**' })
+    })
+
+    it('should ignore links and other brackets', () => {
+      expect(parseTaskCell('[x](https://example.com)')).toBeNull()
+      expect(parseTaskCell('[]')).toBeNull()
+      expect(parseTaskCell('[y] no')).toBeNull()
+      expect(parseTaskCell('todo [ ]')).toBeNull()
+    })
+  })
+
+  describe('setTaskChecked / toggleTaskCell', () => {
+    it('should only change the marker', () => {
+      expect(setTaskChecked('[ ] a [ ] b', true)).toBe('[x] a [ ] b')
+      expect(setTaskChecked('[X] done', true)).toBe('[X] done')
+      expect(toggleTaskCell('[X] done')).toBe('[ ] done')
+      expect(toggleTaskCell(' [ ]')).toBe(' [x]')
+    })
+
+    it('should leave other cells unchanged', () => {
+      expect(setTaskChecked('plain', true)).toBe('plain')
+      expect(toggleTaskCell('plain')).toBeNull()
+    })
+  })
+
+  describe('summarizeTaskColumns', () => {
+    it('should count done and total tasks of each column that has any', () => {
+      const headers = ['Task', 'Done', 'Review']
+      const rows = [
+        ['A', '[x]', '[ ] later'],
+        ['B', '[ ]', ''],
+        ['C', '[x]', 'n/a']
+      ]
+      expect(summarizeTaskColumns(headers, rows)).toEqual([
+        { col: 1, header: 'Done', done: 2, total: 3 },
+        { col: 2, header: 'Review', done: 0, total: 1 }
+      ])
+    })
+  })
+})
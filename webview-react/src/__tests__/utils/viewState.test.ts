@@ -0,0 +1,79 @@
+import {
+  buildPersistedViewState,
+  createTableViewState,
+  getTableKeys,
+  reconcileViewStates,
+  sanitizeTableViewState
+} from '../../utils/viewState'
+
+const table = (headers: string[], rows: string[][] = [['1', '2']]) => ({ headers, rows })
+
+describe('viewState', () => {
+  describe('getTableKeys', () => {
+    it('should build keys from header signatures', () => {
+      expect(getTableKeys([table(['A', 'B']), table(['Name', 'Age'])])).toEqual(['2:A|B', '2:Name|Age'])
+    })
+
+    it('should distinguish tables with identical headers by occurrence', () => {
+      expect(getTableKeys([table(['A', 'B']), table(['X']), table(['A', 'B'])])).toEqual(['2:A|B', '1:X', '2:A|B#1'])
+    })
+  })
+
+  describe('reconcileViewStates', () => {
+    it('should follow tables by key when a table is inserted before them', () => {
+      const state = { ...createTableViewState(), columnWidths: { 0: 220 } }
+      const result = reconcileViewStates({ '2:Name|Age': state }, ['2:Name|Age'], ['1:New', '2:Name|Age'])
+      expect(result).toEqual({ '2:Name|Age': state })
+    })
+
+    it('should carry state over by position when only the headers changed', () => {
+      const state = { ...createTableViewState(), sortState: { column: 1, direction: 'desc' as const } }
+      const result = reconcileViewStates({ '2:A|B': state }, ['2:A|B'], ['2:A|Renamed'])
+      expect(result).toEqual({ '2:A|Renamed': state })
+    })
+  })
+
+  describe('sanitizeTableViewState', () => {
+    it('should drop sort columns and selections outside the table', () => {
+      const result = sanitizeTableViewState(
+        { columnWidths: { 1: 90 }, sortState: { column: 5, direction: 'asc' }, selectedCell: { row: 3, col: 0 } },
+        table(['A', 'B'])
+      )
+      expect(result).toEqual({ columnWidths: { 1: 90 }, sortState: { column: -1, direction: 'none' }, selectedCell: null })
+    })
+
+    it('should drop multi-key sort keys outside the table', () => {
+      const keys = [{ column: 4, direction: 'asc' as const }, { column: 1, direction: 'desc' as const }, { column: 0, direction: 'asc' as const }]
+      const result = sanitizeTableViewState(
+        { columnWidths: {}, sortState: { column: 4, direction: 'asc', keys }, selectedCell: null },
+        table(['A', 'B'])
+      )
+      expect(result.sortState).toEqual({ column: 1, direction: 'desc', keys: keys.slice(1) })
+    })
+
+    it('should clamp frozen rows and columns to the table', () => {
+      const state = { ...createTableViewState(), frozen: { rows: 5, columns: 1 } }
+      expect(sanitizeTableViewState(state, table(['A', 'B'], [['1', '2'], ['3', '4']])).frozen).toEqual({ rows: 2, columns: 1 })
+      expect(sanitizeTableViewState({ ...state, frozen: { rows: 0, columns: 0 } }, table(['A', 'B']))).not.toHaveProperty('frozen')
+    })
+
+    it('should keep the Markdown source toggle only while it is on', () => {
+      const state = { ...createTableViewState(), showMarkdownSource: true }
+      expect(sanitizeTableViewState(state, table(['A'])).showMarkdownSource).toBe(true)
+      expect(sanitizeTableViewState({ ...state, showMarkdownSource: false }, table(['A']))).not.toHaveProperty('showMarkdownSource')
+    })
+
+    it('should keep valid state', () => {
+      const state = { columnWidths: {}, sortState: { column: 1, direction: 'asc' as const }, selectedCell: { row: 0, col: 1 } }
+      expect(sanitizeTableViewState(state, table(['A', 'B']))).toEqual(state)
+    })
+  })
+
+  describe('buildPersistedViewState', () => {
+    it('should keep only current tables and record the active table key', () => {
+      const state = createTableViewState()
+      const result = buildPersistedViewState({ '2:A|B': state, '1:Gone': state }, ['2:A|B', '1:X'], 1)
+      expect(result).toEqual({ activeTableKey: '1:X', tables: { '2:A|B': state } })
+    })
+  })
+})
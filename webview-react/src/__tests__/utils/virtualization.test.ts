@@ -0,0 +1,31 @@
+import { buildOffsets, buildRenderSegments, findIndexAtOffset, getVisibleRange } from '../../utils/virtualization'
+
+describe('virtualization', () => {
+  const offsets = buildOffsets(10, () => 10)
+
+  it('should find the item containing an offset and clamp outside the list', () => {
+    expect(findIndexAtOffset(offsets, 0)).toBe(0)
+    expect(findIndexAtOffset(offsets, 35)).toBe(3)
+    expect(findIndexAtOffset(offsets, -20)).toBe(0)
+    expect(findIndexAtOffset(offsets, 500)).toBe(9)
+  })
+
+  it('should include the overscan around the visible area', () => {
+    expect(getVisibleRange(offsets, 40, 20, 0)).toEqual({ start: 4, end: 7 })
+    expect(getVisibleRange(offsets, 40, 20, 15)).toEqual({ start: 2, end: 8 })
+    expect(getVisibleRange([0], 0, 100)).toEqual({ start: 0, end: 0 })
+  })
+
+  it('should fill the gaps between rendered and pinned items with spacers', () => {
+    expect(buildRenderSegments(offsets, { start: 4, end: 6 }, [1, 5])).toEqual([
+      { type: 'spacer', size: 10, key: 'spacer-0' },
+      { type: 'item', index: 1 },
+      { type: 'spacer', size: 20, key: 'spacer-2' },
+      { type: 'item', index: 4 },
+      { type: 'item', index: 5 },
+      { type: 'spacer', size: 40, key: 'spacer-6' }
+    ])
+    // 範囲外の固定要素は無視する
+    expect(buildRenderSegments(offsets, { start: 0, end: 10 }, [-1, 12])).toHaveLength(10)
+  })
+})
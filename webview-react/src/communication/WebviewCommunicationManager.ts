@@ -24,13 +24,34 @@ import {
   UpdateHeaderData,
   BulkUpdateCellsData,
   SortData,
+  SortKeyData,
   MoveData,
   ExportCSVData,
   ImportCSVData,
+  AddAggregateRowData,
+  AggregateFunction,
+  ColumnAlignment,
+  SetAlignmentData,
+  MergeCellsData,
+  UnmergeCellsData,
+  PersistedViewState,
+  SaveViewStateData,
   SwitchTableData,
+  SearchWorkspaceData,
+  SearchWorkspaceResult,
+  OpenSearchMatchData,
+  OpenLinkData,
+  LinkTargetsResult,
+  ReplaceInWorkspaceData,
+  ResolveMergeConflictData,
+  JumpToHistoryData,
+  TableConflictData,
   WebviewCommandDataMap
 } from '../../../src/communication/protocol';
 
+// ワークスペース検索のタイムアウト (ms)
+const WORKSPACE_SEARCH_TIMEOUT = 60000;
+
 interface PendingRequest {
   resolve: (response: ResponseMessage) => void;
   reject: (error: Error) => void;
@@ -54,6 +75,8 @@ export class WebviewCommunicationManager {
   private isConnected: boolean = false;
   private lastMessageTime: number = Date.now();
   private messageListener: ((event: MessageEvent) => void) | null = null;
+  // 最後に受信したテーブルデータのドキュメントバージョン（編集要求に付けて衝突検出に使う）
+  private documentVersion: number | undefined;
 
   constructor(vscodeApi: VSCodeAPI, config: Partial<CommunicationConfig> = {}) {
     this.vscodeApi = vscodeApi;
@@ -183,6 +206,10 @@ export class WebviewCommunicationManager {
   private async handleNotification(message: NotificationMessage): Promise<void> {
     this.isConnected = true;
 
+    if (message.command === ExtensionCommand.UPDATE_TABLE_DATA && typeof message.data?.documentVersion === 'number') {
+      this.documentVersion = message.data.documentVersion;
+    }
+
     // 通知ハンドラー（同期的）を実行
     const notificationHandler = this.notificationHandlers.get(message.command);
     if (notificationHandler) {
@@ -218,6 +245,7 @@ export class WebviewCommunicationManager {
       command,
       data,
       timestamp: Date.now(),
+      documentVersion: this.documentVersion,
       expectResponse: true,
       timeout: timeout || this.config.defaultTimeout
     };
@@ -252,7 +280,8 @@ export class WebviewCommunicationManager {
       type: MessageType.NOTIFICATION,
       command,
       data,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      documentVersion: this.documentVersion
     };
 
     this.postMessage(message);
@@ -342,6 +371,17 @@ export class WebviewCommunicationManager {
     return this.isConnected && timeSinceLastMessage < this.config.heartbeatInterval * 2;
   }
 
+  /**
+   * 編集要求に付けるドキュメントバージョン（マネージャー再生成時の引き継ぎ用）
+   */
+  public getDocumentVersion(): number | undefined {
+    return this.documentVersion;
+  }
+
+  public setDocumentVersion(version: number | undefined): void {
+    this.documentVersion = version;
+  }
+
   /**
    * クリーンアップ
    */
@@ -388,8 +428,12 @@ export class WebviewCommunicationManager {
   /**
    * 複数セルを一括更新
    */
-  public bulkUpdateCells(updates: Array<{ row: number; col: number; value: string }>, tableIndex?: number): void {
-    const data: BulkUpdateCellsData = { updates, tableIndex };
+  public bulkUpdateCells(
+    updates: Array<{ row: number; col: number; value: string }>,
+    tableIndex?: number,
+    additionalTables?: BulkUpdateCellsData['additionalTables']
+  ): void {
+    const data: BulkUpdateCellsData = { updates, tableIndex, additionalTables };
     this.sendNotification(WebviewCommand.BULK_UPDATE_CELLS, data);
   }
 
@@ -446,8 +490,12 @@ export class WebviewCommunicationManager {
   /**
    * ソート
    */
-  public sort(column: number, direction: 'asc' | 'desc' | 'none', tableIndex?: number): void {
+  public sort(column: number, direction: 'asc' | 'desc' | 'none', tableIndex?: number, keys?: SortKeyData[]): void {
     const data: SortData = { column, direction, tableIndex };
+    // 複数キーでのソート（先頭が主キー）
+    if (keys && keys.length > 0) {
+      data.keys = keys;
+    }
     this.sendNotification(WebviewCommand.SORT, data);
   }
 
@@ -483,6 +531,46 @@ export class WebviewCommunicationManager {
     this.sendNotification(WebviewCommand.IMPORT_CSV, data);
   }
 
+  /**
+   * 集計行を追加
+   */
+  public addAggregateRow(functions: AggregateFunction[], tableIndex?: number): void {
+    const data: AddAggregateRowData = { functions, tableIndex };
+    this.sendNotification(WebviewCommand.ADD_AGGREGATE_ROW, data);
+  }
+
+  /**
+   * 列の配置を設定
+   */
+  public setAlignment(columns: number[], alignment: ColumnAlignment, tableIndex?: number): void {
+    const data: SetAlignmentData = { columns, alignment, tableIndex };
+    this.sendNotification(WebviewCommand.SET_ALIGNMENT, data);
+  }
+
+  /**
+   * セルを結合（row=-1 は見出し行）
+   */
+  public mergeCells(row: number, col: number, rowSpan: number, colSpan: number, tableIndex?: number): void {
+    const data: MergeCellsData = { row, col, rowSpan, colSpan, tableIndex };
+    this.sendNotification(WebviewCommand.MERGE_CELLS, data);
+  }
+
+  /**
+   * 結合したセルを解除
+   */
+  public unmergeCells(row: number, col: number, tableIndex?: number): void {
+    const data: UnmergeCellsData = { row, col, tableIndex };
+    this.sendNotification(WebviewCommand.UNMERGE_CELLS, data);
+  }
+
+  /**
+   * 表示状態（列幅・ソート・選択・アクティブタブ）を保存
+   */
+  public saveViewState(viewState: PersistedViewState): void {
+    const data: SaveViewStateData = { viewState };
+    this.sendNotification(WebviewCommand.SAVE_VIEW_STATE, data);
+  }
+
   /**
    * テーブル切り替え
    */
@@ -491,6 +579,61 @@ export class WebviewCommunicationManager {
     this.sendNotification(WebviewCommand.SWITCH_TABLE, data);
   }
 
+  /**
+   * ワークスペース内の Markdown テーブルを検索
+   */
+  public async searchWorkspace(searchText: string, options: SearchWorkspaceData['options']): Promise<SearchWorkspaceResult> {
+    const data: SearchWorkspaceData = { searchText, options };
+    // ファイル数が多いと時間がかかるため、通常より長いタイムアウトを使う
+    return this.sendRequest<SearchWorkspaceResult>(WebviewCommand.SEARCH_WORKSPACE, data, WORKSPACE_SEARCH_TIMEOUT);
+  }
+
+  /**
+   * 検索結果のセルを対象ファイルのテーブルエディタで開く
+   */
+  public openSearchMatch(uri: string, tableIndex: number, row: number, col: number): void {
+    const data: OpenSearchMatchData = { uri, tableIndex, row, col };
+    this.sendNotification(WebviewCommand.OPEN_SEARCH_MATCH, data);
+  }
+
+  /**
+   * セル内のリンクを拡張経由で開く
+   */
+  public openLink(href: string): void {
+    const data: OpenLinkData = { href };
+    this.sendNotification(WebviewCommand.OPEN_LINK, data);
+  }
+
+  /**
+   * リンクを挿入するときの候補（ワークスペースのファイル）を取得
+   */
+  public async listLinkTargets(): Promise<LinkTargetsResult> {
+    return this.sendRequest<LinkTargetsResult>(WebviewCommand.LIST_LINK_TARGETS, undefined, WORKSPACE_SEARCH_TIMEOUT);
+  }
+
+  /**
+   * 複数ファイルへの置換（拡張側で確認後に 1 つの WorkspaceEdit として適用）
+   */
+  public replaceInWorkspace(files: ReplaceInWorkspaceData['files']): void {
+    const data: ReplaceInWorkspaceData = { files };
+    this.sendNotification(WebviewCommand.REPLACE_IN_WORKSPACE, data);
+  }
+
+  /**
+   * Git のコンフリクトを含むテーブルを、マージ結果のテーブルで置き換える
+   */
+  public resolveMergeConflict(startLine: number, endLine: number, table: ResolveMergeConflictData['table']): void {
+    const data: ResolveMergeConflictData = { startLine, endLine, table };
+    this.sendNotification(WebviewCommand.RESOLVE_MERGE_CONFLICT, data);
+  }
+
+  /**
+   * 衝突で適用されなかった編集を、現在のドキュメントに対してもう一度送信
+   */
+  public reapplyEdit(conflict: TableConflictData): void {
+    this.sendNotification(conflict.command, conflict.data);
+  }
+
   /**
    * テーマ変数をリクエスト
    */
@@ -512,6 +655,14 @@ export class WebviewCommunicationManager {
     this.sendNotification(WebviewCommand.REDO);
   }
 
+  /**
+   * 履歴の指定した時点まで元に戻す / やり直す
+   */
+  public jumpToHistory(position: number): void {
+    const data: JumpToHistoryData = { position };
+    this.sendNotification(WebviewCommand.JUMP_TO_HISTORY, data);
+  }
+
   /**
    * Pong応答
    */
@@ -1,4 +1,10 @@
-import React, { useRef, useState, useCallback, useLayoutEffect, useEffect } from 'react'
+import React, { useRef, useState, useCallback, useLayoutEffect, useEffect, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { filterEnumOptions } from '../utils/enumColumns'
+import { processCellContentForStorage } from '../utils/contentConverter'
+import { renderInlineMarkdown } from '../utils/inlineMarkdown'
+import { InlineFormat, TextEditResult, insertLink, toggleInlineFormat } from '../utils/markdownFormatting'
+import { LinkCompletionItem, LinkTargetsResult, getLinkCompletionContext, getLinkCompletions } from '../utils/linkTargets'
 
 export interface CellEditorProps {
   value: string
@@ -10,8 +16,24 @@ export interface CellEditorProps {
   originalHeight?: number
   // 行内の最大セル高さ（仕様上これに厳密に合わせる）
   rowMaxHeight?: number
+  // 選択肢（enum）の列: 入力中の文字で絞り込むドロップダウンを表示する
+  options?: string[]
+  // 入力規則で指定された選択肢: 入力中は絞り込み結果の先頭を強調し、Enter / Tab でその選択肢を確定する
+  restrictToOptions?: boolean
+  // ドキュメントのあるフォルダーの webview URI（プレビューの相対パスの画像の解決に使用）
+  documentBaseUri?: string
+  // リンクを挿入するときの候補（ワークスペースのファイル）を取得する
+  onListLinkTargets?: () => Promise<LinkTargetsResult>
 }
 
+// 書式ツールバーのボタン（リンクは別扱い）
+const FORMAT_BUTTONS: Array<{ format: InlineFormat; label: React.ReactNode }> = [
+  { format: 'bold', label: <strong>B</strong> },
+  { format: 'italic', label: <em>I</em> },
+  { format: 'strikethrough', label: <del>S</del> },
+  { format: 'code', label: <code>{'</>'}</code> }
+]
+
 const CellEditor: React.FC<CellEditorProps> = ({
   value,
   onCommit,
@@ -20,9 +42,17 @@ const CellEditor: React.FC<CellEditorProps> = ({
   rowIndex: _rowIndex,
   colIndex: _colIndex,
   originalHeight,
-  rowMaxHeight
+  rowMaxHeight,
+  options,
+  restrictToOptions = false,
+  documentBaseUri,
+  onListLinkTargets
 }) => {
+  const { t } = useTranslation()
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const optionListRef = useRef<HTMLUListElement>(null)
+  const toolbarRef = useRef<HTMLDivElement>(null)
+  const completionListRef = useRef<HTMLUListElement>(null)
   const [currentValue, setCurrentValue] = useState(value)
   // シンプルなローカルUndo/Redoスタック
   // @ts-ignore - Used in setHistory/setRedoStack callbacks
@@ -178,11 +208,240 @@ const CellEditor: React.FC<CellEditorProps> = ({
     })
   }, [])
 
+  // 選択肢のドロップダウン（セルは overflow: hidden のため、セルの直下に fixed で表示する）
+  const filteredOptions = useMemo(() => (options ? filterEnumOptions(options, currentValue) : []), [options, currentValue])
+  const [highlightedIndex, setHighlightedIndex] = useState(-1)
+  const showOptions = filteredOptions.length > 0 && !isComposing
+
+  useEffect(() => {
+    // 入力と一致する選択肢を強調し、規則で指定された列では絞り込み結果の先頭を強調する
+    const exact = filteredOptions.indexOf(currentValue.trim())
+    setHighlightedIndex(exact >= 0 ? exact : restrictToOptions && currentValue.trim() ? 0 : -1)
+  }, [filteredOptions, currentValue, restrictToOptions])
+
+  // ドロップダウン・ツールバー・プレビューの表示位置（セルは overflow: hidden のため、セルの位置に fixed で表示する）
+  const [anchorRect, setAnchorRect] = useState<{ top: number; bottom: number; left: number; width: number } | null>(null)
+
+  useLayoutEffect(() => {
+    const updatePosition = () => {
+      const cell = textareaRef.current?.closest('td') ?? textareaRef.current
+      if (!cell) return
+      const rect = cell.getBoundingClientRect()
+      setAnchorRect({ top: rect.top, bottom: rect.bottom, left: rect.left, width: rect.width })
+    }
+    updatePosition()
+    window.addEventListener('scroll', updatePosition, true)
+    window.addEventListener('resize', updatePosition)
+    return () => {
+      window.removeEventListener('scroll', updatePosition, true)
+      window.removeEventListener('resize', updatePosition)
+    }
+  }, [])
+
+  useEffect(() => {
+    const item = optionListRef.current?.children[highlightedIndex] as HTMLElement | undefined
+    item?.scrollIntoView?.({ block: 'nearest' })
+  }, [highlightedIndex])
+
+  // 書式の挿入（ツールバー・ショートカット）。変更は履歴に積み、描画後に選択範囲を戻す
+  const [hasSelection, setHasSelection] = useState(false)
+  // リンクの補完に使うカーソル位置（入力・カーソル移動で更新し、開いた直後は補完しない）
+  const [caret, setCaret] = useState<number | null>(null)
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null)
+
+  const applyEdit = useCallback((edit: TextEditResult) => {
+    pendingSelectionRef.current = { start: edit.selectionStart, end: edit.selectionEnd }
+    setCurrentValue(edit.value)
+    pushHistory(edit.value)
+  }, [pushHistory])
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current
+    const textarea = textareaRef.current
+    if (!selection || !textarea) return
+    pendingSelectionRef.current = null
+    textarea.focus()
+    textarea.setSelectionRange(selection.start, selection.end)
+    setHasSelection(selection.start !== selection.end)
+    setCaret(selection.end)
+    // 内容に合わせて高さを再計算する
+    textarea.dispatchEvent(new CustomEvent('heightUpdate'))
+  }, [currentValue])
+
+  const applyFormat = useCallback((format: InlineFormat) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    applyEdit(toggleInlineFormat(textarea.value, textarea.selectionStart, textarea.selectionEnd, format))
+  }, [applyEdit])
+
+  // リンクの候補（ワークスペースのファイル・見出し・画像）は必要になった時点で一度だけ取得する
+  const [linkTargets, setLinkTargets] = useState<LinkTargetsResult | null>(null)
+  const linkTargetsRequestedRef = useRef(false)
+
+  const requestLinkTargets = useCallback(() => {
+    if (!onListLinkTargets || linkTargetsRequestedRef.current) return
+    linkTargetsRequestedRef.current = true
+    onListLinkTargets()
+      .then(setLinkTargets)
+      .catch((error) => console.warn('[CellEditor] Failed to list link targets', error))
+  }, [onListLinkTargets])
+
+  // リンクの挿入（入力欄にワークスペースのファイルを候補として表示する）
+  const [linkDraft, setLinkDraft] = useState<string | null>(null)
+  const linkRangeRef = useRef({ start: 0, end: 0 })
+
+  const openLinkInput = useCallback(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    linkRangeRef.current = { start: textarea.selectionStart, end: textarea.selectionEnd }
+    // URL を選択している場合はその URL を入力済みにする
+    const selected = textarea.value.slice(textarea.selectionStart, textarea.selectionEnd).trim()
+    setLinkDraft(/^(https?|mailto):\S+$/i.test(selected) ? selected : '')
+    requestLinkTargets()
+  }, [requestLinkTargets])
+
+  const closeLinkInput = useCallback(() => {
+    setLinkDraft(null)
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    textarea.setSelectionRange(linkRangeRef.current.start, linkRangeRef.current.end)
+  }, [])
+
+  const confirmLink = useCallback(() => {
+    const href = (linkDraft ?? '').trim()
+    const textarea = textareaRef.current
+    if (!href || !textarea) {
+      closeLinkInput()
+      return
+    }
+    setLinkDraft(null)
+    applyEdit(insertLink(textarea.value, linkRangeRef.current.start, linkRangeRef.current.end, href))
+  }, [linkDraft, closeLinkInput, applyEdit])
+
+  const handleLinkKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      e.stopPropagation()
+      confirmLink()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      e.stopPropagation()
+      closeLinkInput()
+    }
+  }, [confirmLink, closeLinkInput])
+
+  // リンクの補完（[ の後はリンク全体、]( の後はパス、リンク先の # の後は見出し）
+  const completionContext = useMemo(() => (
+    onListLinkTargets && caret !== null && !hasSelection && !currentValue.startsWith('=')
+      ? getLinkCompletionContext(currentValue, caret)
+      : null
+  ), [onListLinkTargets, caret, hasSelection, currentValue])
+  // Escape・確定した補完は、同じ位置の入力中は再表示しない
+  const [dismissedCompletionStart, setDismissedCompletionStart] = useState<number | null>(null)
+  const completions = useMemo(() => (
+    completionContext && linkTargets && completionContext.start !== dismissedCompletionStart
+      ? getLinkCompletions(completionContext, linkTargets)
+      : []
+  ), [completionContext, linkTargets, dismissedCompletionStart])
+  const [completionIndex, setCompletionIndex] = useState(0)
+  const showCompletions = completions.length > 0 && !isComposing && linkDraft === null
+
+  useEffect(() => {
+    if (completionContext) {
+      requestLinkTargets()
+    } else {
+      setDismissedCompletionStart(null)
+    }
+  }, [completionContext, requestLinkTargets])
+
+  useEffect(() => {
+    setCompletionIndex(0)
+  }, [completions])
+
+  useEffect(() => {
+    const item = completionListRef.current?.children[completionIndex] as HTMLElement | undefined
+    item?.scrollIntoView?.({ block: 'nearest' })
+  }, [completionIndex])
+
+  const acceptCompletion = useCallback((item: LinkCompletionItem) => {
+    const textarea = textareaRef.current
+    if (!textarea || !completionContext) return
+    const value = textarea.value.slice(0, completionContext.start) + item.insertText + textarea.value.slice(textarea.selectionEnd)
+    const position = completionContext.start + item.insertText.length
+    setDismissedCompletionStart(completionContext.start)
+    applyEdit({ value, selectionStart: position, selectionEnd: position })
+  }, [completionContext, applyEdit])
+
+  // 書式を含む場合だけ、セルの下に表示結果をプレビューする（数式は対象外）
+  const previewHtml = useMemo(() => {
+    if (currentValue.startsWith('=') || !/[*_~`[<]/.test(currentValue)) return null
+    const html = renderInlineMarkdown(processCellContentForStorage(currentValue), { baseUri: documentBaseUri })
+    return /<(?!br>)[a-z]/.test(html) ? html : null
+  }, [currentValue, documentBaseUri])
+
+  const showToolbar = (hasSelection || linkDraft !== null) && !isComposing
+  // セルの上に余白がなければツールバーはセルの下に出す（その間はプレビューを隠す）
+  const toolbarBelow = anchorRect !== null && anchorRect.top < 36
+  const showPreview = previewHtml !== null && !showOptions && !showCompletions && !isComposing && !(showToolbar && toolbarBelow)
+
+  // 強調中の選択肢があればその値で確定する
+  const commitValue = useCallback((move?: 'right' | 'left' | 'down' | 'up') => {
+    const option = showOptions ? filteredOptions[highlightedIndex] : undefined
+    onCommit(option ?? currentValue, move)
+  }, [showOptions, filteredOptions, highlightedIndex, currentValue, onCommit])
+
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    // リンクの補完（上下キーで選択、Enter / Tab で確定、Escape で閉じる）
+    if (showCompletions && !e.altKey && !e.ctrlKey && !e.metaKey) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        e.stopPropagation()
+        const last = completions.length - 1
+        setCompletionIndex((index) => e.key === 'ArrowDown' ? Math.min(index + 1, last) : Math.max(index - 1, 0))
+        return
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && !e.shiftKey) {
+        e.preventDefault()
+        e.stopPropagation()
+        acceptCompletion(completions[completionIndex] ?? completions[0])
+        return
+      }
+      if (e.key === 'Escape' && completionContext) {
+        e.preventDefault()
+        e.stopPropagation()
+        setDismissedCompletionStart(completionContext.start)
+        return
+      }
+    }
+    // 選択肢の移動（ドロップダウン表示中は上下キーでカーソルを動かさない）
+    if (showOptions && (e.key === 'ArrowDown' || e.key === 'ArrowUp') && !e.altKey) {
+      e.preventDefault()
+      e.stopPropagation()
+      const last = filteredOptions.length - 1
+      setHighlightedIndex((index) => e.key === 'ArrowDown' ? Math.min(index + 1, last) : Math.max(index - 1, 0))
+      return
+    }
     // Cmd+A/C/V/Xは標準動作を許可（全選択・クリップボード操作）
     if ((e.ctrlKey || e.metaKey) && ['a', 'c', 'v', 'x'].includes(e.key.toLowerCase())) {
       return;
     }
+    // 書式のショートカット（Ctrl+B 太字 / Ctrl+I 斜体 / Ctrl+` コード / Ctrl+K リンク）
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && !isComposing) {
+      const key = e.key.toLowerCase()
+      const format: InlineFormat | null = key === 'b' ? 'bold' : key === 'i' ? 'italic' : key === '`' || e.code === 'Backquote' ? 'code' : null
+      if (format || key === 'k') {
+        e.preventDefault()
+        e.stopPropagation()
+        if (format) {
+          applyFormat(format)
+        } else {
+          openLinkInput()
+        }
+        return
+      }
+    }
     // ローカルUndo/Redo（VSCodeへの伝播を防ぐ）
     if (e.ctrlKey || e.metaKey) {
       const key = e.key.toLowerCase()
@@ -206,13 +465,13 @@ const CellEditor: React.FC<CellEditorProps> = ({
     if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
       e.preventDefault()
       e.stopPropagation()
-      onCommit(currentValue)
+      commitValue()
     } else if (e.key === 'Enter' && e.shiftKey) {
       e.stopPropagation()
     } else if (e.key === 'Enter' && !isComposing) {
       e.preventDefault()
       e.stopPropagation()
-      onCommit(currentValue, 'down')
+      commitValue('down')
     } else if (e.key === 'Enter' && isComposing) {
       e.stopPropagation()
     } else if (e.key === 'Escape') {
@@ -222,10 +481,10 @@ const CellEditor: React.FC<CellEditorProps> = ({
     } else if (e.key === 'Tab') {
       e.preventDefault()
       e.stopPropagation()
-      onCommit(currentValue, e.shiftKey ? 'left' : 'right')
+      commitValue(e.shiftKey ? 'left' : 'right')
     }
     // 注意：最後のe.stopPropagation()を削除（クリップボード操作を妨げないため）
-  }, [currentValue, onCommit, onCancel, isComposing, doUndo, doRedo])
+  }, [onCancel, isComposing, doUndo, doRedo, showOptions, filteredOptions.length, commitValue, applyFormat, openLinkInput, showCompletions, completions, completionIndex, completionContext, acceptCompletion])
 
   const handleCompositionStart = useCallback(() => {
     setIsComposing(true)
@@ -237,61 +496,184 @@ const CellEditor: React.FC<CellEditorProps> = ({
 
   const handleBlur = useCallback(() => {
     setTimeout(() => {
-      if (document.activeElement !== textareaRef.current) {
+      // リンクの入力欄へのフォーカス移動では確定しない
+      const active = document.activeElement
+      if (active !== textareaRef.current && !toolbarRef.current?.contains(active)) {
         onCommit(currentValue)
       }
     }, 10)
   }, [currentValue, onCommit])
 
   return (
-    <textarea
-      ref={textareaRef}
-      className="cell-input"
-      value={currentValue}
-      onChange={(e) => {
-        const next = e.target.value
-        setCurrentValue(next)
-        if (!isComposing) {
-          pushHistory(next)
-        }
-      }}
-      onKeyDown={handleKeyDown}
-      onCompositionStart={handleCompositionStart}
-      onCompositionEnd={() => {
-        handleCompositionEnd()
-        // 日本語入力確定などのタイミングで履歴に反映
-        // setStateは非同期なので、次のtickで履歴に積む
-        setTimeout(() => {
-          pushHistory(textareaRef.current?.value ?? '')
-        }, 0)
-      }}
-      onBlur={handleBlur}
-      style={{
-        border: 'none',
-        background: 'transparent',
-        color: 'inherit',
-        fontFamily: 'inherit',
-        fontSize: 'inherit',
-        outline: 'none',
-        resize: 'none',
-        boxSizing: 'border-box',
-        margin: 0,
-        whiteSpace: 'pre-wrap',
-        wordWrap: 'break-word',
-        wordBreak: 'break-word',
-        overflowWrap: 'break-word',
-        overflow: 'hidden',
-        lineHeight: '1.2',
-        verticalAlign: 'top',
-        textAlign: 'left',
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        width: '100%',
-        zIndex: 5,
-        padding: '4px 6px'
-      }}
-    />
+    <>
+      <textarea
+        ref={textareaRef}
+        className="cell-input"
+        value={currentValue}
+        role={options ? 'combobox' : undefined}
+        aria-expanded={options ? showOptions : undefined}
+        aria-autocomplete={options ? 'list' : undefined}
+        onChange={(e) => {
+          const next = e.target.value
+          setCurrentValue(next)
+          setCaret(e.target.selectionStart)
+          if (!isComposing) {
+            pushHistory(next)
+          }
+        }}
+        onKeyDown={handleKeyDown}
+        onCompositionStart={handleCompositionStart}
+        onCompositionEnd={() => {
+          handleCompositionEnd()
+          // 日本語入力確定などのタイミングで履歴に反映
+          // setStateは非同期なので、次のtickで履歴に積む
+          setTimeout(() => {
+            pushHistory(textareaRef.current?.value ?? '')
+          }, 0)
+        }}
+        onSelect={(e) => {
+          setHasSelection(e.currentTarget.selectionStart !== e.currentTarget.selectionEnd)
+          setCaret(e.currentTarget.selectionEnd)
+        }}
+        onBlur={handleBlur}
+        style={{
+          border: 'none',
+          background: 'transparent',
+          color: 'inherit',
+          fontFamily: 'inherit',
+          fontSize: 'inherit',
+          outline: 'none',
+          resize: 'none',
+          boxSizing: 'border-box',
+          margin: 0,
+          whiteSpace: 'pre-wrap',
+          wordWrap: 'break-word',
+          wordBreak: 'break-word',
+          overflowWrap: 'break-word',
+          overflow: 'hidden',
+          lineHeight: '1.2',
+          verticalAlign: 'top',
+          textAlign: 'left',
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          zIndex: 5,
+          padding: '4px 6px'
+        }}
+      />
+      {showToolbar && anchorRect && (
+        <div
+          ref={toolbarRef}
+          className={`cell-format-toolbar ${toolbarBelow ? 'below' : ''}`.trim()}
+          role="toolbar"
+          style={{ top: toolbarBelow ? anchorRect.bottom : anchorRect.top, left: anchorRect.left }}
+          // セル選択の mousedown を発生させない
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          {linkDraft === null ? (
+            <>
+              {FORMAT_BUTTONS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  type="button"
+                  title={t(`cellEditor.${format}`)}
+                  aria-label={t(`cellEditor.${format}`)}
+                  // フォーカスと選択範囲をテキストエリアに残す
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyFormat(format)}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                type="button"
+                title={t('cellEditor.link')}
+                aria-label={t('cellEditor.link')}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={openLinkInput}
+              >
+                🔗
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                className="cell-link-input"
+                value={linkDraft}
+                list="cell-link-targets"
+                placeholder={t('cellEditor.linkPlaceholder')}
+                aria-label={t('cellEditor.link')}
+                autoFocus
+                onChange={(e) => setLinkDraft(e.target.value)}
+                onKeyDown={handleLinkKeyDown}
+                onBlur={handleBlur}
+              />
+              <datalist id="cell-link-targets">
+                {linkTargets?.files.map((file) => <option key={file} value={file} />)}
+              </datalist>
+              <button type="button" onMouseDown={(e) => e.preventDefault()} onClick={confirmLink}>
+                {t('cellEditor.insertLink')}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {showPreview && anchorRect && (
+        <div
+          className="cell-markdown-preview"
+          aria-label={t('cellEditor.preview')}
+          style={{ top: anchorRect.bottom, left: anchorRect.left, minWidth: anchorRect.width }}
+          dangerouslySetInnerHTML={{ __html: previewHtml ?? '' }}
+        />
+      )}
+      {showCompletions && anchorRect && (
+        <ul
+          ref={completionListRef}
+          className="cell-link-completions"
+          role="listbox"
+          style={{ top: anchorRect.bottom, left: anchorRect.left, minWidth: anchorRect.width }}
+        >
+          {completions.map((item, index) => (
+            <li
+              key={`${item.insertText}-${index}`}
+              role="option"
+              aria-selected={index === completionIndex}
+              className={`cell-completion-option ${index === completionIndex ? 'highlighted' : ''}`.trim()}
+              onMouseDown={(e) => { e.preventDefault(); e.stopPropagation() }}
+              onMouseEnter={() => setCompletionIndex(index)}
+              onClick={() => acceptCompletion(item)}
+            >
+              <span className="cell-completion-label">{item.label}</span>
+              {item.detail && <span className="cell-completion-detail">{item.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {showOptions && !showCompletions && anchorRect && (
+        <ul
+          ref={optionListRef}
+          className="cell-enum-options"
+          role="listbox"
+          style={{ top: anchorRect.bottom, left: anchorRect.left, minWidth: anchorRect.width }}
+        >
+          {filteredOptions.map((option, index) => (
+            <li
+              key={option}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              className={`cell-enum-option ${index === highlightedIndex ? 'highlighted' : ''}`.trim()}
+              // フォーカスをテキストエリアに残し、セル選択の mousedown も発生させない
+              onMouseDown={(e) => { e.preventDefault(); e.stopPropagation() }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              onClick={() => onCommit(option)}
+            >
+              {option}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
   )
 }
 
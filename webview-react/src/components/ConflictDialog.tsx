@@ -0,0 +1,62 @@
+import { useTranslation } from 'react-i18next'
+import { TableConflictData } from '../../../src/communication/protocol'
+import { getColumnLetter } from '../utils/tableUtils'
+
+interface ConflictDialogProps {
+  conflict: TableConflictData
+  remaining: number
+  onApply: (conflict: TableConflictData) => void
+  onDiscard: (conflict: TableConflictData) => void
+}
+
+// 外部で変更されたテーブルへの編集を、上書きするか破棄するかをユーザーに確認するダイアログ
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ conflict, remaining, onApply, onDiscard }) => {
+  const { t } = useTranslation()
+  const { command, data } = conflict
+
+  let target: string | null = null
+  if (command === 'updateCell') {
+    target = t('conflictDialog.cell', { cell: `${getColumnLetter(data.col)}${data.row + 1}` })
+  } else if (command === 'updateHeader') {
+    target = t('conflictDialog.header', { column: getColumnLetter(data.col) })
+  }
+  const hasValues = conflict.currentValue !== undefined && typeof data?.value === 'string'
+
+  return (
+    <>
+      <div className="sort-dialog-backdrop" />
+      <div className="sort-dialog conflict-dialog" role="alertdialog" aria-label={t('conflictDialog.title')} onKeyDown={(e) => { if (e.key === 'Escape') onDiscard(conflict) }}>
+        <div className="sort-dialog-title">{t('conflictDialog.title')}</div>
+        <div className="conflict-dialog-message">
+          {t('conflictDialog.message', { table: t('tableTabs.tableLabel', { index: conflict.tableIndex + 1 }) })}
+        </div>
+        <div className="conflict-dialog-row">
+          <span className="sort-dialog-label">{t('conflictDialog.yourEdit')}</span>
+          <span>{t(`conflictDialog.operations.${command}`, { defaultValue: command })}{target ? ` (${target})` : ''}</span>
+        </div>
+        {hasValues && (
+          <>
+            <div className="conflict-dialog-row">
+              <span className="sort-dialog-label">{t('conflictDialog.yourValue')}</span>
+              <code className="conflict-dialog-value">{data.value}</code>
+            </div>
+            <div className="conflict-dialog-row">
+              <span className="sort-dialog-label">{t('conflictDialog.currentValue')}</span>
+              <code className="conflict-dialog-value">{conflict.currentValue}</code>
+            </div>
+          </>
+        )}
+        <div className="sort-dialog-actions">
+          {remaining > 0 && (
+            <span className="conflict-dialog-remaining">{t('conflictDialog.remaining', { count: remaining })}</span>
+          )}
+          <span className="sort-dialog-spacer" />
+          <button className="sort-dialog-btn secondary" onClick={() => onDiscard(conflict)}>{t('conflictDialog.discard')}</button>
+          <button className="sort-dialog-btn" onClick={() => onApply(conflict)} autoFocus>{t('conflictDialog.apply')}</button>
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default ConflictDialog
@@ -1,9 +1,12 @@
 import { useTranslation } from 'react-i18next'
+import { ColumnAlignment, FrozenPanes } from '../types'
+import { parseTaskCell } from '../utils/taskCheckbox'
 
 interface ContextMenuState {
   type: 'row' | 'column' | 'editor' | null
   index: number
   position: { x: number; y: number }
+  cell?: { row: number; col: number }  // editor メニューをセル上で開いた場合のセル位置
 }
 
 interface HeaderConfig {
@@ -27,12 +30,34 @@ interface ContextMenuProps {
   onExportTsv?: () => void
   exportEncoding?: 'utf8' | 'sjis'
   onChangeEncoding?: (encoding: 'utf8' | 'sjis') => void
+  onOpenSortDialog?: () => void
   onResetSort?: () => void
   onCommitSort?: () => void
   hasActiveSort?: boolean
+  onClearFilters?: () => void
+  onCommitFilter?: () => void
+  hasActiveFilter?: boolean
+  hiddenRowCount?: number
   headerConfig?: HeaderConfig
   onToggleColumnHeaders?: () => void
   onToggleRowHeaders?: () => void
+  showAggregateFooter?: boolean
+  onToggleAggregateFooter?: () => void
+  showMarkdownSource?: boolean
+  onToggleMarkdownSource?: () => void
+  onAddAggregateRow?: () => void
+  columnAlignments?: ColumnAlignment[]
+  onSetAlignment?: (columns: number[], alignment: ColumnAlignment) => void
+  frozenPanes?: FrozenPanes
+  onFreezePanes?: (upTo: { row?: number; col?: number }) => void
+  onUnfreezePanes?: () => void
+  // 選択範囲のタスクをまとめて完了 / 未完了にする
+  onSetTasksChecked?: (checked: boolean) => void
+  // 選択範囲のセルの結合 / 選択したセルの結合の解除（HTML のテーブルとして保存される）
+  onMergeCells?: () => void
+  onUnmergeCells?: () => void
+  canMergeCells?: boolean
+  canUnmergeCells?: boolean
 }
 
 const ContextMenu: React.FC<ContextMenuProps> = ({
@@ -51,12 +76,32 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
   onExportTsv,
   exportEncoding = 'utf8',
   onChangeEncoding,
+  onOpenSortDialog,
   onResetSort,
   onCommitSort,
   hasActiveSort,
+  onClearFilters,
+  onCommitFilter,
+  hasActiveFilter,
+  hiddenRowCount = 0,
   headerConfig,
   onToggleColumnHeaders,
-  onToggleRowHeaders
+  onToggleRowHeaders,
+  showAggregateFooter,
+  onToggleAggregateFooter,
+  showMarkdownSource,
+  onToggleMarkdownSource,
+  onAddAggregateRow,
+  columnAlignments,
+  onSetAlignment,
+  frozenPanes,
+  onFreezePanes,
+  onUnfreezePanes,
+  onSetTasksChecked,
+  onMergeCells,
+  onUnmergeCells,
+  canMergeCells = false,
+  canUnmergeCells = false
 }) => {
   const { t } = useTranslation()
   if (!menuState.type) return null
@@ -210,6 +255,54 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
     onClose()
   }
 
+  const handleSetAlignment = (alignment: ColumnAlignment) => {
+    const selectedColumns = getSelectedColumns()
+    // 複数列選択中にその列上で開いた場合は選択列すべてに適用
+    const columns = selectedColumns.size > 1 && selectedColumns.has(menuState.index)
+      ? Array.from(selectedColumns).sort((a, b) => a - b)
+      : [menuState.index]
+    onSetAlignment?.(columns, alignment)
+    onClose()
+  }
+
+  const alignmentOptions: Array<{ value: ColumnAlignment; icon: string; labelKey: string }> = [
+    { value: 'left', icon: '⇤', labelKey: 'contextMenu.alignLeft' },
+    { value: 'center', icon: '↔', labelKey: 'contextMenu.alignCenter' },
+    { value: 'right', icon: '⇥', labelKey: 'contextMenu.alignRight' },
+    { value: 'default', icon: '', labelKey: 'contextMenu.alignDefault' }
+  ]
+
+  const isFrozen = !!frozenPanes && (frozenPanes.rows > 0 || frozenPanes.columns > 0)
+
+  // ウィンドウ枠の固定（指定した行・列まで）と解除
+  const renderFreezeItems = (upTo: { row?: number; col?: number } | null, labelKey: string) => {
+    if (!onFreezePanes) return null
+    return (
+      <>
+        <div className="context-menu-separator"></div>
+        <button className="context-menu-item" onClick={() => { if (upTo) onFreezePanes(upTo); onClose(); }} disabled={!upTo}>
+          <span className="context-menu-icon">📌</span>
+          <span className="context-menu-label">{t(labelKey)}</span>
+        </button>
+        <button className="context-menu-item" onClick={() => { onUnfreezePanes?.(); onClose(); }} disabled={!isFrozen}>
+          <span className="context-menu-icon"></span>
+          <span className="context-menu-label">{t('contextMenu.unfreezePanes')}</span>
+        </button>
+      </>
+    )
+  }
+
+  // 列ヘッダーOFF時の先頭行（row=-1）は行数では固定できないため、列のみ固定する
+  const editorFreezeTarget = menuState.cell
+    ? { row: menuState.cell.row >= 0 ? menuState.cell.row : undefined, col: menuState.cell.col }
+    : null
+
+  // 選択範囲にタスク（"[ ]" / "[x]" のセル）があれば、まとめて完了 / 未完了にする項目を表示する
+  const hasSelectedTasks = !!onSetTasksChecked && !!tableData && Array.from(selectedCells ?? []).some(cellKey => {
+    const [row, col] = cellKey.split('-').map(Number)
+    return row >= 0 && parseTaskCell(tableData.rows[row]?.[col] ?? '') !== null
+  })
+
   const adjustedPosition = {
     x: Math.min(menuState.position.x, window.innerWidth - 220),
     y: Math.min(menuState.position.y, window.innerHeight - 200)
@@ -240,7 +333,51 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
             <span className="context-menu-icon">{headerConfig?.hasRowHeaders ? '✓' : ''}</span>
             <span className="context-menu-label">{t('contextMenu.showRowHeaders')}</span>
           </button>
+          <button className="context-menu-item" onClick={() => { onToggleMarkdownSource?.(); onClose(); }}>
+            <span className="context-menu-icon">{showMarkdownSource ? '✓' : ''}</span>
+            <span className="context-menu-label">{t('contextMenu.showMarkdownSource')}</span>
+          </button>
+          {renderFreezeItems(editorFreezeTarget, 'contextMenu.freezePanes')}
+          {onMergeCells && (canMergeCells || canUnmergeCells) && (
+            <>
+              <div className="context-menu-separator"></div>
+              <button className="context-menu-item" onClick={() => { onMergeCells(); onClose(); }} disabled={!canMergeCells}>
+                <span className="context-menu-icon">⊞</span>
+                <span className="context-menu-label">{t('contextMenu.mergeCells')}</span>
+              </button>
+              <button className="context-menu-item" onClick={() => { onUnmergeCells?.(); onClose(); }} disabled={!canUnmergeCells}>
+                <span className="context-menu-icon">⊟</span>
+                <span className="context-menu-label">{t('contextMenu.unmergeCells')}</span>
+              </button>
+            </>
+          )}
+          {hasSelectedTasks && (
+            <>
+              <div className="context-menu-separator"></div>
+              <button className="context-menu-item" onClick={() => { onSetTasksChecked?.(true); onClose(); }}>
+                <span className="context-menu-icon">☑</span>
+                <span className="context-menu-label">{t('contextMenu.checkTasks')}</span>
+              </button>
+              <button className="context-menu-item" onClick={() => { onSetTasksChecked?.(false); onClose(); }}>
+                <span className="context-menu-icon">☐</span>
+                <span className="context-menu-label">{t('contextMenu.uncheckTasks')}</span>
+              </button>
+            </>
+          )}
           <div className="context-menu-separator"></div>
+          <button className="context-menu-item" onClick={() => { onToggleAggregateFooter?.(); onClose(); }}>
+            <span className="context-menu-icon">{showAggregateFooter ? '✓' : ''}</span>
+            <span className="context-menu-label">{t('contextMenu.showAggregateFooter')}</span>
+          </button>
+          <button className="context-menu-item" onClick={() => { onAddAggregateRow?.(); onClose(); }} disabled={!tableData || tableData.rows.length === 0}>
+            <span className="context-menu-icon">Σ</span>
+            <span className="context-menu-label">{t('contextMenu.addAggregateRow')}</span>
+          </button>
+          <div className="context-menu-separator"></div>
+          <button className="context-menu-item" onClick={() => { onOpenSortDialog?.(); onClose(); }} disabled={!tableData || tableData.headers.length === 0}>
+            <span className="context-menu-icon">⇅</span>
+            <span className="context-menu-label">{t('contextMenu.sortSettings')}</span>
+          </button>
           <button className="context-menu-item" onClick={() => { onResetSort?.(); onClose(); }} disabled={!hasActiveSort}>
             <span className="context-menu-icon">🗂️</span>
             <span className="context-menu-label">{t('contextMenu.resetSort')}</span>
@@ -249,6 +386,14 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
             <span className="context-menu-icon">💾</span>
             <span className="context-menu-label">{t('contextMenu.commitSort')}</span>
           </button>
+          <button className="context-menu-item" onClick={() => { onClearFilters?.(); onClose(); }} disabled={!hasActiveFilter}>
+            <span className="context-menu-icon">⧩</span>
+            <span className="context-menu-label">{t('contextMenu.clearFilters')}</span>
+          </button>
+          <button className="context-menu-item" onClick={() => { onCommitFilter?.(); onClose(); }} disabled={hiddenRowCount === 0}>
+            <span className="context-menu-icon">🗑️</span>
+            <span className="context-menu-label">{t('contextMenu.deleteHiddenRows', { count: hiddenRowCount })}</span>
+          </button>
           <div className="context-menu-separator"></div>
           <button className="context-menu-item" onClick={() => { onExportCsv?.(); onClose(); }}>
             <span className="context-menu-icon">📄</span>
@@ -323,6 +468,7 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
                 : t('contextMenu.deleteThisRow')}
             </span>
           </button>
+          {renderFreezeItems(menuState.index >= 0 ? { row: menuState.index } : null, 'contextMenu.freezeRows')}
         </div>
       )}
 
@@ -361,6 +507,18 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
                 : t('contextMenu.deleteThisColumn')}
             </span>
           </button>
+          {onSetAlignment && (
+            <>
+              <div className="context-menu-separator"></div>
+              {alignmentOptions.map(option => (
+                <button key={option.value} className="context-menu-item" onClick={() => handleSetAlignment(option.value)}>
+                  <span className="context-menu-icon">{columnAlignments?.[menuState.index] === option.value ? '✓' : option.icon}</span>
+                  <span className="context-menu-label">{t(option.labelKey)}</span>
+                </button>
+              ))}
+            </>
+          )}
+          {renderFreezeItems({ col: menuState.index }, 'contextMenu.freezeColumns')}
         </div>
       )}
     </>
@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ColumnFilter } from '../types'
+import { compileFilterPattern } from '../utils/rowFilter'
+
+interface FilterMenuProps {
+  header: string
+  values: string[]
+  columnType: 'string' | 'number' | 'date'
+  filter?: ColumnFilter
+  position: { x: number; y: number }
+  onApply: (filter: ColumnFilter | null) => void
+  onClose: () => void
+}
+
+const parseNumber = (value: string): number | undefined => {
+  const num = value.trim() === '' ? NaN : Number(value)
+  return isFinite(num) ? num : undefined
+}
+
+// 列ヘッダーのオートフィルター（値の一覧・テキスト条件・数値範囲・日付範囲）
+const FilterMenu: React.FC<FilterMenuProps> = ({
+  header,
+  values,
+  columnType,
+  filter,
+  position,
+  onApply,
+  onClose
+}) => {
+  const { t } = useTranslation()
+  const [selectedValues, setSelectedValues] = useState<Set<string>>(() => new Set(filter?.values ?? values))
+  const [valueSearch, setValueSearch] = useState('')
+  const [textMode, setTextMode] = useState<'contains' | 'regex'>(filter?.text?.mode ?? 'contains')
+  const [textPattern, setTextPattern] = useState(filter?.text?.pattern ?? '')
+  const [min, setMin] = useState(filter?.range?.min?.toString() ?? '')
+  const [max, setMax] = useState(filter?.range?.max?.toString() ?? '')
+  const [from, setFrom] = useState(filter?.dateRange?.from ?? '')
+  const [to, setTo] = useState(filter?.dateRange?.to ?? '')
+
+  const visibleValues = useMemo(() => {
+    const query = valueSearch.trim().toLowerCase()
+    return query ? values.filter(value => value.toLowerCase().includes(query)) : values
+  }, [valueSearch, values])
+
+  const isRegexInvalid = textMode === 'regex' && textPattern !== '' && !compileFilterPattern(textPattern)
+  const allSelected = values.every(value => selectedValues.has(value))
+
+  const toggleValue = (value: string) => {
+    setSelectedValues(prev => {
+      const next = new Set(prev)
+      if (next.has(value)) {
+        next.delete(value)
+      } else {
+        next.add(value)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelectedValues(prev => {
+      const next = new Set(prev)
+      const shouldSelect = !visibleValues.every(value => prev.has(value))
+      visibleValues.forEach(value => shouldSelect ? next.add(value) : next.delete(value))
+      return next
+    })
+  }
+
+  const handleApply = () => {
+    const next: ColumnFilter = {}
+    if (!allSelected) {
+      next.values = values.filter(value => selectedValues.has(value))
+    }
+    if (textPattern) {
+      next.text = { mode: textMode, pattern: textPattern }
+    }
+    const range = { min: parseNumber(min), max: parseNumber(max) }
+    if (range.min !== undefined || range.max !== undefined) {
+      next.range = range
+    }
+    if (from || to) {
+      next.dateRange = { from: from || undefined, to: to || undefined }
+    }
+    onApply(Object.keys(next).length > 0 ? next : null)
+    onClose()
+  }
+
+  const adjustedPosition = {
+    x: Math.min(position.x, window.innerWidth - 280),
+    y: Math.min(position.y, window.innerHeight - 420)
+  }
+
+  return (
+    <>
+      <div className="context-menu-backdrop" onClick={onClose} style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, zIndex: 999 }} />
+      <div
+        className="filter-menu"
+        role="dialog"
+        aria-label={t('filterMenu.title', { header })}
+        style={{ left: Math.max(0, adjustedPosition.x), top: Math.max(0, adjustedPosition.y) }}
+        onKeyDown={(e) => { if (e.key === 'Escape') onClose() }}
+      >
+        <div className="filter-menu-title">{t('filterMenu.title', { header })}</div>
+
+        <div className="filter-menu-section">
+          <div className="filter-menu-row">
+            <select value={textMode} onChange={(e) => setTextMode(e.target.value as 'contains' | 'regex')} aria-label={t('filterMenu.textMode')}>
+              <option value="contains">{t('filterMenu.contains')}</option>
+              <option value="regex">{t('filterMenu.regex')}</option>
+            </select>
+            <input
+              type="text"
+              value={textPattern}
+              placeholder={t('filterMenu.textPlaceholder')}
+              onChange={(e) => setTextPattern(e.target.value)}
+              className={isRegexInvalid ? 'invalid' : ''}
+            />
+          </div>
+          {isRegexInvalid && <div className="filter-menu-error">{t('filterMenu.invalidRegex')}</div>}
+        </div>
+
+        {columnType === 'number' && (
+          <div className="filter-menu-section filter-menu-row">
+            <input type="number" value={min} placeholder={t('filterMenu.min')} onChange={(e) => setMin(e.target.value)} aria-label={t('filterMenu.min')} />
+            <span>–</span>
+            <input type="number" value={max} placeholder={t('filterMenu.max')} onChange={(e) => setMax(e.target.value)} aria-label={t('filterMenu.max')} />
+          </div>
+        )}
+
+        {columnType === 'date' && (
+          <div className="filter-menu-section filter-menu-row">
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label={t('filterMenu.from')} />
+            <span>–</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label={t('filterMenu.to')} />
+          </div>
+        )}
+
+        <div className="filter-menu-section">
+          <input
+            type="text"
+            className="filter-menu-search"
+            value={valueSearch}
+            placeholder={t('filterMenu.searchValues')}
+            onChange={(e) => setValueSearch(e.target.value)}
+          />
+          <div className="filter-menu-values">
+            <label className="filter-menu-value">
+              <input type="checkbox" checked={visibleValues.every(value => selectedValues.has(value))} onChange={toggleAll} />
+              <span>{t('filterMenu.selectAll')}</span>
+            </label>
+            {visibleValues.map(value => (
+              <label className="filter-menu-value" key={value}>
+                <input type="checkbox" checked={selectedValues.has(value)} onChange={() => toggleValue(value)} />
+                <span className={value === '' ? 'filter-menu-blank' : ''}>{value === '' ? t('filterMenu.blank') : value}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="filter-menu-actions">
+          <button className="sort-dialog-btn secondary" onClick={() => { onApply(null); onClose() }} disabled={!filter}>
+            {t('filterMenu.clear')}
+          </button>
+          <span className="sort-dialog-spacer" />
+          <button className="sort-dialog-btn secondary" onClick={onClose}>{t('filterMenu.cancel')}</button>
+          <button className="sort-dialog-btn" onClick={handleApply} disabled={isRegexInvalid}>{t('filterMenu.apply')}</button>
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default FilterMenu
@@ -0,0 +1,52 @@
+import { useTranslation } from 'react-i18next'
+import { TableHistoryData } from '../../../src/communication/protocol'
+
+interface HistoryPanelProps {
+  history: TableHistoryData
+  onJump: (position: number) => void
+  onClose: () => void
+}
+
+// 元に戻す / やり直しの履歴。項目を選ぶと、その操作を適用した時点まで戻る（進む）
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+  const { t } = useTranslation()
+  const { entries, position } = history
+
+  const renderItem = (itemPosition: number, label: string, timestamp?: number) => {
+    const current = itemPosition === position
+    return (
+      <li key={itemPosition}>
+        <button
+          className={`history-item${current ? ' current' : ''}${itemPosition > position ? ' undone' : ''}`}
+          onClick={() => { if (!current) onJump(itemPosition) }}
+          aria-current={current ? 'step' : undefined}
+        >
+          <span className="history-item-label">{label}</span>
+          {timestamp !== undefined && (
+            <span className="history-item-time">{new Date(timestamp).toLocaleTimeString()}</span>
+          )}
+        </button>
+      </li>
+    )
+  }
+
+  return (
+    <div className="history-panel" role="dialog" aria-label={t('history.title')} onKeyDown={(e) => { if (e.key === 'Escape') onClose() }}>
+      <div className="history-panel-header">
+        <span className="sort-dialog-title">{t('history.title')}</span>
+        <span className="sort-dialog-spacer" />
+        <button className="sort-dialog-icon-btn" onClick={onClose} title={t('history.close')} aria-label={t('history.close')}>×</button>
+      </div>
+      {entries.length === 0 ? (
+        <div className="history-panel-empty">{t('history.empty')}</div>
+      ) : (
+        <ol className="history-list">
+          {renderItem(0, t('history.initial'))}
+          {entries.map((entry, index) => renderItem(index + 1, entry.description, entry.timestamp))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default HistoryPanel
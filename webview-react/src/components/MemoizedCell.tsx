@@ -6,10 +6,15 @@
  * セルの状態（選択、編集、検索結果など）が変更された場合のみ再レンダリングされる。
  */
 import React, { memo, useCallback } from 'react'
-import { HeaderConfig } from '../types'
+import { HeaderConfig, ColumnAlignment, CellDiff } from '../types'
 import { processCellContent, processCellContentForEditing } from '../utils/contentConverter'
+import { renderInlineMarkdown } from '../utils/inlineMarkdown'
+import { FormulaResult, parseFormulaCell } from '../utils/formulaEngine'
 import { getColumnLetter } from '../utils/tableUtils'
+import { EnumColumn } from '../utils/enumColumns'
+import { parseTaskCell } from '../utils/taskCheckbox'
 import CellEditor from './CellEditor'
+import type { LinkTargetsResult } from '../utils/linkTargets'
 
 interface SelectionBorders {
   top: boolean
@@ -37,6 +42,30 @@ export interface MemoizedCellProps {
   headerConfig?: HeaderConfig
   initialCellInput?: string | null
   savedHeight?: { original: number; rowMax: number }
+  formulaResult?: FormulaResult
+  alignment?: ColumnAlignment
+  diff?: CellDiff
+  // 列の入力規則に合わない場合のメッセージ（赤いマーカーとツールチップで表示）
+  validationMessage?: string
+  // 選択肢（enum）の列（編集中のセルだけに渡し、ドロップダウンで値を選ぶ）
+  enumColumn?: EnumColumn
+  // インライン Markdown を描画して表示する（編集中は記法のまま）
+  renderMarkdown?: boolean
+  documentBaseUri?: string
+  // リンク挿入時の候補を取得する（編集中のセルだけに渡す）
+  onListLinkTargets?: () => Promise<LinkTargetsResult>
+  // リンク先が見つからないリンクの判定とツールチップの文言
+  isBrokenLink?: (href: string) => boolean
+  brokenLinkTitle?: string
+  // タスクのチェックボックスの切り替え（読み取り専用では渡さず、チェックボックスを無効にする）
+  onToggleTask?: (row: number, col: number) => void
+  // 結合したセルの大きさ（HTML のテーブルの rowspan / colspan）
+  rowSpan?: number
+  colSpan?: number
+  // ウィンドウ枠の固定（sticky の left / top 位置。固定しない場合は undefined）
+  frozenLeft?: number
+  frozenTop?: number
+  frozenEdge?: boolean
   onMouseDown: (row: number, col: number, event: React.MouseEvent) => void
   onDoubleClick: (row: number, col: number) => void
   onCommitEdit: (row: number, col: number, value: string, move?: 'right' | 'left' | 'down' | 'up') => void
@@ -62,6 +91,22 @@ const MemoizedCell: React.FC<MemoizedCellProps> = ({
   displayRowNumber,
   initialCellInput,
   savedHeight,
+  formulaResult,
+  alignment,
+  diff,
+  validationMessage,
+  enumColumn,
+  renderMarkdown = false,
+  documentBaseUri,
+  onListLinkTargets,
+  isBrokenLink,
+  brokenLinkTitle,
+  onToggleTask,
+  rowSpan,
+  colSpan,
+  frozenLeft,
+  frozenTop,
+  frozenEdge,
   onMouseDown,
   onDoubleClick,
   onCommitEdit,
@@ -69,9 +114,18 @@ const MemoizedCell: React.FC<MemoizedCellProps> = ({
   onFillHandleMouseDown
 }) => {
   const cellId = `cell-${rowIndex}-${colIndex}`
-  const isEmpty = !cell || cell.trim() === ''
+  // 数式セルは計算結果を表示し、編集時は数式（=...）を表示する
+  const formulaCell = parseFormulaCell(cell)
+  const displayValue = formulaCell ? (formulaResult?.value ?? formulaCell.value) : cell
+  const isEmpty = !displayValue || displayValue.trim() === ''
+  // "[ ]" / "[x]" で始まるセルはチェックボックスとして表示する（数式セルは除く）
+  const task = formulaCell ? null : parseTaskCell(cell)
   const cellClass = isEmpty ? 'empty-cell' : ''
+  const formulaClass = formulaCell ? `formula-cell ${formulaResult?.error ? 'formula-error' : ''}`.trim() : ''
   const userResizedClass = userResized ? 'user-resized' : ''
+  const diffClass = diff ? `diff-${diff.status}` : ''
+  const validationClass = validationMessage ? 'invalid-cell' : ''
+  const frozenClass = `${frozenLeft !== undefined ? 'frozen-column' : ''} ${frozenTop !== undefined ? 'frozen-row' : ''} ${frozenEdge ? 'frozen-column-edge' : ''}`.trim()
 
   const widthStyle = {
     width: `${storedWidth}px`,
@@ -86,7 +140,7 @@ const MemoizedCell: React.FC<MemoizedCellProps> = ({
       : `selected ${isSingleSelection ? 'single-selection' : ''} ${borders.top ? 'border-top' : ''} ${borders.bottom ? 'border-bottom' : ''} ${borders.left ? 'border-left' : ''} ${borders.right ? 'border-right' : ''}`.trim()
     : ''
 
-  const className = `data-cell ${cellClass} ${userResizedClass} ${selectionClass} ${isEditing ? 'editing' : ''} ${isInFillRange ? 'fill-range' : ''} ${isSearchResult ? 'search-result' : ''} ${isCurrentSearchResult ? 'current-search-result' : ''}`.trim()
+  const className = `data-cell ${cellClass} ${userResizedClass} ${selectionClass} ${isEditing ? 'editing' : ''} ${isInFillRange ? 'fill-range' : ''} ${isSearchResult ? 'search-result' : ''} ${isCurrentSearchResult ? 'current-search-result' : ''} ${formulaClass} ${alignment && alignment !== 'default' ? `align-${alignment}` : ''} ${diffClass} ${validationClass} ${frozenClass}`.trim()
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     onMouseDown(rowIndex, colIndex, e)
@@ -104,6 +158,14 @@ const MemoizedCell: React.FC<MemoizedCellProps> = ({
     onCancelEdit(rowIndex, colIndex)
   }, [onCancelEdit, rowIndex, colIndex])
 
+  const handleToggleTask = useCallback(() => {
+    onToggleTask?.(rowIndex, colIndex)
+  }, [onToggleTask, rowIndex, colIndex])
+
+  const renderContent = (value: string) => renderMarkdown
+    ? renderInlineMarkdown(value, { baseUri: documentBaseUri, isBrokenLink, brokenLinkTitle })
+    : processCellContent(value)
+
   return (
     <td
       id={cellId}
@@ -112,8 +174,12 @@ const MemoizedCell: React.FC<MemoizedCellProps> = ({
       onDoubleClick={handleDoubleClick}
       data-row={rowIndex}
       data-col={colIndex}
+      rowSpan={rowSpan}
+      colSpan={colSpan}
       style={{
         ...widthStyle,
+        ...(frozenLeft !== undefined ? { left: `${frozenLeft}px` } : {}),
+        ...(frozenTop !== undefined ? { top: `${frozenTop}px` } : {}),
         ...(isEditing
           ? {
               minHeight: (savedHeight?.rowMax || 32) + 'px',
@@ -122,23 +188,47 @@ const MemoizedCell: React.FC<MemoizedCellProps> = ({
             }
           : {})
       }}
-      title={`Cell ${getColumnLetter(colIndex)}${displayRowNumber}`}
+      title={`${formulaCell
+        ? `Cell ${getColumnLetter(colIndex)}${displayRowNumber}: =${formulaCell.formula}${formulaResult?.error ? ` (${formulaResult.error})` : ''}`
+        : diff?.previous !== undefined
+          ? `Cell ${getColumnLetter(colIndex)}${displayRowNumber}: ${diff.previous} → ${cell}`
+          : `Cell ${getColumnLetter(colIndex)}${displayRowNumber}`}${validationMessage ? `\n${validationMessage}` : ''}`}
     >
       {isEditing ? (
         <CellEditor
-          value={initialCellInput ?? processCellContentForEditing(cell || '')}
+          value={initialCellInput ?? (formulaCell ? `=${formulaCell.formula}` : processCellContentForEditing(cell || ''))}
           onCommit={handleCommit}
           onCancel={handleCancel}
           rowIndex={rowIndex}
           colIndex={colIndex}
           originalHeight={savedHeight?.original}
           rowMaxHeight={savedHeight?.rowMax}
+          options={enumColumn?.values}
+          restrictToOptions={enumColumn?.configured}
+          documentBaseUri={documentBaseUri}
+          onListLinkTargets={onListLinkTargets}
         />
       ) : (
         <>
           <div className="cell-content">
-            {cell && cell.trim() !== '' ? (
-              <span dangerouslySetInnerHTML={{ __html: processCellContent(cell) }} />
+            {task ? (
+              // チェックボックスのダブルクリックでは編集モードに入らない
+              <span className="cell-task">
+                <input
+                  type="checkbox"
+                  className="cell-task-checkbox"
+                  checked={task.checked}
+                  disabled={!onToggleTask}
+                  onChange={handleToggleTask}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                  aria-label={`Cell ${getColumnLetter(colIndex)}${displayRowNumber}`}
+                />
+                {task.label && (
+                  <span className={task.checked ? 'cell-task-label done' : 'cell-task-label'} dangerouslySetInnerHTML={{ __html: renderContent(task.label) }} />
+                )}
+              </span>
+            ) : !isEmpty ? (
+              <span dangerouslySetInnerHTML={{ __html: renderContent(displayValue) }} />
             ) : (
               <span className="empty-cell-placeholder">&nbsp;</span>
             )}
@@ -174,7 +264,23 @@ function arePropsEqual(prevProps: MemoizedCellProps, nextProps: MemoizedCellProp
     prevProps.storedWidth !== nextProps.storedWidth ||
     prevProps.userResized !== nextProps.userResized ||
     prevProps.displayRowNumber !== nextProps.displayRowNumber ||
-    prevProps.initialCellInput !== nextProps.initialCellInput
+    prevProps.initialCellInput !== nextProps.initialCellInput ||
+    prevProps.alignment !== nextProps.alignment ||
+    prevProps.diff?.status !== nextProps.diff?.status ||
+    prevProps.diff?.previous !== nextProps.diff?.previous ||
+    prevProps.validationMessage !== nextProps.validationMessage ||
+    prevProps.enumColumn !== nextProps.enumColumn ||
+    prevProps.renderMarkdown !== nextProps.renderMarkdown ||
+    prevProps.documentBaseUri !== nextProps.documentBaseUri ||
+    prevProps.onListLinkTargets !== nextProps.onListLinkTargets ||
+    prevProps.isBrokenLink !== nextProps.isBrokenLink ||
+    prevProps.brokenLinkTitle !== nextProps.brokenLinkTitle ||
+    prevProps.onToggleTask !== nextProps.onToggleTask ||
+    prevProps.rowSpan !== nextProps.rowSpan ||
+    prevProps.colSpan !== nextProps.colSpan ||
+    prevProps.frozenLeft !== nextProps.frozenLeft ||
+    prevProps.frozenTop !== nextProps.frozenTop ||
+    prevProps.frozenEdge !== nextProps.frozenEdge
   ) {
     return false
   }
@@ -189,6 +295,14 @@ function arePropsEqual(prevProps: MemoizedCellProps, nextProps: MemoizedCellProp
     return false
   }
 
+  // formulaResult の比較（評価のたびに新しいオブジェクトになるため値で比較）
+  if (
+    prevProps.formulaResult?.value !== nextProps.formulaResult?.value ||
+    prevProps.formulaResult?.error !== nextProps.formulaResult?.error
+  ) {
+    return false
+  }
+
   // savedHeight の比較
   if (prevProps.savedHeight !== nextProps.savedHeight) {
     if (!prevProps.savedHeight || !nextProps.savedHeight) {
@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { TableMergeConflict } from '../../../src/communication/protocol'
+import { getColumnLetter } from '../utils/tableUtils'
+import {
+  MergeChoices,
+  MergeRow,
+  MergeSide,
+  buildMergeGrid,
+  chooseMergeAll,
+  chooseMergeCell,
+  chooseMergeRow,
+  countUnresolvedCells,
+  getMergeChoice,
+  resolveMergeGrid
+} from '../utils/tableMerge'
+
+interface MergeConflictViewProps {
+  conflicts: TableMergeConflict[]
+  onResolve: (conflict: TableMergeConflict, table: { headers: string[]; rows: string[][]; alignment: string[] }) => void
+  onClose?: () => void
+}
+
+// Git のコンフリクトを含むテーブルを、ours / theirs のセル単位で選んで解決する画面
+const MergeConflictView: React.FC<MergeConflictViewProps> = ({ conflicts, onResolve, onClose }) => {
+  const { t } = useTranslation()
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const conflict = conflicts[Math.min(selectedIndex, conflicts.length - 1)]
+  // テーブルデータの再送では同じ内容の新しいオブジェクトが届くため、内容で比較する
+  const conflictKey = JSON.stringify(conflict)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const grid = useMemo(() => buildMergeGrid(conflict), [conflictKey])
+  const [choices, setChoices] = useState<MergeChoices>({})
+
+  // 対象のテーブル（またはファイル側の内容）が変わったら選択をやり直す
+  useEffect(() => {
+    setChoices({})
+  }, [conflictKey])
+
+  const unresolved = countUnresolvedCells(grid, choices)
+  const oursLabel = conflict.oursLabel || t('mergeConflict.ours')
+  const theirsLabel = conflict.theirsLabel || t('mergeConflict.theirs')
+
+  const renderOption = (row: number, col: number, mergeRow: MergeRow, side: MergeSide) => {
+    const cell = mergeRow.cells[col]
+    const value = cell[side]
+    const selected = getMergeChoice(grid, choices, row, col) === side
+    const missingLabel = row < 0 ? t('mergeConflict.columnMissing') : t('mergeConflict.rowMissing')
+    return (
+      <button
+        className={`merge-option ${side}${selected ? ' selected' : ''}${value === null ? ' missing' : ''}`}
+        onClick={() => setChoices(prev => chooseMergeCell(grid, prev, row, col, side))}
+        title={side === 'ours' ? oursLabel : theirsLabel}
+      >
+        {value ?? missingLabel}
+      </button>
+    )
+  }
+
+  const renderRow = (row: number, mergeRow: MergeRow) => (
+    <tr key={row} className={`merge-grid-row kind-${mergeRow.kind}`}>
+      <th className="merge-grid-row-header">
+        <span className="merge-grid-row-number">{row < 0 ? '' : row + 1}</span>
+        <button className="sort-dialog-icon-btn" onClick={() => setChoices(prev => chooseMergeRow(grid, prev, row, 'ours'))} title={t('mergeConflict.useRow', { label: oursLabel })}>◀</button>
+        <button className="sort-dialog-icon-btn" onClick={() => setChoices(prev => chooseMergeRow(grid, prev, row, 'theirs'))} title={t('mergeConflict.useRow', { label: theirsLabel })}>▶</button>
+      </th>
+      {mergeRow.cells.map((cell, col) => {
+        if (mergeRow.kind === 'both' && cell.ours === cell.theirs) {
+          return <td key={col} className="merge-cell same">{cell.ours ?? ''}</td>
+        }
+        const unresolvedCell = getMergeChoice(grid, choices, row, col) === null
+        return (
+          <td key={col} className={`merge-cell changed${unresolvedCell ? ' unresolved' : ''}`}>
+            {renderOption(row, col, mergeRow, 'ours')}
+            {renderOption(row, col, mergeRow, 'theirs')}
+          </td>
+        )
+      })}
+    </tr>
+  )
+
+  return (
+    <div className="merge-view" role="region" aria-label={t('mergeConflict.title')}>
+      <div className="merge-view-toolbar">
+        <span className="merge-view-title">{t('mergeConflict.title')}</span>
+        {conflicts.length > 1 && (
+          <select value={selectedIndex} onChange={(e) => setSelectedIndex(Number(e.target.value))} aria-label={t('mergeConflict.selectTable')}>
+            {conflicts.map((item, index) => (
+              <option key={item.startLine} value={index}>
+                {t('mergeConflict.lines', { start: item.startLine + 1, end: item.endLine + 1 })}
+              </option>
+            ))}
+          </select>
+        )}
+        <span className="merge-view-status">
+          {unresolved > 0 ? t('mergeConflict.unresolved', { count: unresolved }) : t('mergeConflict.allResolved')}
+        </span>
+        <span className="sort-dialog-spacer" />
+        <button className="sort-dialog-btn secondary" onClick={() => setChoices(chooseMergeAll(grid, 'ours'))}>
+          {t('mergeConflict.useAll', { label: oursLabel })}
+        </button>
+        <button className="sort-dialog-btn secondary" onClick={() => setChoices(chooseMergeAll(grid, 'theirs'))}>
+          {t('mergeConflict.useAll', { label: theirsLabel })}
+        </button>
+        {onClose && (
+          <button className="sort-dialog-btn secondary" onClick={onClose}>{t('mergeConflict.later')}</button>
+        )}
+        <button
+          className="sort-dialog-btn"
+          disabled={unresolved > 0}
+          onClick={() => onResolve(conflict, resolveMergeGrid(grid, choices, conflict))}
+        >
+          {t('mergeConflict.write')}
+        </button>
+      </div>
+      <div className="merge-view-legend">
+        <span className="merge-legend ours">◀ {oursLabel}</span>
+        <span className="merge-legend theirs">{theirsLabel} ▶</span>
+        {conflict.base && <span className="merge-legend-note">{t('mergeConflict.baseAvailable')}</span>}
+      </div>
+      <div className="merge-grid-container">
+        <table className="merge-grid">
+          <thead>
+            <tr>
+              <th />
+              {Array.from({ length: grid.columnCount }, (_, col) => (
+                <th key={col} className="merge-grid-column">{getColumnLetter(col)}</th>
+              ))}
+            </tr>
+            {renderRow(-1, grid.header)}
+          </thead>
+          <tbody>
+            {grid.rows.map((mergeRow, row) => renderRow(row, mergeRow))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default MergeConflictView
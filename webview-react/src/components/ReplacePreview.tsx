@@ -0,0 +1,103 @@
+import React from 'react'
+import { useTranslation } from 'react-i18next'
+import { ReplacePreviewItem } from '../types'
+import { applyReplaceMatches } from '../utils/searchReplace'
+
+interface ReplacePreviewProps {
+  items: ReplacePreviewItem[]
+  onToggleMatch: (item: ReplacePreviewItem, matchIndex: number) => void
+  onToggleItem: (item: ReplacePreviewItem) => void
+  onApply: () => void
+  onCancel: () => void
+}
+
+// セル値をマッチ位置で分割し、置換前（削除）または置換後（追加）の差分として表示
+const renderDiff = (item: ReplacePreviewItem, side: 'before' | 'after') => {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  item.matches.forEach((match, index) => {
+    parts.push(item.before.slice(cursor, match.start))
+    if (match.excluded) {
+      parts.push(match.text)
+    } else if (side === 'before') {
+      parts.push(<del key={index} className="replace-preview-del">{match.text}</del>)
+    } else {
+      parts.push(<ins key={index} className="replace-preview-ins">{match.replacement}</ins>)
+    }
+    cursor = match.end
+  })
+  parts.push(item.before.slice(cursor))
+  return parts
+}
+
+// すべて置換の前に、変更されるセルの置換前後を一覧表示する
+const ReplacePreview: React.FC<ReplacePreviewProps> = ({
+  items,
+  onToggleMatch,
+  onToggleItem,
+  onApply,
+  onCancel
+}) => {
+  const { t } = useTranslation()
+
+  const changedCount = items.filter(item => applyReplaceMatches(item.before, item.matches) !== item.before).length
+  const matchCount = items.reduce((sum, item) => sum + item.matches.filter(match => !match.excluded).length, 0)
+
+  return (
+    <div className="replace-preview" role="region" aria-label={t('searchBar.previewTitle')}>
+      <div className="replace-preview-header">
+        <span className="replace-preview-title">{t('searchBar.previewTitle')}</span>
+        <span className="replace-preview-summary">{t('searchBar.previewSummary', { matches: matchCount, cells: changedCount })}</span>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="replace-preview-empty">{t('searchBar.previewEmpty')}</div>
+      ) : (
+        <ul className="replace-preview-list">
+          {items.map(item => {
+            const included = item.matches.filter(match => !match.excluded).length
+            return (
+              <li key={`${item.uri ?? ''}#${item.tableIndex}-${item.row}-${item.col}`} className={`replace-preview-item ${included === 0 ? 'excluded' : ''}`}>
+                <label className="replace-preview-location">
+                  <input
+                    type="checkbox"
+                    checked={included > 0}
+                    ref={(el) => { if (el) el.indeterminate = included > 0 && included < item.matches.length }}
+                    onChange={() => onToggleItem(item)}
+                  />
+                  {item.fileName && <span className="replace-preview-file">{item.fileName}</span>}
+                  {t('searchBar.previewLocation', { table: item.tableIndex + 1, row: item.row + 1, col: item.col + 1 })}
+                </label>
+                <div className="replace-preview-diff">
+                  <div className="replace-preview-before">{renderDiff(item, 'before')}</div>
+                  <div className="replace-preview-after">{renderDiff(item, 'after')}</div>
+                </div>
+                {item.matches.length > 1 && (
+                  <div className="replace-preview-matches">
+                    {item.matches.map((match, index) => (
+                      <label key={match.start} className="replace-preview-match">
+                        <input type="checkbox" checked={!match.excluded} onChange={() => onToggleMatch(item, index)} />
+                        <span>{match.text || t('searchBar.previewEmptyMatch')}</span>
+                        <span>→</span>
+                        <span>{match.replacement}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="replace-preview-actions">
+        <button className="sort-dialog-btn secondary" onClick={onCancel}>{t('searchBar.previewCancel')}</button>
+        <button className="sort-dialog-btn" onClick={onApply} disabled={matchCount === 0}>
+          {t('searchBar.previewApply', { count: changedCount })}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ReplacePreview
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import { SearchState, SearchScope } from '../types'
+import { SearchState, SearchScope, ReplacePreviewItem } from '../types'
+import ReplacePreview from './ReplacePreview'
 
 interface SearchBarProps {
   searchState: SearchState
@@ -10,12 +11,18 @@ interface SearchBarProps {
   onSearch: () => void
   onFindNext: () => void
   onFindPrevious: () => void
+  onGoToResult: (index: number) => void
   onReplaceOne: () => void
   onReplaceAll: () => void
   onClose: () => void
-  onToggleOption: (option: 'caseSensitive' | 'wholeWord' | 'regex') => void
+  onToggleOption: (option: 'caseSensitive' | 'wholeWord' | 'regex' | 'preserveCase') => void
   onToggleAdvanced: () => void
   onScopeChange: (scope: SearchScope) => void
+  replacePreview: ReplacePreviewItem[] | null
+  onToggleReplaceMatch: (item: ReplacePreviewItem, matchIndex: number) => void
+  onToggleReplacePreviewItem: (item: ReplacePreviewItem) => void
+  onApplyReplacePreview: () => void
+  onCloseReplacePreview: () => void
 }
 
 const SearchBar: React.FC<SearchBarProps> = ({
@@ -26,12 +33,18 @@ const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
   onFindNext,
   onFindPrevious,
+  onGoToResult,
   onReplaceOne,
   onReplaceAll,
   onClose,
   onToggleOption,
   onToggleAdvanced,
-  onScopeChange
+  onScopeChange,
+  replacePreview,
+  onToggleReplaceMatch,
+  onToggleReplacePreviewItem,
+  onApplyReplacePreview,
+  onCloseReplacePreview
 }) => {
   const { t } = useTranslation()
   const searchInputRef = useRef<HTMLInputElement>(null)
@@ -94,9 +107,11 @@ const SearchBar: React.FC<SearchBarProps> = ({
           />
           {searchState.searchText && (
             <span className="search-result-count">
-              {currentResultInfo.total > 0
-                ? `${currentResultInfo.current}/${currentResultInfo.total}`
-                : t('searchBar.noMatches')}
+              {searchState.isSearching
+                ? t('searchBar.searching')
+                : currentResultInfo.total > 0
+                  ? `${currentResultInfo.current}/${currentResultInfo.total}${searchState.truncated ? '+' : ''}`
+                  : t('searchBar.noMatches')}
             </span>
           )}
         </div>
@@ -169,6 +184,13 @@ const SearchBar: React.FC<SearchBarProps> = ({
             />
           </div>
           <div className="search-actions">
+            <button
+              className={`search-option-button ${searchState.options.preserveCase ? 'active' : ''}`}
+              title={t('searchBar.preserveCaseTitle')}
+              onClick={() => onToggleOption('preserveCase')}
+            >
+              AB
+            </button>
             <button
               className="replace-button"
               title={t('searchBar.replaceTitle')}
@@ -189,6 +211,35 @@ const SearchBar: React.FC<SearchBarProps> = ({
         </div>
       )}
 
+      {/* ワークスペース検索の結果一覧（クリックで対象ファイルのセルへ移動） */}
+      {searchState.scope === 'workspace' && searchState.results.length > 0 && !replacePreview && (
+        <ul className="workspace-search-results" aria-label={t('searchBar.scopeWorkspace')}>
+          {searchState.results.map((result, index) => (
+            <li
+              key={`${result.uri}#${result.tableIndex}-${result.row}-${result.col}`}
+              className={`workspace-search-result ${index === searchState.currentResultIndex ? 'active' : ''}`}
+              onClick={() => onGoToResult(index)}
+            >
+              <span className="workspace-search-result-file">{result.fileName}</span>
+              <span className="workspace-search-result-location">
+                {t('searchBar.previewLocation', { table: result.tableIndex + 1, row: result.row + 1, col: result.col + 1 })}
+              </span>
+              <span className="workspace-search-result-value">{result.value}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {searchState.showReplace && replacePreview && (
+        <ReplacePreview
+          items={replacePreview}
+          onToggleMatch={onToggleReplaceMatch}
+          onToggleItem={onToggleReplacePreviewItem}
+          onApply={onApplyReplacePreview}
+          onCancel={onCloseReplacePreview}
+        />
+      )}
+
       {searchState.showAdvanced && (
         <div className="advanced-row">
           <label className="scope-label">{t('searchBar.scopeLabel')}</label>
@@ -200,6 +251,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
             <option value="all">{t('searchBar.scopeAll')}</option>
             <option value="current">{t('searchBar.scopeCurrent')}</option>
             <option value="selection">{t('searchBar.scopeSelection')}</option>
+            <option value="workspace">{t('searchBar.scopeWorkspace')}</option>
           </select>
         </div>
       )}
@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { SortKey, SortValueType } from '../types'
+import { getColumnLetter } from '../utils/tableUtils'
+
+interface SortDialogProps {
+  headers: string[]
+  sortKeys: SortKey[]
+  onApply: (keys: SortKey[]) => void
+  onClose: () => void
+}
+
+const typeOptions: Array<{ value: SortValueType; labelKey: string }> = [
+  { value: 'auto', labelKey: 'sortDialog.typeAuto' },
+  { value: 'string', labelKey: 'sortDialog.typeString' },
+  { value: 'number', labelKey: 'sortDialog.typeNumber' },
+  { value: 'date', labelKey: 'sortDialog.typeDate' },
+  { value: 'natural', labelKey: 'sortDialog.typeNatural' }
+]
+
+// ソートキーの編集ダイアログ（キーの追加・削除・優先順位の変更）
+const SortDialog: React.FC<SortDialogProps> = ({ headers, sortKeys, onApply, onClose }) => {
+  const { t } = useTranslation()
+  const [keys, setKeys] = useState<SortKey[]>(() => sortKeys.map(key => ({ ...key, type: key.type ?? 'auto' })))
+
+  const usedColumns = new Set(keys.map(key => key.column))
+  const nextColumn = headers.findIndex((_, col) => !usedColumns.has(col))
+
+  const updateKey = (index: number, patch: Partial<SortKey>) => {
+    setKeys(prev => prev.map((key, i) => i === index ? { ...key, ...patch } : key))
+  }
+
+  const moveKey = (index: number, offset: number) => {
+    setKeys(prev => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      const [moved] = next.splice(index, 1)
+      next.splice(target, 0, moved)
+      return next
+    })
+  }
+
+  const handleAddKey = () => {
+    if (nextColumn < 0) return
+    setKeys(prev => [...prev, { column: nextColumn, direction: 'asc', type: 'auto' }])
+  }
+
+  const columnLabel = (col: number) => headers[col]?.trim()
+    ? `${getColumnLetter(col)}: ${headers[col]}`
+    : getColumnLetter(col)
+
+  return (
+    <>
+      <div className="sort-dialog-backdrop" onClick={onClose} />
+      <div className="sort-dialog" role="dialog" aria-label={t('sortDialog.title')} onKeyDown={(e) => { if (e.key === 'Escape') onClose() }}>
+        <div className="sort-dialog-title">{t('sortDialog.title')}</div>
+        <div className="sort-dialog-keys">
+          {keys.length === 0 && (
+            <div className="sort-dialog-empty">{t('sortDialog.noKeys')}</div>
+          )}
+          {keys.map((key, index) => (
+            <div className="sort-dialog-row" key={index}>
+              <span className="sort-dialog-label">{index === 0 ? t('sortDialog.sortBy') : t('sortDialog.thenBy')}</span>
+              <select
+                value={key.column}
+                aria-label={t('sortDialog.column')}
+                onChange={(e) => updateKey(index, { column: Number(e.target.value) })}
+              >
+                {headers.map((_, col) => (
+                  <option key={col} value={col} disabled={col !== key.column && usedColumns.has(col)}>
+                    {columnLabel(col)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={key.direction}
+                aria-label={t('sortDialog.direction')}
+                onChange={(e) => updateKey(index, { direction: e.target.value as SortKey['direction'] })}
+              >
+                <option value="asc">{t('sortDialog.ascending')}</option>
+                <option value="desc">{t('sortDialog.descending')}</option>
+              </select>
+              <select
+                value={key.type ?? 'auto'}
+                aria-label={t('sortDialog.type')}
+                onChange={(e) => updateKey(index, { type: e.target.value as SortValueType })}
+              >
+                {typeOptions.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+              <button className="sort-dialog-icon-btn" onClick={() => moveKey(index, -1)} disabled={index === 0} title={t('sortDialog.moveUp')}>↑</button>
+              <button className="sort-dialog-icon-btn" onClick={() => moveKey(index, 1)} disabled={index === keys.length - 1} title={t('sortDialog.moveDown')}>↓</button>
+              <button className="sort-dialog-icon-btn" onClick={() => setKeys(prev => prev.filter((_, i) => i !== index))} title={t('sortDialog.remove')}>✕</button>
+            </div>
+          ))}
+        </div>
+        <div className="sort-dialog-actions">
+          <button className="sort-dialog-btn secondary" onClick={handleAddKey} disabled={nextColumn < 0}>
+            {t('sortDialog.addKey')}
+          </button>
+          <span className="sort-dialog-spacer" />
+          <button className="sort-dialog-btn secondary" onClick={onClose}>{t('sortDialog.cancel')}</button>
+          <button className="sort-dialog-btn" onClick={() => { onApply(keys); onClose() }}>{t('sortDialog.apply')}</button>
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default SortDialog
@@ -1,10 +1,18 @@
 import { useTranslation } from 'react-i18next'
 import { useStatus } from '../contexts/StatusContext'
 import { useTheme } from '../contexts/ThemeContext'
+import { formatAggregateValue } from '../utils/columnAggregates'
+import { getColumnLetter } from '../utils/tableUtils'
 
-const StatusBar: React.FC = () => {
+interface StatusBarProps {
+  // 元に戻す / やり直しの履歴パネルの開閉（指定時のみボタンを表示）
+  onToggleHistory?: () => void
+  historyOpen?: boolean
+}
+
+const StatusBar: React.FC<StatusBarProps> = ({ onToggleHistory, historyOpen }) => {
   const { t } = useTranslation()
-  const { status, tableInfo, saveStatus, sortState } = useStatus()
+  const { status, tableInfo, saveStatus, sortState, selectionStats, taskProgress } = useStatus()
   const { getStyle } = useTheme()
 
   return (
@@ -21,6 +29,17 @@ const StatusBar: React.FC = () => {
               {status.selection}
             </span>
           )}
+          {selectionStats && selectionStats.count > 0 && (
+            <span className="status-selection-stats">
+              {selectionStats.numericCount > 0 && (
+                <>
+                  <span>{t('statusBar.selectionSum', { value: formatAggregateValue(selectionStats.sum) })}</span>
+                  <span>{t('statusBar.selectionAverage', { value: formatAggregateValue(selectionStats.average) })}</span>
+                </>
+              )}
+              <span>{t('statusBar.selectionCount', { value: selectionStats.count })}</span>
+            </span>
+          )}
         </div>
       </div>
       <div className="status-center">
@@ -36,10 +55,31 @@ const StatusBar: React.FC = () => {
         </div>
       </div>
       <div className="status-right">
+        {onToggleHistory && (
+          <button
+            className={`status-history-btn${historyOpen ? ' active' : ''}`}
+            onClick={onToggleHistory}
+            aria-pressed={historyOpen}
+            title={t('history.title')}
+          >
+            ⟲ {t('history.toggle')}
+          </button>
+        )}
+        {taskProgress.length > 0 && (
+          <div className="status-item status-task-progress">
+            {taskProgress.map(progress => (
+              <span key={progress.col} className={progress.done === progress.total ? 'complete' : undefined}>
+                {t('statusBar.taskProgress', { header: progress.header.trim() || getColumnLetter(progress.col), done: progress.done, total: progress.total })}
+              </span>
+            ))}
+          </div>
+        )}
         <div className="status-item" id="statusInfo">
           {tableInfo && (
             <span>
-              {t('statusBar.rowsColumns', { rows: tableInfo.rows, columns: tableInfo.columns })}
+              {tableInfo.visibleRows !== undefined && tableInfo.visibleRows !== tableInfo.rows
+                ? t('statusBar.filteredRowsColumns', { visible: tableInfo.visibleRows, rows: tableInfo.rows, columns: tableInfo.columns })
+                : t('statusBar.rowsColumns', { rows: tableInfo.rows, columns: tableInfo.columns })}
             </span>
           )}
         </div>
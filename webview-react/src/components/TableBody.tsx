@@ -1,8 +1,16 @@
-import { useCallback, useEffect, useRef, useMemo } from 'react'
-import { EditorState, CellPosition, HeaderConfig } from '../types'
+import { useCallback, useEffect, useLayoutEffect, useRef, useMemo, useState } from 'react'
+import { EditorState, CellPosition, HeaderConfig, ColumnAlignment, CellDiff } from '../types'
 import { processCellContentForStorage } from '../utils/contentConverter'
 import { cleanupCellVisualArtifacts, queryCellElement } from '../utils/cellDomUtils'
+import { useTranslation } from 'react-i18next'
+import { FormulaResult } from '../utils/formulaEngine'
+import { CellValidationIssue } from '../utils/cellValidation'
+import { EnumColumn } from '../utils/enumColumns'
+import { CellSpan, getSpanCells } from '../utils/cellSpans'
+import { getFrozenColumnOffsets, getLastFrozenColumn } from '../utils/frozenPanes'
+import { RenderSegment, allItemSegments } from '../utils/virtualization'
 import MemoizedCell from './MemoizedCell'
+import type { LinkTargetsResult } from '../utils/linkTargets'
 
 interface TableBodyProps {
   headers: string[]
@@ -25,6 +33,33 @@ interface TableBodyProps {
   headerConfig?: HeaderConfig
   isSearchResult?: (row: number, col: number) => boolean
   isCurrentSearchResult?: (row: number, col: number) => boolean
+  getFormulaResult?: (row: number, col: number) => FormulaResult | undefined
+  // 列の入力規則に合わないセル（赤いマーカーとツールチップで表示）
+  getValidationIssue?: (row: number, col: number) => CellValidationIssue | undefined
+  // 選択肢（enum）の列（編集時にドロップダウンを表示）
+  enumColumns?: Array<EnumColumn | undefined>
+  // セルのインライン Markdown を描画する（false なら記法のまま表示）
+  renderMarkdown?: boolean
+  documentBaseUri?: string
+  // リンク挿入時の候補（ワークスペースのファイル）を取得する
+  onListLinkTargets?: () => Promise<LinkTargetsResult>
+  // リンク先が見つからないリンクの判定（該当するリンクを警告表示）
+  isBrokenLink?: (href: string) => boolean
+  // タスクのチェックボックスの切り替え（読み取り専用では渡さない）
+  onToggleTask?: (row: number, col: number) => void
+  // 結合したセル（表示順がファイル上の順と同じときだけ渡す）
+  spans?: CellSpan[]
+  columnAlignments?: ColumnAlignment[]
+  // 差分表示（読み取り専用）のハイライト
+  getCellDiff?: (row: number, col: number) => CellDiff | undefined
+  getRowDiffStatus?: (row: number) => CellDiff['status'] | undefined
+  // ウィンドウ枠の固定（先頭から固定表示する行数・列数）
+  frozenRows?: number
+  frozenColumns?: number
+  // 仮想化時に描画する行（本体の行位置）・列。未指定ならすべて描画
+  rowSegments?: RenderSegment[]
+  columnSegments?: RenderSegment[]
+  onMeasureRows?: (heights: Array<[number, number]>) => void
 }
 
 const TableBody: React.FC<TableBodyProps> = ({
@@ -45,9 +80,30 @@ const TableBody: React.FC<TableBodyProps> = ({
   onFillHandleMouseDown,
   headerConfig,
   isSearchResult,
-  isCurrentSearchResult
+  isCurrentSearchResult,
+  getFormulaResult,
+  getValidationIssue,
+  enumColumns,
+  renderMarkdown = false,
+  documentBaseUri,
+  onListLinkTargets,
+  isBrokenLink,
+  onToggleTask,
+  spans,
+  columnAlignments,
+  getCellDiff,
+  getRowDiffStatus,
+  frozenRows = 0,
+  frozenColumns = 0,
+  rowSegments,
+  columnSegments,
+  onMeasureRows
 }) => {
   const savedHeightsRef = useRef<Map<string, { original: number; rowMax: number }>>(new Map())
+  const tbodyRef = useRef<HTMLTableSectionElement>(null)
+  // 固定行ごとの top 位置（列ヘッダーと前の固定行の高さを実測して積み上げる）
+  const [frozenRowTops, setFrozenRowTops] = useState<number[]>([])
+  const { t } = useTranslation()
   void onHeaderUpdate
 
   const handleCellMouseDown = useCallback((row: number, col: number, event: React.MouseEvent) => {
@@ -59,6 +115,11 @@ const TableBody: React.FC<TableBodyProps> = ({
     onCellSelect(row, col, extend, toggle)
   }, [onCellSelect])
 
+  const getValidationMessage = useCallback((row: number, col: number): string | undefined => {
+    const issue = getValidationIssue?.(row, col)
+    return issue ? t(`validation.${issue.code}`, { expected: issue.expected }) : undefined
+  }, [getValidationIssue, t])
+
   const handleRowContextMenu = useCallback((e: React.MouseEvent, rowIndex: number) => {
     e.preventDefault()
     if (onShowRowContextMenu) {
@@ -377,17 +438,83 @@ const TableBody: React.FC<TableBodyProps> = ({
     return result
   }, [headerConfig?.hasColumnHeaders, headers, rows])
 
+  // 結合したセルの左上のセルと、結合に含まれて描画しないセル
+  const spanLayout = useMemo(() => {
+    const anchors = new Map<string, CellSpan>()
+    const covered = new Set<string>()
+    spans?.forEach(span => {
+      anchors.set(`${span.row}-${span.col}`, span)
+      getSpanCells(span).slice(1).forEach(([row, col]) => covered.add(`${row}-${col}`))
+    })
+    return { anchors, covered }
+  }, [spans])
+
+  const frozenOffsets = getFrozenColumnOffsets(editorState.columnWidths, frozenColumns, headerConfig)
+  const lastFrozenColumn = getLastFrozenColumn(frozenColumns, headerConfig)
+  // 固定行は先頭から連続する（列ヘッダーOFF時の先頭行 row=-1 も含む）
+  const frozenRowCount = frozenRows > 0
+    ? Math.min(allRows.length, frozenRows + (headerConfig?.hasColumnHeaders === false ? 1 : 0))
+    : 0
+
+  const renderedRows = rowSegments ?? allItemSegments(allRows.length)
+  const renderedColumns = columnSegments ?? allItemSegments(headers.length)
+  // スペーサー行のセルは行番号列と描画するすべての列にまたがる
+  const renderedColumnCount = 1 + renderedColumns.filter(segment => (
+    segment.type === 'spacer' || !(headerConfig?.hasRowHeaders && segment.index === 0)
+  )).length
+
+  // 行の高さは内容や列幅で変わるため、描画後に測定する
+  useLayoutEffect(() => {
+    const tbody = tbodyRef.current
+    const tops: number[] = []
+    if (tbody && frozenRowCount > 0) {
+      let top = (tbody.parentElement as HTMLTableElement | null)?.tHead?.offsetHeight ?? 0
+      for (let i = 0; i < frozenRowCount; i++) {
+        tops.push(top)
+        top += tbody.rows[i]?.offsetHeight ?? 0
+      }
+    }
+    setFrozenRowTops(prev => (
+      prev.length === tops.length && prev.every((top, i) => top === tops[i]) ? prev : tops
+    ))
+  }, [allRows, frozenRowCount, editorState.columnWidths, editorState.currentEditingCell, headerConfig])
+
+  // 仮想化時は描画した行の高さを通知し、描画しない範囲の高さの推定に使う
+  useLayoutEffect(() => {
+    const tbody = tbodyRef.current
+    if (!tbody || !rowSegments || !onMeasureRows) return
+    const heights: Array<[number, number]> = []
+    rowSegments.forEach((segment, i) => {
+      if (segment.type === 'item') {
+        heights.push([segment.index, tbody.rows[i]?.offsetHeight ?? 0])
+      }
+    })
+    onMeasureRows(heights)
+  }, [rowSegments, onMeasureRows, allRows, editorState.columnWidths, editorState.currentEditingCell])
+
   return (
-    <tbody>
-      {allRows.map(({ rowIndex, cells }) => {
+    <tbody ref={tbodyRef}>
+      {renderedRows.map(rowSegment => {
+        if (rowSegment.type === 'spacer') {
+          return (
+            <tr key={rowSegment.key} className="virtual-spacer-row" aria-hidden="true">
+              <td colSpan={renderedColumnCount} style={{ height: `${rowSegment.size}px` }} />
+            </tr>
+          )
+        }
+        const position = rowSegment.index
+        const { rowIndex, cells } = allRows[position]
+        const frozenTop = position < frozenRowCount ? (frozenRowTops[position] ?? 0) : undefined
         const rowHeaderValue = headerConfig?.hasRowHeaders ? (cells[0] || '') : ''
         // 表示行番号を計算（row=-1の場合は0、それ以外は1始まり）
         const displayRowNumber = rowIndex === -1 ? 0 : rowIndex + 1
+        const rowDiffStatus = getRowDiffStatus ? getRowDiffStatus(rowIndex) : undefined
 
         return (
-          <tr key={rowIndex} data-row={rowIndex}>
+          <tr key={rowIndex} data-row={rowIndex} className={frozenRowCount > 0 && position === frozenRowCount - 1 ? 'frozen-row-edge' : undefined}>
             <td
-              className={`row-number ${selectedRows?.has(rowIndex) ? 'highlighted' : ''} ${headerConfig?.hasRowHeaders ? 'row-header-with-value' : ''}`}
+              className={`row-number ${selectedRows?.has(rowIndex) ? 'highlighted' : ''} ${headerConfig?.hasRowHeaders ? 'row-header-with-value' : ''} ${rowDiffStatus ? `diff-${rowDiffStatus}` : ''} ${frozenTop !== undefined ? 'frozen-row' : ''}`}
+              style={frozenTop !== undefined ? { top: `${frozenTop}px` } : undefined}
               onClick={(e) => {
                 if (onRowSelect) {
                   onRowSelect(rowIndex, e)
@@ -413,12 +540,24 @@ const TableBody: React.FC<TableBodyProps> = ({
               )}
             </td>
 
-            {cells.map((cell, colIndex) => {
+            {renderedColumns.map(columnSegment => {
+              if (columnSegment.type === 'spacer') {
+                const width = `${columnSegment.size}px`
+                return <td key={columnSegment.key} className="virtual-spacer" style={{ width, minWidth: width, maxWidth: width }} aria-hidden="true" />
+              }
+              const colIndex = columnSegment.index
+              const cell = cells[colIndex] ?? ''
               // 行ヘッダーONの場合、先頭列をスキップ
               if (headerConfig?.hasRowHeaders && colIndex === 0) {
                 return null
               }
-              const storedWidth = editorState.columnWidths[colIndex] || 150
+              if (spanLayout.covered.has(`${rowIndex}-${colIndex}`)) {
+                return null
+              }
+              const span = spanLayout.anchors.get(`${rowIndex}-${colIndex}`)
+              const storedWidth = span
+                ? Array.from({ length: span.colSpan }, (_, i) => editorState.columnWidths[colIndex + i] || 150).reduce((sum, width) => sum + width, 0)
+                : editorState.columnWidths[colIndex] || 150
               const isEditing = isCellEditing(rowIndex, colIndex)
               const isSelected = isCellSelected(rowIndex, colIndex)
               const isAnchor = isAnchorCell(rowIndex, colIndex)
@@ -452,6 +591,22 @@ const TableBody: React.FC<TableBodyProps> = ({
                   headerConfig={headerConfig}
                   initialCellInput={isEditing ? initialCellInput : null}
                   savedHeight={savedHeight}
+                  formulaResult={getFormulaResult ? getFormulaResult(rowIndex, colIndex) : undefined}
+                  validationMessage={getValidationMessage(rowIndex, colIndex)}
+                  enumColumn={isEditing ? enumColumns?.[colIndex] : undefined}
+                  renderMarkdown={renderMarkdown}
+                  documentBaseUri={documentBaseUri}
+                  onListLinkTargets={isEditing ? onListLinkTargets : undefined}
+                  isBrokenLink={isBrokenLink}
+                  brokenLinkTitle={isBrokenLink ? t('validation.brokenLink') : undefined}
+                  onToggleTask={onToggleTask}
+                  rowSpan={span && span.rowSpan > 1 ? span.rowSpan : undefined}
+                  colSpan={span && span.colSpan > 1 ? span.colSpan : undefined}
+                  alignment={columnAlignments?.[colIndex]}
+                  diff={getCellDiff ? getCellDiff(rowIndex, colIndex) : undefined}
+                  frozenLeft={frozenOffsets[colIndex]}
+                  frozenTop={frozenTop}
+                  frozenEdge={colIndex === lastFrozenColumn}
                   onMouseDown={handleCellMouseDown}
                   onDoubleClick={startCellEdit}
                   onCommitEdit={commitCellEdit}
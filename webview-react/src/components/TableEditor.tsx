@@ -1,11 +1,22 @@
 import { useCallback, useEffect, useState, useMemo, useRef } from 'react'
-import { TableData, VSCodeMessage, SortState, HeaderConfig, CellPosition, SearchResult } from '../types'
+import { TableData, VSCodeMessage, SortState, SortKey, HeaderConfig, CellPosition, SearchResult, SearchOptions, ColumnAlignment, ColumnWidths, ColumnFilter, RevealCellRequest, WorkspaceReplaceFile, CellDiff, FrozenPanes } from '../types'
+import { TableDiffResult } from '../../../src/communication/protocol'
 import {
   cleanupCellVisualArtifacts,
   clearCellTemporaryMarker,
   markCellAsTemporarilyEmpty,
   queryCellElement
 } from '../utils/cellDomUtils'
+import { evaluateFormulas, FormulaResult } from '../utils/formulaEngine'
+import { CellValidationIssue, validateTable } from '../utils/cellValidation'
+import { findDisallowedEnumValues, getEnumColumns } from '../utils/enumColumns'
+import { AggregateFunction, computeSelectionStats, getDefaultAggregate } from '../utils/columnAggregates'
+import { parseTaskCell, setTaskChecked, summarizeTaskColumns, toggleTaskCell } from '../utils/taskCheckbox'
+import { CellSpan, findSpanAt } from '../utils/cellSpans'
+import { getColumnAlignments } from '../utils/tableUtils'
+import { detectColumnType, getSortKeys } from '../utils/sortKeys'
+import { getDistinctColumnValues } from '../utils/rowFilter'
+import { NO_FROZEN_PANES } from '../utils/frozenPanes'
 import { useTableEditor } from '../hooks/useTableEditor'
 import { useClipboard } from '../hooks/useClipboard'
 import { useKeyboardNavigation } from '../hooks/useKeyboardNavigation'
@@ -13,11 +24,19 @@ import { useCSVExport } from '../hooks/useCSVExport'
 import { useDragDrop } from '../hooks/useDragDrop'
 import { useAutofill } from '../hooks/useAutofill'
 import { useSearch } from '../hooks/useSearch'
+import { useTableVirtualization } from '../hooks/useTableVirtualization'
 import { useStatus } from '../contexts/StatusContext'
 import TableHeader from './TableHeader'
 import TableBody from './TableBody'
+import TableFooter from './TableFooter'
 import ContextMenu, { ContextMenuState } from './ContextMenu'
 import SearchBar from './SearchBar'
+import SortDialog from './SortDialog'
+import FilterMenu from './FilterMenu'
+import { LinkTargetsResult, createBrokenLinkChecker } from '../utils/linkTargets'
+
+// リンクの候補を取り直すまでの時間（ファイルの追加・見出しの変更を反映する）
+const LINK_TARGETS_CACHE_MS = 30000
 
 interface TableEditorProps {
   tableData: TableData
@@ -30,6 +49,26 @@ interface TableEditorProps {
   setSortState?: (updater: SortState | ((prev: SortState) => SortState)) => void
   headerConfig?: HeaderConfig
   setHeaderConfig?: (updater: HeaderConfig | ((prev: HeaderConfig) => HeaderConfig)) => void
+  columnWidths?: ColumnWidths
+  setColumnWidths?: (updater: ColumnWidths | ((prev: ColumnWidths) => ColumnWidths)) => void
+  // ウィンドウ枠の固定（テーブルごとに表示状態として保存）
+  frozenPanes?: FrozenPanes
+  setFrozenPanes?: (panes: FrozenPanes) => void
+  // セルのインライン Markdown を記法のまま表示する（テーブルごとに表示状態として保存）
+  showMarkdownSource?: boolean
+  setShowMarkdownSource?: (show: boolean) => void
+  // ドキュメントのあるフォルダーの webview URI（セル内の相対パスの画像の解決に使用）
+  documentBaseUri?: string
+  // リンク挿入時の候補（ワークスペースのファイル）を拡張から取得する
+  onListLinkTargets?: () => Promise<LinkTargetsResult>
+  initialSelectedCell?: CellPosition | null
+  onSelectedCellChange?: (cell: CellPosition) => void
+  // ワークスペース検索（拡張側へのリクエスト）
+  onSearchWorkspace?: (searchText: string, options: Pick<SearchOptions, 'caseSensitive' | 'wholeWord' | 'regex'>) => Promise<{ matches: SearchResult[]; truncated: boolean }>
+  revealCellRequest?: RevealCellRequest | null
+  // 読み取り専用モード（別バージョンとの差分表示）。diff の行・列は tableData と同じ並び
+  readOnly?: boolean
+  diff?: TableDiffResult
 }
 
 const TableEditor: React.FC<TableEditorProps> = ({
@@ -42,7 +81,21 @@ const TableEditor: React.FC<TableEditorProps> = ({
   sortState,
   setSortState,
   headerConfig,
-  setHeaderConfig
+  setHeaderConfig,
+  columnWidths,
+  setColumnWidths,
+  frozenPanes,
+  setFrozenPanes,
+  showMarkdownSource,
+  setShowMarkdownSource,
+  documentBaseUri,
+  onListLinkTargets,
+  initialSelectedCell,
+  onSelectedCellChange,
+  onSearchWorkspace,
+  revealCellRequest,
+  readOnly = false,
+  diff
 }) => {
   // 外部未指定時は内部の状態を使用
   const [internalSortState, setInternalSortState] = useState<SortState>({ column: -1, direction: 'none' })
@@ -56,12 +109,22 @@ const TableEditor: React.FC<TableEditorProps> = ({
   const effectiveHeaderConfig = headerConfig ?? internalHeaderConfig
   const effectiveSetHeaderConfig = setHeaderConfig ?? setInternalHeaderConfig
 
+  const [internalFrozenPanes, setInternalFrozenPanes] = useState<FrozenPanes>(NO_FROZEN_PANES)
+  const effectiveFrozenPanes = frozenPanes ?? internalFrozenPanes
+  const effectiveSetFrozenPanes = setFrozenPanes ?? setInternalFrozenPanes
+
+  const [internalShowMarkdownSource, setInternalShowMarkdownSource] = useState(false)
+  const effectiveShowMarkdownSource = showMarkdownSource ?? internalShowMarkdownSource
+  const effectiveSetShowMarkdownSource = setShowMarkdownSource ?? setInternalShowMarkdownSource
+
   const [contextMenuState, setContextMenuState] = useState<ContextMenuState>({
     type: null,
     index: -1,
     position: { x: 0, y: 0 }
   })
   const [exportEncoding, setExportEncoding] = useState<'utf8' | 'sjis'>('utf8')
+  const [showSortDialog, setShowSortDialog] = useState(false)
+  const [filterMenu, setFilterMenu] = useState<{ col: number; position: { x: number; y: number } } | null>(null)
 
   // IME対応の透明入力要素（Googleスプレッドシート方式）
   const inputCaptureRef = useRef<HTMLTextAreaElement>(null)
@@ -79,7 +142,7 @@ const TableEditor: React.FC<TableEditorProps> = ({
     zIndex: -1
   })
 
-  const { updateStatus, updateTableInfo, updateSaveStatus, updateSortState } = useStatus()
+  const { updateStatus, updateTableInfo, updateSaveStatus, updateSortState, updateSelectionStats, updateTaskProgress } = useStatus()
 
   // 送信データに tableIndex を必要に応じて付与
   const withTableIndex = useCallback(<T extends object>(data: T): T & { tableIndex?: number } => {
@@ -93,6 +156,7 @@ const TableEditor: React.FC<TableEditorProps> = ({
     selectionAnchor,
     updateCell,
     updateCells,
+    updateModelCells,
     updateHeader,
     addRow,
     deleteRow,
@@ -108,10 +172,17 @@ const TableEditor: React.FC<TableEditorProps> = ({
     setSelectionAnchor,
     setColumnWidth,
     sortColumn,
+    setSortKeys,
     moveRow,
     moveColumn,
+    toModelInsertIndex,
     commitSort,
     resetSort,
+    filterState,
+    hiddenRowIndices,
+    setColumnFilter,
+    clearFilters,
+    commitFilter,
     viewToModelMap,
     toggleColumnHeaders,
     toggleRowHeaders
@@ -119,10 +190,19 @@ const TableEditor: React.FC<TableEditorProps> = ({
     tableData,
     `table-${currentTableIndex}`,
     { sortState: effectiveSortState, setSortState: effectiveSetSortState },
-    { initializeSelectionOnDataChange: true },
-    { headerConfig: effectiveHeaderConfig, setHeaderConfig: effectiveSetHeaderConfig }
+    { initializeSelectionOnDataChange: true, initialSelection: initialSelectedCell },
+    { headerConfig: effectiveHeaderConfig, setHeaderConfig: effectiveSetHeaderConfig },
+    columnWidths && setColumnWidths ? { columnWidths, setColumnWidths } : undefined
   )
 
+  // 選択セルを上位へ通知（表示状態の永続化用）
+  useEffect(() => {
+    const start = editorState.selectionRange?.start
+    if (start && onSelectedCellChange) {
+      onSelectedCellChange({ row: start.row, col: start.col })
+    }
+  }, [editorState.selectionRange, onSelectedCellChange])
+
   // initialCellInput を遅延クリアするためのタイムアウト参照
   const clearInitialInputTimeoutRef = useRef<number | null>(null)
 
@@ -148,6 +228,96 @@ const TableEditor: React.FC<TableEditorProps> = ({
     return typeof mapped === 'number' ? mapped : viewRow
   }, [viewToModelMap])
 
+  // 数式セルはモデル行（ファイル上の行）を基準に評価し、表示行から参照する
+  const formulaResults = useMemo(() => evaluateFormulas(modelTableData.rows), [modelTableData.rows])
+
+  const getFormulaResult = useCallback((row: number, col: number): FormulaResult | undefined => {
+    if (row < 0) return undefined
+    return formulaResults.get(`${toModelRow(row)}-${col}`)
+  }, [formulaResults, toModelRow])
+
+  // 列の入力規則に合わないセル（ファイル上の値を含む）をモデル行で求め、表示行から参照する
+  const validationIssues = useMemo(() => {
+    const issues = new Map<string, CellValidationIssue>()
+    validateTable(modelTableData, modelTableData.validationRules).forEach(({ row, col, code, expected }) => {
+      issues.set(`${row}-${col}`, { code, expected })
+    })
+    return issues
+  }, [modelTableData])
+
+  const getValidationIssue = useCallback((row: number, col: number): CellValidationIssue | undefined => {
+    if (row < 0) return undefined
+    return validationIssues.get(`${toModelRow(row)}-${col}`)
+  }, [validationIssues, toModelRow])
+
+  // 差分表示のハイライト（ソート・フィルター後の表示行から差分の行を引く）
+  const getRowDiffStatus = useCallback((row: number): CellDiff['status'] | undefined => {
+    const status = diff?.rows[toModelRow(row)]?.status
+    return status && status !== 'unchanged' ? status : undefined
+  }, [diff, toModelRow])
+
+  const getCellDiff = useCallback((row: number, col: number): CellDiff | undefined => {
+    const diffRow = diff?.rows[toModelRow(row)]
+    if (!diff || !diffRow) return undefined
+    if (diffRow.status === 'added' || diffRow.status === 'removed') return { status: diffRow.status }
+    const columnStatus = diff.columns[col]?.status
+    if (columnStatus === 'added' || columnStatus === 'removed') return { status: columnStatus }
+    const previous = diffRow.previous[col]
+    return previous !== null && previous !== undefined ? { status: 'changed', previous } : undefined
+  }, [diff, toModelRow])
+
+  // 集計・選択範囲の統計には表示値（数式セルは計算結果）を使う
+  const getCellDisplayValue = useCallback((modelRow: number, col: number): string => {
+    const cell = modelTableData.rows[modelRow]?.[col] ?? ''
+    return formulaResults.get(`${modelRow}-${col}`)?.value ?? cell
+  }, [modelTableData.rows, formulaResults])
+
+  // 集計フッター（表示専用）。列ごとの集計方法は未指定なら数値列=合計、それ以外=なし
+  const [showAggregateFooter, setShowAggregateFooter] = useState(false)
+  const [columnAggregates, setColumnAggregates] = useState<Record<number, AggregateFunction>>({})
+
+  useEffect(() => {
+    setColumnAggregates({})
+  }, [currentTableIndex])
+
+  const columnDisplayValues = useMemo(() => {
+    return modelTableData.headers.map((_, col) => modelTableData.rows.map((_, row) => getCellDisplayValue(row, col)))
+  }, [modelTableData.headers, modelTableData.rows, getCellDisplayValue])
+
+  const effectiveAggregates = useMemo(() => {
+    return columnDisplayValues.map((values, col) => columnAggregates[col] ?? getDefaultAggregate(values))
+  }, [columnDisplayValues, columnAggregates])
+
+  const handleAggregateChange = useCallback((col: number, fn: AggregateFunction) => {
+    setColumnAggregates(prev => ({ ...prev, [col]: fn }))
+  }, [])
+
+  // 集計行をMarkdownの実データ行として追加（拡張側で数式セルとして挿入）
+  const handleAddAggregateRow = useCallback(() => {
+    onSendMessage({ command: 'addAggregateRow', data: withTableIndex({ functions: effectiveAggregates }) })
+  }, [onSendMessage, withTableIndex, effectiveAggregates])
+
+  const columnAlignments = useMemo(() => {
+    return getColumnAlignments(modelTableData.headers.length, modelTableData.separatorLine, modelTableData.alignment)
+  }, [modelTableData.headers.length, modelTableData.separatorLine, modelTableData.alignment])
+
+  // 配置変更は拡張側で区切り線を再生成し、更新データで反映される
+  const handleSetAlignment = useCallback((columns: number[], alignment: ColumnAlignment) => {
+    onSendMessage({ command: 'setAlignment', data: withTableIndex({ columns, alignment }) })
+  }, [onSendMessage, withTableIndex])
+
+  // ウィンドウ枠の固定（表示のみ）。指定した行・列までを固定し、未指定の方向は現在の固定を維持する
+  const handleFreezePanes = useCallback((upTo: { row?: number; col?: number }) => {
+    effectiveSetFrozenPanes({
+      rows: upTo.row !== undefined ? upTo.row + 1 : effectiveFrozenPanes.rows,
+      columns: upTo.col !== undefined ? upTo.col + 1 : effectiveFrozenPanes.columns
+    })
+  }, [effectiveFrozenPanes, effectiveSetFrozenPanes])
+
+  const handleUnfreezePanes = useCallback(() => {
+    effectiveSetFrozenPanes(NO_FROZEN_PANES)
+  }, [effectiveSetFrozenPanes])
+
   const mapUpdatesToModel = useCallback((updates: Array<{ row: number; col: number; value: string }>) => {
     return updates.map(update => ({
       ...update,
@@ -155,6 +325,45 @@ const TableEditor: React.FC<TableEditorProps> = ({
     }))
   }, [toModelRow])
 
+  // 選択肢（enum）の列。貼り付け・オートフィルで選択肢にない値を入れた場合は警告する
+  const enumColumns = useMemo(() => getEnumColumns(modelTableData), [modelTableData])
+
+  const getEnumWarning = useCallback((updates: Array<{ row: number; col: number; value: string }>): string | null => {
+    const disallowed = findDisallowedEnumValues(updates, enumColumns)
+    if (disallowed.length === 0) return null
+    const values = disallowed.slice(0, 3).map(({ col, value }) => `${modelTableData.headers[col] ?? ''}: ${value}`).join(', ')
+    return `選択肢にない値があります（${values}${disallowed.length > 3 ? ` ほか ${disallowed.length - 3} 件` : ''}）`
+  }, [enumColumns, modelTableData.headers])
+
+  // リンクの候補（補完・リンク切れの確認に使う）。拡張への問い合わせは一定時間使い回す
+  const [linkTargets, setLinkTargets] = useState<LinkTargetsResult | null>(null)
+  const linkTargetsRequestRef = useRef<{ promise: Promise<LinkTargetsResult>; time: number } | null>(null)
+
+  const listLinkTargets = useMemo(() => onListLinkTargets && (() => {
+    const cached = linkTargetsRequestRef.current
+    if (cached && Date.now() - cached.time < LINK_TARGETS_CACHE_MS) {
+      return cached.promise
+    }
+    const promise = onListLinkTargets().then((result) => {
+      setLinkTargets(result)
+      return result
+    })
+    linkTargetsRequestRef.current = { promise, time: Date.now() }
+    promise.catch(() => { linkTargetsRequestRef.current = null })
+    return promise
+  }), [onListLinkTargets])
+
+  // 相対パスのリンクを含むテーブルは、リンク切れを表示するため候補を取得する
+  useEffect(() => {
+    if (!listLinkTargets || readOnly) return
+    const hasRelativeLinks = modelTableData.rows.some(row => row.some(cell => /\]\(\s*<?(?![a-z][a-z0-9+.-]*:)/i.test(cell)))
+    if (hasRelativeLinks) {
+      listLinkTargets().catch((error) => console.warn('[TableEditor] Failed to list link targets', error))
+    }
+  }, [listLinkTargets, readOnly, modelTableData.rows])
+
+  const isBrokenLink = useMemo(() => (linkTargets ? createBrokenLinkChecker(linkTargets) : undefined), [linkTargets])
+
   // IME入力で一時的に適用した高さ調整や不可視スペーサーを確実に片付ける
   const markCellAsTempEmptyWithTracking = useCallback((position: CellPosition) => {
     if (markCellAsTemporarilyEmpty(position)) {
@@ -193,6 +402,30 @@ const TableEditor: React.FC<TableEditorProps> = ({
     return cols;
   }, [editorState.selectedCells]);
 
+  // 複数セル選択時はステータスバーに合計・平均・個数を表示（Excel風）
+  useEffect(() => {
+    if (editorState.selectedCells.size < 2) {
+      updateSelectionStats(null)
+      return
+    }
+    const values: string[] = []
+    editorState.selectedCells.forEach(cellKey => {
+      const [row, col] = cellKey.split('-').map(Number)
+      if (row >= 0) {
+        values.push(getCellDisplayValue(toModelRow(row), col))
+      }
+    })
+    updateSelectionStats(computeSelectionStats(values))
+  }, [editorState.selectedCells, getCellDisplayValue, toModelRow, updateSelectionStats])
+
+  // ステータスバーに列ごとのタスクの完了数を表示（フィルターに関係なく全行を数える）
+  useEffect(() => {
+    const rows = editorState.headerConfig?.hasColumnHeaders === false
+      ? [modelTableData.headers, ...modelTableData.rows]
+      : modelTableData.rows
+    updateTaskProgress(summarizeTaskColumns(modelTableData.headers, rows))
+  }, [modelTableData, editorState.headerConfig?.hasColumnHeaders, updateTaskProgress])
+
   // セル選択が変わった時にIME関連の状態をクリア
   const prevSelectionRef = useRef<{ row: number; col: number } | null>(null)
   useEffect(() => {
@@ -226,26 +459,18 @@ const TableEditor: React.FC<TableEditorProps> = ({
 
   const { exportToCSV, exportToTSV } = useCSVExport()
 
-  const { fillRange, handleFillHandleMouseDown } = useAutofill({
-    selectionRange: editorState.selectionRange,
-    onUpdateCells: (updates) => {
-      updateCells(updates)
-      const modelUpdates = mapUpdatesToModel(updates)
-      onSendMessage({ command: 'bulkUpdateCells', data: withTableIndex({ updates: modelUpdates }) })
-      updateStatus('success', 'オートフィルを適用しました')
-    },
-    getCellValue: (row: number, col: number) => {
-      return displayedTableData.rows[row]?.[col] || ''
-    }
-  })
-
-  const { getDragProps, getDropProps } = useDragDrop({
+  const { getDragProps, getDropProps, dragState } = useDragDrop({
     onMoveRow: (fromIndex: number, toIndex: number) => {
       console.log(`TableEditor: onMoveRow called with fromIndex=${fromIndex}, toIndex=${toIndex}`)
       if (typeof fromIndex !== 'number' || typeof toIndex !== 'number') {
         console.error(`Invalid indices in onMoveRow: fromIndex=${fromIndex} (${typeof fromIndex}), toIndex=${toIndex} (${typeof toIndex})`)
         return
       }
+      // フィルター中は表示行とモデル行の位置が対応しないため行の移動を無効化
+      if (hiddenRowIndices.length > 0) {
+        updateStatus('warning', 'フィルター中は行を移動できません')
+        return
+      }
       moveRow(fromIndex, toIndex)
       const messageData = withTableIndex({ fromIndex, toIndex })
       console.log(`Sending moveRow message:`, messageData)
@@ -264,6 +489,65 @@ const TableEditor: React.FC<TableEditorProps> = ({
     }
   })
 
+  // 大きなテーブルは表示範囲の行・列だけを描画する（固定行・列、選択中・編集中のセル、ドラッグ中の行・列は常に描画）
+  const tableContainerRef = useRef<HTMLDivElement>(null)
+  const firstRowIndex = editorState.headerConfig.hasColumnHeaders === false ? -1 : 0
+  const pinnedCells = [
+    editorState.selectionRange?.start,
+    editorState.selectionRange?.end,
+    editorState.currentEditingCell
+  ].filter((cell): cell is CellPosition => !!cell)
+  const pinnedRows = pinnedCells.map(cell => cell.row)
+  const pinnedColumns = pinnedCells.map(cell => cell.col)
+  if (effectiveFrozenPanes.rows > 0) {
+    for (let row = firstRowIndex; row < effectiveFrozenPanes.rows; row++) {
+      pinnedRows.push(row)
+    }
+  }
+  for (let col = 0; col < effectiveFrozenPanes.columns; col++) {
+    pinnedColumns.push(col)
+  }
+  if (dragState.isDragging) {
+    (dragState.dragType === 'row' ? pinnedRows : pinnedColumns).push(dragState.dragIndex)
+  }
+  const { rowSegments, columnSegments, measureRows, getCellAtPoint, scrollToCell, autoScroll } = useTableVirtualization({
+    containerRef: tableContainerRef,
+    rowCount: displayedTableData.rows.length - firstRowIndex,
+    firstRowIndex,
+    columnCount: displayedTableData.headers.length,
+    columnWidths: editorState.columnWidths,
+    headerConfig: editorState.headerConfig,
+    pinnedRows,
+    pinnedColumns
+  })
+
+  // セルを表示位置までスクロール（描画前のセルは計算した位置へスクロール）
+  const revealCell = useCallback((row: number, col: number) => {
+    const cell = queryCellElement({ row, col })
+    if (cell) {
+      cell.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })
+    } else {
+      scrollToCell(row, col)
+    }
+  }, [scrollToCell])
+
+  const { fillRange, handleFillHandleMouseDown } = useAutofill({
+    selectionRange: editorState.selectionRange,
+    onUpdateCells: (updates) => {
+      updateCells(updates)
+      const modelUpdates = mapUpdatesToModel(updates)
+      onSendMessage({ command: 'bulkUpdateCells', data: withTableIndex({ updates: modelUpdates }) })
+      const warning = getEnumWarning(modelUpdates)
+      updateStatus(warning ? 'warning' : 'success', warning ?? 'オートフィルを適用しました')
+    },
+    getCellValue: (row: number, col: number) => {
+      return displayedTableData.rows[row]?.[col] || ''
+    },
+    // 仮想化で描画していないセルの上でも対象セルを求め、端に近づいたらスクロールする
+    getCellAtPoint,
+    onDragNearEdge: autoScroll
+  })
+
   // 検索機能
   const effectiveTables = allTables || [tableData]
   const {
@@ -271,8 +555,14 @@ const TableEditor: React.FC<TableEditorProps> = ({
     performSearch,
     findNext,
     findPrevious,
+    goToResult,
     replaceOne,
-    replaceAll,
+    replacePreview,
+    openReplacePreview,
+    closeReplacePreview,
+    toggleReplaceMatch,
+    toggleReplacePreviewItem,
+    applyReplacePreview,
     openSearch,
     closeSearch,
     setSearchText,
@@ -293,38 +583,67 @@ const TableEditor: React.FC<TableEditorProps> = ({
         // シート切り替え後にセル選択とスクロールを実行
         setTimeout(() => {
           selectCell(result.row, result.col, false)
-          setTimeout(() => {
-            const cell = document.querySelector(`td[data-row="${result.row}"][data-col="${result.col}"]`)
-            if (cell) {
-              cell.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })
-            }
-          }, 100)
+          setTimeout(() => revealCell(result.row, result.col), 100)
         }, 100)
       } else {
         // 同じシート内の場合は即座に移動
         selectCell(result.row, result.col, false)
-        setTimeout(() => {
-          const cell = document.querySelector(`td[data-row="${result.row}"][data-col="${result.col}"]`)
-          if (cell) {
-            cell.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })
-          }
-        }, 0)
+        setTimeout(() => revealCell(result.row, result.col), 0)
       }
-    }, [currentTableIndex, selectCell, onTableSwitch]),
+    }, [currentTableIndex, selectCell, onTableSwitch, revealCell]),
+    // 検索結果の行はモデル行（ソート・フィルター前の行順）
     onUpdateCell: useCallback((tableIndex: number, row: number, col: number, value: string) => {
-      if (tableIndex === currentTableIndex) {
-        updateCell(row, col, value)
+      if (tableIndex === currentTableIndex && !readOnly) {
+        updateModelCells([{ row, col, value }])
         onSendMessage({ command: 'updateCell', data: withTableIndex({ row, col, value }) })
       }
-    }, [currentTableIndex, updateCell, onSendMessage, withTableIndex]),
-    onBulkUpdate: useCallback((tableIndex: number, updates: Array<{ row: number; col: number; value: string }>) => {
-      if (tableIndex === currentTableIndex) {
-        updateCells(updates)
-        onSendMessage({ command: 'bulkUpdateCells', data: withTableIndex({ updates }) })
+    }, [currentTableIndex, readOnly, updateModelCells, onSendMessage, withTableIndex]),
+    onBulkUpdate: useCallback((tableUpdates: Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string }> }>) => {
+      if (tableUpdates.length === 0 || readOnly) return
+      const current = tableUpdates.find(entry => entry.tableIndex === currentTableIndex)
+      if (current) {
+        updateModelCells(current.updates)
       }
-    }, [currentTableIndex, updateCells, onSendMessage, withTableIndex])
+      // 他のシートは拡張側の更新通知で反映される。全テーブル分を 1 メッセージで送り、Undo を 1 回にまとめる
+      const [first, ...rest] = tableUpdates
+      onSendMessage({
+        command: 'bulkUpdateCells',
+        data: { updates: first.updates, tableIndex: first.tableIndex, additionalTables: rest.length > 0 ? rest : undefined }
+      })
+      const count = tableUpdates.reduce((sum, entry) => sum + entry.updates.length, 0)
+      updateStatus('success', `${count}個のセルを置換しました`)
+    }, [currentTableIndex, readOnly, updateModelCells, onSendMessage, updateStatus]),
+    onSearchWorkspace: useMemo(() => onSearchWorkspace && (async (searchText: string, options: SearchOptions) => {
+      const { caseSensitive, wholeWord, regex } = options
+      const { matches, truncated } = await onSearchWorkspace(searchText, { caseSensitive, wholeWord, regex })
+      return { results: matches, truncated }
+    }), [onSearchWorkspace]),
+    // 対象ファイルのテーブルエディタを開き（開いていれば前面に出し）、セルを選択させる
+    onOpenWorkspaceResult: useCallback((result: SearchResult) => {
+      if (!result.uri) return
+      onSendMessage({ command: 'openSearchMatch', data: { uri: result.uri, tableIndex: result.tableIndex, row: result.row, col: result.col } })
+    }, [onSendMessage]),
+    // 複数ファイルへの置換は拡張側で確認ダイアログを出し、1 つの WorkspaceEdit として適用する
+    onWorkspaceReplace: useCallback((files: WorkspaceReplaceFile[]) => {
+      onSendMessage({ command: 'replaceInWorkspace', data: { files } })
+    }, [onSendMessage])
   })
 
+  // 拡張から指示されたセルを選択（ワークスペース検索結果へのジャンプ）
+  const handledRevealRef = useRef<RevealCellRequest | null>(null)
+  useEffect(() => {
+    if (!revealCellRequest || handledRevealRef.current === revealCellRequest) return
+    // タブ切り替えとテーブルデータの到着を待つ
+    if (revealCellRequest.tableIndex !== currentTableIndex || revealCellRequest.row >= modelTableData.rows.length) return
+    handledRevealRef.current = revealCellRequest
+
+    // 通知の行はモデル行なので、ソート・フィルター後の表示行に変換
+    const viewRow = Array.isArray(viewToModelMap) ? viewToModelMap.indexOf(revealCellRequest.row) : revealCellRequest.row
+    const row = viewRow >= 0 ? viewRow : revealCellRequest.row
+    selectCell(row, revealCellRequest.col, false)
+    setTimeout(() => revealCell(row, revealCellRequest.col), 0)
+  }, [revealCellRequest, currentTableIndex, modelTableData.rows.length, viewToModelMap, selectCell, revealCell])
+
   // 検索オプション・範囲変更時に自動検索（検索テキストが存在し、結果がある場合のみ）
   useEffect(() => {
     if (searchState.isOpen && searchState.searchText && searchState.results.length > 0) {
@@ -336,8 +655,9 @@ const TableEditor: React.FC<TableEditorProps> = ({
 
   // 検索結果かどうかを判定
   const isSearchResult = useCallback((row: number, col: number) => {
+    // ワークスペース検索の結果は他ファイルを含むためハイライトしない
     return searchState.results.some(
-      result => result.tableIndex === currentTableIndex && result.row === row && result.col === col
+      result => !result.uri && result.tableIndex === currentTableIndex && result.row === row && result.col === col
     )
   }, [searchState.results, currentTableIndex])
 
@@ -346,6 +666,7 @@ const TableEditor: React.FC<TableEditorProps> = ({
     if (searchState.currentResultIndex < 0) return false
     const currentResult = searchState.results[searchState.currentResultIndex]
     return currentResult &&
+      !currentResult.uri &&
       currentResult.tableIndex === currentTableIndex &&
       currentResult.row === row &&
       currentResult.col === col
@@ -365,14 +686,24 @@ const TableEditor: React.FC<TableEditorProps> = ({
   // 親へはモデルデータの変更のみ通知（displayedDataはソートで頻繁に変わるため通知しない）
   useEffect(() => {
     onTableUpdate(modelTableData)
-    updateTableInfo(modelTableData.rows.length, modelTableData.headers.length)
-  }, [modelTableData, onTableUpdate, updateTableInfo])
+  }, [modelTableData, onTableUpdate])
+
+  // ステータスバーの行数表示（フィルター中は表示行数も渡す）
+  useEffect(() => {
+    updateTableInfo(modelTableData.rows.length, modelTableData.headers.length, displayedTableData.rows.length)
+  }, [modelTableData, displayedTableData.rows.length, updateTableInfo])
 
   // ステータスバー等のUI用にソート状態の更新を分離
   useEffect(() => {
     updateSortState(editorState.sortState)
   }, [editorState.sortState, updateSortState])
 
+  // 読み取り専用では編集を開始しない（選択・コピー・ソート・フィルターは使える）
+  const handleCellEdit = useCallback((position: CellPosition | null) => {
+    if (readOnly && position) return
+    setCurrentEditingCell(position)
+  }, [readOnly, setCurrentEditingCell])
+
   const handleCellUpdate = useCallback((row: number, col: number, value: string) => {
     // 0行目（列ヘッダーOFF時）はheaders配列を更新
     if (row === -1) {
@@ -396,10 +727,12 @@ const TableEditor: React.FC<TableEditorProps> = ({
   const handleAddRow = useCallback((index?: number, count?: number) => {
     // Add rows locally (for immediate UI feedback)
     const rowCount = count || 1
+    // ソート・フィルター中は表示行の位置をモデル行の位置に変換して送る
+    const modelIndex = index === undefined ? undefined : toModelInsertIndex(index)
     addRow(index, rowCount)
     // Send message to backend with count parameter (always include count, even if it's 1)
-    onSendMessage({ command: 'addRow', data: withTableIndex({ index, count: rowCount }) })
-  }, [addRow, onSendMessage, withTableIndex])
+    onSendMessage({ command: 'addRow', data: withTableIndex({ index: modelIndex, count: rowCount }) })
+  }, [addRow, onSendMessage, toModelInsertIndex, withTableIndex])
 
   const handleDeleteRows = useCallback((indices: number[]) => {
     const sortedViewIndices = [...indices].sort((a, b) => b - a)
@@ -432,10 +765,14 @@ const TableEditor: React.FC<TableEditorProps> = ({
     handleDeleteColumns([index])
   }, [handleDeleteColumns])
 
-  const handleSort = useCallback((col: number) => {
-    sortColumn(col)
+  const handleSort = useCallback((col: number, additive?: boolean) => {
+    sortColumn(col, additive)
   }, [sortColumn])
 
+  const handleApplySortKeys = useCallback((keys: SortKey[]) => {
+    setSortKeys(keys)
+  }, [setSortKeys])
+
   const handleCommitSort = useCallback(() => {
     const { column, direction } = editorState.sortState;
     if (direction === 'none') return;
@@ -443,12 +780,31 @@ const TableEditor: React.FC<TableEditorProps> = ({
     commitSort();
     updateStatus('success', '現在の表示順序を保存しました');
 
+    // 拡張側でも同じキー（優先順・比較方法）で並べ替える
     onSendMessage({
       command: 'sort',
-      data: withTableIndex({ column, direction })
+      data: withTableIndex({ column, direction, keys: getSortKeys(editorState.sortState) })
     });
   }, [commitSort, editorState.sortState, onSendMessage, updateStatus, withTableIndex]);
 
+  const handleApplyColumnFilter = useCallback((col: number, filter: ColumnFilter | null) => {
+    setColumnFilter(col, filter)
+  }, [setColumnFilter])
+
+  const handleClearFilters = useCallback(() => {
+    clearFilters()
+    updateStatus('info', 'フィルターを解除しました')
+  }, [clearFilters, updateStatus])
+
+  // 非表示行を削除してフィルターを確定（拡張側へは deleteRows で同期）
+  const handleCommitFilter = useCallback(() => {
+    if (hiddenRowIndices.length === 0) return
+    const modelIndices = [...hiddenRowIndices].sort((a, b) => b - a)
+    commitFilter()
+    updateStatus('success', `非表示の ${modelIndices.length} 行を削除しました`)
+    onSendMessage({ command: 'deleteRows', data: withTableIndex({ indices: modelIndices }) })
+  }, [commitFilter, hiddenRowIndices, onSendMessage, updateStatus, withTableIndex])
+
   const handleResetSort = useCallback(() => {
     resetSort();
     updateStatus('info', 'テーブルのソートをリセットしました');
@@ -459,20 +815,32 @@ const TableEditor: React.FC<TableEditorProps> = ({
     updateStatus(success ? 'success' : 'error', success ? 'セルをクリップボードにコピーしました' : 'コピーに失敗しました')
   }, [copySelectedCells, displayedTableData, editorState.selectedCells, editorState.selectionRange, updateStatus])
 
+  // 描画したセル内のリンクをクリックしたら拡張経由で開く（セルの選択はそのまま行う）
+  const handleCellLinkClick = useCallback((event: React.MouseEvent) => {
+    const link = (event.target as HTMLElement).closest?.('a.cell-link') as HTMLElement | null
+    const href = link?.dataset.href
+    if (!href) return
+    event.preventDefault()
+    onSendMessage({ command: 'openLink', data: { href } })
+  }, [onSendMessage])
+
   const handlePaste = useCallback(async () => {
+    if (readOnly) return
     const result = await pasteFromClipboard(displayedTableData, editorState.selectionRange, editorState.selectedCells, editorState.currentEditingCell)
     if (result.success) {
-      if (result.updates && result.updates.length > 0) {
-        const modelUpdates = mapUpdatesToModel(result.updates)
+      const modelUpdates = mapUpdatesToModel(result.updates ?? [])
+      if (modelUpdates.length > 0) {
         onSendMessage({ command: 'bulkUpdateCells', data: withTableIndex({ updates: modelUpdates }) })
       }
-      updateStatus('success', result.message)
+      const warning = getEnumWarning(modelUpdates)
+      updateStatus(warning ? 'warning' : 'success', warning ?? result.message)
     } else {
       updateStatus('error', result.message)
     }
-  }, [displayedTableData, editorState, mapUpdatesToModel, onSendMessage, pasteFromClipboard, updateStatus, withTableIndex])
+  }, [displayedTableData, editorState, getEnumWarning, mapUpdatesToModel, onSendMessage, pasteFromClipboard, readOnly, updateStatus, withTableIndex])
 
   const handleCut = useCallback(async () => {
+    if (readOnly) return
     const success = await copySelectedCells(displayedTableData, editorState.selectedCells, editorState.selectionRange)
     if (success && editorState.selectionRange) {
       const updates: Array<{ row: number; col: number; value: string }> = []
@@ -489,9 +857,88 @@ const TableEditor: React.FC<TableEditorProps> = ({
     } else {
       updateStatus('error', '切り取りに失敗しました')
     }
-  }, [copySelectedCells, displayedTableData, editorState, mapUpdatesToModel, onSendMessage, updateCells, updateStatus, withTableIndex])
+  }, [copySelectedCells, displayedTableData, editorState, mapUpdatesToModel, onSendMessage, readOnly, updateCells, updateStatus, withTableIndex])
+
+  // チェックボックスのクリックで1セルを切り替える
+  const handleToggleTask = useCallback((row: number, col: number) => {
+    const value = row === -1 ? displayedTableData.headers[col] : displayedTableData.rows[row]?.[col]
+    const next = toggleTaskCell(value ?? '')
+    if (next !== null) {
+      handleCellUpdate(row, col, next)
+    }
+  }, [displayedTableData, handleCellUpdate])
+
+  // 選択範囲のタスクをまとめて完了 / 未完了にする（checked 省略時は未完了が1つでもあれば完了、すべて完了なら未完了）
+  const handleSetTasksChecked = useCallback((checked?: boolean): boolean => {
+    if (readOnly) return false
+    const tasks: Array<{ row: number; col: number; value: string; checked: boolean }> = []
+    editorState.selectedCells.forEach(cellKey => {
+      const [row, col] = cellKey.split('-').map(Number)
+      const value = row >= 0 ? displayedTableData.rows[row]?.[col] ?? '' : ''
+      const task = parseTaskCell(value)
+      if (task) tasks.push({ row, col, value, checked: task.checked })
+    })
+    if (tasks.length === 0) return false
+
+    const nextChecked = checked ?? tasks.some(task => !task.checked)
+    const updates = tasks
+      .filter(task => task.checked !== nextChecked)
+      .map(task => ({ row: task.row, col: task.col, value: setTaskChecked(task.value, nextChecked) }))
+    if (updates.length > 0) {
+      updateCells(updates)
+      const modelUpdates = mapUpdatesToModel(updates)
+      onSendMessage({ command: 'bulkUpdateCells', data: withTableIndex({ updates: modelUpdates }) })
+    }
+    updateStatus('success', nextChecked ? 'タスクを完了にしました' : 'タスクを未完了に戻しました')
+    return true
+  }, [displayedTableData, editorState.selectedCells, mapUpdatesToModel, onSendMessage, readOnly, updateCells, updateStatus, withTableIndex])
+
+  // 結合したセルは表示順がファイル上の順と同じ（ソート・フィルターなし）で、仮想化していないときだけ表示・結合する
+  const spansVisible = useMemo(() => (
+    !rowSegments && !columnSegments &&
+    viewToModelMap.length === modelTableData.rows.length &&
+    viewToModelMap.every((modelRow, viewRow) => modelRow === viewRow)
+  ), [rowSegments, columnSegments, viewToModelMap, modelTableData.rows.length])
+  const viewSpans = spansVisible ? modelTableData.spans : undefined
+
+  // 矩形の選択範囲を結合する（見出し行は列方向にだけ結合でき、一部が重なる結合したセルがあれば結合しない）
+  const mergeTarget = useMemo((): CellSpan | null => {
+    const range = editorState.selectionRange
+    if (!spansVisible || !range) return null
+    const top = Math.min(range.start.row, range.end.row)
+    const bottom = Math.max(range.start.row, range.end.row)
+    const left = Math.min(range.start.col, range.end.col)
+    const right = Math.max(range.start.col, range.end.col)
+    const target = { row: top, col: left, rowSpan: bottom - top + 1, colSpan: right - left + 1 }
+    const size = target.rowSpan * target.colSpan
+    if (size < 2 || editorState.selectedCells.size !== size || (top === -1 && bottom !== -1)) return null
+    const partlyOverlaps = (modelTableData.spans ?? []).some(span => {
+      const overlaps = span.row <= bottom && span.row + span.rowSpan - 1 >= top && span.col <= right && span.col + span.colSpan - 1 >= left
+      const inside = span.row >= top && span.row + span.rowSpan - 1 <= bottom && span.col >= left && span.col + span.colSpan - 1 <= right
+      return overlaps && !inside
+    })
+    return partlyOverlaps ? null : target
+  }, [spansVisible, editorState.selectionRange, editorState.selectedCells, modelTableData.spans])
+
+  const unmergeTarget = spansVisible && editorState.selectionRange
+    ? findSpanAt(modelTableData.spans, editorState.selectionRange.start.row, editorState.selectionRange.start.col)
+    : undefined
+
+  // 結合・解除は拡張側で行い、結合したテーブルは HTML として保存される
+  const handleMergeCells = useCallback(() => {
+    if (readOnly || !mergeTarget) return
+    onSendMessage({ command: 'mergeCells', data: withTableIndex({ ...mergeTarget }) })
+    updateStatus('success', 'セルを結合しました')
+  }, [mergeTarget, onSendMessage, readOnly, updateStatus, withTableIndex])
+
+  const handleUnmergeCells = useCallback(() => {
+    if (readOnly || !unmergeTarget) return
+    onSendMessage({ command: 'unmergeCells', data: withTableIndex({ row: unmergeTarget.row, col: unmergeTarget.col }) })
+    updateStatus('success', 'セルの結合を解除しました')
+  }, [unmergeTarget, onSendMessage, readOnly, updateStatus, withTableIndex])
 
   const handleClearCells = useCallback(() => {
+    if (readOnly) return
     const updates: Array<{ row: number; col: number; value: string }> = []
     editorState.selectedCells.forEach(cellKey => {
       const [row, col] = cellKey.split('-').map(Number)
@@ -503,7 +950,7 @@ const TableEditor: React.FC<TableEditorProps> = ({
       onSendMessage({ command: 'bulkUpdateCells', data: withTableIndex({ updates: modelUpdates }) })
       updateStatus('success', '選択されたセルをクリアしました')
     }
-  }, [editorState.selectedCells, mapUpdatesToModel, onSendMessage, updateCells, updateStatus, withTableIndex])
+  }, [editorState.selectedCells, mapUpdatesToModel, onSendMessage, readOnly, updateCells, updateStatus, withTableIndex])
 
   // IME入力完了後に編集モードに遷移するためのタイマー
   const imeCompleteTimerRef = useRef<number | null>(null)
@@ -804,22 +1251,27 @@ const TableEditor: React.FC<TableEditorProps> = ({
     selectionRange: editorState.selectionRange,
     selectionAnchor: selectionAnchor,
     onCellSelect: selectCell,
-    onCellEdit: setCurrentEditingCell,
+    onCellEdit: handleCellEdit,
     onCopy: handleCopy,
     onPaste: handlePaste,
     onCut: handleCut,
     onClearCells: handleClearCells,
     onSelectAll: selectAll,
     onSetSelectionAnchor: setSelectionAnchor,
-    onUndo: () => onSendMessage({ command: 'undo' }),
-    onRedo: () => onSendMessage({ command: 'redo' }),
+    onUndo: () => {
+      if (!readOnly) onSendMessage({ command: 'undo' })
+    },
+    onRedo: () => {
+      if (!readOnly) onSendMessage({ command: 'redo' })
+    },
     headerConfig: editorState.headerConfig,
     onOpenSearch: useCallback((withReplace = false) => {
       openSearch(withReplace)
       if (withReplace) {
         toggleReplace()
       }
-    }, [openSearch, toggleReplace])
+    }, [openSearch, toggleReplace]),
+    onToggleTasks: handleSetTasksChecked
   })
 
   const handleExportCsv = useCallback(() => {
@@ -847,10 +1299,15 @@ const TableEditor: React.FC<TableEditorProps> = ({
       return
     }
     event.preventDefault()
+    // セル上で開いた場合は「ここまで固定」の対象としてセル位置を記録
+    const cellElement = (event.target as HTMLElement).closest<HTMLElement>('td[data-row][data-col]')
     setContextMenuState({
       type: 'editor',
       index: -1,
-      position: { x: event.clientX, y: event.clientY }
+      position: { x: event.clientX, y: event.clientY },
+      cell: cellElement
+        ? { row: Number(cellElement.dataset.row), col: Number(cellElement.dataset.col) }
+        : undefined
     })
   }, [])
 
@@ -864,12 +1321,18 @@ const TableEditor: React.FC<TableEditorProps> = ({
         onSearch={performSearch}
         onFindNext={findNext}
         onFindPrevious={findPrevious}
+        onGoToResult={goToResult}
         onReplaceOne={replaceOne}
-        onReplaceAll={replaceAll}
+        onReplaceAll={openReplacePreview}
         onClose={closeSearch}
         onToggleOption={toggleOption}
         onToggleAdvanced={toggleAdvanced}
         onScopeChange={setScope}
+        replacePreview={replacePreview}
+        onToggleReplaceMatch={toggleReplaceMatch}
+        onToggleReplacePreviewItem={toggleReplacePreviewItem}
+        onApplyReplacePreview={applyReplacePreview}
+        onCloseReplacePreview={closeReplacePreview}
       />
       {/* IME対応の透明入力要素（Googleスプレッドシート方式） */}
       <textarea
@@ -881,10 +1344,16 @@ const TableEditor: React.FC<TableEditorProps> = ({
         onInput={handleInputCaptureInput}
         onKeyDown={handleInputCaptureKeyDown}
         onPaste={handleInputCapturePaste}
+        readOnly={readOnly}
         aria-label="Cell input capture"
         rows={1}
       />
-      <div className="table-container">
+      <div
+        className="table-container"
+        ref={tableContainerRef}
+        onDragOver={(e) => { if (dragState.isDragging) autoScroll(e.clientX, e.clientY) }}
+        onClick={handleCellLinkClick}
+      >
         <table className="table-editor">
           <TableHeader
             headers={displayedTableData.headers}
@@ -898,10 +1367,17 @@ const TableEditor: React.FC<TableEditorProps> = ({
             onSelectAll={selectAll}
             onColumnSelect={handleColumnSelect}
             onShowColumnContextMenu={(e, i) => setContextMenuState({ type: 'column', index: i, position: { x: e.clientX, y: e.clientY } })}
-            getDragProps={getDragProps}
-            getDropProps={getDropProps}
+            getDragProps={readOnly ? undefined : getDragProps}
+            getDropProps={readOnly ? undefined : getDropProps}
             selectedCols={selectedCols}
             headerConfig={editorState.headerConfig}
+            filterState={filterState}
+            onOpenFilter={(col, position) => setFilterMenu({ col, position })}
+            readOnly={readOnly}
+            columnDiffs={diff?.columns}
+            frozenColumns={effectiveFrozenPanes.columns}
+            columnSegments={columnSegments}
+            spans={editorState.headerConfig?.hasColumnHeaders !== false ? viewSpans : undefined}
           />
           <TableBody
             headers={displayedTableData.headers}
@@ -910,47 +1386,119 @@ const TableEditor: React.FC<TableEditorProps> = ({
             onCellUpdate={handleCellUpdate}
             onHeaderUpdate={handleHeaderUpdate}
             onCellSelect={selectCell}
-            onCellEdit={setCurrentEditingCell}
+            onCellEdit={handleCellEdit}
             initialCellInput={initialCellInput}
             onAddRow={addRow}
             onDeleteRow={handleDeleteRow}
             onRowSelect={handleRowSelect}
             onShowRowContextMenu={(e, i) => setContextMenuState({ type: 'row', index: i, position: { x: e.clientX, y: e.clientY } })}
-            getDragProps={getDragProps}
-            getDropProps={getDropProps}
+            getDragProps={readOnly ? undefined : getDragProps}
+            getDropProps={readOnly ? undefined : getDropProps}
             selectedRows={selectedRows}
             fillRange={fillRange}
-            onFillHandleMouseDown={handleFillHandleMouseDown}
+            onFillHandleMouseDown={readOnly ? undefined : handleFillHandleMouseDown}
             headerConfig={editorState.headerConfig}
             isSearchResult={isSearchResult}
             isCurrentSearchResult={isCurrentSearchResult}
+            getFormulaResult={getFormulaResult}
+            getValidationIssue={validationIssues.size > 0 ? getValidationIssue : undefined}
+            enumColumns={enumColumns}
+            renderMarkdown={!effectiveShowMarkdownSource}
+            documentBaseUri={documentBaseUri}
+            onListLinkTargets={readOnly ? undefined : listLinkTargets}
+            isBrokenLink={isBrokenLink}
+            onToggleTask={readOnly ? undefined : handleToggleTask}
+            spans={viewSpans}
+            columnAlignments={columnAlignments}
+            getCellDiff={diff ? getCellDiff : undefined}
+            getRowDiffStatus={diff ? getRowDiffStatus : undefined}
+            frozenRows={effectiveFrozenPanes.rows}
+            frozenColumns={effectiveFrozenPanes.columns}
+            rowSegments={rowSegments}
+            columnSegments={columnSegments}
+            onMeasureRows={measureRows}
           />
+          {showAggregateFooter && (
+            <TableFooter
+              columnValues={columnDisplayValues}
+              aggregates={effectiveAggregates}
+              columnWidths={editorState.columnWidths}
+              headerConfig={editorState.headerConfig}
+              frozenColumns={effectiveFrozenPanes.columns}
+              columnSegments={columnSegments}
+              onAggregateChange={handleAggregateChange}
+            />
+          )}
         </table>
       </div>
 
-      <ContextMenu
-        menuState={contextMenuState}
-        onAddRow={handleAddRow}
-        onDeleteRow={handleDeleteRow}
-        onDeleteRows={handleDeleteRows}
-        onAddColumn={handleAddColumn}
-        onDeleteColumn={handleDeleteColumn}
-        onDeleteColumns={handleDeleteColumns}
-        onClose={closeContextMenu}
-        selectedCells={editorState.selectedCells}
-        tableData={displayedTableData}
-        onImportCsv={handleImportCsv}
-        onExportCsv={handleExportCsv}
-        onExportTsv={handleExportTsv}
-        exportEncoding={exportEncoding}
-        onChangeEncoding={handleEncodingChange}
-        onResetSort={handleResetSort}
-        onCommitSort={handleCommitSort}
-        hasActiveSort={editorState.sortState.direction !== 'none'}
-        headerConfig={editorState.headerConfig}
-        onToggleColumnHeaders={toggleColumnHeaders}
-        onToggleRowHeaders={toggleRowHeaders}
-      />
+      {!readOnly && (
+        <ContextMenu
+          menuState={contextMenuState}
+          onAddRow={handleAddRow}
+          onDeleteRow={handleDeleteRow}
+          onDeleteRows={handleDeleteRows}
+          onAddColumn={handleAddColumn}
+          onDeleteColumn={handleDeleteColumn}
+          onDeleteColumns={handleDeleteColumns}
+          onClose={closeContextMenu}
+          selectedCells={editorState.selectedCells}
+          tableData={displayedTableData}
+          onImportCsv={handleImportCsv}
+          onExportCsv={handleExportCsv}
+          onExportTsv={handleExportTsv}
+          exportEncoding={exportEncoding}
+          onChangeEncoding={handleEncodingChange}
+          onOpenSortDialog={() => setShowSortDialog(true)}
+          onResetSort={handleResetSort}
+          onCommitSort={handleCommitSort}
+          hasActiveSort={editorState.sortState.direction !== 'none'}
+          onClearFilters={handleClearFilters}
+          onCommitFilter={handleCommitFilter}
+          hiddenRowCount={hiddenRowIndices.length}
+          hasActiveFilter={Object.keys(filterState).length > 0}
+          headerConfig={editorState.headerConfig}
+          onToggleColumnHeaders={toggleColumnHeaders}
+          onToggleRowHeaders={toggleRowHeaders}
+          showAggregateFooter={showAggregateFooter}
+          onToggleAggregateFooter={() => setShowAggregateFooter(prev => !prev)}
+          showMarkdownSource={effectiveShowMarkdownSource}
+          onToggleMarkdownSource={() => effectiveSetShowMarkdownSource(!effectiveShowMarkdownSource)}
+          onAddAggregateRow={handleAddAggregateRow}
+          columnAlignments={columnAlignments}
+          onSetAlignment={handleSetAlignment}
+          frozenPanes={effectiveFrozenPanes}
+          onFreezePanes={handleFreezePanes}
+          onUnfreezePanes={handleUnfreezePanes}
+          onSetTasksChecked={readOnly ? undefined : handleSetTasksChecked}
+          onMergeCells={handleMergeCells}
+          onUnmergeCells={handleUnmergeCells}
+          canMergeCells={!!mergeTarget}
+          canUnmergeCells={!!unmergeTarget}
+        />
+      )}
+
+      {showSortDialog && (
+        <SortDialog
+          headers={displayedTableData.headers}
+          sortKeys={getSortKeys(editorState.sortState)}
+          onApply={handleApplySortKeys}
+          onClose={() => setShowSortDialog(false)}
+        />
+      )}
+
+      {filterMenu && filterMenu.col < modelTableData.headers.length && (
+        <FilterMenu
+          key={filterMenu.col}
+          header={modelTableData.headers[filterMenu.col]}
+          values={getDistinctColumnValues(modelTableData.rows, filterMenu.col)}
+          columnType={detectColumnType(modelTableData.rows, filterMenu.col)}
+          filter={filterState[filterMenu.col]}
+          position={filterMenu.position}
+          onApply={(filter) => handleApplyColumnFilter(filterMenu.col, filter)}
+          onClose={() => setFilterMenu(null)}
+        />
+      )}
     </div>
   )
 }
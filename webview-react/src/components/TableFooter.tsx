@@ -0,0 +1,86 @@
+import { useTranslation } from 'react-i18next'
+import { ColumnWidths, HeaderConfig } from '../types'
+import {
+  AGGREGATE_FUNCTIONS,
+  AggregateFunction,
+  computeAggregate,
+  formatAggregateValue
+} from '../utils/columnAggregates'
+import { getFrozenColumnOffsets } from '../utils/frozenPanes'
+import { RenderSegment, allItemSegments } from '../utils/virtualization'
+
+interface TableFooterProps {
+  columnValues: string[][]
+  aggregates: AggregateFunction[]
+  columnWidths: ColumnWidths
+  headerConfig?: HeaderConfig
+  frozenColumns?: number
+  columnSegments?: RenderSegment[]
+  onAggregateChange: (col: number, fn: AggregateFunction) => void
+}
+
+// 列ごとの集計結果を表示するフッター行（表示専用、ファイルには書き込まない）
+const TableFooter: React.FC<TableFooterProps> = ({
+  columnValues,
+  aggregates,
+  columnWidths,
+  headerConfig,
+  frozenColumns = 0,
+  columnSegments,
+  onAggregateChange
+}) => {
+  const { t } = useTranslation()
+  const frozenOffsets = getFrozenColumnOffsets(columnWidths, frozenColumns, headerConfig)
+
+  return (
+    <tfoot className="aggregate-footer">
+      <tr>
+        <td className="row-number aggregate-label" title={t('aggregateFooter.title')}>Σ</td>
+        {(columnSegments ?? allItemSegments(columnValues.length)).map(segment => {
+          if (segment.type === 'spacer') {
+            const width = `${segment.size}px`
+            return <td key={segment.key} className="virtual-spacer" style={{ width, minWidth: width, maxWidth: width }} aria-hidden="true" />
+          }
+          const col = segment.index
+          const values = columnValues[col]
+          // 行ヘッダーONの場合、先頭列をスキップ（TableBodyと同様）
+          if (headerConfig?.hasRowHeaders && col === 0) {
+            return null
+          }
+          const storedWidth = columnWidths[col] || 150
+          const fn = aggregates[col] ?? 'none'
+          const value = formatAggregateValue(computeAggregate(values, fn))
+          const frozenLeft = frozenOffsets[col]
+
+          return (
+            <td
+              key={col}
+              className={`aggregate-cell ${frozenLeft !== undefined ? 'frozen-column' : ''}`}
+              data-col={col}
+              style={{
+                width: `${storedWidth}px`,
+                minWidth: `${storedWidth}px`,
+                maxWidth: `${storedWidth}px`,
+                ...(frozenLeft !== undefined ? { left: `${frozenLeft}px` } : {})
+              }}
+            >
+              <select
+                className="aggregate-select"
+                value={fn}
+                onChange={(e) => onAggregateChange(col, e.target.value as AggregateFunction)}
+                title={t('aggregateFooter.selectTitle')}
+              >
+                {AGGREGATE_FUNCTIONS.map(option => (
+                  <option key={option} value={option}>{t(`aggregateFooter.${option}`)}</option>
+                ))}
+              </select>
+              <span className="aggregate-value">{value}</span>
+            </td>
+          )
+        })}
+      </tr>
+    </tfoot>
+  )
+}
+
+export default TableFooter
@@ -1,13 +1,19 @@
 import { useState, useCallback, useEffect } from 'react'
-import { SortState, ColumnWidths, HeaderConfig } from '../types'
+import { SortState, ColumnWidths, HeaderConfig, FilterState } from '../types'
 import { getColumnLetter } from '../utils/tableUtils'
+import { getSortKeys } from '../utils/sortKeys'
+import { isColumnFilterActive } from '../utils/rowFilter'
+import { getFrozenColumnOffsets, getLastFrozenColumn } from '../utils/frozenPanes'
+import { RenderSegment, allItemSegments } from '../utils/virtualization'
+import { CellSpan } from '../utils/cellSpans'
+import { TableDiffColumn } from '../../../src/communication/protocol'
 
 interface TableHeaderProps {
   headers: string[]
   columnWidths: ColumnWidths
   sortState: SortState
   onHeaderUpdate: (col: number, value: string) => void
-  onSort: (col: number) => void
+  onSort: (col: number, additive?: boolean) => void
   onColumnResize: (col: number, width: number) => void
   onAddColumn: (index?: number) => void
   onDeleteColumn: (index: number) => void
@@ -19,8 +25,24 @@ interface TableHeaderProps {
   getDropProps?: (type: 'row' | 'column', index: number) => any
   selectedCols?: Set<number>
   headerConfig?: HeaderConfig
+  filterState?: FilterState
+  onOpenFilter?: (col: number, position: { x: number; y: number }) => void
+  // 読み取り専用（差分表示）では見出しを編集しない
+  readOnly?: boolean
+  columnDiffs?: TableDiffColumn[]
+  // 先頭から固定表示する列数
+  frozenColumns?: number
+  // 仮想化時に描画する列（未指定ならすべて描画）
+  columnSegments?: RenderSegment[]
+  // 結合した見出しのセル（row=-1 の結合。列ヘッダー表示時のみ渡す）
+  spans?: CellSpan[]
 }
 
+// 仮想化で描画しない列の幅を埋めるセル
+const VirtualSpacerHeader: React.FC<{ width: number }> = ({ width }) => (
+  <th className="virtual-spacer" style={{ width: `${width}px`, minWidth: `${width}px`, maxWidth: `${width}px` }} aria-hidden="true" />
+)
+
 const TableHeader: React.FC<TableHeaderProps> = ({
   headers,
   columnWidths,
@@ -34,12 +56,32 @@ const TableHeader: React.FC<TableHeaderProps> = ({
   getDragProps,
   getDropProps,
   selectedCols,
-  headerConfig
+  headerConfig,
+  filterState,
+  onOpenFilter,
+  readOnly = false,
+  columnDiffs,
+  frozenColumns = 0,
+  columnSegments,
+  spans
 }) => {
   // theme context はここでは未使用
   const [editingHeader, setEditingHeader] = useState<number | null>(null)
   const [resizing, setResizing] = useState<{ col: number; startX: number; startWidth: number } | null>(null)
   const [clickTimer, setClickTimer] = useState<ReturnType<typeof setTimeout> | null>(null)
+  // ソートキー（複数列ソート時はヘッダーに優先順位を表示）
+  const sortKeys = getSortKeys(sortState)
+  const frozenOffsets = getFrozenColumnOffsets(columnWidths, frozenColumns, headerConfig)
+  const lastFrozenColumn = getLastFrozenColumn(frozenColumns, headerConfig)
+  // 見出し行の結合: 左端の列に colSpan を付け、結合に含まれる列の見出しは描画しない
+  const headerSpans = new Map<number, CellSpan>()
+  const coveredColumns = new Set<number>()
+  spans?.filter(span => span.row === -1).forEach(span => {
+    headerSpans.set(span.col, span)
+    for (let col = span.col + 1; col < span.col + span.colSpan; col++) {
+      coveredColumns.add(col)
+    }
+  })
 
   // ヘッダー編集開始（ダブルクリック時）
   const handleHeaderDoubleClick = useCallback((col: number) => {
@@ -50,10 +92,10 @@ const TableHeader: React.FC<TableHeaderProps> = ({
     }
 
     // 列ヘッダがONの場合のみ編集可能
-    if (headerConfig?.hasColumnHeaders !== false) {
+    if (headerConfig?.hasColumnHeaders !== false && !readOnly) {
       setEditingHeader(col)
     }
-  }, [clickTimer, headerConfig])
+  }, [clickTimer, headerConfig, readOnly])
 
   // ヘッダー編集完了
   const handleHeaderBlur = useCallback((col: number, value: string) => {
@@ -132,6 +174,7 @@ const TableHeader: React.FC<TableHeaderProps> = ({
     if (resizing) return
     if ((event.target as HTMLElement).closest('.resize-handle')) return
     if ((event.target as HTMLElement).closest('.sort-indicator')) return
+    if ((event.target as HTMLElement).closest('.filter-button')) return
 
     // React合成イベントのプロパティを先に取得（イベントプーリングのため）
     const shiftKey = event.shiftKey
@@ -177,15 +220,34 @@ const TableHeader: React.FC<TableHeaderProps> = ({
         </th>
         
         {/* Column headers with enhanced styling */}
-        {headers.map((header, col) => {
-          const columnLetter = getColumnLetter(col)
-          const storedWidth = columnWidths[col] || 150
+        {(columnSegments ?? allItemSegments(headers.length)).map(segment => {
+          if (segment.type === 'spacer') {
+            return <VirtualSpacerHeader key={segment.key} width={segment.size} />
+          }
+          const col = segment.index
+          if (coveredColumns.has(col)) {
+            return null
+          }
+          const headerSpan = headerSpans.get(col)
+          // 結合した見出しのリサイズは右端の列の幅を変える
+          const lastCol = headerSpan ? col + headerSpan.colSpan - 1 : col
+          const header = headers[col]
+          const columnLetter = headerSpan ? `${getColumnLetter(col)}:${getColumnLetter(lastCol)}` : getColumnLetter(col)
+          const sortKeyIndex = sortKeys.findIndex(key => key.column === col)
+          const sortKey = sortKeyIndex >= 0 ? sortKeys[sortKeyIndex] : null
+          const storedWidth = headerSpan
+            ? Array.from({ length: headerSpan.colSpan }, (_, i) => columnWidths[col + i] || 150).reduce((sum, width) => sum + width, 0)
+            : columnWidths[col] || 150
           const widthStyle = {
             width: `${storedWidth}px`,
             minWidth: `${storedWidth}px`,
             maxWidth: `${storedWidth}px`
           }
           const userResizedClass = columnWidths[col] && columnWidths[col] !== 150 ? 'user-resized' : ''
+          const columnDiff = columnDiffs?.[col]
+          const diffClass = columnDiff && columnDiff.status !== 'unchanged' ? `diff-${columnDiff.status}` : ''
+          const frozenLeft = frozenOffsets[col]
+          const frozenClass = frozenLeft !== undefined ? `frozen-column ${col === lastFrozenColumn ? 'frozen-column-edge' : ''}` : ''
           
           return (
             <th 
@@ -204,10 +266,13 @@ const TableHeader: React.FC<TableHeaderProps> = ({
                   onShowColumnContextMenu(e, col)
                 }
               }}
-              className={`column-header ${userResizedClass} ${selectedCols?.has(col) ? 'highlighted' : ''}`}
+              className={`column-header ${userResizedClass} ${selectedCols?.has(col) ? 'highlighted' : ''} ${diffClass} ${frozenClass}`}
               data-col={col}
-              style={widthStyle}
-              title={`Column ${columnLetter}: ${header}`}
+              colSpan={headerSpan ? headerSpan.colSpan : undefined}
+              style={frozenLeft !== undefined ? { ...widthStyle, left: `${frozenLeft}px` } : widthStyle}
+              title={columnDiff?.previousHeader !== undefined
+                ? `Column ${columnLetter}: ${columnDiff.previousHeader} → ${header}`
+                : `Column ${columnLetter}: ${header}`}
               {...(getDragProps ? getDragProps('column', col) : {})}
               {...(getDropProps ? getDropProps('column', col) : {})}
             >
@@ -231,19 +296,34 @@ const TableHeader: React.FC<TableHeaderProps> = ({
                     )}
                   </>
                 )}
+                {onOpenFilter && (
+                  <div
+                    className={`filter-button ${isColumnFilterActive(filterState?.[col]) ? 'active' : ''}`}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      const rect = e.currentTarget.getBoundingClientRect()
+                      onOpenFilter(col, { x: rect.left, y: rect.bottom })
+                    }}
+                    title="Filter column"
+                  >
+                    {isColumnFilterActive(filterState?.[col]) ? '⧩' : '▾'}
+                  </div>
+                )}
                 <div
                   className="sort-indicator"
                   onClick={(e) => {
                     e.stopPropagation()
                     console.log('🔧 Sort icon clicked for column:', col)
                     console.log('🔧 Current sortState:', sortState)
-                    onSort(col)
+                    // Shift+クリックでソートキーを追加
+                    onSort(col, e.shiftKey)
                   }}
-                  title="Sort column"
+                  title="Sort column (Shift+click to add a sort key)"
                 >
-                  {sortState?.column === col && sortState?.direction !== 'none' ? (
-                    sortState?.direction === 'asc' ? '↑' : '↓'
-                  ) : '↕'}
+                  {sortKey ? (sortKey.direction === 'asc' ? '↑' : '↓') : '↕'}
+                  {sortKey && sortKeys.length > 1 && (
+                    <span className="sort-key-order">{sortKeyIndex + 1}</span>
+                  )}
                 </div>
               </div>
               <div 
@@ -251,11 +331,11 @@ const TableHeader: React.FC<TableHeaderProps> = ({
                 onClick={(e) => e.stopPropagation()}
                 onDoubleClick={(e) => {
                   e.stopPropagation()
-                  handleAutoFit(col)
+                  handleAutoFit(lastCol)
                 }}
                 onMouseDown={(e) => {
                   e.stopPropagation()
-                  handleResizeStart(e, col)
+                  handleResizeStart(e, lastCol)
                 }}
               />
             </th>
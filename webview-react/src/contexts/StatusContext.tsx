@@ -1,5 +1,7 @@
 import { createContext, useContext, useState, ReactNode, useCallback, useMemo } from 'react'
 import { SortState } from '../types'
+import { SelectionStats } from '../utils/columnAggregates'
+import { TaskProgress } from '../utils/taskCheckbox'
 
 interface StatusState {
   message?: string
@@ -10,6 +12,7 @@ interface StatusState {
 interface TableInfo {
   rows: number
   columns: number
+  visibleRows?: number  // フィルター適用後の表示行数
 }
 
 type SaveStatus = 'saved' | 'saving' | 'error' | null
@@ -19,11 +22,15 @@ interface StatusContextType {
   tableInfo: TableInfo | null
   saveStatus: SaveStatus
   sortState: SortState | null
+  selectionStats: SelectionStats | null
+  taskProgress: TaskProgress[]
   updateStatus: (type: StatusState['type'], message: string) => void
   updateSelection: (selection: string) => void
-  updateTableInfo: (rows: number, columns: number) => void
+  updateTableInfo: (rows: number, columns: number, visibleRows?: number) => void
   updateSaveStatus: (status: SaveStatus) => void
   updateSortState: (state: SortState) => void
+  updateSelectionStats: (stats: SelectionStats | null) => void
+  updateTaskProgress: (progress: TaskProgress[]) => void
   clearStatus: () => void
 }
 
@@ -38,6 +45,8 @@ export const StatusProvider: React.FC<StatusProviderProps> = ({ children }) => {
   const [tableInfo, setTableInfo] = useState<TableInfo | null>(null)
   const [saveStatus, setSaveStatus] = useState<SaveStatus>(null)
   const [sortState, setSortState] = useState<SortState | null>(null)
+  const [selectionStats, setSelectionStats] = useState<SelectionStats | null>(null)
+  const [taskProgress, setTaskProgress] = useState<TaskProgress[]>([])
 
   const updateStatus = useCallback((type: StatusState['type'], message: string) => {
     setStatus({ type, message })
@@ -50,8 +59,8 @@ export const StatusProvider: React.FC<StatusProviderProps> = ({ children }) => {
     setStatus(prev => ({ ...prev, selection }))
   }, [])
 
-  const updateTableInfo = useCallback((rows: number, columns: number) => {
-    setTableInfo({ rows, columns })
+  const updateTableInfo = useCallback((rows: number, columns: number, visibleRows?: number) => {
+    setTableInfo({ rows, columns, visibleRows })
   }, [])
 
   const updateSaveStatus = useCallback((status: SaveStatus) => {
@@ -65,6 +74,14 @@ export const StatusProvider: React.FC<StatusProviderProps> = ({ children }) => {
     setSortState(state)
   }, [])
 
+  const updateSelectionStats = useCallback((stats: SelectionStats | null) => {
+    setSelectionStats(stats)
+  }, [])
+
+  const updateTaskProgress = useCallback((progress: TaskProgress[]) => {
+    setTaskProgress(progress)
+  }, [])
+
   const clearStatus = useCallback(() => {
     setStatus({})
     setSaveStatus(null)
@@ -76,13 +93,17 @@ export const StatusProvider: React.FC<StatusProviderProps> = ({ children }) => {
     tableInfo,
     saveStatus,
     sortState,
+    selectionStats,
+    taskProgress,
     updateStatus,
     updateSelection,
     updateTableInfo,
     updateSaveStatus,
     updateSortState,
+    updateSelectionStats,
+    updateTaskProgress,
     clearStatus
-  }), [status, tableInfo, saveStatus, sortState, updateStatus, updateSelection, updateTableInfo, updateSaveStatus, updateSortState, clearStatus])
+  }), [status, tableInfo, saveStatus, sortState, selectionStats, taskProgress, updateStatus, updateSelection, updateTableInfo, updateSaveStatus, updateSortState, updateSelectionStats, updateTaskProgress, clearStatus])
 
   return (
     <StatusContext.Provider value={contextValue}>
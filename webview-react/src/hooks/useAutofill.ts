@@ -6,9 +6,13 @@ interface UseAutofillProps {
     selectionRange: SelectionRange | null
     onUpdateCells: (updates: Array<{ row: number; col: number; value: string }>) => void
     getCellValue: (row: number, col: number) => string
+    // マウス位置にセルが描画されていない場合（仮想化したテーブル）の対象セル
+    getCellAtPoint?: (clientX: number, clientY: number) => CellPosition | null
+    // ドラッグ中にマウスが表示領域の端に近づいたとき（スクロールして範囲外のセルまで広げる）
+    onDragNearEdge?: (clientX: number, clientY: number) => void
 }
 
-export function useAutofill({ selectionRange, onUpdateCells, getCellValue }: UseAutofillProps) {
+export function useAutofill({ selectionRange, onUpdateCells, getCellValue, getCellAtPoint, onDragNearEdge }: UseAutofillProps) {
     const [isDragging, setIsDragging] = useState(false)
     const [fillRange, setFillRange] = useState<SelectionRange | null>(null)
     const dragStartRef = useRef<CellPosition | null>(null)
@@ -29,15 +33,17 @@ export function useAutofill({ selectionRange, onUpdateCells, getCellValue }: Use
     const handleMouseMove = useCallback((event: MouseEvent) => {
         if (!isDragging || !selectionRange || !dragStartRef.current) return
 
+        onDragNearEdge?.(event.clientX, event.clientY)
+
         // マウス位置からセルを特定
         const target = document.elementFromPoint(event.clientX, event.clientY)
-        if (!target) return
-
-        const cell = target.closest('[data-row][data-col]') as HTMLElement
-        if (!cell) return
+        const cell = target?.closest('[data-row][data-col]') as HTMLElement | null
+        const position = cell
+            ? { row: parseInt(cell.dataset.row || '0', 10), col: parseInt(cell.dataset.col || '0', 10) }
+            : getCellAtPoint?.(event.clientX, event.clientY)
+        if (!position) return
 
-        const row = parseInt(cell.dataset.row || '0', 10)
-        const col = parseInt(cell.dataset.col || '0', 10)
+        const { row, col } = position
 
         // 選択範囲の方向を判定して fillRange を更新
         const newFillRange: SelectionRange = {
@@ -46,7 +52,7 @@ export function useAutofill({ selectionRange, onUpdateCells, getCellValue }: Use
         }
 
         setFillRange(newFillRange)
-    }, [isDragging, selectionRange])
+    }, [isDragging, selectionRange, getCellAtPoint, onDragNearEdge])
 
     // ドラッグ終了
     const handleMouseUp = useCallback(() => {
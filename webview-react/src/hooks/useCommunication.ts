@@ -4,9 +4,10 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { WebviewCommunicationManager } from '../communication/WebviewCommunicationManager';
-import { ExtensionCommand, TableData as ProtocolTableData } from '../../../src/communication/protocol';
+import { ExtensionCommand, PatchTableData, PersistedViewState, RevealCellData, ResolveMergeConflictData, SearchWorkspaceData, SortKeyData, TableConflictData, TableDiffData, TableHistoryData, TableMergeConflict, TableData as ProtocolTableData } from '../../../src/communication/protocol';
 import { ensureVsCodeApi } from '../vscodeApi';
 import { TableData } from '../types';
+import { applyTablePatches } from '../utils/tablePatch';
 
 interface CommunicationCallbacks {
   onTableData?: (data: TableData | TableData[]) => void;
@@ -15,11 +16,27 @@ interface CommunicationCallbacks {
   onThemeVariables?: (data: any) => void;
   onFontSettings?: (data: any) => void;
   onSetActiveTable?: (index: number) => void;
+  onViewState?: (viewState: PersistedViewState | null, fileUri: string) => void;
+  onRevealCell?: (data: RevealCellData) => void;
+  onTableConflict?: (data: TableConflictData) => void;
+  onMergeConflicts?: (conflicts: TableMergeConflict[]) => void;
+  onTableDiff?: (data: TableDiffData) => void;
+  onHistory?: (history: TableHistoryData) => void;
+  // 拡張が適用しなかった編集（入力規則違反など）を取り消し、送信済みのテーブルに戻す
+  onRevertTables?: (tables: TableData[]) => void;
+  // ドキュメントのあるフォルダーの webview URI（セル内の相対パスの画像の解決に使用）
+  onDocumentBaseUri?: (baseUri: string | null) => void;
 }
 
 export function useCommunication(callbacks: CommunicationCallbacks) {
-  const { onTableData, onError, onSuccess, onThemeVariables, onFontSettings, onSetActiveTable } = callbacks;
+  const { onTableData, onError, onSuccess, onThemeVariables, onFontSettings, onSetActiveTable, onViewState, onRevealCell, onTableConflict, onMergeConflicts, onTableDiff, onHistory, onRevertTables, onDocumentBaseUri } = callbacks;
   const commManagerRef = useRef<WebviewCommunicationManager | null>(null);
+  // コールバック変更でマネージャーを作り直しても、衝突検出用のドキュメントバージョンを引き継ぐ
+  const documentVersionRef = useRef<number | undefined>(undefined);
+  // 差分更新（PATCH_TABLE_DATA）の適用先: 拡張から最後に受け取ったテーブルとそのリビジョン
+  const syncedTablesRef = useRef<{ revision: number; tables: TableData[] } | null>(null);
+  // 差分を適用できず全体の再送を依頼済み（再送が届くまで後続の差分は無視する）
+  const resyncRequestedRef = useRef(false);
   const [isConnected, setIsConnected] = useState(false);
 
   // 通信マネージャーの初期化
@@ -31,11 +48,37 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
     }
 
     const manager = new WebviewCommunicationManager(vscodeApi);
+    manager.setDocumentVersion(documentVersionRef.current);
     commManagerRef.current = manager;
 
     // ハンドラーの登録
     manager.registerNotificationHandler(ExtensionCommand.UPDATE_TABLE_DATA, (data) => {
       console.log('[useCommunication] Received table data update:', data);
+      // リロード後のパネル復元（WebviewPanelSerializer）用にファイルURIを保持し、
+      // 表示状態は webview 側の state を優先、なければ拡張側（workspaceState）の保存値を使用
+      const fileUri = data?.fileInfo?.uri;
+      if (typeof fileUri === 'string') {
+        const localState = vscodeApi.getState?.() ?? {};
+        const sameDocument = localState.uri === fileUri;
+        vscodeApi.setState?.({ ...localState, uri: fileUri, viewState: sameDocument ? localState.viewState : undefined });
+        if (onViewState) {
+          onViewState((sameDocument && localState.viewState) || data.viewState || null, fileUri);
+        }
+        if (onDocumentBaseUri) {
+          onDocumentBaseUri(typeof data.fileInfo.baseUri === 'string' ? data.fileInfo.baseUri : null);
+        }
+      }
+      // Git のコンフリクトを含むテーブル（無ければ空配列でマージ画面を閉じる）
+      if (onMergeConflicts) {
+        onMergeConflicts(Array.isArray(data?.mergeConflicts) ? data.mergeConflicts : []);
+      }
+      if (onHistory && data?.history && Array.isArray(data.history.entries)) {
+        onHistory(data.history);
+      }
+      syncedTablesRef.current = typeof data?.revision === 'number' && Array.isArray(data.data)
+        ? { revision: data.revision, tables: data.data }
+        : null;
+      resyncRequestedRef.current = false;
       if (onTableData) {
         if (data.data) {
           onTableData(data.data);
@@ -45,6 +88,41 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
       }
     });
 
+    manager.registerNotificationHandler(ExtensionCommand.PATCH_TABLE_DATA, (data: PatchTableData) => {
+      console.log('[useCommunication] Received table data patch:', { baseRevision: data?.baseRevision, revision: data?.revision, patches: data?.patches?.length });
+      const synced = syncedTablesRef.current;
+      let tables: TableData[] | null = null;
+      if (synced && data && synced.revision === data.baseRevision && Array.isArray(data.patches)) {
+        try {
+          tables = applyTablePatches(synced.tables, data.patches);
+        } catch (error) {
+          console.warn('[useCommunication] Failed to apply table data patch:', error);
+        }
+      }
+      if (!tables) {
+        // 手元のテーブルが差分の基準と異なる（取りこぼし・読み込み直し）場合は全体を取り直す
+        syncedTablesRef.current = null;
+        if (!resyncRequestedRef.current) {
+          resyncRequestedRef.current = true;
+          manager.requestSync();
+        }
+        return;
+      }
+      syncedTablesRef.current = { revision: data.revision, tables };
+      if (typeof data.documentVersion === 'number') {
+        manager.setDocumentVersion(data.documentVersion);
+      }
+      if (onMergeConflicts) {
+        onMergeConflicts(Array.isArray(data.mergeConflicts) ? data.mergeConflicts : []);
+      }
+      if (onHistory && data.history && Array.isArray(data.history.entries)) {
+        onHistory(data.history);
+      }
+      if (onTableData && data.patches.length > 0) {
+        onTableData(tables);
+      }
+    });
+
     manager.registerNotificationHandler(ExtensionCommand.SET_ACTIVE_TABLE, (data) => {
       console.log('[useCommunication] Received set active table:', data);
       if (onSetActiveTable && data && typeof data.index === 'number') {
@@ -52,6 +130,34 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
       }
     });
 
+    manager.registerNotificationHandler(ExtensionCommand.REVEAL_CELL, (data) => {
+      console.log('[useCommunication] Received reveal cell:', data);
+      if (onRevealCell && data && typeof data.tableIndex === 'number') {
+        onRevealCell(data);
+      }
+    });
+
+    manager.registerNotificationHandler(ExtensionCommand.TABLE_CONFLICT, (data) => {
+      console.warn('[useCommunication] Received table conflict:', data);
+      if (onTableConflict && data && typeof data.command === 'string') {
+        onTableConflict(data);
+      }
+    });
+
+    manager.registerNotificationHandler(ExtensionCommand.SHOW_TABLE_DIFF, (data) => {
+      console.log('[useCommunication] Received table diff:', data);
+      if (onTableDiff && data && data.diff && typeof data.tableIndex === 'number') {
+        onTableDiff(data);
+      }
+    });
+
+    manager.registerNotificationHandler(ExtensionCommand.UPDATE_HISTORY, (data) => {
+      console.log('[useCommunication] Received history:', data);
+      if (onHistory && data && Array.isArray(data.entries) && typeof data.position === 'number') {
+        onHistory(data);
+      }
+    });
+
     manager.registerNotificationHandler(ExtensionCommand.APPLY_THEME_VARIABLES, (data) => {
       console.log('[useCommunication] Received theme variables:', data);
       if (onThemeVariables) {
@@ -82,6 +188,12 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
 
     manager.registerNotificationHandler(ExtensionCommand.CELL_UPDATE_ERROR, (data) => {
       console.error('[useCommunication] Received cell update error:', data);
+      // 拡張のテーブルは変わっていないため、楽観的に更新した表示を送信済みの内容に戻す（理由は拡張側で通知）
+      const synced = syncedTablesRef.current;
+      if (onRevertTables && synced) {
+        onRevertTables(synced.tables);
+        return;
+      }
       if (onError) {
         onError(`Cell update failed at (${data.row}, ${data.col}): ${data.error}`);
       }
@@ -120,10 +232,11 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
     // クリーンアップ
     return () => {
       clearInterval(connectionCheckInterval);
+      documentVersionRef.current = manager.getDocumentVersion();
       manager.dispose();
       commManagerRef.current = null;
     };
-  }, [onTableData, onError, onSuccess, onThemeVariables, onFontSettings, onSetActiveTable]);
+  }, [onTableData, onError, onSuccess, onThemeVariables, onFontSettings, onSetActiveTable, onViewState, onRevealCell, onTableConflict, onMergeConflicts, onTableDiff, onHistory, onRevertTables, onDocumentBaseUri]);
 
   // メッセージ送信用のメソッド（旧形式との互換性を保つ）
   const sendMessage = useCallback((commandOrMessage: string | { command: string; data?: any }, data?: any) => {
@@ -158,7 +271,7 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
         break;
       case 'bulkUpdateCells':
         if (messageData) {
-          manager.bulkUpdateCells(messageData.updates, messageData.tableIndex);
+          manager.bulkUpdateCells(messageData.updates, messageData.tableIndex, messageData.additionalTables);
         }
         break;
       case 'updateHeader':
@@ -184,7 +297,7 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
         break;
       case 'sort':
         if (messageData) {
-          manager.sort(messageData.column, messageData.direction, messageData.tableIndex);
+          manager.sort(messageData.column, messageData.direction, messageData.tableIndex, messageData.keys);
         }
         break;
       case 'moveRow':
@@ -205,17 +318,67 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
       case 'importCSV':
         manager.importCSV(messageData?.tableIndex);
         break;
+      case 'setAlignment':
+        if (messageData) {
+          manager.setAlignment(messageData.columns, messageData.alignment, messageData.tableIndex);
+        }
+        break;
+      case 'mergeCells':
+        if (messageData) {
+          manager.mergeCells(messageData.row, messageData.col, messageData.rowSpan, messageData.colSpan, messageData.tableIndex);
+        }
+        break;
+      case 'unmergeCells':
+        if (messageData) {
+          manager.unmergeCells(messageData.row, messageData.col, messageData.tableIndex);
+        }
+        break;
+      case 'addAggregateRow':
+        if (messageData) {
+          manager.addAggregateRow(messageData.functions, messageData.tableIndex);
+        }
+        break;
       case 'switchTable':
         if (messageData) {
           manager.switchTable(messageData.index);
         }
         break;
+      case 'openSearchMatch':
+        if (messageData) {
+          manager.openSearchMatch(messageData.uri, messageData.tableIndex, messageData.row, messageData.col);
+        }
+        break;
+      case 'openLink':
+        if (messageData) {
+          manager.openLink(messageData.href);
+        }
+        break;
+      case 'replaceInWorkspace':
+        if (messageData) {
+          manager.replaceInWorkspace(messageData.files);
+        }
+        break;
+      case 'resolveMergeConflict':
+        if (messageData) {
+          manager.resolveMergeConflict(messageData.startLine, messageData.endLine, messageData.table);
+        }
+        break;
+      case 'saveViewState':
+        if (messageData) {
+          manager.saveViewState(messageData.viewState);
+        }
+        break;
       case 'undo':
         manager.undo();
         break;
       case 'redo':
         manager.redo();
         break;
+      case 'jumpToHistory':
+        if (messageData) {
+          manager.jumpToHistory(messageData.position);
+        }
+        break;
       case 'requestTableData':
         manager.requestTableData();
         break;
@@ -245,10 +408,14 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
     manager.updateCell(row, col, value, tableIndex);
   }, []);
 
-  const bulkUpdateCells = useCallback((updates: Array<{ row: number; col: number; value: string }>, tableIndex?: number) => {
+  const bulkUpdateCells = useCallback((
+    updates: Array<{ row: number; col: number; value: string }>,
+    tableIndex?: number,
+    additionalTables?: Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string }> }>
+  ) => {
     const manager = commManagerRef.current;
     if (!manager) return;
-    manager.bulkUpdateCells(updates, tableIndex);
+    manager.bulkUpdateCells(updates, tableIndex, additionalTables);
   }, []);
 
   const updateHeader = useCallback((col: number, value: string, tableIndex?: number) => {
@@ -281,10 +448,10 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
     manager.deleteColumns(indices, tableIndex);
   }, []);
 
-  const sort = useCallback((column: number, direction: 'asc' | 'desc' | 'none', tableIndex?: number) => {
+  const sort = useCallback((column: number, direction: 'asc' | 'desc' | 'none', tableIndex?: number, keys?: SortKeyData[]) => {
     const manager = commManagerRef.current;
     if (!manager) return;
-    manager.sort(column, direction, tableIndex);
+    manager.sort(column, direction, tableIndex, keys);
   }, []);
 
   const moveRow = useCallback((fromIndex: number, toIndex: number, tableIndex?: number) => {
@@ -317,12 +484,51 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
     manager.switchTable(index);
   }, []);
 
+  const saveViewState = useCallback((viewState: PersistedViewState) => {
+    // webview の state にも保持（パネル再表示・リロード時に同期的に復元できるようにする）
+    const vscodeApi = ensureVsCodeApi();
+    if (vscodeApi?.setState) {
+      vscodeApi.setState({ ...(vscodeApi.getState?.() ?? {}), viewState });
+    }
+    const manager = commManagerRef.current;
+    if (!manager) return;
+    manager.saveViewState(viewState);
+  }, []);
+
   const requestThemeVariables = useCallback(async () => {
     const manager = commManagerRef.current;
     if (!manager) return;
     return manager.requestThemeVariables();
   }, []);
 
+  const searchWorkspace = useCallback(async (searchText: string, options: SearchWorkspaceData['options']) => {
+    const manager = commManagerRef.current;
+    if (!manager) {
+      return { matches: [], truncated: false };
+    }
+    return manager.searchWorkspace(searchText, options);
+  }, []);
+
+  const listLinkTargets = useCallback(async () => {
+    const manager = commManagerRef.current;
+    if (!manager) {
+      return { files: [], documents: [], images: [], currentDocument: '', truncated: false };
+    }
+    return manager.listLinkTargets();
+  }, []);
+
+  const resolveMergeConflict = useCallback((startLine: number, endLine: number, table: ResolveMergeConflictData['table']) => {
+    const manager = commManagerRef.current;
+    if (!manager) return;
+    manager.resolveMergeConflict(startLine, endLine, table);
+  }, []);
+
+  const reapplyEdit = useCallback((conflict: TableConflictData) => {
+    const manager = commManagerRef.current;
+    if (!manager) return;
+    manager.reapplyEdit(conflict);
+  }, []);
+
   const undo = useCallback(() => {
     const manager = commManagerRef.current;
     if (!manager) return;
@@ -335,6 +541,12 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
     manager.redo();
   }, []);
 
+  const jumpToHistory = useCallback((position: number) => {
+    const manager = commManagerRef.current;
+    if (!manager) return;
+    manager.jumpToHistory(position);
+  }, []);
+
   const requestSync = useCallback(() => {
     const manager = commManagerRef.current;
     if (!manager) return;
@@ -359,9 +571,15 @@ export function useCommunication(callbacks: CommunicationCallbacks) {
     exportCSV,
     importCSV,
     switchTable,
+    saveViewState,
     requestThemeVariables,
+    searchWorkspace,
+    listLinkTargets,
+    resolveMergeConflict,
+    reapplyEdit,
     undo,
     redo,
+    jumpToHistory,
     requestSync
   };
 }
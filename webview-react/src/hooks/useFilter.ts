@@ -0,0 +1,34 @@
+import { useState, useCallback } from 'react'
+import { ColumnFilter, FilterState } from '../types'
+import { isColumnFilterActive } from '../utils/rowFilter'
+
+/**
+ * useFilter
+ * 列フィルター（表示のみ）の状態管理。ソートと同様にファイルは変更しない
+ */
+export function useFilter() {
+  const [filterState, setFilterState] = useState<FilterState>({})
+
+  const setColumnFilter = useCallback((col: number, filter: ColumnFilter | null) => {
+    setFilterState(prev => {
+      const next = { ...prev }
+      if (filter && isColumnFilterActive(filter)) {
+        next[col] = filter
+      } else {
+        delete next[col]
+      }
+      return next
+    })
+  }, [])
+
+  const clearFilters = useCallback(() => {
+    // 空の場合は同じ参照を返して再描画を避ける
+    setFilterState(prev => Object.keys(prev).length === 0 ? prev : {})
+  }, [])
+
+  return {
+    filterState,
+    setColumnFilter,
+    clearFilters
+  }
+}
@@ -18,6 +18,8 @@ interface KeyboardNavigationProps {
   onRedo: () => void
   headerConfig?: HeaderConfig
   onOpenSearch?: (withReplace?: boolean) => void
+  // Space でタスクのチェックボックスを切り替える（切り替えた場合は true、対象がなければ false で通常の入力）
+  onToggleTasks?: () => boolean
 }
 
 export function useKeyboardNavigation({
@@ -36,7 +38,8 @@ export function useKeyboardNavigation({
   onUndo,
   onRedo,
   headerConfig,
-  onOpenSearch
+  onOpenSearch,
+  onToggleTasks
 }: KeyboardNavigationProps) {
 
   // Helper function to check if a cell has content (for smart navigation)
@@ -452,6 +455,14 @@ export function useKeyboardNavigation({
         break
       }
 
+      case ' ': {
+        // 選択範囲にタスクのセルがあれば切り替え、なければ input-capture の入力として編集を始める
+        if (!cmdKey && !event.isComposing && onToggleTasks?.()) {
+          event.preventDefault()
+        }
+        break
+      }
+
       case 'Delete':
       case 'Backspace': {
         event.preventDefault()
@@ -543,7 +554,8 @@ export function useKeyboardNavigation({
     onUndo,
     onRedo,
     headerConfig,
-    onOpenSearch
+    onOpenSearch,
+    onToggleTasks
   ])
 
   // キーアップイベントハンドラー（Shiftキーのクリア用）
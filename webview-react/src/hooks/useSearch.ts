@@ -1,5 +1,12 @@
-import { useState, useCallback, useMemo } from 'react'
-import { TableData, SearchState, SearchResult, SearchScope, SearchOptions, SelectionRange } from '../types'
+import { useState, useCallback, useMemo, useRef } from 'react'
+import { TableData, SearchState, SearchResult, SearchScope, SearchOptions, SelectionRange, ReplacePreviewItem, WorkspaceReplaceFile } from '../types'
+import { applyReplaceMatches, buildReplacePreview, createSearchPattern, findReplaceMatches, getReplaceUpdates, getWorkspaceReplaceFiles } from '../utils/searchReplace'
+
+type TableUpdates = Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string }> }>
+
+// 置換プレビューで除外したマッチのキー
+const getMatchKey = (item: { uri?: string; tableIndex: number; row: number; col: number }, start: number) =>
+  `${item.uri ?? ''}#${item.tableIndex}-${item.row}-${item.col}-${start}`
 
 interface UseSearchProps {
   tables: TableData[]
@@ -7,7 +14,14 @@ interface UseSearchProps {
   selectionRange: SelectionRange | null
   onNavigateToResult?: (result: SearchResult) => void
   onUpdateCell?: (tableIndex: number, row: number, col: number, value: string) => void
-  onBulkUpdate?: (tableIndex: number, updates: Array<{ row: number; col: number; value: string }>) => void
+  // 複数テーブルへの更新を 1 回の Undo 単位として適用する
+  onBulkUpdate?: (tableUpdates: TableUpdates) => void
+  // ワークスペース内の全 Markdown ファイルを検索（拡張側で実行）
+  onSearchWorkspace?: (searchText: string, options: SearchOptions) => Promise<{ results: SearchResult[]; truncated: boolean }>
+  // ワークスペース検索の結果を対象ファイルのテーブルエディタで開く
+  onOpenWorkspaceResult?: (result: SearchResult) => void
+  // 複数ファイルへの置換（拡張側で確認後に適用）
+  onWorkspaceReplace?: (files: WorkspaceReplaceFile[]) => void
 }
 
 export function useSearch({
@@ -16,7 +30,10 @@ export function useSearch({
   selectionRange,
   onNavigateToResult,
   onUpdateCell,
-  onBulkUpdate
+  onBulkUpdate,
+  onSearchWorkspace,
+  onOpenWorkspaceResult,
+  onWorkspaceReplace
 }: UseSearchProps) {
   const [searchState, setSearchState] = useState<SearchState>({
     isOpen: false,
@@ -28,36 +45,40 @@ export function useSearch({
     options: {
       caseSensitive: false,
       wholeWord: false,
-      regex: false
+      regex: false,
+      preserveCase: false
     },
     results: [],
     currentResultIndex: -1
   })
-
-  // 検索パターンを作成
-  const createSearchPattern = useCallback((searchText: string, options: SearchOptions): RegExp | null => {
-    if (!searchText) return null
-
-    try {
-      if (options.regex) {
-        // 正規表現モード
-        const flags = options.caseSensitive ? 'g' : 'gi'
-        return new RegExp(searchText, flags)
-      } else {
-        // 通常の文字列検索
-        let pattern = searchText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') // エスケープ
-        if (options.wholeWord) {
-          pattern = `\\b${pattern}\\b`
-        }
-        const flags = options.caseSensitive ? 'g' : 'gi'
-        return new RegExp(pattern, flags)
+  const [isReplacePreviewOpen, setIsReplacePreviewOpen] = useState(false)
+  const [excludedMatches, setExcludedMatches] = useState<Set<string>>(() => new Set())
+  // 古いワークスペース検索の応答で結果を上書きしないための連番
+  const workspaceSearchIdRef = useRef(0)
+
+  // 検索結果へ移動（ワークスペース検索の結果は拡張側でファイルを開く）
+  const navigateToResult = useCallback((result: SearchResult) => {
+    if (result.uri) {
+      onOpenWorkspaceResult?.(result)
+    } else if (onNavigateToResult) {
+      onNavigateToResult(result)
+    }
+  }, [onNavigateToResult, onOpenWorkspaceResult])
+
+  // 置換内容を適用（ワークスペース検索の結果はファイル単位でまとめて拡張へ送る）
+  const submitReplace = useCallback((items: ReplacePreviewItem[]) => {
+    if (items.some(item => item.uri)) {
+      const files = getWorkspaceReplaceFiles(items)
+      if (files.length > 0 && onWorkspaceReplace) {
+        onWorkspaceReplace(files)
       }
-    } catch (e) {
-      // 正規表現のパースエラー
-      console.error('Invalid search pattern:', e)
-      return null
+      return
     }
-  }, [])
+    const tableUpdates = getReplaceUpdates(items)
+    if (tableUpdates.length > 0 && onBulkUpdate) {
+      onBulkUpdate(tableUpdates)
+    }
+  }, [onBulkUpdate, onWorkspaceReplace])
 
   // 検索を実行
   const performSearch = useCallback(() => {
@@ -73,6 +94,24 @@ export function useSearch({
       return
     }
 
+    if (scope === 'workspace') {
+      if (!onSearchWorkspace) return
+      const searchId = ++workspaceSearchIdRef.current
+      setSearchState(prev => ({ ...prev, isSearching: true }))
+      onSearchWorkspace(searchText, options)
+        .then(({ results, truncated }) => {
+          if (searchId !== workspaceSearchIdRef.current) return
+          // 他のファイルを勝手に開かないよう、結果一覧から選ぶまで移動しない
+          setSearchState(prev => ({ ...prev, results, truncated, isSearching: false, currentResultIndex: -1 }))
+        })
+        .catch(error => {
+          console.error('Workspace search failed:', error)
+          if (searchId !== workspaceSearchIdRef.current) return
+          setSearchState(prev => ({ ...prev, results: [], truncated: false, isSearching: false, currentResultIndex: -1 }))
+        })
+      return
+    }
+
     const results: SearchResult[] = []
 
     // 検索範囲を決定
@@ -95,6 +134,7 @@ export function useSearch({
         for (let row = minRow; row <= maxRow; row++) {
           for (let col = minCol; col <= maxCol; col++) {
             const cellValue = table.rows[row]?.[col] || ''
+            pattern.lastIndex = 0
             if (pattern.test(cellValue)) {
               results.push({ tableIndex, row, col })
             }
@@ -104,6 +144,8 @@ export function useSearch({
         // テーブル全体を検索
         table.rows.forEach((rowData, row) => {
           rowData.forEach((cellValue, col) => {
+            // g フラグ付きの test は lastIndex を引き継ぐためセルごとにリセット
+            pattern.lastIndex = 0
             if (pattern.test(cellValue)) {
               results.push({ tableIndex, row, col })
             }
@@ -115,14 +157,15 @@ export function useSearch({
     setSearchState(prev => ({
       ...prev,
       results,
+      truncated: false,
       currentResultIndex: results.length > 0 ? 0 : -1
     }))
 
     // 最初の結果に移動
-    if (results.length > 0 && onNavigateToResult) {
-      onNavigateToResult(results[0])
+    if (results.length > 0) {
+      navigateToResult(results[0])
     }
-  }, [searchState.searchText, searchState.scope, searchState.options, tables, currentTableIndex, selectionRange, createSearchPattern, onNavigateToResult])
+  }, [searchState.searchText, searchState.scope, searchState.options, tables, currentTableIndex, selectionRange, navigateToResult, onSearchWorkspace])
 
   // 次の検索結果に移動
   const findNext = useCallback(() => {
@@ -132,10 +175,17 @@ export function useSearch({
     const nextIndex = (currentResultIndex + 1) % results.length
     setSearchState(prev => ({ ...prev, currentResultIndex: nextIndex }))
 
-    if (onNavigateToResult) {
-      onNavigateToResult(results[nextIndex])
-    }
-  }, [searchState.results, searchState.currentResultIndex, onNavigateToResult])
+    navigateToResult(results[nextIndex])
+  }, [searchState.results, searchState.currentResultIndex, navigateToResult])
+
+  // 指定した検索結果に移動（結果一覧から選択）
+  const goToResult = useCallback((index: number) => {
+    const result = searchState.results[index]
+    if (!result) return
+
+    setSearchState(prev => ({ ...prev, currentResultIndex: index }))
+    navigateToResult(result)
+  }, [searchState.results, navigateToResult])
 
   // 前の検索結果に移動
   const findPrevious = useCallback(() => {
@@ -145,10 +195,8 @@ export function useSearch({
     const prevIndex = currentResultIndex <= 0 ? results.length - 1 : currentResultIndex - 1
     setSearchState(prev => ({ ...prev, currentResultIndex: prevIndex }))
 
-    if (onNavigateToResult) {
-      onNavigateToResult(results[prevIndex])
-    }
-  }, [searchState.results, searchState.currentResultIndex, onNavigateToResult])
+    navigateToResult(results[prevIndex])
+  }, [searchState.results, searchState.currentResultIndex, navigateToResult])
 
   // 1件置換
   const replaceOne = useCallback(() => {
@@ -156,58 +204,97 @@ export function useSearch({
     if (results.length === 0 || currentResultIndex < 0) return
 
     const result = results[currentResultIndex]
-    if (onUpdateCell) {
+    if (result.uri) {
+      submitReplace(buildReplacePreview(tables, [result], searchText, replaceText, options))
+    } else if (onUpdateCell) {
       const table = tables[result.tableIndex]
       const oldValue = table.rows[result.row][result.col]
       const pattern = createSearchPattern(searchText, options)
 
       if (pattern) {
-        const newValue = oldValue.replace(pattern, replaceText)
+        const newValue = applyReplaceMatches(oldValue, findReplaceMatches(oldValue, pattern, replaceText, options))
         onUpdateCell(result.tableIndex, result.row, result.col, newValue)
       }
     }
 
     // 置換後、次の結果に移動
     findNext()
-  }, [searchState.results, searchState.currentResultIndex, searchState.replaceText, searchState.searchText, searchState.options, tables, onUpdateCell, createSearchPattern, findNext])
+  }, [searchState.results, searchState.currentResultIndex, searchState.replaceText, searchState.searchText, searchState.options, tables, onUpdateCell, submitReplace, findNext])
+
+  // 置換プレビュー（検索結果と置換文字列から再計算し、除外したマッチを反映）
+  const replacePreview = useMemo<ReplacePreviewItem[] | null>(() => {
+    if (!isReplacePreviewOpen) return null
+    const { results, searchText, replaceText, options } = searchState
+    return buildReplacePreview(tables, results, searchText, replaceText, options).map(item => ({
+      ...item,
+      matches: item.matches.map(match => ({ ...match, excluded: excludedMatches.has(getMatchKey(item, match.start)) }))
+    }))
+  }, [isReplacePreviewOpen, searchState.results, searchState.searchText, searchState.replaceText, searchState.options, tables, excludedMatches])
 
-  // すべて置換
+  const closeReplacePreview = useCallback(() => {
+    setIsReplacePreviewOpen(false)
+    setExcludedMatches(new Set())
+  }, [])
+
+  // すべて置換（プレビューを経由しない場合）
   const replaceAll = useCallback(() => {
     const { results, replaceText, searchText, options } = searchState
     if (results.length === 0) return
 
-    const pattern = createSearchPattern(searchText, options)
-    if (!pattern) return
-
-    // テーブルごとにグループ化
-    const updatesByTable = new Map<number, Array<{ row: number; col: number; value: string }>>()
-
-    results.forEach(result => {
-      const table = tables[result.tableIndex]
-      const oldValue = table.rows[result.row][result.col]
-      const newValue = oldValue.replace(pattern, replaceText)
+    submitReplace(buildReplacePreview(tables, results, searchText, replaceText, options))
 
-      if (!updatesByTable.has(result.tableIndex)) {
-        updatesByTable.set(result.tableIndex, [])
+    // 検索結果をクリア
+    setSearchState(prev => ({ ...prev, results: [], currentResultIndex: -1 }))
+  }, [searchState.results, searchState.replaceText, searchState.searchText, searchState.options, tables, submitReplace])
+
+  const openReplacePreview = useCallback(() => {
+    if (searchState.results.length === 0) return
+    setExcludedMatches(new Set())
+    setIsReplacePreviewOpen(true)
+  }, [searchState.results.length])
+
+  // マッチ単位で置換対象から除外 / 戻す
+  const toggleReplaceMatch = useCallback((item: ReplacePreviewItem, matchIndex: number) => {
+    const match = item.matches[matchIndex]
+    if (!match) return
+    setExcludedMatches(prev => {
+      const next = new Set(prev)
+      const key = getMatchKey(item, match.start)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
       }
+      return next
+    })
+  }, [])
 
-      updatesByTable.get(result.tableIndex)!.push({
-        row: result.row,
-        col: result.col,
-        value: newValue
+  // セル単位で置換対象から除外 / 戻す（1 つでも対象があればすべて除外）
+  const toggleReplacePreviewItem = useCallback((item: ReplacePreviewItem) => {
+    const exclude = item.matches.some(match => !match.excluded)
+    setExcludedMatches(prev => {
+      const next = new Set(prev)
+      item.matches.forEach(match => {
+        const key = getMatchKey(item, match.start)
+        if (exclude) {
+          next.add(key)
+        } else {
+          next.delete(key)
+        }
       })
+      return next
     })
+  }, [])
 
-    // 一括更新を実行
-    if (onBulkUpdate) {
-      updatesByTable.forEach((updates, tableIndex) => {
-        onBulkUpdate(tableIndex, updates)
-      })
-    }
+  // プレビューの内容をまとめて適用
+  const applyReplacePreview = useCallback(() => {
+    if (!replacePreview) return
 
-    // 検索結果をクリア
+    submitReplace(replacePreview)
+
+    closeReplacePreview()
     setSearchState(prev => ({ ...prev, results: [], currentResultIndex: -1 }))
-  }, [searchState.results, searchState.replaceText, searchState.searchText, searchState.options, tables, createSearchPattern, onBulkUpdate])
+  }, [replacePreview, submitReplace, closeReplacePreview])
 
   // 検索バーを開く
   const openSearch = useCallback((withReplace = false) => {
@@ -220,13 +307,16 @@ export function useSearch({
 
   // 検索バーを閉じる
   const closeSearch = useCallback(() => {
+    closeReplacePreview()
+    workspaceSearchIdRef.current++
     setSearchState(prev => ({
       ...prev,
       isOpen: false,
+      isSearching: false,
       results: [],
       currentResultIndex: -1
     }))
-  }, [])
+  }, [closeReplacePreview])
 
   // 検索テキストを更新
   const setSearchText = useCallback((text: string) => {
@@ -281,8 +371,15 @@ export function useSearch({
     performSearch,
     findNext,
     findPrevious,
+    goToResult,
     replaceOne,
     replaceAll,
+    replacePreview,
+    openReplacePreview,
+    closeReplacePreview,
+    toggleReplaceMatch,
+    toggleReplacePreviewItem,
+    applyReplacePreview,
     openSearch,
     closeSearch,
     setSearchText,
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react'
-import { SortState } from '../types'
+import { SortKey, SortState } from '../types'
+import { createSortState, toggleSortKey } from '../utils/sortKeys'
 
 /**
  * useSort
@@ -15,33 +16,22 @@ export function useSort(instanceKey?: string) {
   const keyRef = useRef(instanceKey)
   console.log('[useSort] init', { key: keyRef.current, sortState })
 
-  const sortColumn = useCallback((col: number) => {
-    console.log('[useSort] sortColumn', { key: keyRef.current, col })
+  const sortColumn = useCallback((col: number, additive = false) => {
+    console.log('[useSort] sortColumn', { key: keyRef.current, col, additive })
     setSortState(prev => {
       console.log('[useSort] prev', { key: keyRef.current, prev })
-      let newState: SortState
-      if (prev.column === col) {
-        // 同じ列の場合: asc → desc → none の順で循環
-        switch (prev.direction) {
-          case 'asc':
-            newState = { column: col, direction: 'desc' }
-            break
-          case 'desc':
-            newState = { column: -1, direction: 'none' }
-            break
-          default:
-            newState = { column: col, direction: 'asc' }
-            break
-        }
-      } else {
-        // 別の列の場合: 常にascから開始
-        newState = { column: col, direction: 'asc' }
-      }
+      // 通常クリックは asc → desc → none の順で循環、Shift+クリックはソートキーを追加
+      const newState = toggleSortKey(prev, col, additive)
       console.log('[useSort] next', { key: keyRef.current, newState })
       return newState
     })
   }, [])
 
+  const setSortKeys = useCallback((keys: SortKey[]) => {
+    console.log('[useSort] setSortKeys', { key: keyRef.current, keys })
+    setSortState(createSortState(keys))
+  }, [])
+
   const resetSortState = useCallback(() => {
     console.log('[useSort] reset', { key: keyRef.current })
     setSortState({
@@ -53,6 +43,7 @@ export function useSort(instanceKey?: string) {
   const returnValue = {
     sortState,
     sortColumn,
+    setSortKeys,
     resetSortState
   }
   
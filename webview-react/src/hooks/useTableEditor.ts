@@ -1,22 +1,27 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react'
-import { TableData, CellPosition, ColumnWidths, EditorState, SortState, HeaderConfig } from '../types'
+import { TableData, CellPosition, ColumnWidths, EditorState, SortKey, SortState, HeaderConfig } from '../types'
 import { useSelection } from './useSelection'
 import { useSort } from './useSort'
+import { useFilter } from './useFilter'
+import { createSortState, getSortKeys, getSortedRowOrder, toggleSortKey } from '../utils/sortKeys'
+import { isFilterActive, matchesFilters } from '../utils/rowFilter'
 
 type SetSortState = (updater: SortState | ((prev: SortState) => SortState)) => void
 type SetHeaderConfig = (updater: HeaderConfig | ((prev: HeaderConfig) => HeaderConfig)) => void
+type SetColumnWidths = (updater: ColumnWidths | ((prev: ColumnWidths) => ColumnWidths)) => void
 
 export function useTableEditor(
   initialData: TableData,
   instanceKey?: string,
   externalSort?: { sortState: SortState; setSortState: SetSortState },
-  options?: { initializeSelectionOnDataChange?: boolean },
-  externalHeaderConfig?: { headerConfig: HeaderConfig; setHeaderConfig: SetHeaderConfig }
+  options?: { initializeSelectionOnDataChange?: boolean; initialSelection?: CellPosition | null },
+  externalHeaderConfig?: { headerConfig: HeaderConfig; setHeaderConfig: SetHeaderConfig },
+  externalColumnWidths?: { columnWidths: ColumnWidths; setColumnWidths: SetColumnWidths }
 ) {
   const [tableData, setTableData] = useState<TableData>(initialData)
   const [currentEditingCell, setCurrentEditingCell] = useState<CellPosition | null>(null)
   const [initialCellInput, setInitialCellInput] = useState<string | null>(null)
-  const [columnWidths, setColumnWidths] = useState<ColumnWidths>({})
+  const [internalColumnWidths, setInternalColumnWidths] = useState<ColumnWidths>({})
   const [internalHeaderConfig, setInternalHeaderConfig] = useState<HeaderConfig>(
     (initialData as any).headerConfig || {
       hasColumnHeaders: true,  // デフォルトで列ヘッダーあり
@@ -27,98 +32,102 @@ export function useTableEditor(
   // 外部から提供されたheaderConfigを使用、なければ内部状態を使用
   const headerConfig = externalHeaderConfig?.headerConfig ?? internalHeaderConfig
   const setHeaderConfig = externalHeaderConfig?.setHeaderConfig ?? setInternalHeaderConfig
+  // 列幅も外部（テーブルごとの表示状態）から提供されていればそちらを使用
+  const columnWidths = externalColumnWidths?.columnWidths ?? internalColumnWidths
+  const setColumnWidths = externalColumnWidths?.setColumnWidths ?? setInternalColumnWidths
   // 内部由来のデータ更新（セル編集・行列操作など）を検知するためのフラグ
   const internalUpdateRef = useRef(false)
   const internalUpdateTsRef = useRef<number>(0)
   const internalUpdateClearTimerRef = useRef<number | undefined>(undefined as any)
-
-  const selection = useSelection({
-    tableRowCount: tableData.rows.length,
-    tableColCount: tableData.headers.length
-  })
+  // テーブル切り替えの検知用（切り替え時はソートをリセットせず、保存済みの選択を復元する）
+  const lastInstanceKeyRef = useRef(instanceKey)
 
   // Sort management: prefer external controller if provided
   let sortState: SortState
-  let sortColumn: (col: number) => void
+  let sortColumn: (col: number, additive?: boolean) => void
+  let setSortKeys: (keys: SortKey[]) => void
   let resetSortState: () => void
 
   if (externalSort) {
     sortState = externalSort.sortState
-    sortColumn = (col: number) => {
-      externalSort.setSortState((prev) => {
-        let next: SortState
-        if (prev.column === col) {
-          next = prev.direction === 'asc'
-            ? { column: col, direction: 'desc' }
-            : prev.direction === 'desc'
-              ? { column: -1, direction: 'none' }
-              : { column: col, direction: 'asc' }
-        } else {
-          next = { column: col, direction: 'asc' }
-        }
-        return next
-      })
+    sortColumn = (col: number, additive = false) => {
+      externalSort.setSortState((prev) => toggleSortKey(prev, col, additive))
     }
+    setSortKeys = (keys: SortKey[]) => externalSort.setSortState(createSortState(keys))
     resetSortState = () => externalSort.setSortState({ column: -1, direction: 'none' })
   } else {
     const useSortResult = useSort(instanceKey)
     sortState = useSortResult.sortState
     sortColumn = useSortResult.sortColumn
+    setSortKeys = useSortResult.setSortKeys
     resetSortState = useSortResult.resetSortState
   }
 
-  const { displayedData, viewToModelMap } = useMemo(() => {
-    // sortStateが未定義の場合のガード
-    if (!sortState) {
-      return {
-        displayedData: tableData,
-        viewToModelMap: tableData.rows.map((_, index) => index),
-      }
-    }
+  // フィルター（表示のみ）。非表示行はビューから除外する
+  const { filterState, setColumnFilter, clearFilters } = useFilter()
+  const isFiltered = isFilterActive(filterState)
 
-    const { column, direction } = sortState
+  const { displayedData, viewToModelMap, sortedOrder } = useMemo(() => {
+    const identity = tableData.rows.map((_, index) => index)
+    // sortStateが未定義の場合のガード
+    const sortKeys = sortState
+      ? getSortKeys(sortState).filter(key => key.column < tableData.headers.length)
+      : []
 
-    if (direction === 'none' || column < 0) {
+    if (sortKeys.length === 0 && !isFiltered) {
       return {
         displayedData: tableData,
-        viewToModelMap: tableData.rows.map((_, index) => index),
+        viewToModelMap: identity,
+        sortedOrder: identity,
       }
     }
 
-    const indexedRows = tableData.rows.map((row, index) => ({ row, originalIndex: index }))
-
-    indexedRows.sort((a, b) => {
-      const aVal = a.row[column]?.toString().replace(/<br\s*\/?>/gi, ' ').toLowerCase().trim() || ''
-      const bVal = b.row[column]?.toString().replace(/<br\s*\/?>/gi, ' ').toLowerCase().trim() || ''
-      
-      const aNum = parseFloat(aVal)
-      const bNum = parseFloat(bVal)
-      if (!isNaN(aNum) && !isNaN(bNum)) {
-        return direction === 'asc' ? aNum - bNum : bNum - aNum
-      }
-      
-      return direction === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal)
-    })
+    // 主キーから順に比較（同値なら次のキー、すべて同値なら元の順序）
+    const order = sortKeys.length > 0 ? getSortedRowOrder(tableData.rows, sortKeys) : identity
+    // フィルター条件を満たす行のみ表示
+    const visibleOrder = isFiltered
+      ? order.filter(index => matchesFilters(tableData.rows[index], filterState))
+      : order
 
     return {
       displayedData: {
         ...tableData,
-        rows: indexedRows.map(item => item.row),
+        rows: visibleOrder.map(index => tableData.rows[index]),
       },
-      viewToModelMap: indexedRows.map(item => item.originalIndex),
+      viewToModelMap: visibleOrder,
+      sortedOrder: order,
+    }
+  }, [tableData, sortState, filterState, isFiltered])
+
+  // フィルターで非表示になっているモデル行（昇順）
+  const hiddenRowIndices = useMemo(() => {
+    if (!isFiltered) {
+      return []
     }
-  }, [tableData, sortState])
+    const visible = new Set(viewToModelMap)
+    return tableData.rows.map((_, index) => index).filter(index => !visible.has(index))
+  }, [isFiltered, tableData.rows, viewToModelMap])
+
+  // 選択・キーボード操作は表示行（フィルター後）を基準にする
+  const selection = useSelection({
+    tableRowCount: displayedData.rows.length,
+    tableColCount: tableData.headers.length
+  })
 
   // Stable functions to avoid infinite effect loops
   const stableFunctions = useRef({
     resetSortState,
+    clearFilters,
     initializeSelection: selection.initializeSelection,
+    selectCell: selection.selectCell,
   })
 
   useEffect(() => {
     stableFunctions.current.resetSortState = resetSortState
+    stableFunctions.current.clearFilters = clearFilters
     stableFunctions.current.initializeSelection = selection.initializeSelection
-  }, [resetSortState, selection.initializeSelection])
+    stableFunctions.current.selectCell = selection.selectCell
+  }, [resetSortState, clearFilters, selection.initializeSelection, selection.selectCell])
 
   useEffect(() => {
     // initialData の変更に伴う状態同期
@@ -133,6 +142,8 @@ export function useTableEditor(
     const nextRowCount = initialData?.rows?.length ?? 0
     const nextColCount = initialData?.headers?.length ?? 0
     const shapeChanged = prevRowCount !== nextRowCount || prevColCount !== nextColCount
+    const switchedTable = lastInstanceKeyRef.current !== instanceKey
+    lastInstanceKeyRef.current = instanceKey
 
     console.log('[MTE][useTableEditor] initialData changed.', {
       internalUpdateRef: internalUpdateRef.current,
@@ -144,11 +155,16 @@ export function useTableEditor(
       prevColCount,
       nextRowCount,
       nextColCount,
-      shapeChanged
+      shapeChanged,
+      switchedTable
     })
 
     setTableData(initialData)
     setCurrentEditingCell(null)
+    // フィルターは列インデックスに依存するため、テーブル切り替え・列数の変化でクリア
+    if (switchedTable || prevColCount !== nextColCount) {
+      stableFunctions.current.clearFilters()
+    }
     // Don't reset column widths and row heights to preserve them across table updates
     // setColumnWidths({})
     // setRowHeights({})
@@ -159,8 +175,8 @@ export function useTableEditor(
       return
     }
 
-    // 外部からのデータ更新時: 形状変化がある場合のみソートリセット
-    if (shapeChanged) {
+    // 外部からのデータ更新時: 形状変化がある場合のみソートリセット（テーブル切り替えは除く）
+    if (shapeChanged && !switchedTable) {
       console.log('[MTE][useTableEditor] External update with shape change. Resetting sort state')
       stableFunctions.current.resetSortState()
     } else {
@@ -171,9 +187,15 @@ export function useTableEditor(
     const hasSelection = !!selection.selectionState.selectionRange && selection.selectionState.selectedCells.size > 0
     const isEditingCell = currentEditingCell !== null
     if (options?.initializeSelectionOnDataChange && !isEditingCell) {
-      if (!hasSelection || shapeChanged) {
-        console.log('[MTE][useTableEditor] Initializing selection to first cell (A1)')
-        stableFunctions.current.initializeSelection()
+      if (!hasSelection || shapeChanged || switchedTable) {
+        const restoreCell = options?.initialSelection
+        if (restoreCell && restoreCell.row < nextRowCount && restoreCell.col < nextColCount) {
+          console.log('[MTE][useTableEditor] Restoring saved selection', restoreCell)
+          stableFunctions.current.selectCell(restoreCell.row, restoreCell.col)
+        } else {
+          console.log('[MTE][useTableEditor] Initializing selection to first cell (A1)')
+          stableFunctions.current.initializeSelection()
+        }
       } else {
         console.log('[MTE][useTableEditor] Preserving selection (already selected and shape unchanged)')
       }
@@ -224,19 +246,39 @@ export function useTableEditor(
     })
   }, [viewToModelMap])
 
-  const addRow = useCallback((viewIndex?: number, count: number = 1) => {
+  // モデル行（ファイル上の行順）で指定された更新を適用（検索・置換など表示順に依存しない更新用）
+  const updateModelCells = useCallback((updates: Array<{ row: number; col: number; value: string }>) => {
     markInternalUpdate()
-    const isSorted = sortState?.direction !== 'none'
     setTableData(prev => {
       const newRows = [...prev.rows]
+      updates.forEach(({ row, col, value }) => {
+        if (newRows[row]) {
+          newRows[row] = [...newRows[row]]
+          newRows[row][col] = value
+        }
+      })
+      return { ...prev, rows: newRows }
+    })
+  }, [])
 
-      let insertIndex = viewIndex
-      if (isSorted || viewIndex === undefined) {
-        insertIndex = newRows.length
-      } else {
-        const modelIndex = viewToModelMap[viewIndex]
-        insertIndex = modelIndex !== undefined ? modelIndex : newRows.length
-      }
+  // 表示行の挿入位置をモデル行の挿入位置に変換
+  // ソート中は末尾、表示末尾（フィルター中を含む）は最後の表示行の直後に挿入する
+  const toModelInsertIndex = useCallback((viewIndex?: number): number => {
+    if (viewIndex === undefined || sortState?.direction !== 'none') {
+      return tableData.rows.length
+    }
+    if (viewIndex < viewToModelMap.length) {
+      return viewToModelMap[viewIndex]
+    }
+    return viewToModelMap.length > 0 ? viewToModelMap[viewToModelMap.length - 1] + 1 : tableData.rows.length
+  }, [sortState?.direction, tableData.rows.length, viewToModelMap])
+
+  const addRow = useCallback((viewIndex?: number, count: number = 1) => {
+    markInternalUpdate()
+    const modelIndex = toModelInsertIndex(viewIndex)
+    setTableData(prev => {
+      const newRows = [...prev.rows]
+      const insertIndex = Math.min(modelIndex, newRows.length)
 
       // Add multiple rows at once
       const rowsToAdd: string[][] = []
@@ -247,7 +289,7 @@ export function useTableEditor(
 
       return { ...prev, rows: newRows }
     })
-  }, [sortState?.direction, viewToModelMap])
+  }, [toModelInsertIndex])
 
   const deleteRow = useCallback((viewIndex: number) => {
     markInternalUpdate()
@@ -263,6 +305,7 @@ export function useTableEditor(
 
   const addColumn = useCallback((index?: number, count: number = 1) => {
     markInternalUpdate()
+    clearFilters()
     setTableData(prev => {
       const insertIndex = index !== undefined ? index : prev.headers.length
       const newHeaders = [...prev.headers]
@@ -283,10 +326,11 @@ export function useTableEditor(
 
       return { ...prev, headers: newHeaders, rows: newRows }
     })
-  }, [])
+  }, [clearFilters])
 
   const deleteColumn = useCallback((index: number) => {
     markInternalUpdate()
+    clearFilters()
     setTableData(prev => {
       const newHeaders = [...prev.headers]
       newHeaders.splice(index, 1)
@@ -297,7 +341,7 @@ export function useTableEditor(
       })
       return { ...prev, headers: newHeaders, rows: newRows }
     })
-  }, [])
+  }, [clearFilters])
 
   const moveRow = useCallback((fromIndex: number, toIndex: number) => {
     markInternalUpdate()
@@ -312,6 +356,7 @@ export function useTableEditor(
 
   const moveColumn = useCallback((fromIndex: number, toIndex: number) => {
     markInternalUpdate()
+    clearFilters()
     setTableData(prev => {
       const newHeaders = [...prev.headers]
       const [movedHeader] = newHeaders.splice(fromIndex, 1)
@@ -324,17 +369,27 @@ export function useTableEditor(
       })
       return { ...prev, headers: newHeaders, rows: newRows }
     })
-  }, [])
+  }, [clearFilters])
 
   const setColumnWidth = useCallback((col: number, width: number) => {
     setColumnWidths(prev => ({ ...prev, [col]: width }))
-  }, [])
+  }, [setColumnWidths])
 
   const commitSort = useCallback(() => {
     markInternalUpdate()
-    setTableData(displayedData)
+    // フィルターで非表示の行も含めて並べ替える
+    setTableData({ ...tableData, rows: sortedOrder.map(index => tableData.rows[index]) })
     resetSortState()
-  }, [displayedData, resetSortState])
+  }, [tableData, sortedOrder, resetSortState])
+
+  // 非表示行を削除してフィルターを確定
+  const commitFilter = useCallback(() => {
+    if (hiddenRowIndices.length === 0) return
+    markInternalUpdate()
+    const hidden = new Set(hiddenRowIndices)
+    setTableData(prev => ({ ...prev, rows: prev.rows.filter((_, index) => !hidden.has(index)) }))
+    clearFilters()
+  }, [hiddenRowIndices, clearFilters])
 
   const toggleColumnHeaders = useCallback(() => {
     setHeaderConfig(prev => ({
@@ -375,6 +430,7 @@ export function useTableEditor(
     selectionAnchor: selection.selectionState.selectionAnchor,
     updateCell,
     updateCells,
+    updateModelCells,
     updateHeader: (col: number, value: string) => setTableData(prev => ({...prev, headers: prev.headers.map((h, i) => i === col ? value : h)})),
     addRow,
     deleteRow,
@@ -392,9 +448,16 @@ export function useTableEditor(
     setColumnWidth,
     moveRow,
     moveColumn,
+    toModelInsertIndex,
     sortColumn,
+    setSortKeys,
     commitSort,
     resetSort: resetSortState,
+    filterState,
+    hiddenRowIndices,
+    setColumnFilter,
+    clearFilters,
+    commitFilter,
     toggleColumnHeaders,
     toggleRowHeaders,
   }
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { CellPosition, ColumnWidths, HeaderConfig } from '../types'
+import { DEFAULT_COLUMN_WIDTH, ROW_NUMBER_WIDTH } from '../utils/frozenPanes'
+import {
+  ESTIMATED_ROW_HEIGHT,
+  RenderSegment,
+  VIRTUALIZE_COLUMN_THRESHOLD,
+  VIRTUALIZE_ROW_THRESHOLD,
+  VisibleRange,
+  buildOffsets,
+  buildRenderSegments,
+  findIndexAtOffset,
+  getVisibleRange
+} from '../utils/virtualization'
+
+interface UseTableVirtualizationProps {
+  containerRef: React.RefObject<HTMLElement>
+  rowCount: number           // 本体に描画する行数（列ヘッダーOFF時の先頭行を含む）
+  firstRowIndex: number      // 本体の先頭行の行番号（列ヘッダーOFF時は -1）
+  columnCount: number
+  columnWidths: ColumnWidths
+  headerConfig?: HeaderConfig
+  // 表示範囲外でも描画したままにする行・列（固定行・編集中のセル・ドラッグ中の行など）
+  pinnedRows?: number[]
+  pinnedColumns?: number[]
+}
+
+// オートスクロールを始める端からの距離と 1 回のスクロール量の上限
+const AUTO_SCROLL_EDGE = 32
+const AUTO_SCROLL_MAX_STEP = 48
+
+const EMPTY_RANGE: VisibleRange = { start: 0, end: 0 }
+
+export function useTableVirtualization({
+  containerRef,
+  rowCount,
+  firstRowIndex,
+  columnCount,
+  columnWidths,
+  headerConfig,
+  pinnedRows = [],
+  pinnedColumns = []
+}: UseTableVirtualizationProps) {
+  const virtualizeRows = rowCount > VIRTUALIZE_ROW_THRESHOLD
+  const virtualizeColumns = columnCount > VIRTUALIZE_COLUMN_THRESHOLD
+
+  // 実測した行の高さ（本体の行位置ごと）。変化したときだけ位置を再計算する
+  // 行数が変わったら（行の追加・削除）実測値は位置がずれるため破棄する
+  const rowHeightsRef = useRef({ rowCount, heights: new Map<number, number>() })
+  if (rowHeightsRef.current.rowCount !== rowCount) {
+    rowHeightsRef.current = { rowCount, heights: new Map() }
+  }
+  const [measureVersion, setMeasureVersion] = useState(0)
+
+  const rowOffsets = useMemo(() => {
+    const { heights } = rowHeightsRef.current
+    return buildOffsets(rowCount, position => heights.get(position) ?? ESTIMATED_ROW_HEIGHT)
+  // measureVersion は rowHeightsRef の更新を反映するための依存
+  }, [rowCount, measureVersion])
+
+  // 行ヘッダーON時の先頭列は行番号セルに表示されるため幅 0 として扱う
+  const columnOffsets = useMemo(() => {
+    return buildOffsets(columnCount, col => (
+      headerConfig?.hasRowHeaders && col === 0 ? 0 : columnWidths[col] || DEFAULT_COLUMN_WIDTH
+    ))
+  }, [columnCount, columnWidths, headerConfig?.hasRowHeaders])
+
+  const layoutRef = useRef({ rowOffsets, columnOffsets })
+  layoutRef.current = { rowOffsets, columnOffsets }
+
+  // 列ヘッダーの高さ（本体はその下から始まる）
+  const getHeaderHeight = useCallback(() => {
+    const head = containerRef.current?.querySelector('thead') as HTMLElement | null
+    return head ? head.offsetHeight : 0
+  }, [containerRef])
+
+  const getViewport = useCallback(() => {
+    const container = containerRef.current
+    return {
+      top: container?.scrollTop ?? 0,
+      left: container?.scrollLeft ?? 0,
+      // レイアウト前（jsdom を含む）はウィンドウの大きさで代用
+      height: container?.clientHeight || window.innerHeight,
+      width: container?.clientWidth || window.innerWidth
+    }
+  }, [containerRef])
+
+  const computeRanges = useCallback(() => {
+    const { top, left, height, width } = getViewport()
+    const headerHeight = getHeaderHeight()
+    const { rowOffsets: rows, columnOffsets: columns } = layoutRef.current
+    return {
+      rows: virtualizeRows ? getVisibleRange(rows, top - headerHeight, height) : EMPTY_RANGE,
+      columns: virtualizeColumns ? getVisibleRange(columns, left - ROW_NUMBER_WIDTH, width) : EMPTY_RANGE
+    }
+  }, [getViewport, getHeaderHeight, virtualizeRows, virtualizeColumns])
+
+  // 表示範囲が変わったときだけ再描画する
+  const [ranges, setRanges] = useState(computeRanges)
+  const updateRanges = useCallback(() => {
+    const next = computeRanges()
+    setRanges(prev => (
+      prev.rows.start === next.rows.start && prev.rows.end === next.rows.end &&
+      prev.columns.start === next.columns.start && prev.columns.end === next.columns.end
+        ? prev
+        : next
+    ))
+  }, [computeRanges])
+
+  useEffect(() => {
+    updateRanges()
+  }, [updateRanges, rowOffsets, columnOffsets])
+
+  useEffect(() => {
+    if (!virtualizeRows && !virtualizeColumns) return
+    const container = containerRef.current
+    container?.addEventListener('scroll', updateRanges)
+    window.addEventListener('resize', updateRanges)
+    return () => {
+      container?.removeEventListener('scroll', updateRanges)
+      window.removeEventListener('resize', updateRanges)
+    }
+  }, [containerRef, updateRanges, virtualizeRows, virtualizeColumns])
+
+  const pinnedRowKey = pinnedRows.join(',')
+  const pinnedColumnKey = pinnedColumns.join(',')
+
+  const rowSegments = useMemo<RenderSegment[] | undefined>(() => {
+    if (!virtualizeRows) return undefined
+    return buildRenderSegments(rowOffsets, ranges.rows, pinnedRows.map(row => row - firstRowIndex))
+  // pinnedRows は内容（pinnedRowKey）で比較する
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [virtualizeRows, rowOffsets, ranges.rows, pinnedRowKey, firstRowIndex])
+
+  const columnSegments = useMemo<RenderSegment[] | undefined>(() => {
+    if (!virtualizeColumns) return undefined
+    return buildRenderSegments(columnOffsets, ranges.columns, pinnedColumns)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [virtualizeColumns, columnOffsets, ranges.columns, pinnedColumnKey])
+
+  // 描画した行の高さを記録（TableBody から描画後に呼ばれる）
+  const measureRows = useCallback((heights: Array<[number, number]>) => {
+    const cache = rowHeightsRef.current.heights
+    let changed = false
+    heights.forEach(([position, height]) => {
+      if (height > 0 && Math.abs((cache.get(position) ?? ESTIMATED_ROW_HEIGHT) - height) >= 1) {
+        cache.set(position, height)
+        changed = true
+      }
+    })
+    if (changed) {
+      setMeasureVersion(version => version + 1)
+    }
+  }, [])
+
+  // 画面上の座標にあるセル（描画していない範囲も含む。テーブル外は端のセルに丸める）
+  const getCellAtPoint = useCallback((clientX: number, clientY: number): CellPosition | null => {
+    const container = containerRef.current
+    const { rowOffsets: rows, columnOffsets: columns } = layoutRef.current
+    if (!container || rows.length <= 1 || columns.length <= 1) return null
+    const rect = container.getBoundingClientRect()
+    const y = clientY - rect.top + container.scrollTop - getHeaderHeight()
+    const x = clientX - rect.left + container.scrollLeft - ROW_NUMBER_WIDTH
+    return {
+      row: findIndexAtOffset(rows, y) + firstRowIndex,
+      col: findIndexAtOffset(columns, x)
+    }
+  }, [containerRef, getHeaderHeight, firstRowIndex])
+
+  // セルが見える位置までスクロール（描画していないセルは計算した位置を使う）
+  const scrollToCell = useCallback((row: number, col: number) => {
+    const container = containerRef.current
+    const { rowOffsets: rows, columnOffsets: columns } = layoutRef.current
+    if (!container) return
+    const { top, left, height, width } = getViewport()
+    const position = row - firstRowIndex
+    let nextTop = top
+    let nextLeft = left
+    if (position >= 0 && position < rows.length - 1) {
+      const bodyHeight = height - getHeaderHeight()
+      if (rows[position] < top) {
+        nextTop = rows[position]
+      } else if (rows[position + 1] > top + bodyHeight) {
+        nextTop = rows[position + 1] - bodyHeight
+      }
+    }
+    if (col >= 0 && col < columns.length - 1) {
+      const bodyWidth = width - ROW_NUMBER_WIDTH
+      if (columns[col] < left) {
+        nextLeft = columns[col]
+      } else if (columns[col + 1] > left + bodyWidth) {
+        nextLeft = columns[col + 1] - bodyWidth
+      }
+    }
+    if (nextTop !== top || nextLeft !== left) {
+      container.scrollTop = Math.max(0, nextTop)
+      container.scrollLeft = Math.max(0, nextLeft)
+      updateRanges()
+    }
+  }, [containerRef, getViewport, getHeaderHeight, firstRowIndex, updateRanges])
+
+  // ドラッグ中にポインターが表示領域の端に近づいたらスクロールする
+  const autoScroll = useCallback((clientX: number, clientY: number) => {
+    const container = containerRef.current
+    if (!container) return
+    const rect = container.getBoundingClientRect()
+    const step = (distance: number) => Math.min(AUTO_SCROLL_MAX_STEP, Math.max(0, distance))
+    const down = step(clientY - (rect.bottom - AUTO_SCROLL_EDGE))
+    const up = step(rect.top + getHeaderHeight() + AUTO_SCROLL_EDGE - clientY)
+    const right = step(clientX - (rect.right - AUTO_SCROLL_EDGE))
+    const leftward = step(rect.left + ROW_NUMBER_WIDTH + AUTO_SCROLL_EDGE - clientX)
+    if (down || up || right || leftward) {
+      container.scrollTop += down - up
+      container.scrollLeft += right - leftward
+      updateRanges()
+    }
+  }, [containerRef, getHeaderHeight, updateRanges])
+
+  return {
+    rowSegments,
+    columnSegments,
+    measureRows,
+    getCellAtPoint,
+    scrollToCell,
+    autoScroll
+  }
+}
@@ -1,3 +1,5 @@
+import type { CellSpan, TableValidationRules } from '../../../src/communication/protocol'
+
 // ヘッダー設定
 export interface HeaderConfig {
   hasColumnHeaders: boolean  // 一番上の行を列ヘッダーとして扱う
@@ -13,8 +15,15 @@ export interface TableData {
     filePath: string
   }
   headerConfig?: HeaderConfig
+  alignment?: Array<'left' | 'center' | 'right'>
+  separatorLine?: string  // 元の区切り線（'default' 配置の判定に使用）
+  validationRules?: TableValidationRules  // 列ごとの入力規則（テーブル直前のコメント）
+  spans?: CellSpan[]  // 結合したセル（HTML のテーブルのみ）
 }
 
+// 列の配置（'default' は区切り線にコロンなし）
+export type ColumnAlignment = 'left' | 'center' | 'right' | 'default'
+
 // 複数テーブル対応
 export interface MultiTableData {
   tables: TableData[]
@@ -45,17 +54,45 @@ export interface TableAction {
   payload: any
 }
 
-// ソート状態
+// ソートキーの比較方法（auto は列の内容から number / date / string を判定）
+export type SortValueType = 'auto' | 'string' | 'number' | 'date' | 'natural'
+
+// ソートキー（複数列ソートの1キー分）
+export interface SortKey {
+  column: number
+  direction: 'asc' | 'desc'
+  type?: SortValueType
+}
+
+// ソート状態（column / direction は主キー。複数列ソート時は keys に優先順で全キーを保持）
 export interface SortState {
   column: number
   direction: 'asc' | 'desc' | 'none'
+  keys?: SortKey[]
+}
+
+// 列フィルター（オートフィルター）。表示のみの状態でファイルは変更しない
+// 指定された条件はすべて満たす必要がある（列間・列内とも AND）
+export interface ColumnFilter {
+  values?: string[]  // 表示する値（未指定なら値での絞り込みなし）
+  text?: { mode: 'contains' | 'regex'; pattern: string }
+  range?: { min?: number; max?: number }
+  dateRange?: { from?: string; to?: string }  // YYYY-MM-DD（両端を含む）
 }
 
+export type FilterState = Record<number, ColumnFilter>
+
 // 列幅設定
 export interface ColumnWidths {
   [columnIndex: number]: number
 }
 
+// ウィンドウ枠の固定（先頭から固定表示する行数・列数。行数は表示順の先頭から数える）
+export interface FrozenPanes {
+  rows: number
+  columns: number
+}
+
 // エディタ状態
 export interface EditorState {
   currentEditingCell: CellPosition | null
@@ -68,13 +105,14 @@ export interface EditorState {
 }
 
 // 検索範囲
-export type SearchScope = 'all' | 'current' | 'selection'
+export type SearchScope = 'all' | 'current' | 'selection' | 'workspace'
 
 // 検索オプション
 export interface SearchOptions {
   caseSensitive: boolean      // 大文字小文字を区別
   wholeWord: boolean           // 完全一致
   regex: boolean               // 正規表現
+  preserveCase?: boolean       // 置換時に大文字小文字を保持
 }
 
 // 検索結果
@@ -82,6 +120,9 @@ export interface SearchResult {
   tableIndex: number
   row: number
   col: number
+  uri?: string                 // ワークスペース検索: 対象ファイルの URI
+  fileName?: string            // ワークスペース検索: ワークスペースからの相対パス
+  value?: string               // ワークスペース検索: セルの値（他ファイルのテーブルは webview に無いため）
 }
 
 // 検索状態
@@ -95,4 +136,45 @@ export interface SearchState {
   options: SearchOptions       // 検索オプション
   results: SearchResult[]      // 検索結果
   currentResultIndex: number   // 現在の検索結果のインデックス
-}
\ No newline at end of file
+  isSearching?: boolean        // ワークスペース検索の実行中
+  truncated?: boolean          // 結果が上限に達して打ち切られた
+}
+
+// 置換プレビューの 1 マッチ
+export interface ReplaceMatch {
+  start: number                // セル値内の開始位置
+  end: number                  // セル値内の終了位置
+  text: string                 // マッチした文字列
+  replacement: string          // 置換後の文字列（キャプチャグループ展開・<br> 変換済み）
+  excluded?: boolean           // 置換対象から除外
+}
+
+// 置換プレビューの 1 セル
+export interface ReplacePreviewItem {
+  tableIndex: number
+  row: number
+  col: number
+  before: string
+  matches: ReplaceMatch[]
+  uri?: string                 // ワークスペース検索の結果の場合のみ
+  fileName?: string
+}
+
+// ワークスペース置換: ファイルごとのテーブル更新（original は検索時の値。拡張側で現在の値と照合する）
+export interface WorkspaceReplaceFile {
+  uri: string
+  tables: Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string; original: string }> }>
+}
+
+// 拡張から選択を指示されたセル（ワークスペース検索結果へのジャンプ）
+export interface RevealCellRequest {
+  tableIndex: number
+  row: number                  // モデル行（ファイル上の行順）
+  col: number
+}
+
+// 差分表示（読み取り専用）でのセルの状態
+export interface CellDiff {
+  status: 'added' | 'removed' | 'changed'
+  previous?: string            // 変更されたセルの比較元の値
+}
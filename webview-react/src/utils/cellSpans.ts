@@ -0,0 +1,8 @@
+/**
+ * 結合したセル（rowspan / colspan）の範囲ユーティリティ
+ *
+ * 結合したセルは HTML の <table> として書かれたテーブルにだけあり、テーブルデータの spans で届く。
+ * 範囲の計算は拡張側 (src/htmlTable.ts) と共有し、Webview は結合したセルの表示と結合・解除の判定に利用する。
+ */
+export { findSpanAt, getSpanCells } from '../../../src/htmlTable'
+export type { CellSpan } from '../../../src/htmlTable'
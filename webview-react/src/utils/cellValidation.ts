@@ -0,0 +1,21 @@
+/**
+ * 列ごとの入力規則によるセルの検査ユーティリティ
+ *
+ * 規則はテーブル直前の `<!-- table-validation {...} -->` コメントに記述され、テーブルデータと一緒に届く。
+ * 検査ロジックは拡張側 (src/cellValidation.ts) と共有し、拡張は編集要求の検査（不正な値は適用しない）、
+ * Webview はファイル上の不正な値の表示に利用する。
+ */
+export {
+  DEFAULT_DATE_FORMAT,
+  getColumnRules,
+  matchesDateFormat,
+  validateCellValue,
+  validateTable
+} from '../../../src/cellValidation'
+export type {
+  CellValidationFailure,
+  CellValidationIssue,
+  CellValidationIssueCode,
+  ColumnValidationRule,
+  TableValidationRules
+} from '../../../src/cellValidation'
@@ -0,0 +1,16 @@
+/**
+ * 列集計ユーティリティ
+ *
+ * 集計フッター（合計・平均・件数・最小・最大）とステータスバーの選択範囲集計で使用する。
+ * 集計は拡張側 (src/columnAggregates.ts) と共有し、拡張側の列の統計と数値の解釈を揃える。
+ */
+export {
+  AGGREGATE_FUNCTIONS,
+  computeAggregate,
+  computeSelectionStats,
+  formatAggregateValue,
+  getDefaultAggregate,
+  isNumericColumn,
+  parseNumericValue
+} from '../../../src/columnAggregates'
+export type { AggregateFunction, SelectionStats } from '../../../src/columnAggregates'
@@ -0,0 +1,77 @@
+import { TableData } from '../types'
+import { getColumnRules } from './cellValidation'
+import { isFormulaCell } from './formulaEngine'
+import { detectColumnType, naturalCompare } from './sortKeys'
+
+// 選択肢（enum）の列
+// 入力規則（type: "enum"）で指定された列と、少数の値を繰り返し使っている列（推定）を対象にする
+// 編集時はドロップダウンで値を選び、貼り付け・オートフィルで選択肢にない値を入れると警告する
+
+export interface EnumColumn {
+  values: string[]
+  // 入力規則で指定された選択肢（それ以外の値は拡張側で適用されない）。推定した列は false
+  configured: boolean
+}
+
+// 推定の条件: 値のある行が一定数以上あり、異なる値が少なく、各値が平均 2 回以上使われている
+const MIN_INFERRED_ROWS = 6
+const MAX_INFERRED_VALUES = 12
+const MAX_INFERRED_VALUE_LENGTH = 40
+
+export function getEnumColumns(table: Pick<TableData, 'headers' | 'rows' | 'validationRules'>): Array<EnumColumn | undefined> {
+  const rules = getColumnRules(table.headers, table.validationRules)
+  return table.headers.map((_, col) => {
+    const rule = rules[col]
+    if (rule?.type === 'enum' && rule.values && rule.values.length > 0) {
+      return { values: [...rule.values], configured: true }
+    }
+    // 規則のある列は推定しない（数値・日付などの規則と矛盾させない）
+    return rule ? undefined : inferEnumColumn(table.rows, col)
+  })
+}
+
+function inferEnumColumn(rows: string[][], col: number): EnumColumn | undefined {
+  const values: string[] = []
+  for (const row of rows) {
+    const value = (row[col] ?? '').trim()
+    if (!value) continue
+    if (isFormulaCell(value) || /<br\s*\/?>/i.test(value) || value.length > MAX_INFERRED_VALUE_LENGTH) {
+      return undefined
+    }
+    values.push(value)
+  }
+  if (values.length < MIN_INFERRED_ROWS || detectColumnType(rows, col) !== 'string') {
+    return undefined
+  }
+  const distinct = Array.from(new Set(values))
+  if (distinct.length < 2 || distinct.length > MAX_INFERRED_VALUES || distinct.length * 2 > values.length) {
+    return undefined
+  }
+  return { values: distinct.sort(naturalCompare), configured: false }
+}
+
+/**
+ * Values of the updates that are not among the choices of their enum column (empty values and formulas are allowed)
+ */
+export function findDisallowedEnumValues(
+  updates: Array<{ row: number; col: number; value: string }>,
+  columns: Array<EnumColumn | undefined>
+): Array<{ col: number; value: string }> {
+  const found = new Map<string, { col: number; value: string }>()
+  updates.forEach(({ row, col, value }) => {
+    const column = columns[col]
+    const text = (value ?? '').trim()
+    if (row < 0 || !column || !text || isFormulaCell(text) || column.values.includes(text)) return
+    found.set(`${col}:${text}`, { col, value: text })
+  })
+  return Array.from(found.values())
+}
+
+/**
+ * Choices shown in the dropdown for the text typed so far (all choices while the text is empty or one of them)
+ */
+export function filterEnumOptions(values: string[], input: string): string[] {
+  const query = input.trim().toLowerCase()
+  if (!query || values.includes(input.trim())) return values
+  return values.filter(value => value.toLowerCase().includes(query))
+}
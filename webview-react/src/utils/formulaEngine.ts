@@ -0,0 +1,25 @@
+/**
+ * 数式セル評価ユーティリティ
+ *
+ * `<!--=A2*C2-->42` の形式で保存された数式セルを評価する。
+ * 評価ロジックは拡張側 (src/formulaEngine.ts) と共有し、拡張はファイルへの計算結果の書き込み、
+ * Webview は表示用の即時評価に利用する。
+ */
+import { getColumnLetter } from './tableUtils'
+
+export {
+  buildFormulaCell,
+  evaluateFormulas,
+  formatFormulaNumber,
+  isFormulaCell,
+  parseCellReference,
+  parseFormulaCell
+} from '../../../src/formulaEngine'
+export type { FormulaCellRef, FormulaErrorCode, FormulaResult } from '../../../src/formulaEngine'
+
+/**
+ * Build an A1 reference from 0-based data row/column indices
+ */
+export function toCellReference(row: number, col: number): string {
+  return `${getColumnLetter(col)}${row + 1}`
+}
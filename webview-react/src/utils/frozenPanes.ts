@@ -0,0 +1,35 @@
+import { ColumnWidths, FrozenPanes, HeaderConfig } from '../types'
+
+// ウィンドウ枠の固定（先頭の行・列を sticky で固定表示する）
+// 列の位置は列幅から計算する（セルは box-sizing: border-box で幅に罫線を含む）
+
+export const NO_FROZEN_PANES: FrozenPanes = { rows: 0, columns: 0 }
+
+// 行番号列（.row-number / .header-corner）の幅
+export const ROW_NUMBER_WIDTH = 60
+export const DEFAULT_COLUMN_WIDTH = 150
+
+// 固定する列ごとの left 位置（固定しない列は含まない）
+// 行ヘッダーON時の先頭列は行番号セルに表示されるため列としては描画しない
+export function getFrozenColumnOffsets(
+  columnWidths: ColumnWidths,
+  frozenColumns: number,
+  headerConfig?: HeaderConfig
+): Record<number, number> {
+  const offsets: Record<number, number> = {}
+  let left = ROW_NUMBER_WIDTH
+  for (let col = 0; col < frozenColumns; col++) {
+    if (headerConfig?.hasRowHeaders && col === 0) {
+      continue
+    }
+    offsets[col] = left
+    left += columnWidths[col] || DEFAULT_COLUMN_WIDTH
+  }
+  return offsets
+}
+
+// 固定範囲の最後の列（境界線を表示する列）。固定する列が描画されない場合は -1
+export function getLastFrozenColumn(frozenColumns: number, headerConfig?: HeaderConfig): number {
+  const first = headerConfig?.hasRowHeaders ? 1 : 0
+  return frozenColumns > first ? frozenColumns - 1 : -1
+}
@@ -0,0 +1,85 @@
+import { unescapePipeCharacters } from './contentConverter'
+
+// セル内のインライン Markdown（太字・斜体・取り消し線・コード・リンク・画像）を表示用の HTML にする
+// すべての文字列をエスケープした上で、許可したタグ（strong / em / del / code / a / img / br）だけを生成する
+// リンクは data-href に保持し、クリック時に拡張経由で開く（webview 内では遷移しない）
+
+export interface InlineMarkdownOptions {
+  // ドキュメントのあるフォルダーの webview URI（相対パスの画像の解決に使用。未指定なら画像は代替テキストで表示）
+  baseUri?: string
+  // リンク先のファイル・見出しが見つからないリンクを判定する（該当するリンクは broken クラスを付けて表示）
+  isBrokenLink?: (href: string) => boolean
+  brokenLinkTitle?: string
+}
+
+const PLACEHOLDER = /\u0000(\d+)\u0000/g
+const LINK_DESTINATION = String.raw`\(\s*<?([^\s<>()]+(?:\([^\s<>()]*\)[^\s<>()]*)*)>?(?:\s+"([^"]*)")?\s*\)`
+const IMAGE_PATTERN = new RegExp(String.raw`!\[([^\]]*)\]` + LINK_DESTINATION, 'g')
+const LINK_PATTERN = new RegExp(String.raw`\[((?:[^\[\]]|\[[^\]]*\])*)\]` + LINK_DESTINATION, 'g')
+
+export function renderInlineMarkdown(content: string, options: InlineMarkdownOptions = {}): string {
+  if (!content) return ''
+
+  // 生成した HTML は置き換え用の記号に退避し、以降の変換・エスケープの対象から外す
+  const tokens: string[] = []
+  const stash = (html: string) => `\u0000${tokens.push(html) - 1}\u0000`
+
+  let text = unescapePipeCharacters(content)
+    .replace(/\u0000/g, '')
+    .replace(/\\([\\`*_~[\]()!<>#])/g, (_, char: string) => stash(escapeHtml(char)))
+    .replace(/(`+)(?!`)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks: string, code: string) =>
+      stash(`<code>${escapeHtml(code.replace(/<br\s*\/?>/gi, ' ').trim())}</code>`))
+    .replace(/<br\s*\/?>/gi, () => stash('<br>'))
+    .replace(IMAGE_PATTERN, (_, alt: string, src: string, title?: string) => {
+      const url = resolveImageUrl(src, options.baseUri)
+      if (!url) return stash(escapeHtml(alt))
+      return stash(`<img class="cell-image" src="${escapeHtml(url)}" alt="${escapeHtml(alt)}" title="${escapeHtml(title ?? alt)}">`)
+    })
+    .replace(LINK_PATTERN, (_, label: string, href: string, title?: string) => {
+      const broken = options.isBrokenLink?.(href) ?? false
+      const tooltip = broken && options.brokenLinkTitle ? `${options.brokenLinkTitle}: ${href}` : title ?? href
+      return stash(`<a class="cell-link${broken ? ' broken' : ''}" data-href="${escapeHtml(href)}" title="${escapeHtml(tooltip)}">${renderEmphasis(escapeHtml(label))}</a>`)
+    })
+    .replace(/<((?:https?|mailto):[^\s<>]+)>/gi, (_, href: string) =>
+      stash(`<a class="cell-link" data-href="${escapeHtml(href)}" title="${escapeHtml(href)}">${escapeHtml(href)}</a>`))
+
+  text = renderEmphasis(escapeHtml(text))
+
+  // 退避した HTML を戻す（リンクの文字列の中に退避したコードなども戻す）
+  while (text.includes('\u0000')) {
+    text = text.replace(PLACEHOLDER, (_, index: string) => tokens[Number(index)] ?? '')
+  }
+  return text
+}
+
+// 強調（** / __ → strong、* / _ → em、~~ → del）。_ は単語の途中では強調にしない
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/\*([^\s*](?:[^*]*[^\s*])?)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_([^\s_](?:[^_]*[^\s_])?)_(?!\w)/g, '$1<em>$2</em>')
+}
+
+// 画像の URL（https・data:image はそのまま、相対パスはドキュメントのフォルダーを基準に解決）
+// Webview の CSP（img-src）が https: と data: のみ許可するため、http の画像は読み込めない
+function resolveImageUrl(src: string, baseUri?: string): string | null {
+  if (/^https:\/\//i.test(src) || /^data:image\//i.test(src)) return src
+  // http を含む他のスキーム・ルートからのパスは表示しない
+  if (/^[a-z][a-z0-9+.-]*:/i.test(src) || src.startsWith('/') || !baseUri) return null
+  try {
+    return new URL(src, baseUri.endsWith('/') ? baseUri : `${baseUri}/`).href
+  } catch {
+    return null
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
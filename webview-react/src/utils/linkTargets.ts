@@ -0,0 +1,153 @@
+import type { LinkTargetDocument, LinkTargetHeading, LinkTargetsResult } from '../../../src/communication/protocol'
+
+export type { LinkTargetDocument, LinkTargetHeading, LinkTargetsResult }
+
+// セル内のリンクの補完とリンク切れの確認
+// 候補（ワークスペースのファイル・Markdown の見出し・画像）は拡張から取得する（LIST_LINK_TARGETS）
+// パスはドキュメントのフォルダーからの相対パス（エンコード済み）で、比較するときはデコード・正規化する
+
+export type LinkCompletionKind = 'label' | 'path' | 'heading'
+
+export interface LinkCompletionContext {
+  kind: LinkCompletionKind
+  // 補完で置き換える範囲の先頭（末尾はカーソル位置）
+  start: number
+  query: string
+  // path: 画像のリンク（![...]( の後）
+  image?: boolean
+  // heading: 見出しを探すドキュメントのパス（空なら編集中のドキュメント）
+  documentPath?: string
+}
+
+export interface LinkCompletionItem {
+  label: string
+  detail?: string
+  // 補完の範囲（start からカーソルまで）を置き換える文字列
+  insertText: string
+}
+
+const MAX_COMPLETIONS = 50
+
+/**
+ * What to complete at the caret: a link label after `[`, a path after `](`, or a heading after `#` of a link target
+ */
+export function getLinkCompletionContext(value: string, caret: number): LinkCompletionContext | null {
+  // カーソルのある行だけを見る（セル内の改行をまたがない）
+  const line = value.slice(value.lastIndexOf('\n', caret - 1) + 1, caret)
+
+  const heading = /\]\(<?([^\s()#<>]*)#([^\s()#<>]*)$/.exec(line)
+  if (heading) {
+    return { kind: 'heading', start: caret - heading[2].length, query: heading[2], documentPath: heading[1] }
+  }
+  const path = /(!?)\[[^\]]*\]\(<?([^\s()#<>]*)$/.exec(line)
+  if (path) {
+    return { kind: 'path', start: caret - path[2].length, query: path[2], image: path[1] === '!' }
+  }
+  // [ の直後から空白以外を入力中（画像・エスケープした [ 、タスクリストの "[ ]" は対象外）
+  const label = /(?:^|[^!\\\]])\[((?:[^\s[\]()][^[\]()]*)?)$/.exec(line)
+  if (label) {
+    return { kind: 'label', start: caret - label[1].length - 1, query: label[1] }
+  }
+  return null
+}
+
+/**
+ * Completion items for the context, filtered by the text typed so far
+ */
+export function getLinkCompletions(context: LinkCompletionContext, targets: LinkTargetsResult): LinkCompletionItem[] {
+  const query = decodePath(context.query).toLowerCase()
+  const matches = (...texts: string[]) => texts.some(text => text.toLowerCase().includes(query))
+
+  switch (context.kind) {
+    case 'heading': {
+      const document = findDocument(targets, context.documentPath || targets.currentDocument)
+      return (document?.headings ?? [])
+        .filter(heading => matches(heading.text, heading.slug))
+        .slice(0, MAX_COMPLETIONS)
+        .map(heading => ({ label: heading.text, detail: `#${heading.slug}`, insertText: heading.slug }))
+    }
+    case 'path':
+      return (context.image ? targets.images : targets.files)
+        .filter(file => matches(decodePath(file)))
+        .slice(0, MAX_COMPLETIONS)
+        .map(file => ({ label: decodePath(file), insertText: file }))
+    case 'label': {
+      // 編集中のドキュメントの見出しと、ほかの Markdown ファイル
+      const current = findDocument(targets, targets.currentDocument)
+      const headings = (current?.headings ?? [])
+        .filter(heading => matches(heading.text))
+        .map(heading => ({ label: heading.text, detail: `#${heading.slug}`, insertText: `[${escapeLabel(heading.text)}](#${heading.slug})` }))
+      const documents = targets.documents
+        .filter(document => document.path !== targets.currentDocument)
+        .map(document => ({ document, title: getDocumentTitle(document) }))
+        .filter(({ document, title }) => matches(title, decodePath(document.path)))
+        .map(({ document, title }) => ({ label: title, detail: decodePath(document.path), insertText: `[${escapeLabel(title)}](${document.path})` }))
+      return [...headings, ...documents].slice(0, MAX_COMPLETIONS)
+    }
+  }
+}
+
+/**
+ * A function telling whether a link target of a cell is missing (file or heading not found).
+ * External links and paths from the workspace root are not checked; file checks are skipped when the list was truncated.
+ */
+export function createBrokenLinkChecker(targets: LinkTargetsResult): (href: string) => boolean {
+  const files = new Set([...targets.files, ...targets.documents.map(document => document.path), targets.currentDocument].map(normalizePath))
+  const folders = new Set<string>()
+  files.forEach(file => {
+    const parts = file.split('/')
+    for (let i = 1; i < parts.length; i++) folders.add(parts.slice(0, i).join('/'))
+  })
+  const slugs = new Map(targets.documents.map(document => [normalizePath(document.path), new Set(document.headings.map(heading => heading.slug))]))
+
+  return (href: string) => {
+    const target = href.trim().replace(/^<(.*)>$/, '$1')
+    if (!target || /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('/')) return false
+    const hashIndex = target.indexOf('#')
+    const filePath = (hashIndex >= 0 ? target.slice(0, hashIndex) : target).replace(/\?.*$/, '')
+    const fragment = hashIndex >= 0 ? target.slice(hashIndex + 1) : ''
+    const normalized = normalizePath(filePath || targets.currentDocument)
+    if (filePath && !targets.truncated && !files.has(normalized) && !folders.has(normalized)) {
+      return true
+    }
+    const headings = slugs.get(normalized)
+    return Boolean(fragment && headings && !headings.has(decodePath(fragment).toLowerCase()))
+  }
+}
+
+function findDocument(targets: LinkTargetsResult, path: string): LinkTargetDocument | undefined {
+  const normalized = normalizePath(path)
+  return targets.documents.find(document => normalizePath(document.path) === normalized)
+}
+
+// 最初のレベル 1 の見出し、なければファイル名（拡張子を除く）
+function getDocumentTitle(document: LinkTargetDocument): string {
+  const title = document.headings.find(heading => heading.level === 1)?.text
+  return title ?? (decodePath(document.path).split('/').pop() ?? document.path).replace(/\.[^.]+$/, '')
+}
+
+function escapeLabel(text: string): string {
+  return text.replace(/[[\]]/g, (char) => `\\${char}`)
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path)
+  } catch {
+    return path
+  }
+}
+
+// ./ と ../ を解決し、末尾の / を除いたデコード済みのパス（先頭の ../ は残す）
+function normalizePath(path: string): string {
+  const parts: string[] = []
+  decodePath(path).split('/').forEach(part => {
+    if (part === '' || part === '.') return
+    if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..') {
+      parts.pop()
+    } else {
+      parts.push(part)
+    }
+  })
+  return parts.join('/')
+}
@@ -0,0 +1,111 @@
+// セル編集中のインライン Markdown の書式（太字・斜体・コード・取り消し線・リンク）の挿入
+// テキストと選択範囲を受け取り、記法で囲んだ（または外した）テキストと新しい選択範囲を返す
+
+export type InlineFormat = 'bold' | 'italic' | 'code' | 'strikethrough'
+
+export interface TextEditResult {
+  value: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+const MARKERS: Record<InlineFormat, string> = {
+  bold: '**',
+  italic: '*',
+  code: '`',
+  strikethrough: '~~'
+}
+
+/**
+ * Wrap the selection in the Markdown syntax of the format, or remove the syntax when the selection is already wrapped.
+ * With an empty selection the markers are inserted around the caret.
+ */
+export function toggleInlineFormat(value: string, selectionStart: number, selectionEnd: number, format: InlineFormat): TextEditResult {
+  const marker = MARKERS[format]
+  // 選択範囲の前後の空白は記法の外に出す（"**text **" は強調にならない）
+  let start = Math.min(selectionStart, selectionEnd)
+  let end = Math.max(selectionStart, selectionEnd)
+  while (start < end && /\s/.test(value[start])) start++
+  while (end > start && /\s/.test(value[end - 1])) end--
+
+  // 選択範囲の外側が記法で囲まれていれば外す
+  if (start < end && isWrapped(value, start, end, format)) {
+    return {
+      value: value.slice(0, start - marker.length) + value.slice(start, end) + value.slice(end + marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length
+    }
+  }
+  // 記法ごと選択されていれば内側を残す
+  const selected = value.slice(start, end)
+  if (selected.length > marker.length * 2 && isWrapped(selected, marker.length, selected.length - marker.length, format)) {
+    return {
+      value: value.slice(0, start) + selected.slice(marker.length, -marker.length) + value.slice(end),
+      selectionStart: start,
+      selectionEnd: end - marker.length * 2
+    }
+  }
+
+  // コードにバッククォートが含まれる場合は二重のバッククォートで囲む
+  const open = format === 'code' && selected.includes('`') ? '`` ' : marker
+  const close = format === 'code' && selected.includes('`') ? ' ``' : marker
+  return {
+    value: value.slice(0, start) + open + selected + close + value.slice(end),
+    selectionStart: start + open.length,
+    selectionEnd: end + open.length
+  }
+}
+
+/**
+ * Replace the selection with a Markdown link to the target.
+ * The selected text becomes the label; without a selection the file name is used and selected for editing.
+ */
+export function insertLink(value: string, selectionStart: number, selectionEnd: number, href: string): TextEditResult {
+  const start = Math.min(selectionStart, selectionEnd)
+  const end = Math.max(selectionStart, selectionEnd)
+  const target = /\s/.test(href) ? `<${href}>` : href
+  const selected = value.slice(start, end).trim()
+  const label = (selected || getLinkLabel(href)).replace(/[[\]]/g, (char) => `\\${char}`)
+  const link = `[${label}](${target})`
+  return {
+    value: value.slice(0, start) + link + value.slice(end),
+    // ラベルを選択し、そのまま書き換えられるようにする（選択範囲から作った場合はリンクの後ろにカーソル）
+    selectionStart: selected ? start + link.length : start + 1,
+    selectionEnd: start + (selected ? link.length : 1 + label.length)
+  }
+}
+
+// ファイルへのリンクはファイル名（拡張子・#見出しを除く）、それ以外は URL をラベルにする
+function getLinkLabel(href: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(href)) return href
+  const fileName = href.split('#', 1)[0].split('/').filter(Boolean).pop() ?? href
+  let label = fileName
+  try {
+    label = decodeURIComponent(fileName)
+  } catch {
+    // 不正なエンコードはそのまま使う
+  }
+  return label.replace(/\.[^.]+$/, '') || href
+}
+
+// text[start..end) が書式の記法で囲まれているか（* は ** と区別するため、連続する記号の数で判定する）
+function isWrapped(text: string, start: number, end: number, format: InlineFormat): boolean {
+  const marker = MARKERS[format]
+  if (text.slice(start - marker.length, start) !== marker || text.slice(end, end + marker.length) !== marker) {
+    return false
+  }
+  if (format !== 'bold' && format !== 'italic') return true
+  if (text[start] === '*' || text[end - 1] === '*') return false
+  const before = countRun(text, start - 1, -1)
+  const after = countRun(text, end, 1)
+  // *text* と ***text*** は斜体、**text** と ***text*** は太字
+  return format === 'italic'
+    ? before % 2 === 1 && after % 2 === 1
+    : before >= 2 && after >= 2
+}
+
+function countRun(text: string, index: number, step: 1 | -1): number {
+  let count = 0
+  while (text[index + count * step] === '*') count++
+  return count
+}
@@ -0,0 +1,91 @@
+import { ColumnFilter, FilterState } from '../types'
+import { naturalCompare } from './sortKeys'
+
+// 列フィルター（オートフィルター）の判定
+// 値の一覧・テキスト（部分一致 / 正規表現）・数値範囲・日付範囲を列ごとに組み合わせる
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// セル値を判定用に正規化（改行タグは空白として扱う）
+export const normalizeFilterValue = (value: string | undefined): string =>
+  (value ?? '').toString().replace(/<br\s*\/?>/gi, ' ').trim()
+
+// 正規表現のコンパイル（不正なパターンは null）
+export function compileFilterPattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i')
+  } catch {
+    return null
+  }
+}
+
+export function isColumnFilterActive(filter: ColumnFilter | undefined): boolean {
+  if (!filter) {
+    return false
+  }
+  return !!filter.values ||
+    !!filter.text?.pattern ||
+    filter.range?.min !== undefined || filter.range?.max !== undefined ||
+    !!filter.dateRange?.from || !!filter.dateRange?.to
+}
+
+export function isFilterActive(filters: FilterState): boolean {
+  return Object.values(filters).some(isColumnFilterActive)
+}
+
+export function matchesColumnFilter(rawValue: string | undefined, filter: ColumnFilter): boolean {
+  const value = normalizeFilterValue(rawValue)
+
+  if (filter.values && !filter.values.includes(value)) {
+    return false
+  }
+
+  if (filter.text?.pattern) {
+    if (filter.text.mode === 'regex') {
+      // 入力途中などの不正な正規表現は条件なしとして扱う
+      const regex = compileFilterPattern(filter.text.pattern)
+      if (regex && !regex.test(value)) {
+        return false
+      }
+    } else if (!value.toLowerCase().includes(filter.text.pattern.toLowerCase())) {
+      return false
+    }
+  }
+
+  const { min, max } = filter.range ?? {}
+  if (min !== undefined || max !== undefined) {
+    const num = value === '' ? NaN : Number(value)
+    if (!isFinite(num) || (min !== undefined && num < min) || (max !== undefined && num > max)) {
+      return false
+    }
+  }
+
+  const { from, to } = filter.dateRange ?? {}
+  if (from || to) {
+    const time = Date.parse(value)
+    if (isNaN(time)) {
+      return false
+    }
+    if (from && time < Date.parse(from)) {
+      return false
+    }
+    // 終了日はその日の終わりまで含める
+    if (to && time >= Date.parse(to) + DAY_MS) {
+      return false
+    }
+  }
+
+  return true
+}
+
+export function matchesFilters(row: string[], filters: FilterState): boolean {
+  return Object.entries(filters).every(([col, filter]) =>
+    !isColumnFilterActive(filter) || matchesColumnFilter(row[Number(col)], filter)
+  )
+}
+
+// 値の一覧（フィルターのチェックリスト用）。空セルも 1 つの値として含める
+export function getDistinctColumnValues(rows: string[][], column: number): string[] {
+  const values = new Set(rows.map(row => normalizeFilterValue(row[column])))
+  return Array.from(values).sort(naturalCompare)
+}
@@ -0,0 +1,175 @@
+import { ReplaceMatch, ReplacePreviewItem, SearchOptions, SearchResult, TableData, WorkspaceReplaceFile } from '../types'
+import { convertNewlinesToBrTags } from './contentConverter'
+
+// 検索・置換の文字列処理
+// 置換プレビューと実際の置換で同じ計算を使い、プレビューどおりの結果になるようにする
+
+// 検索パターンを作成（不正な正規表現は null）
+export function createSearchPattern(searchText: string, options: SearchOptions): RegExp | null {
+  if (!searchText) return null
+
+  const flags = options.caseSensitive ? 'g' : 'gi'
+  try {
+    if (options.regex) {
+      return new RegExp(searchText, flags)
+    }
+    let pattern = searchText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') // エスケープ
+    if (options.wholeWord) {
+      pattern = `\\b${pattern}\\b`
+    }
+    return new RegExp(pattern, flags)
+  } catch (e) {
+    // 正規表現のパースエラー
+    console.error('Invalid search pattern:', e)
+    return null
+  }
+}
+
+// 置換文字列のエスケープ（\n, \t, \\）を展開（正規表現モードのみ）
+const unescapeReplaceText = (replaceText: string): string =>
+  replaceText.replace(/\\([nt\\])/g, (_, ch: string) => (ch === 'n' ? '\n' : ch === 't' ? '\t' : '\\'))
+
+// $1, $<name>, $&, $`, $', $$ を String.prototype.replace と同じ規則で展開
+export function expandReplacement(match: RegExpExecArray, replaceText: string): string {
+  const input = match.input
+  const groupCount = match.length - 1
+  return replaceText.replace(/\$(\$|&|`|'|\d{1,2}|<[^>]*>)/g, (token: string, ref: string) => {
+    if (ref === '$') return '$'
+    if (ref === '&') return match[0]
+    if (ref === '`') return input.slice(0, match.index)
+    if (ref === "'") return input.slice(match.index + match[0].length)
+    if (ref.startsWith('<')) {
+      if (!match.groups) return token
+      return match.groups[ref.slice(1, -1)] ?? ''
+    }
+    // 2 桁の参照はグループが存在しない場合 1 桁 + 文字として扱う
+    const twoDigit = Number(ref)
+    if (ref.length === 2 && twoDigit >= 1 && twoDigit <= groupCount) {
+      return match[twoDigit] ?? ''
+    }
+    const oneDigit = Number(ref[0])
+    if (oneDigit >= 1 && oneDigit <= groupCount) {
+      return (match[oneDigit] ?? '') + ref.slice(1)
+    }
+    return token
+  })
+}
+
+// マッチした文字列の大文字小文字の形（全大文字・全小文字・先頭のみ大文字）を置換文字列に適用
+export function applyPreserveCase(matchText: string, replacement: string): string {
+  if (!replacement || matchText.toUpperCase() === matchText.toLowerCase()) {
+    return replacement
+  }
+  if (matchText === matchText.toUpperCase()) {
+    return replacement.toUpperCase()
+  }
+  if (matchText === matchText.toLowerCase()) {
+    return replacement.toLowerCase()
+  }
+  const [first, ...rest] = matchText
+  const restText = rest.join('')
+  if (first === first.toUpperCase() && restText === restText.toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1)
+  }
+  return replacement
+}
+
+// セル値内のマッチと置換後の文字列を列挙
+export function findReplaceMatches(value: string, pattern: RegExp, replaceText: string, options: SearchOptions): ReplaceMatch[] {
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`)
+  const template = options.regex ? unescapeReplaceText(replaceText) : replaceText
+  const matches: ReplaceMatch[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(value)) !== null) {
+    // 通常モードでは置換文字列をそのまま使う（$ を特別扱いしない）
+    let replacement = options.regex ? expandReplacement(match, template) : template
+    if (options.preserveCase) {
+      replacement = applyPreserveCase(match[0], replacement)
+    }
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+      replacement: convertNewlinesToBrTags(replacement)
+    })
+    // 空文字マッチでの無限ループを防ぐ
+    if (match[0] === '') {
+      regex.lastIndex++
+    }
+  }
+
+  return matches
+}
+
+// 除外されていないマッチを置換した値を返す
+export function applyReplaceMatches(value: string, matches: ReplaceMatch[]): string {
+  let result = ''
+  let cursor = 0
+  matches.forEach(match => {
+    if (match.excluded) return
+    result += value.slice(cursor, match.start) + match.replacement
+    cursor = match.end
+  })
+  return result + value.slice(cursor)
+}
+
+// 検索結果のセルごとに置換プレビューを作成（置換しても値が変わらないセルは含めない）
+export function buildReplacePreview(
+  tables: TableData[],
+  results: SearchResult[],
+  searchText: string,
+  replaceText: string,
+  options: SearchOptions
+): ReplacePreviewItem[] {
+  const pattern = createSearchPattern(searchText, options)
+  if (!pattern) return []
+
+  const items: ReplacePreviewItem[] = []
+  results.forEach(({ tableIndex, row, col, uri, fileName, value }) => {
+    // ワークスペース検索の結果は他ファイルのセルなので、検索時の値を使う
+    const before = uri ? value : tables[tableIndex]?.rows[row]?.[col]
+    if (before === undefined) return
+    const matches = findReplaceMatches(before, pattern, replaceText, options)
+    if (matches.length > 0 && applyReplaceMatches(before, matches) !== before) {
+      items.push(uri ? { tableIndex, row, col, before, matches, uri, fileName } : { tableIndex, row, col, before, matches })
+    }
+  })
+  return items
+}
+
+// プレビューからテーブルごとの一括更新を作成（除外されたマッチは置換しない）
+export function getReplaceUpdates(items: ReplacePreviewItem[]): Array<{ tableIndex: number; updates: Array<{ row: number; col: number; value: string }> }> {
+  return groupReplaceUpdates(items, (item, value) => ({ row: item.row, col: item.col, value }))
+}
+
+function groupReplaceUpdates<T>(items: ReplacePreviewItem[], toUpdate: (item: ReplacePreviewItem, value: string) => T): Array<{ tableIndex: number; updates: T[] }> {
+  const updatesByTable = new Map<number, T[]>()
+  items.forEach(item => {
+    const value = applyReplaceMatches(item.before, item.matches)
+    if (value === item.before) return
+    if (!updatesByTable.has(item.tableIndex)) {
+      updatesByTable.set(item.tableIndex, [])
+    }
+    updatesByTable.get(item.tableIndex)!.push(toUpdate(item, value))
+  })
+  return Array.from(updatesByTable.entries()).map(([tableIndex, updates]) => ({ tableIndex, updates }))
+}
+
+// ワークスペース検索のプレビューからファイルごとの更新を作成（検索時の値を original として添える）
+export function getWorkspaceReplaceFiles(items: ReplacePreviewItem[]): WorkspaceReplaceFile[] {
+  const itemsByUri = new Map<string, ReplacePreviewItem[]>()
+  items.forEach(item => {
+    if (!item.uri) return
+    if (!itemsByUri.has(item.uri)) {
+      itemsByUri.set(item.uri, [])
+    }
+    itemsByUri.get(item.uri)!.push(item)
+  })
+  return Array.from(itemsByUri.entries())
+    .map(([uri, fileItems]) => ({
+      uri,
+      tables: groupReplaceUpdates(fileItems, (item, value) => ({ row: item.row, col: item.col, value, original: item.before }))
+    }))
+    .filter(file => file.tables.length > 0)
+}
@@ -0,0 +1,139 @@
+import { SortKey, SortState } from '../types'
+
+// 複数列ソートのキー操作と比較ロジック
+// 拡張側（TableDataManager.sortByMultipleColumns）と同じ型判定・比較を行い、
+// 「この順序を保存」で拡張側に送ったときに表示と同じ並びになるようにする
+
+export const DEFAULT_SORT_STATE: SortState = { column: -1, direction: 'none' }
+
+type ResolvedSortType = 'number' | 'date' | 'string' | 'natural'
+
+// ソート状態からキー配列を取得（単一列ソートは column / direction のみで表現される）
+export function getSortKeys(sortState: SortState | null | undefined): SortKey[] {
+  if (!sortState) {
+    return []
+  }
+  if (sortState.keys && sortState.keys.length > 0) {
+    return sortState.keys
+  }
+  return sortState.direction !== 'none' && sortState.column >= 0
+    ? [{ column: sortState.column, direction: sortState.direction }]
+    : []
+}
+
+// キー配列からソート状態を作成（単一・型指定なしのキーは従来どおり keys を持たない）
+export function createSortState(keys: SortKey[]): SortState {
+  if (keys.length === 0) {
+    return DEFAULT_SORT_STATE
+  }
+  const [primary] = keys
+  if (keys.length === 1 && (!primary.type || primary.type === 'auto')) {
+    return { column: primary.column, direction: primary.direction }
+  }
+  return { column: primary.column, direction: primary.direction, keys }
+}
+
+// ヘッダークリック時のキー更新
+// - 通常クリック: その列だけのソートにする（同じ列なら asc → desc → none で循環）
+// - Shift+クリック: キーを追加（既存キーなら asc → desc → 削除で循環）
+export function toggleSortKey(sortState: SortState, col: number, additive = false): SortState {
+  const keys = getSortKeys(sortState)
+  const existing = keys.find(key => key.column === col)
+
+  if (!additive) {
+    if (keys.length === 1 && existing) {
+      return existing.direction === 'asc'
+        ? createSortState([{ ...existing, direction: 'desc' }])
+        : DEFAULT_SORT_STATE
+    }
+    return createSortState([{ column: col, direction: 'asc', type: existing?.type }])
+  }
+
+  if (!existing) {
+    return createSortState([...keys, { column: col, direction: 'asc' }])
+  }
+  if (existing.direction === 'asc') {
+    return createSortState(keys.map(key => key.column === col ? { ...key, direction: 'desc' } : key))
+  }
+  return createSortState(keys.filter(key => key.column !== col))
+}
+
+// セル値を比較用に正規化（改行タグは空白として扱う）
+const normalizeValue = (value: string | undefined): string =>
+  (value ?? '').toString().replace(/<br\s*\/?>/gi, ' ')
+
+// 列の型判定（すべて数値なら number、すべて日付なら date。空セルは判定から除外）
+// 数値は値全体が数値の場合のみ（2024-01-15 などの日付を数値扱いしない）
+export function detectColumnType(rows: string[][], column: number): 'string' | 'number' | 'date' {
+  const values = rows.map(row => normalizeValue(row[column])).filter(value => value.trim())
+  if (values.length === 0) {
+    return 'string'
+  }
+  if (values.every(value => isFinite(Number(value.trim())))) {
+    return 'number'
+  }
+  if (values.every(value => !isNaN(Date.parse(value)))) {
+    return 'date'
+  }
+  return 'string'
+}
+
+// 自然順比較（数字部分は数値として比較: Item2 < Item10）
+export function naturalCompare(a: string, b: string): number {
+  const chunksA = a.match(/\d+|\D+/g) || []
+  const chunksB = b.match(/\d+|\D+/g) || []
+
+  for (let i = 0; i < Math.min(chunksA.length, chunksB.length); i++) {
+    const isNumberA = /^\d/.test(chunksA[i])
+    const isNumberB = /^\d/.test(chunksB[i])
+    const comparison = isNumberA && isNumberB
+      ? parseInt(chunksA[i], 10) - parseInt(chunksB[i], 10)
+      : chunksA[i].localeCompare(chunksB[i])
+    if (comparison !== 0) {
+      return comparison
+    }
+  }
+  return chunksA.length - chunksB.length
+}
+
+function compareValues(a: string, b: string, type: ResolvedSortType): number {
+  switch (type) {
+    case 'number':
+      return (parseFloat(a) || 0) - (parseFloat(b) || 0)
+    case 'date':
+      return new Date(a).getTime() - new Date(b).getTime()
+    case 'natural':
+      return naturalCompare(a, b)
+    default:
+      return a.localeCompare(b, 'en-US')
+  }
+}
+
+// キー配列に従った行の並び順（元の行インデックス）を返す。同値の行は元の順序を保つ
+export function getSortedRowOrder(rows: string[][], keys: SortKey[]): number[] {
+  const order = rows.map((_, index) => index)
+  if (keys.length === 0) {
+    return order
+  }
+
+  // auto は列の型判定で number / date を選び、文字列列は自然順で比較する
+  const resolved = keys.map(key => {
+    const type = key.type ?? 'auto'
+    const detected = type === 'auto' ? detectColumnType(rows, key.column) : type
+    return {
+      column: key.column,
+      sign: key.direction === 'asc' ? 1 : -1,
+      type: (type === 'auto' && detected === 'string' ? 'natural' : detected) as ResolvedSortType
+    }
+  })
+
+  return order.sort((a, b) => {
+    for (const key of resolved) {
+      const comparison = compareValues(normalizeValue(rows[a][key.column]), normalizeValue(rows[b][key.column]), key.type)
+      if (comparison !== 0) {
+        return comparison * key.sign
+      }
+    }
+    return a - b
+  })
+}
@@ -0,0 +1,254 @@
+/**
+ * Git のコンフリクトを含むテーブルのセル単位マージ
+ *
+ * ours / theirs の行を内容で対応付け（LCS）、セルごとにどちらを採用するかを決める。
+ * diff3 形式で base がある場合は、片側だけが変更したセル・行を自動で解決する。
+ */
+import { TableMergeConflict } from '../../../src/communication/protocol'
+
+export type MergeSide = 'ours' | 'theirs'
+
+export interface MergeCell {
+  ours: string | null // null はその側に列（行）が存在しない
+  theirs: string | null
+  auto: MergeSide | null // 自動で決まった側（未解決の衝突は null）
+}
+
+export interface MergeRow {
+  // both: 両方にある行 / ours・theirs: 片側にしかない行（もう一方を選ぶと行を削除）
+  kind: 'both' | MergeSide
+  cells: MergeCell[]
+}
+
+export interface MergeGrid {
+  columnCount: number
+  header: MergeRow
+  rows: MergeRow[]
+}
+
+// キー: `${行}:${列}`（見出しは行 -1）
+export type MergeChoices = Record<string, MergeSide>
+
+// LCS の計算量の上限（超える場合は行番号で対応付ける）
+const MAX_LCS_CELLS = 250000
+
+const rowKey = (row: string[]) => JSON.stringify(row)
+
+/**
+ * ours / theirs の行の対応付け（一致した行と、その間の変更行を順に並べる）
+ */
+function alignRows(ours: string[][], theirs: string[][]): Array<[number | null, number | null]> {
+  const n = ours.length
+  const m = theirs.length
+  const pairs: Array<[number | null, number | null]> = []
+
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = 0; i < Math.max(n, m); i++) {
+      pairs.push([i < n ? i : null, i < m ? i : null])
+    }
+    return pairs
+  }
+
+  const oursKeys = ours.map(rowKey)
+  const theirsKeys = theirs.map(rowKey)
+  // lcs[i * (m + 1) + j] = ours[i..] と theirs[j..] の LCS 長
+  const lcs = new Int32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = oursKeys[i] === theirsKeys[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  let oursGap: number[] = []
+  let theirsGap: number[] = []
+  // 一致行の間にある ours / theirs の行は、先頭から順に「変更された行」として対にする
+  const flushGap = () => {
+    const length = Math.max(oursGap.length, theirsGap.length)
+    for (let k = 0; k < length; k++) {
+      pairs.push([oursGap[k] ?? null, theirsGap[k] ?? null])
+    }
+    oursGap = []
+    theirsGap = []
+  }
+
+  while (i < n || j < m) {
+    if (i < n && j < m && oursKeys[i] === theirsKeys[j]) {
+      flushGap()
+      pairs.push([i++, j++])
+    } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      oursGap.push(i++)
+    } else {
+      theirsGap.push(j++)
+    }
+  }
+  flushGap()
+  return pairs
+}
+
+function autoSide(ours: string | null, theirs: string | null, base: string | null | undefined): MergeSide | null {
+  if (ours === theirs) return 'ours'
+  if (base === undefined) return null
+  if (base === ours) return 'theirs'
+  if (base === theirs) return 'ours'
+  return null
+}
+
+function buildCells(
+  ours: string[] | null,
+  theirs: string[] | null,
+  base: string[] | null | undefined,
+  columnCount: number,
+  missing: string | null
+): MergeCell[] {
+  return Array.from({ length: columnCount }, (_, col) => {
+    const o = ours ? (ours[col] ?? missing) : null
+    const t = theirs ? (theirs[col] ?? missing) : null
+    const b = base === undefined ? undefined : base ? (base[col] ?? missing) : null
+    return { ours: o, theirs: t, auto: autoSide(o, t, b) }
+  })
+}
+
+/**
+ * Build the cell-by-cell merge grid for a conflicted table
+ */
+export function buildMergeGrid(conflict: TableMergeConflict): MergeGrid {
+  const { ours, theirs, base } = conflict
+  const columnCount = Math.max(
+    ours.headers.length,
+    theirs.headers.length,
+    ...ours.rows.map(row => row.length),
+    ...theirs.rows.map(row => row.length)
+  )
+
+  // 見出しが無い列は、その側に列が存在しないものとして扱う
+  const header: MergeRow = {
+    kind: 'both',
+    cells: buildCells(ours.headers, theirs.headers, base?.headers, columnCount, null)
+  }
+
+  const baseKeys = new Set(base?.rows.map(rowKey) ?? [])
+  const findBaseRow = (oursIndex: number, theirsIndex: number): string[] | undefined => {
+    if (!base) return undefined
+    const byContent = base.rows.find(row => {
+      const key = rowKey(row)
+      return key === rowKey(ours.rows[oursIndex]) || key === rowKey(theirs.rows[theirsIndex])
+    })
+    if (byContent) return byContent
+    if (base.rows.length === ours.rows.length) return base.rows[oursIndex]
+    if (base.rows.length === theirs.rows.length) return base.rows[theirsIndex]
+    return undefined
+  }
+
+  const rows: MergeRow[] = alignRows(ours.rows, theirs.rows).map(([o, t]) => {
+    if (o !== null && t !== null) {
+      const baseRow = base ? (findBaseRow(o, t) ?? null) : undefined
+      return { kind: 'both', cells: buildCells(ours.rows[o], theirs.rows[t], baseRow, columnCount, '') }
+    }
+
+    const kind: MergeSide = o !== null ? 'ours' : 'theirs'
+    const values = o !== null ? ours.rows[o] : theirs.rows[t as number]
+    const other: MergeSide = kind === 'ours' ? 'theirs' : 'ours'
+    // base にあった行なら相手側が削除、無ければこちら側が追加した行
+    const auto: MergeSide | null = base ? (baseKeys.has(rowKey(values)) ? other : kind) : null
+    const cells = buildCells(kind === 'ours' ? values : null, kind === 'theirs' ? values : null, undefined, columnCount, '')
+      .map(cell => ({ ...cell, auto }))
+    return { kind, cells }
+  })
+
+  return { columnCount, header, rows }
+}
+
+export const mergeChoiceKey = (row: number, col: number) => `${row}:${col}`
+
+const getRow = (grid: MergeGrid, row: number) => row < 0 ? grid.header : grid.rows[row]
+
+/**
+ * Selected side for a cell (explicit choice first, then the automatic one)
+ */
+export function getMergeChoice(grid: MergeGrid, choices: MergeChoices, row: number, col: number): MergeSide | null {
+  return choices[mergeChoiceKey(row, col)] ?? getRow(grid, row)?.cells[col]?.auto ?? null
+}
+
+/**
+ * Choose a side for a cell. Rows that exist on one side only are chosen as a whole.
+ */
+export function chooseMergeCell(grid: MergeGrid, choices: MergeChoices, row: number, col: number, side: MergeSide): MergeChoices {
+  const target = getRow(grid, row)
+  if (!target) return choices
+  if (target.kind === 'both') {
+    return { ...choices, [mergeChoiceKey(row, col)]: side }
+  }
+  return chooseMergeRow(grid, choices, row, side)
+}
+
+/**
+ * Choose a side for every cell of a row (row -1 is the header)
+ */
+export function chooseMergeRow(grid: MergeGrid, choices: MergeChoices, row: number, side: MergeSide): MergeChoices {
+  const next = { ...choices }
+  for (let col = 0; col < grid.columnCount; col++) {
+    next[mergeChoiceKey(row, col)] = side
+  }
+  return next
+}
+
+/**
+ * Choose a side for every cell of the table
+ */
+export function chooseMergeAll(grid: MergeGrid, side: MergeSide): MergeChoices {
+  let next: MergeChoices = {}
+  for (let row = -1; row < grid.rows.length; row++) {
+    next = chooseMergeRow(grid, next, row, side)
+  }
+  return next
+}
+
+/**
+ * Number of cells that still need a decision
+ */
+export function countUnresolvedCells(grid: MergeGrid, choices: MergeChoices): number {
+  let count = 0
+  for (let row = -1; row < grid.rows.length; row++) {
+    for (let col = 0; col < grid.columnCount; col++) {
+      if (getMergeChoice(grid, choices, row, col) === null) count++
+    }
+  }
+  return count
+}
+
+/**
+ * Build the resolved table. Undecided cells fall back to "ours".
+ * Columns whose chosen header does not exist are dropped, as are one-sided rows resolved to the other side.
+ */
+export function resolveMergeGrid(
+  grid: MergeGrid,
+  choices: MergeChoices,
+  conflict: TableMergeConflict
+): { headers: string[]; rows: string[][]; alignment: string[] } {
+  const pick = (row: number, col: number): MergeSide => getMergeChoice(grid, choices, row, col) ?? 'ours'
+  const valueOf = (cell: MergeCell, side: MergeSide) => cell[side]
+
+  const columns: number[] = []
+  const headers: string[] = []
+  const alignment: string[] = []
+  grid.header.cells.forEach((cell, col) => {
+    const side = pick(-1, col)
+    const value = valueOf(cell, side)
+    if (value === null) return
+    columns.push(col)
+    headers.push(value)
+    alignment.push(conflict[side].alignment?.[col] ?? 'left')
+  })
+
+  const rows: string[][] = []
+  grid.rows.forEach((row, rowIndex) => {
+    if (row.kind !== 'both' && pick(rowIndex, 0) !== row.kind) return
+    rows.push(columns.map(col => valueOf(row.cells[col], pick(rowIndex, col)) ?? ''))
+  })
+
+  return { headers, rows, alignment }
+}
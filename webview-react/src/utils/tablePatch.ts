@@ -0,0 +1,108 @@
+import { TableData } from '../types'
+import type { TablePatch, TablePatchOperation } from '../../../src/communication/protocol'
+
+export type { TablePatch, TablePatchOperation }
+
+// 拡張から届いたテーブルの差分（PATCH_TABLE_DATA）を手元のテーブルに適用する
+// 変更したテーブル・行だけをコピーし、それ以外は元の配列を使い回す
+// 手元のテーブルと合わない差分（範囲外の位置など）は例外にし、呼び出し側で全体を取り直す
+
+type Alignment = NonNullable<TableData['alignment']>
+
+export function applyTablePatches(tables: TableData[], patches: TablePatch[]): TableData[] {
+  const next = [...tables]
+  patches.forEach(({ tableIndex, operations }) => {
+    const table = next[tableIndex]
+    if (!table) {
+      throw new Error(`Table ${tableIndex} not found`)
+    }
+    next[tableIndex] = operations.reduce(applyOperation, table)
+  })
+  return next
+}
+
+function applyOperation(table: TableData, operation: TablePatchOperation): TableData {
+  switch (operation.type) {
+    case 'updateCells': {
+      const rows = [...table.rows]
+      const copied = new Set<number>()
+      operation.updates.forEach(({ row, col, value }) => {
+        assertIndex(row, rows.length, 'row')
+        if (!copied.has(row)) {
+          rows[row] = [...rows[row]]
+          copied.add(row)
+        }
+        rows[row][col] = value
+      })
+      return { ...table, rows }
+    }
+    case 'updateHeaders': {
+      const headers = [...table.headers]
+      operation.updates.forEach(({ col, value }) => {
+        assertIndex(col, headers.length, 'column')
+        headers[col] = value
+      })
+      return { ...table, headers }
+    }
+    case 'insertRows': {
+      assertIndex(operation.index, table.rows.length + 1, 'row')
+      const rows = [...table.rows]
+      rows.splice(operation.index, 0, ...operation.rows.map(row => [...row]))
+      return { ...table, rows }
+    }
+    case 'deleteRows': {
+      assertIndex(operation.index + operation.count - 1, table.rows.length, 'row')
+      const rows = [...table.rows]
+      rows.splice(operation.index, operation.count)
+      return { ...table, rows }
+    }
+    case 'insertColumns': {
+      assertIndex(operation.index, table.headers.length + 1, 'column')
+      if (operation.cells.length !== table.rows.length) {
+        throw new Error(`Column cells do not match the row count: ${operation.cells.length}`)
+      }
+      const headers = [...table.headers]
+      headers.splice(operation.index, 0, ...operation.headers)
+      const rows = table.rows.map((row, index) => {
+        const next = [...row]
+        next.splice(operation.index, 0, ...operation.cells[index])
+        return next
+      })
+      return { ...table, headers, rows }
+    }
+    case 'deleteColumns': {
+      assertIndex(operation.index + operation.count - 1, table.headers.length, 'column')
+      const headers = [...table.headers]
+      headers.splice(operation.index, operation.count)
+      const rows = table.rows.map(row => {
+        const next = [...row]
+        next.splice(operation.index, operation.count)
+        return next
+      })
+      return { ...table, headers, rows }
+    }
+    case 'setAlignment':
+      return { ...table, alignment: [...operation.alignment] as Alignment, separatorLine: operation.separatorLine }
+    case 'setValidationRules':
+      return { ...table, validationRules: operation.rules }
+    case 'setSpans':
+      return { ...table, spans: operation.spans?.map(span => ({ ...span })) }
+    case 'replaceTable':
+      return {
+        ...table,
+        headers: [...operation.table.headers],
+        rows: operation.table.rows.map(row => [...row]),
+        alignment: operation.table.alignment ? [...operation.table.alignment] as Alignment : undefined,
+        separatorLine: operation.table.separatorLine,
+        spans: operation.table.spans?.map(span => ({ ...span }))
+      }
+    default:
+      throw new Error(`Unknown patch operation: ${(operation as { type: string }).type}`)
+  }
+}
+
+function assertIndex(index: number, length: number, kind: 'row' | 'column'): void {
+  if (!Number.isInteger(index) || index < 0 || index >= length) {
+    throw new Error(`Invalid ${kind} index in patch: ${index}`)
+  }
+}
@@ -1,3 +1,5 @@
+import { ColumnAlignment } from '../types'
+
 // 共通テーブルユーティリティ
 // Excel風の列記号生成 (A, B, ..., Z, AA, AB, ...)
 export function getColumnLetter(index: number): string {
@@ -8,3 +10,27 @@ export function getColumnLetter(index: number): string {
   }
   return result
 }
+
+// 区切り線（| :--- | :---: | ---: |）から列ごとの配置を取得
+// 区切り線がない・列数が合わない場合は alignment 配列にフォールバック
+export function getColumnAlignments(
+  columnCount: number,
+  separatorLine?: string,
+  alignment?: Array<'left' | 'center' | 'right'>
+): ColumnAlignment[] {
+  const line = separatorLine?.trim()
+  if (line && line.startsWith('|') && line.endsWith('|')) {
+    const parts = line.slice(1, -1).split('|').map(part => part.trim())
+    if (parts.length === columnCount) {
+      return parts.map(part => {
+        const starts = part.startsWith(':')
+        const ends = part.endsWith(':')
+        if (starts && ends) return 'center'
+        if (ends) return 'right'
+        if (starts) return 'left'
+        return 'default'
+      })
+    }
+  }
+  return Array.from({ length: columnCount }, (_, i) => alignment?.[i] ?? 'default')
+}
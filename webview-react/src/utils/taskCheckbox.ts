@@ -0,0 +1,69 @@
+/**
+ * タスクリストのチェックボックス（GitHub の "[ ]" / "[x]" 記法）
+ *
+ * セルの先頭が "[ ]" / "[x]" のセルをチェックボックスとして表示し、クリックや Space で切り替える。
+ * ステータスバーには列ごとの完了数（done/total）を表示する。
+ */
+
+export interface TaskCell {
+  checked: boolean
+  // チェックボックスの後ろのテキスト（なければ空文字）
+  label: string
+}
+
+export interface TaskProgress {
+  col: number
+  header: string
+  done: number
+  total: number
+}
+
+// "[x](url)" のようなリンクは対象外（記号の後は空白か末尾のみ）
+const TASK_PATTERN = /^(\s*)\[([ xX])\](?:\s+|$)/
+
+/**
+ * The checkbox state and the text after it, or null when the cell does not start with a task marker
+ */
+export function parseTaskCell(value: string): TaskCell | null {
+  const match = TASK_PATTERN.exec(value ?? '')
+  if (!match) return null
+  return { checked: match[2] !== ' ', label: value.slice(match[0].length) }
+}
+
+/**
+ * The cell value with the task marker set to the given state (unchanged when the cell is not a task)
+ */
+export function setTaskChecked(value: string, checked: boolean): string {
+  const task = parseTaskCell(value)
+  if (!task || task.checked === checked) return value
+  return value.replace(/\[[ xX]\]/, checked ? '[x]' : '[ ]')
+}
+
+/**
+ * The cell value with the task marker flipped, or null when the cell is not a task
+ */
+export function toggleTaskCell(value: string): string | null {
+  const task = parseTaskCell(value)
+  return task ? setTaskChecked(value, !task.checked) : null
+}
+
+/**
+ * Done/total counts of the task cells for each column that has any
+ */
+export function summarizeTaskColumns(headers: string[], rows: string[][]): TaskProgress[] {
+  const progress: TaskProgress[] = []
+  headers.forEach((header, col) => {
+    let done = 0
+    let total = 0
+    rows.forEach(row => {
+      const task = parseTaskCell(row[col] ?? '')
+      if (!task) return
+      total++
+      if (task.checked) done++
+    })
+    if (total > 0) {
+      progress.push({ col, header, done, total })
+    }
+  })
+  return progress
+}
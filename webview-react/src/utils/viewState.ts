@@ -0,0 +1,88 @@
+import { TableData } from '../types'
+import { DEFAULT_SORT_STATE, createSortState, getSortKeys } from './sortKeys'
+import type { PersistedViewState, TableViewState } from '../../../src/communication/protocol'
+
+export type { PersistedViewState, TableViewState }
+export { DEFAULT_SORT_STATE }
+
+// テーブルごとの表示状態（列幅・ビューソート・選択セル・ウィンドウ枠の固定）の永続化ユーティリティ
+// テーブルの識別はインデックスではなくヘッダーのシグネチャで行い、
+// ドキュメント内の他の箇所の編集（テーブルの追加・削除）で状態がずれないようにする
+
+export function createTableViewState(): TableViewState {
+  return { columnWidths: {}, sortState: DEFAULT_SORT_STATE, selectedCell: null }
+}
+
+// ヘッダーのシグネチャからテーブルキーを生成（同一ヘッダーのテーブルは出現順で区別）
+export function getTableKeys(tables: TableData[]): string[] {
+  const seen = new Map<string, number>()
+  return tables.map(table => {
+    const headers = table?.headers ?? []
+    const signature = `${headers.length}:${headers.map(h => h.trim()).join('|')}`
+    const count = seen.get(signature) ?? 0
+    seen.set(signature, count + 1)
+    return count === 0 ? signature : `${signature}#${count}`
+  })
+}
+
+// テーブル構成の変化に合わせて表示状態を引き継ぐ
+// - 同じキーのテーブルはそのまま引き継ぐ
+// - テーブル数が同じでヘッダーだけ変わった場合は同じ位置の状態を引き継ぐ
+export function reconcileViewStates(
+  states: Record<string, TableViewState>,
+  prevKeys: string[],
+  nextKeys: string[]
+): Record<string, TableViewState> {
+  const next: Record<string, TableViewState> = {}
+  nextKeys.forEach((key, index) => {
+    if (states[key]) {
+      next[key] = states[key]
+      return
+    }
+    const prevKey = prevKeys[index]
+    if (prevKeys.length === nextKeys.length && prevKey && states[prevKey] && !nextKeys.includes(prevKey)) {
+      next[key] = states[prevKey]
+    }
+  })
+  return next
+}
+
+// 復元した状態をテーブルの形状に合わせて補正（範囲外のソート列・選択セルは破棄し、固定する行数・列数は範囲内に収める）
+export function sanitizeTableViewState(state: TableViewState | undefined, table: TableData): TableViewState {
+  if (!state) {
+    return createTableViewState()
+  }
+  const rowCount = table.rows.length
+  const colCount = table.headers.length
+  // 複数列ソートは範囲内のキーだけ残す（主キーが消えた場合は次のキーが主キーになる）
+  const sortState = state.sortState?.keys
+    ? createSortState(getSortKeys(state.sortState).filter(key => key.column < colCount))
+    : state.sortState && state.sortState.column < colCount ? state.sortState : DEFAULT_SORT_STATE
+  const cell = state.selectedCell
+  const selectedCell = cell && cell.row < rowCount && cell.col < colCount ? cell : null
+  const frozen = state.frozen
+    ? { rows: Math.min(state.frozen.rows, rowCount), columns: Math.min(state.frozen.columns, colCount) }
+    : undefined
+  return {
+    columnWidths: state.columnWidths ?? {},
+    sortState,
+    selectedCell,
+    ...(frozen && (frozen.rows > 0 || frozen.columns > 0) ? { frozen } : {}),
+    ...(state.showMarkdownSource ? { showMarkdownSource: true } : {})
+  }
+}
+
+// 保存対象を現在のテーブルに限定した状態を作成
+export function buildPersistedViewState(
+  states: Record<string, TableViewState>,
+  tableKeys: string[],
+  currentTableIndex: number
+): PersistedViewState {
+  const tables: Record<string, TableViewState> = {}
+  tableKeys.forEach(key => {
+    if (states[key]) {
+      tables[key] = states[key]
+    }
+  })
+  return { activeTableKey: tableKeys[currentTableIndex], tables }
+}
@@ -0,0 +1,92 @@
+// 大きなテーブルの仮想化（表示範囲の行・列だけを描画する）
+// 描画しない範囲は高さ・幅を持つスペーサーで埋め、スクロール量と要素の位置は実際のテーブルと一致させる
+// 行の高さは描画時に実測し、未測定の行は推定値を使う（列幅は列幅設定から確定する）
+
+// この件数を超えたら仮想化する（小さなテーブルは従来どおりすべて描画）
+export const VIRTUALIZE_ROW_THRESHOLD = 200
+export const VIRTUALIZE_COLUMN_THRESHOLD = 40
+
+export const ESTIMATED_ROW_HEIGHT = 32
+// 表示範囲の外側に余分に描画する量（px）
+export const OVERSCAN_PX = 400
+
+// 描画する要素（index）または描画しない範囲を埋めるスペーサー（size px）
+export type RenderSegment =
+  | { type: 'item'; index: number }
+  | { type: 'spacer'; size: number; key: string }
+
+export interface VisibleRange {
+  start: number  // 先頭の要素（含む）
+  end: number    // 末尾の要素（含まない）
+}
+
+// 各要素の開始位置（offsets[i]）と全体の長さ（offsets[count]）
+export function buildOffsets(count: number, getSize: (index: number) => number): number[] {
+  const offsets = new Array<number>(count + 1)
+  offsets[0] = 0
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i] + getSize(i)
+  }
+  return offsets
+}
+
+// 指定位置を含む要素（範囲外は先頭・末尾に丸める）
+export function findIndexAtOffset(offsets: number[], offset: number): number {
+  const count = offsets.length - 1
+  if (count <= 0) return 0
+  let low = 0
+  let high = count - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (offsets[mid] <= offset) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return low
+}
+
+// 表示領域（start〜start+size）と前後の余白に重なる要素の範囲
+export function getVisibleRange(offsets: number[], start: number, size: number, overscan = OVERSCAN_PX): VisibleRange {
+  const count = offsets.length - 1
+  if (count <= 0) {
+    return { start: 0, end: 0 }
+  }
+  const first = findIndexAtOffset(offsets, Math.max(0, start - overscan))
+  const last = findIndexAtOffset(offsets, start + size + overscan)
+  return { start: first, end: Math.min(count, last + 1) }
+}
+
+// 表示範囲と常に描画する要素（固定行・編集中のセルなど）から描画内容を組み立てる
+export function buildRenderSegments(offsets: number[], range: VisibleRange, pinned: number[] = []): RenderSegment[] {
+  const count = offsets.length - 1
+  const indices = new Set<number>()
+  for (let i = range.start; i < range.end; i++) {
+    indices.add(i)
+  }
+  pinned.forEach(index => {
+    if (index >= 0 && index < count) {
+      indices.add(index)
+    }
+  })
+
+  const segments: RenderSegment[] = []
+  let next = 0
+  Array.from(indices).sort((a, b) => a - b).forEach(index => {
+    if (index > next) {
+      segments.push({ type: 'spacer', size: offsets[index] - offsets[next], key: `spacer-${next}` })
+    }
+    segments.push({ type: 'item', index })
+    next = index + 1
+  })
+  if (next < count) {
+    segments.push({ type: 'spacer', size: offsets[count] - offsets[next], key: `spacer-${next}` })
+  }
+  return segments
+}
+
+// すべての要素を描画する（仮想化しない場合）
+export function allItemSegments(count: number): RenderSegment[] {
+  return Array.from({ length: count }, (_, index) => ({ type: 'item' as const, index }))
+}